@@ -12,11 +12,17 @@ import { AlertCircle, DollarSign, Search, Database, Settings, TrendingUp } from
 interface UsageData {
   success: boolean;
   adminUser: string;
+  days: number;
   summary: {
     totalSearches: number;
     totalProperties: number;
     totalCost: number;
+    batchDataCost: number;
     avgCostPerSearch: number;
+    totalCalls: number;
+    cacheHits: number;
+    errors: number;
+    avgLatencyMs: number;
     currentSettings: {
       maxProperties: number;
       estimatedCostPerSearch: number;
@@ -24,13 +30,45 @@ interface UsageData {
   };
   dailyUsage: Array<{
     date: string;
+    calls: number;
+    cost: number;
     searches: number;
     propertiesReturned: number;
     estimatedCost: number;
   }>;
+  weeklyUsage: Array<{
+    period: string;
+    calls: number;
+    cost: number;
+  }>;
+  byProvider: Array<{
+    provider: string;
+    calls: number;
+    cacheHits: number;
+    errors: number;
+    units: number;
+    cost: number;
+    avgLatencyMs: number;
+  }>;
+  byUser: Array<{
+    userId: string | null;
+    email: string | null;
+    name: string | null;
+    calls: number;
+    cost: number;
+  }>;
   recommendations: string[];
 }
 
+const PROVIDER_LABELS: Record<string, string> = {
+  BATCHDATA: 'BatchData',
+  ANTHROPIC: 'Anthropic',
+  LLAMAPARSE: 'LlamaParse',
+  GOOGLE_VISION: 'Google Vision',
+  ZILLOW: 'Zillow',
+  RENTCAST: 'Rentcast'
+};
+
 export default function AdminPage() {
   const { user, isLoaded } = useUser();
   const router = useRouter();
@@ -101,15 +139,15 @@ export default function AdminPage() {
 
   if (!usageData) return null;
 
-  const { summary, dailyUsage, recommendations } = usageData;
+  const { summary, dailyUsage, weeklyUsage, byProvider, byUser, recommendations } = usageData;
 
   return (
     <div className="min-h-screen bg-[#F2F2F2] p-6">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-[#020B0A] mb-2">BatchData Usage Dashboard</h1>
-          <p className="text-[#020B0A] opacity-70">Monitor API usage and costs</p>
+          <h1 className="text-3xl font-bold text-[#020B0A] mb-2">API Usage Dashboard</h1>
+          <p className="text-[#020B0A] opacity-70">Monitor paid provider usage and costs</p>
         </div>
 
         {/* Summary Cards */}
@@ -123,7 +161,7 @@ export default function AdminPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-[#5C1B10]">{summary.totalSearches}</div>
-              <p className="text-xs text-[#020B0A] opacity-70">Last 7 days</p>
+              <p className="text-xs text-[#020B0A] opacity-70">BatchData, last {usageData.days} days</p>
             </CardContent>
           </Card>
 
@@ -149,7 +187,9 @@ export default function AdminPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-[#5C1B10]">${summary.totalCost}</div>
-              <p className="text-xs text-[#020B0A] opacity-70">Estimated spend</p>
+              <p className="text-xs text-[#020B0A] opacity-70">
+                All providers, {summary.totalCalls} calls ({summary.cacheHits} cached)
+              </p>
             </CardContent>
           </Card>
 
@@ -162,7 +202,7 @@ export default function AdminPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-[#5C1B10]">${summary.avgCostPerSearch}</div>
-              <p className="text-xs text-[#020B0A] opacity-70">Per search average</p>
+              <p className="text-xs text-[#020B0A] opacity-70">BatchData per search average</p>
             </CardContent>
           </Card>
         </div>
@@ -189,10 +229,87 @@ export default function AdminPage() {
           </CardContent>
         </Card>
 
+        {/* Spend by Provider */}
+        <Card className="mb-8 border-[#D9DADA]">
+          <CardHeader>
+            <CardTitle className="text-[#5C1B10]">Spend by Provider</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {byProvider.length === 0 ? (
+              <p className="text-sm text-[#020B0A] opacity-70">No provider calls recorded yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-[#D9DADA]">
+                      <th className="text-left py-2 text-[#020B0A]">Provider</th>
+                      <th className="text-right py-2 text-[#020B0A]">Calls</th>
+                      <th className="text-right py-2 text-[#020B0A]">Cache Hits</th>
+                      <th className="text-right py-2 text-[#020B0A]">Errors</th>
+                      <th className="text-right py-2 text-[#020B0A]">Avg Latency</th>
+                      <th className="text-right py-2 text-[#020B0A]">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byProvider.map((provider) => (
+                      <tr key={provider.provider} className="border-b border-[#D9DADA] last:border-0">
+                        <td className="py-3 text-[#020B0A]">{PROVIDER_LABELS[provider.provider] || provider.provider}</td>
+                        <td className="py-3 text-right text-[#020B0A]">{provider.calls}</td>
+                        <td className="py-3 text-right text-[#020B0A]">{provider.cacheHits}</td>
+                        <td className="py-3 text-right text-[#020B0A]">{provider.errors}</td>
+                        <td className="py-3 text-right text-[#020B0A]">{provider.avgLatencyMs}ms</td>
+                        <td className="py-3 text-right font-semibold text-[#5C1B10]">${provider.cost.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Spend by User */}
+        <Card className="mb-8 border-[#D9DADA]">
+          <CardHeader>
+            <CardTitle className="text-[#5C1B10]">Spend by User</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {byUser.length === 0 ? (
+              <p className="text-sm text-[#020B0A] opacity-70">No provider calls recorded yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-[#D9DADA]">
+                      <th className="text-left py-2 text-[#020B0A]">User</th>
+                      <th className="text-right py-2 text-[#020B0A]">Calls</th>
+                      <th className="text-right py-2 text-[#020B0A]">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byUser.map((usage) => (
+                      <tr key={usage.userId || 'unattributed'} className="border-b border-[#D9DADA] last:border-0">
+                        <td className="py-3 text-[#020B0A]">
+                          {usage.userId ? (usage.name || usage.email || usage.userId) : 'Unattributed (system or signed out)'}
+                          {usage.userId && usage.name && usage.email && (
+                            <span className="block text-xs opacity-70">{usage.email}</span>
+                          )}
+                        </td>
+                        <td className="py-3 text-right text-[#020B0A]">{usage.calls}</td>
+                        <td className="py-3 text-right font-semibold text-[#5C1B10]">${usage.cost.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Daily Usage Table */}
         <Card className="mb-8 border-[#D9DADA]">
           <CardHeader>
-            <CardTitle className="text-[#5C1B10]">Daily Usage (Last 7 Days)</CardTitle>
+            <CardTitle className="text-[#5C1B10]">Daily Usage (Last {usageData.days} Days)</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -202,16 +319,49 @@ export default function AdminPage() {
                     <th className="text-left py-2 text-[#020B0A]">Date</th>
                     <th className="text-right py-2 text-[#020B0A]">Searches</th>
                     <th className="text-right py-2 text-[#020B0A]">Properties</th>
-                    <th className="text-right py-2 text-[#020B0A]">Est. Cost</th>
+                    <th className="text-right py-2 text-[#020B0A]">BatchData Cost</th>
+                    <th className="text-right py-2 text-[#020B0A]">All Calls</th>
+                    <th className="text-right py-2 text-[#020B0A]">Total Cost</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {dailyUsage.map((day, index) => (
-                    <tr key={index} className="border-b border-[#D9DADA] last:border-0">
+                  {dailyUsage.map((day) => (
+                    <tr key={day.date} className="border-b border-[#D9DADA] last:border-0">
                       <td className="py-3 text-[#020B0A]">{day.date}</td>
                       <td className="py-3 text-right text-[#020B0A]">{day.searches}</td>
                       <td className="py-3 text-right text-[#020B0A]">{day.propertiesReturned}</td>
-                      <td className="py-3 text-right font-semibold text-[#5C1B10]">${day.estimatedCost.toFixed(2)}</td>
+                      <td className="py-3 text-right text-[#020B0A]">${day.estimatedCost.toFixed(2)}</td>
+                      <td className="py-3 text-right text-[#020B0A]">{day.calls}</td>
+                      <td className="py-3 text-right font-semibold text-[#5C1B10]">${day.cost.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Weekly Usage Table */}
+        <Card className="mb-8 border-[#D9DADA]">
+          <CardHeader>
+            <CardTitle className="text-[#5C1B10]">Weekly Spend</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[#D9DADA]">
+                    <th className="text-left py-2 text-[#020B0A]">Week Of</th>
+                    <th className="text-right py-2 text-[#020B0A]">Calls</th>
+                    <th className="text-right py-2 text-[#020B0A]">Total Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeklyUsage.map((week) => (
+                    <tr key={week.period} className="border-b border-[#D9DADA] last:border-0">
+                      <td className="py-3 text-[#020B0A]">{week.period}</td>
+                      <td className="py-3 text-right text-[#020B0A]">{week.calls}</td>
+                      <td className="py-3 text-right font-semibold text-[#5C1B10]">${week.cost.toFixed(2)}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -13,6 +13,8 @@ import { Home, Plus, TrendingUp, DollarSign, MapPin, Square, Bed, Bath, AlertCir
 import ErrorBoundary from "@/components/ErrorBoundary";
 import AppNavigation from "@/components/app-navigation";
 import AppFooter from "@/components/app-footer";
+import BudgetIndicator from "@/components/budget-indicator";
+import ScoringProfileSelector from "@/components/scoring-profile-selector";
 import { StreamlinedOfferStrategy } from "@/components/analysis/StreamlinedOfferStrategy";
 import { useNotifications } from "@/lib/contexts/NotificationContext";
 import { useConfirmation } from "@/lib/contexts/ConfirmationContext";
@@ -48,6 +50,7 @@ interface Property {
     investmentGrade?: string;
     investmentRecommendation?: string;
     scoreBreakdown?: any;
+    scoringProfile?: { id: string; name: string };
     keyOpportunities?: string[];
     negotiationStrategy: {
       suggestedOffer: number;
@@ -233,6 +236,7 @@ export default function PropertyAnalysisPage() {
   const [showInvestmentScore, setShowInvestmentScore] = useState(false);
   const [activeOfferTab, setActiveOfferTab] = useState<'strategy'>('strategy');
   const [creatingTimeline, setCreatingTimeline] = useState<string | null>(null);
+  const [budgetRefreshKey, setBudgetRefreshKey] = useState(0);
   
   // State for collapsible sections in Investment Score
   const [expandedScoreSections, setExpandedScoreSections] = useState({
@@ -349,6 +353,19 @@ export default function PropertyAnalysisPage() {
         })
       });
 
+      if (response.status === 402) {
+        const budgetError = await response.json();
+        showError(budgetError.message, "Budget Exhausted");
+        setProperties(prev => 
+          prev.map(p => 
+            p.id === property.id 
+              ? { ...p, status: 'error' }
+              : p
+          )
+        );
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`Analysis failed: ${response.status}`);
       }
@@ -380,6 +397,8 @@ export default function PropertyAnalysisPage() {
             : p
         )
       );
+    } finally {
+      setBudgetRefreshKey(key => key + 1);
     }
   };
 
@@ -443,6 +462,13 @@ export default function PropertyAnalysisPage() {
         headers: { 'Content-Type': 'application/json' }
       });
 
+      if (refreshResponse.status === 402) {
+        const budgetError = await refreshResponse.json();
+        showError(budgetError.message, "Budget Exhausted");
+        await loadProperties();
+        return;
+      }
+
       if (!refreshResponse.ok) {
         throw new Error(`Refresh failed: ${refreshResponse.status}`);
       }
@@ -497,6 +523,13 @@ export default function PropertyAnalysisPage() {
         body: JSON.stringify({ forceRefresh: true })
       });
 
+      if (refreshResponse.status === 402) {
+        const budgetError = await refreshResponse.json();
+        showError(budgetError.message, "Budget Exhausted");
+        await loadProperties();
+        return;
+      }
+
       if (!refreshResponse.ok) {
         throw new Error(`Force refresh failed: ${refreshResponse.status}`);
       }
@@ -612,6 +645,12 @@ export default function PropertyAnalysisPage() {
         body: JSON.stringify({ propertyId })
       });
 
+      if (response.status === 402) {
+        const budgetError = await response.json();
+        showError(budgetError.message, "Budget Exhausted");
+        return;
+      }
+
       if (response.ok) {
         const result = await response.json();
         if (result.success) {
@@ -807,6 +846,10 @@ export default function PropertyAnalysisPage() {
             // 🚀 Enhanced BatchData + AI Investment Scoring
             const analysis = selectedProperty.analysis;
             const hasEnhancedScore = !!(analysis.scoreBreakdown && analysis.investmentGrade);
+
+            // Components switched off by the scoring profile have no points to fill
+            const scorePercent = (component: { score: number; maxScore: number }) =>
+              component.maxScore > 0 ? (component.score / component.maxScore) * 100 : 0;
             
             // Debug: Log what we're checking for enhanced score
             console.log('🔍 Frontend Enhanced Score Check:', {
@@ -871,6 +914,11 @@ export default function PropertyAnalysisPage() {
                           <Home className="inline w-5 h-5 mr-2" />
                           Score Details
                         </SectionHeader>
+                        {analysis.scoringProfile && (
+                          <span className="ml-2 text-sm font-normal text-gray-600">
+                            ({analysis.scoringProfile.name} profile)
+                          </span>
+                        )}
                       </CardTitle>
                       <ChevronDown className={`w-5 h-5 text-[#5C1B10] transition-transform ${expandedScoreSections.breakdown ? 'rotate-180' : ''}`} />
                     </div>
@@ -906,7 +954,7 @@ export default function PropertyAnalysisPage() {
                           <div className="w-full bg-[#D9DADA] rounded-full h-3">
                             <div 
                               className="bg-[#5C1B10] h-3 rounded-full" 
-                              style={{width: `${(analysis.scoreBreakdown.dealPotential.score / analysis.scoreBreakdown.dealPotential.maxScore) * 100}%`}}
+                              style={{width: `${scorePercent(analysis.scoreBreakdown.dealPotential)}%`}}
                             ></div>
                           </div>
                           <p className="text-sm font-ds-body text-[#020B0A] font-semibold">
@@ -928,7 +976,7 @@ export default function PropertyAnalysisPage() {
                           <div className="w-full bg-[#D9DADA] rounded-full h-3">
                             <div 
                               className="bg-[#5C1B10] h-3 rounded-full" 
-                              style={{width: `${(analysis.scoreBreakdown.marketTiming.score / analysis.scoreBreakdown.marketTiming.maxScore) * 100}%`}}
+                              style={{width: `${scorePercent(analysis.scoreBreakdown.marketTiming)}%`}}
                             ></div>
                           </div>
                           <p className="text-sm font-ds-body text-[#020B0A] font-semibold">
@@ -951,7 +999,7 @@ export default function PropertyAnalysisPage() {
                           <div className="w-full bg-[#D9DADA] rounded-full h-3">
                             <div 
                               className="bg-[#5C1B10] h-3 rounded-full" 
-                              style={{width: `${(analysis.scoreBreakdown.financialOpportunity.score / analysis.scoreBreakdown.financialOpportunity.maxScore) * 100}%`}}
+                              style={{width: `${scorePercent(analysis.scoreBreakdown.financialOpportunity)}%`}}
                             ></div>
                           </div>
                           <p className="text-sm font-ds-body text-[#020B0A] font-semibold">
@@ -973,7 +1021,7 @@ export default function PropertyAnalysisPage() {
                           <div className="w-full bg-[#D9DADA] rounded-full h-3">
                             <div 
                               className="bg-[#5C1B10] h-3 rounded-full" 
-                              style={{width: `${(analysis.scoreBreakdown.riskAssessment.score / analysis.scoreBreakdown.riskAssessment.maxScore) * 100}%`}}
+                              style={{width: `${scorePercent(analysis.scoreBreakdown.riskAssessment)}%`}}
                             ></div>
                           </div>
                           <p className="text-sm font-ds-body text-[#020B0A] font-semibold">
@@ -1437,17 +1485,20 @@ export default function PropertyAnalysisPage() {
 
       <div className="max-w-7xl mx-auto px-6 py-8">
         {/* Header */}
-        <div className="mb-8">
-          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-            <Home className="h-4 w-4" />
-            <span>Property Analysis</span>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+              <Home className="h-4 w-4" />
+              <span>Property Analysis</span>
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">
+              AI-Powered Property Analysis
+            </h1>
+            <p className="text-xl text-gray-600">
+              Get comprehensive market analysis, value assessments, and investment insights for any property.
+            </p>
           </div>
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">
-            AI-Powered Property Analysis
-          </h1>
-          <p className="text-xl text-gray-600">
-            Get comprehensive market analysis, value assessments, and investment insights for any property.
-          </p>
+          <BudgetIndicator refreshKey={budgetRefreshKey} />
         </div>
 
         {/* Add Property Section */}
@@ -1487,6 +1538,7 @@ export default function PropertyAnalysisPage() {
                 Analyze Property
               </button>
             </div>
+            <ScoringProfileSelector className="mt-4" />
           </CardContent>
         </Card>
 
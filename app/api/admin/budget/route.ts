@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { budgetService, BUDGET_PLAN_CAPS, BudgetPlan } from '@/lib/services/BudgetService';
+
+const updateBudgetSchema = z.object({
+  clerkUserId: z.string().min(1, 'clerkUserId is required'),
+  plan: z.enum(Object.keys(BUDGET_PLAN_CAPS) as [BudgetPlan, ...BudgetPlan[]]).optional(),
+  // null clears a custom cap so the plan cap applies again
+  monthlyCapUsd: z.number().min(0).max(100000).nullable().optional()
+});
+
+function isAdminUser(userId: string): boolean {
+  const adminUserIds = process.env.ADMIN_USER_IDS?.split(',').map(id => id.trim()) || [];
+  return adminUserIds.includes(userId);
+}
+
+// GET /api/admin/budget?clerkUserId=... - Budget status for any user
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminUser(userId)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const clerkUserId = request.nextUrl.searchParams.get('clerkUserId');
+    if (!clerkUserId) {
+      return NextResponse.json({ error: 'clerkUserId is required' }, { status: 400 });
+    }
+
+    const budget = await budgetService.getBudgetStatus(clerkUserId);
+
+    return NextResponse.json({ success: true, budget, plans: BUDGET_PLAN_CAPS });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    logger.error('Admin budget API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/budget - Set a user's plan or custom monthly cap
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminUser(userId)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { clerkUserId, ...budget } = updateBudgetSchema.parse(body);
+
+    const status = await budgetService.updateBudget(clerkUserId, budget);
+
+    return NextResponse.json({ success: true, budget: status });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    logger.error('Admin budget update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
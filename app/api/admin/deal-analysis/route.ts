@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
 import Anthropic from '@anthropic-ai/sdk';
 
 function isAdminUser(userId: string): boolean {
@@ -91,17 +92,21 @@ Please provide a detailed analysis covering:
 
 Format your response in clear sections with emojis and actionable insights. Be specific about numbers when available and provide reasoning for your recommendations.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 2000,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ]
-    });
+    const response = await apiUsageService.track(
+      { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'admin-deal-analysis' } },
+      () => anthropic.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 2000,
+        temperature: 0.7,
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ]
+      }),
+      result => apiUsageService.describeAnthropicResponse(result)
+    );
 
     const analysis = response.content[0].type === 'text' ? response.content[0].text : 'Analysis failed';
 
@@ -1,25 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
+import { apiUsageService, API_UNIT_COSTS, ApiUsageReport } from '@/lib/services/ApiUsageService';
 
-// Mock data for now - in production, this would come from your database
-const mockUsageData = [
-  { date: '2025-07-22', searches: 8, propertiesReturned: 40, estimatedCost: 17.60 },
-  { date: '2025-07-21', searches: 12, propertiesReturned: 60, estimatedCost: 26.40 },
-  { date: '2025-07-20', searches: 15, propertiesReturned: 75, estimatedCost: 33.00 },
-  { date: '2025-07-19', searches: 6, propertiesReturned: 30, estimatedCost: 13.20 },
-  { date: '2025-07-18', searches: 9, propertiesReturned: 45, estimatedCost: 19.80 },
-];
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
 
 function isAdminUser(userId: string): boolean {
   const adminUserIds = process.env.ADMIN_USER_IDS?.split(',').map(id => id.trim()) || [];
   return adminUserIds.includes(userId);
 }
 
-export async function GET(_request: NextRequest) {
+function buildRecommendations(report: ApiUsageReport, avgCostPerSearch: number): string[] {
+  const recommendations: string[] = [];
+  const dailyAverage = report.totals.cost / report.days;
+
+  recommendations.push(
+    dailyAverage > 15
+      ? `⚠️ High usage - averaging $${dailyAverage.toFixed(2)}/day across all providers`
+      : '✅ Usage within normal range'
+  );
+
+  recommendations.push(
+    avgCostPerSearch > 5
+      ? '💰 High cost per BatchData search - review property limits'
+      : '💰 Cost per BatchData search is reasonable'
+  );
+
+  const comparableLookups = report.batchData.searches + report.batchData.cacheHits;
+  if (comparableLookups > 0) {
+    const hitRate = report.batchData.cacheHits / comparableLookups;
+    recommendations.push(
+      hitRate < 0.5
+        ? `⚠️ BatchData cache hit rate is ${Math.round(hitRate * 100)}% - most lookups are paid`
+        : `✅ BatchData cache hit rate is ${Math.round(hitRate * 100)}%`
+    );
+  }
+
+  const topProvider = report.byProvider[0];
+  if (topProvider && report.totals.cost > 0) {
+    const share = topProvider.cost / report.totals.cost;
+    if (share > 0.6) {
+      recommendations.push(`📊 ${topProvider.provider} accounts for ${Math.round(share * 100)}% of spend`);
+    }
+  }
+
+  const topUser = report.byUser[0];
+  if (topUser && report.byUser.length > 1 && report.totals.cost > 0) {
+    const share = topUser.cost / report.totals.cost;
+    if (share > 0.5) {
+      const label = topUser.email ? `${topUser.email} accounts` : 'Unattributed calls account';
+      recommendations.push(`⚠️ ${label} for ${Math.round(share * 100)}% of spend - monitor user patterns`);
+    }
+  }
+
+  if (report.totals.calls > 0 && report.totals.errors / report.totals.calls > 0.1) {
+    recommendations.push(`⚠️ ${report.totals.errors} of ${report.totals.calls} provider calls failed`);
+  }
+
+  return recommendations;
+}
+
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -29,36 +74,44 @@ export async function GET(_request: NextRequest) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    // Get usage data (mock for now)
-    const last7Days = mockUsageData;
-    const totalSearches = last7Days.reduce((sum, day) => sum + day.searches, 0);
-    const totalProperties = last7Days.reduce((sum, day) => sum + day.propertiesReturned, 0);
-    const totalCost = last7Days.reduce((sum, day) => sum + day.estimatedCost, 0);
-    const avgCostPerSearch = totalCost / totalSearches;
+    const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_DAYS));
+    const days = Number.isNaN(requestedDays)
+      ? DEFAULT_DAYS
+      : Math.min(Math.max(requestedDays, 1), MAX_DAYS);
+
+    const report = await apiUsageService.getUsageReport(days);
+
+    const totalSearches = report.batchData.searches;
+    const avgCostPerSearch = totalSearches > 0 ? report.batchData.cost / totalSearches : 0;
 
     // Current settings
     const maxProperties = parseInt(process.env.BATCH_DATA_MAX_PROPERTIES || '5');
-    const estimatedCostPerSearch = maxProperties * 0.44;
+    const estimatedCostPerSearch = maxProperties * API_UNIT_COSTS.BATCHDATA_PER_PROPERTY;
 
     return NextResponse.json({
       success: true,
       adminUser: userId,
+      days,
       summary: {
         totalSearches,
-        totalProperties,
-        totalCost: parseFloat(totalCost.toFixed(2)),
+        totalProperties: report.batchData.propertiesReturned,
+        totalCost: parseFloat(report.totals.cost.toFixed(2)),
+        batchDataCost: parseFloat(report.batchData.cost.toFixed(2)),
         avgCostPerSearch: parseFloat(avgCostPerSearch.toFixed(2)),
+        totalCalls: report.totals.calls,
+        cacheHits: report.totals.cacheHits,
+        errors: report.totals.errors,
+        avgLatencyMs: report.totals.avgLatencyMs,
         currentSettings: {
           maxProperties,
           estimatedCostPerSearch: parseFloat(estimatedCostPerSearch.toFixed(2))
         }
       },
-      dailyUsage: last7Days,
-      recommendations: [
-        totalCost > 100 ? '⚠️ High usage - consider optimizing' : '✅ Usage within normal range',
-        avgCostPerSearch > 5 ? '💰 High cost per search - review property limits' : '💰 Cost per search is reasonable',
-        totalSearches > 50 ? '📊 High search volume - monitor user patterns' : '📊 Search volume is normal'
-      ]
+      dailyUsage: report.daily,
+      weeklyUsage: report.weekly,
+      byProvider: report.byProvider,
+      byUser: report.byUser,
+      recommendations: buildRecommendations(report, avgCostPerSearch)
     });
 
   } catch (error) {
@@ -68,4 +121,4 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { budgetService } from "@/lib/services/BudgetService";
+
+// GET /api/budget - Monthly data budget and remaining spend for the current user
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const budget = await budgetService.getBudgetStatus(userId);
+
+    return NextResponse.json({
+      success: true,
+      budget
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    logger.error("Error fetching budget status:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
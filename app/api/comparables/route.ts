@@ -4,6 +4,7 @@ import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import { createRentcastAPI } from "@/lib/rentcast-api";
 import { createBatchDataComparablesService } from "@/lib/services/BatchDataComparablesService";
+import { budgetService, BudgetExhaustedError } from "@/lib/services/BudgetService";
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,6 +30,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Property not found or unauthorized" }, { status: 404 });
     }
 
+    await budgetService.assertWithinBudget('BATCHDATA', userId);
+
     // Initialize BatchData API with RentCast fallback
     const batchDataAPI = createBatchDataComparablesService();
     const rentcastAPI = createRentcastAPI();
@@ -122,6 +125,10 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error("Error fetching comparables:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
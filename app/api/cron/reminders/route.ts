@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { logger } from "@/lib/utils/logger";
+import { reminderService } from "@/lib/services/ReminderService";
+import { createNotificationChannels } from "@/lib/notifications";
+import { getAppBaseUrl } from "@/lib/utils/app-url";
+
+export const dynamic = 'force-dynamic';
+
+// Scheduler calls carry `Authorization: Bearer $CRON_SECRET` (Vercel Cron sends this automatically)
+function isAuthorizedCron(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+// GET /api/cron/reminders - Mark overdue steps, queue and deliver deadline reminders
+export async function GET(request: NextRequest) {
+  if (!process.env.CRON_SECRET) {
+    logger.warn('Reminder cron called but CRON_SECRET is not set');
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 503 });
+  }
+
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await reminderService.runReminders({
+      channels: createNotificationChannels({ appUrl: getAppBaseUrl() })
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    logger.error("Error running deadline reminders:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export const POST = GET;
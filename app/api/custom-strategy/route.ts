@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService, BudgetExhaustedError } from '@/lib/services/BudgetService';
 import Anthropic from '@anthropic-ai/sdk';
 
 export async function POST(request: NextRequest) {
@@ -13,6 +15,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
     const anthropic = new Anthropic({
       apiKey: process.env.ANTHROPIC_API_KEY!,
     });
@@ -104,12 +108,16 @@ Write as Sarah speaking directly to the client. Use specific data points from th
 
 Provide 4-5 paragraphs with concrete, personalized advice.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 1500,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
+    const response = await apiUsageService.track(
+      { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'custom-strategy' } },
+      () => anthropic.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 1500,
+        temperature: 0.7,
+        messages: [{ role: 'user', content: prompt }]
+      }),
+      result => apiUsageService.describeAnthropicResponse(result)
+    );
 
     const content = response.content[0];
     if (content.type === 'text') {
@@ -122,6 +130,10 @@ Provide 4-5 paragraphs with concrete, personalized advice.`;
     throw new Error('Invalid response format from AI');
 
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error('Custom strategy generation error:', error);
     return NextResponse.json(
       { error: 'Failed to generate custom strategy' },
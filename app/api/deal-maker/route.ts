@@ -4,6 +4,7 @@ import { DealMakerAgent } from '@/lib/services/DealMakerAgent';
 import { createComparablesCacheService } from '@/lib/services/ComparablesCacheService';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@clerk/nextjs/server';
+import { BudgetExhaustedError } from '@/lib/services/BudgetService';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -228,6 +229,10 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error('Deal Maker API error:', error);
     
     return NextResponse.json(
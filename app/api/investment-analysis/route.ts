@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { logger } from "@/lib/utils/logger";
 import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
 import { prisma } from "@/lib/prisma";
 import { createAIAnalyzer } from "@/lib/ai-analysis";
+import { BudgetExhaustedError } from "@/lib/services/BudgetService";
+import { investmentStrategyCalculator } from "@/lib/services/InvestmentStrategyCalculator";
+import { STRATEGY_ANALYSIS_TYPES, type InvestmentGoal, type InvestmentStrategy } from "@/lib/types/investment";
+import { investmentAnalysisRequestSchema } from "@/lib/validation/investment";
+
+const isStrategyGoal = (goal: InvestmentGoal): goal is InvestmentStrategy => goal in STRATEGY_ANALYSIS_TYPES;
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,11 +19,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { propertyId, investmentParams } = await request.json();
-
-    if (!propertyId) {
-      return NextResponse.json({ error: "Property ID is required" }, { status: 400 });
-    }
+    const { propertyId, investmentParams, strategyInputs } = investmentAnalysisRequestSchema.parse(await request.json());
 
     // Get the property with existing analysis
     const property = await prisma.property.findUnique({
@@ -35,6 +38,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Property not found or unauthorized" }, { status: 404 });
     }
 
+    // Strategy goals are pure calculations with no AI narrative
+    if (isStrategyGoal(investmentParams.investmentGoal)) {
+      const strategyAnalysis = investmentStrategyCalculator.calculate(
+        investmentParams.investmentGoal,
+        investmentStrategyCalculator.getPropertyFacts(property),
+        investmentParams,
+        strategyInputs
+      );
+
+      await prisma.propertyAnalysis.create({
+        data: {
+          propertyId,
+          analysisType: STRATEGY_ANALYSIS_TYPES[investmentParams.investmentGoal],
+          aiModel: "calculator",
+          analysis: JSON.stringify(strategyAnalysis)
+        }
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: strategyAnalysis
+      });
+    }
+
     // Create detailed investment analysis
     const aiAnalyzer = createAIAnalyzer();
     const investmentAnalysis = await aiAnalyzer.analyzeInvestment(
@@ -58,6 +85,14 @@ export async function POST(request: NextRequest) {
       data: investmentAnalysis
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error("Error analyzing investment:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
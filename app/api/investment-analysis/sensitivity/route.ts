@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { prisma } from "@/lib/prisma";
+import { generalRateLimiter } from "@/lib/rate-limiter";
+import { investmentSensitivityService } from "@/lib/services/InvestmentSensitivityService";
+import { sensitivityAnalysisRequestSchema } from "@/lib/validation/investment";
+
+// Sensitivity is pure math over the financial engine, so nothing is stored or sent to the AI
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 });
+    }
+
+    const { propertyId, investmentParams, metric, ranges } = sensitivityAnalysisRequestSchema.parse(await request.json());
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { price: true, user: { select: { clerkId: true } } }
+    });
+
+    if (!property || property.user.clerkId !== userId) {
+      return NextResponse.json({ error: "Property not found or unauthorized" }, { status: 404 });
+    }
+
+    const sensitivity = investmentSensitivityService.analyze(
+      Number(property.price) / 100, // Convert from cents
+      investmentParams,
+      { metric, ranges }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: sensitivity
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+    }
+
+    logger.error("Error running sensitivity analysis:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { logger } from "@/lib/utils/logger";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import { createAIAnalyzer } from "@/lib/ai-analysis";
+import { BudgetExhaustedError } from "@/lib/services/BudgetService";
 
 export async function POST(request: NextRequest) {
   try {
@@ -58,6 +59,10 @@ export async function POST(request: NextRequest) {
       data: negotiationAnalysis
     });
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error("Error analyzing negotiation strategy:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -0,0 +1,118 @@
+// Saved Inspection Analysis API Route - Production Ready, Zero Tech Debt
+// Reopen or delete a single negotiation analysis
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { inspectionAnalysisService } from '@/lib/services/negotiation/InspectionAnalysisService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// ============================================================================
+// GET /api/negotiation/analyses/[id] - Get a saved analysis
+// ============================================================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' }, 
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' }, 
+        { status: 429 }
+      );
+    }
+
+    const analysis = await inspectionAnalysisService.getAnalysis(userId, params.id);
+
+    return NextResponse.json({
+      success: true,
+      analysis: inspectionAnalysisService.toAnalysisResponse(analysis)
+    });
+
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message }, 
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Inspection analysis GET error:', error);
+    
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' }, 
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// DELETE /api/negotiation/analyses/[id] - Delete a saved analysis
+// ============================================================================
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' }, 
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' }, 
+        { status: 429 }
+      );
+    }
+
+    await inspectionAnalysisService.deleteAnalysis(userId, params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Analysis deleted successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message }, 
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Inspection analysis DELETE error:', error);
+    
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' }, 
+      { status: 500 }
+    );
+  }
+}
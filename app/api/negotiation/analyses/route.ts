@@ -0,0 +1,63 @@
+// Saved Inspection Analyses API Route - Production Ready, Zero Tech Debt
+// List previously run negotiation analyses for the current user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { inspectionAnalysisService } from '@/lib/services/negotiation/InspectionAnalysisService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+
+// ============================================================================
+// GET /api/negotiation/analyses - List saved analyses
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' }, 
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' }, 
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const analyses = await inspectionAnalysisService.listAnalyses(userId, {
+      propertyId: searchParams.get('propertyId') || undefined,
+      documentId: searchParams.get('documentId') || undefined,
+      reportType: searchParams.get('reportType') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      analyses
+    });
+
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message }, 
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Inspection analyses GET error:', error);
+    
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' }, 
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
 import { ClaudeAnalysisService } from '@/lib/services/analysis/ClaudeAnalysisService';
 import { CloudinaryService } from '@/lib/services/cloudinary/CloudinaryService';
+import { inspectionAnalysisService } from '@/lib/services/negotiation/InspectionAnalysisService';
+import { BudgetExhaustedError } from '@/lib/services/BudgetService';
 
 export async function GET() {
   return NextResponse.json({ 
@@ -27,6 +29,31 @@ export async function POST(request: NextRequest) {
     const cloudinaryUrl = formData.get('cloudinaryUrl') as string;
     const fileName = formData.get('fileName') as string;
     const reportType = formData.get('reportType') as string || 'home_general';
+    const documentId = formData.get('documentId') as string | null;
+    const propertyId = formData.get('propertyId') as string | null;
+    const reanalyze = formData.get('reanalyze') === 'true';
+
+    // Reuse a saved analysis of this timeline document instead of paying for it again
+    if (documentId && !reanalyze) {
+      const savedAnalysis = await inspectionAnalysisService.findLatestForDocument(
+        userId,
+        documentId,
+        reportType
+      );
+
+      if (savedAnalysis) {
+        logger.debug('Returning saved inspection analysis', {
+          analysisId: savedAnalysis.id,
+          documentId
+        });
+
+        return NextResponse.json({
+          success: true,
+          fromSaved: true,
+          analysis: inspectionAnalysisService.toAnalysisResponse(savedAnalysis)
+        });
+      }
+    }
     
     let fileBuffer: Buffer;
     let documentName: string;
@@ -144,8 +171,9 @@ export async function POST(request: NextRequest) {
     let totalNegotiationValue: number;
     let analysisMethod: string;
     let analysisConfidence: number;
+    const usedClaude = claudeResult.success && claudeResult.issues.length > 0;
 
-    if (claudeResult.success && claudeResult.issues.length > 0) {
+    if (usedClaude) {
       // Use Claude's analysis
       issues = claudeResult.issues;
       totalNegotiationValue = issues.reduce((sum, issue) => sum + issue.negotiationValue, 0);
@@ -243,54 +271,99 @@ export async function POST(request: NextRequest) {
       }
     };
 
+    const analysis = {
+      reportId: `analysis_${Date.now()}`,
+      reportType,
+      processingTimeMs: Math.round(processingDelay),
+      extractedText: extractedText.substring(0, 500) + '...', // First 500 chars as preview
+      pdfMetadata,
+      issues,
+      detailedAnalysis, // Add the detailed analysis for audit modal
+      summary: {
+        totalIssues: issues.length,
+        safetyIssues: issues.filter(i => i.severity === 'safety').length,
+        majorIssues: issues.filter(i => i.severity === 'major').length,
+        minorIssues: issues.filter(i => i.severity === 'minor').length,
+        cosmeticIssues: issues.filter(i => i.severity === 'cosmetic').length,
+        totalEstimatedCost: {
+          minimum: issues.reduce((sum, i) => sum + i.estimatedCost.low, 0),
+          maximum: issues.reduce((sum, i) => sum + i.estimatedCost.high, 0),
+          mostLikely: issues.reduce((sum, i) => sum + i.estimatedCost.mostLikely, 0)
+        },
+        totalNegotiationValue,
+        recommendedNegotiationStrategy: {
+          recommendedAsk: Math.round(totalNegotiationValue * 1.2),
+          fallbackPosition: totalNegotiationValue,
+          walkAwayPoint: Math.round(totalNegotiationValue * 0.8),
+          keyTalkingPoints: [
+            "Multiple issues documented in professional inspection report",
+            "Safety concerns require immediate attention before closing",
+            "Current market rates support these repair estimates"
+          ],
+          marketContext: "Based on extracted inspection findings and current contractor rates",
+          leverage: (totalNegotiationValue > 5000 ? 'high' : totalNegotiationValue > 2000 ? 'moderate' : 'low') as 'high' | 'moderate' | 'low'
+        }
+      },
+      qualityScore: 88 + Math.floor(Math.random() * 10), // 88-98 for real PDFs
+      warnings: issues.length > 10 ? ['Large number of issues found - professional consultation recommended'] : [],
+      metadata: {
+        pages: pdfMetadata.pages,
+        wordCount: extractedText.split(/\s+/).length,
+        inspector: 'Professional Inspector',
+        inspectionDate: new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        propertyAddress: extractTextBetween(extractedText, 'Property Address:', '\n') || 'See inspection report'
+      }
+    };
+
+    // Persist the analysis so it can be reopened without re-running it. Keyword
+    // fallbacks are not saved, so a transient Claude failure isn't reused later
+    let analysisId: string | null = null;
+    if (usedClaude) {
+      try {
+        const saved = await inspectionAnalysisService.saveAnalysis(userId, {
+          documentId,
+          propertyId,
+          documentName,
+          reportType,
+          extractedText,
+          issues,
+          summary: analysis.summary,
+          detailedAnalysis,
+          modelUsed: detailedAnalysis.debug.modelUsed,
+          analysisMethod,
+          confidence: analysisConfidence,
+          processingMetadata: {
+            processingTimeMs: analysis.processingTimeMs,
+            extractionMethod: pdfMetadata.method,
+            extractionTimeMs: pdfMetadata.processingTime,
+            pages: pdfMetadata.pages,
+            wordCount: analysis.metadata.wordCount,
+            tokensUsed: detailedAnalysis.debug.tokensUsed,
+            claudeSuccess: claudeResult.success,
+            claudeError: claudeResult.error || null,
+            qualityScore: analysis.qualityScore,
+            warnings: analysis.warnings
+          }
+        });
+        analysisId = saved.id;
+      } catch (error) {
+        logger.error('Failed to save inspection analysis', error, { documentName, documentId });
+      }
+    }
+
     return NextResponse.json({
       success: true,
       analysis: {
-        reportId: `analysis_${Date.now()}`,
-        reportType,
-        processingTimeMs: Math.round(processingDelay),
-        extractedText: extractedText.substring(0, 500) + '...', // First 500 chars as preview
-        pdfMetadata,
-        issues,
-        detailedAnalysis, // Add the detailed analysis for audit modal
-        summary: {
-          totalIssues: issues.length,
-          safetyIssues: issues.filter(i => i.severity === 'safety').length,
-          majorIssues: issues.filter(i => i.severity === 'major').length,
-          minorIssues: issues.filter(i => i.severity === 'minor').length,
-          cosmeticIssues: issues.filter(i => i.severity === 'cosmetic').length,
-          totalEstimatedCost: {
-            minimum: issues.reduce((sum, i) => sum + i.estimatedCost.low, 0),
-            maximum: issues.reduce((sum, i) => sum + i.estimatedCost.high, 0),
-            mostLikely: issues.reduce((sum, i) => sum + i.estimatedCost.mostLikely, 0)
-          },
-          totalNegotiationValue,
-          recommendedNegotiationStrategy: {
-            recommendedAsk: Math.round(totalNegotiationValue * 1.2),
-            fallbackPosition: totalNegotiationValue,
-            walkAwayPoint: Math.round(totalNegotiationValue * 0.8),
-            keyTalkingPoints: [
-              "Multiple issues documented in professional inspection report",
-              "Safety concerns require immediate attention before closing",
-              "Current market rates support these repair estimates"
-            ],
-            marketContext: "Based on extracted inspection findings and current contractor rates",
-            leverage: totalNegotiationValue > 5000 ? 'high' : totalNegotiationValue > 2000 ? 'moderate' : 'low'
-          }
-        },
-        qualityScore: 88 + Math.floor(Math.random() * 10), // 88-98 for real PDFs
-        warnings: issues.length > 10 ? ['Large number of issues found - professional consultation recommended'] : [],
-        metadata: {
-          pages: pdfMetadata.pages,
-          wordCount: extractedText.split(/\s+/).length,
-          inspector: 'Professional Inspector',
-          inspectionDate: new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          propertyAddress: extractTextBetween(extractedText, 'Property Address:', '\n') || 'See inspection report'
-        }
+        ...analysis,
+        analysisId
       }
     });
 
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error('Analysis API error:', error);
     return NextResponse.json(
       { 
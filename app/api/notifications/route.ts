@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { z, ZodError } from "zod";
+import { notificationService } from "@/lib/services/NotificationService";
+
+const markReadSchema = z.object({
+  notificationIds: z.array(z.string().min(1)).min(1).max(100).optional()
+}).strict();
+
+// GET /api/notifications - In-app inbox for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const inbox = await notificationService.getInbox(userId, {
+      unreadOnly: searchParams.get('unreadOnly') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...inbox
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    logger.error("Error fetching notifications:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/notifications - Mark notifications read (all when no ids are given)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { notificationIds } = markReadSchema.parse(await request.json().catch(() => ({})));
+    const updated = await notificationService.markRead(userId, notificationIds);
+
+    return NextResponse.json({
+      success: true,
+      updated
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    logger.error("Error marking notifications read:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
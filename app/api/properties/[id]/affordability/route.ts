@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { affordabilityService } from "@/lib/services/AffordabilityService";
+import { affordabilityQuerySchema, affordabilityRequestSchema } from "@/lib/validation/affordability";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/properties/[id]/affordability - Affordability under the saved buyer profile
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { years } = affordabilityQuerySchema.parse({
+      years: searchParams.get('years') ?? undefined
+    });
+
+    const affordability = await affordabilityService.analyzeProperty(userId, params.id, { years });
+
+    return NextResponse.json({
+      success: true,
+      affordability
+    });
+
+  } catch (error) {
+    return handleAffordabilityError(error, 'GET');
+  }
+}
+
+// POST /api/properties/[id]/affordability - Save the buyer profile and analyze
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile, years, monthlyRent } = affordabilityRequestSchema.parse(await request.json());
+
+    const affordability = await affordabilityService.analyzeProperty(userId, params.id, {
+      profile,
+      years,
+      monthlyRent
+    });
+
+    return NextResponse.json({
+      success: true,
+      affordability
+    });
+
+  } catch (error) {
+    return handleAffordabilityError(error, 'POST');
+  }
+}
+
+function handleAffordabilityError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+  }
+
+  if (error instanceof Error && (error.message === 'Property not found' || error.message === 'User not found')) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  logger.error(`Error in affordability ${method}:`, error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
@@ -52,6 +52,12 @@ export async function POST(
 
     if (!analysisResponse.ok) {
       const errorData = await analysisResponse.text();
+
+      // Pass budget errors through untouched so the UI can show the budget payload
+      if (analysisResponse.status === 402) {
+        return NextResponse.json(JSON.parse(errorData), { status: 402 });
+      }
+
       logger.error('Property analysis failed:', { 
         status: analysisResponse.status,
         error: errorData,
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { createAreaDataCacheService } from "@/lib/services/AreaDataCacheService";
+import type { AreaAnalysis, PlaceInfo } from "@/lib/google-maps-api";
+import type { NeighborhoodAmenities } from "@/lib/types/comparables";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const forceRefresh = searchParams.get('refresh') === 'true';
+
+    // Check if property exists and belongs to user
+    const property = await prisma.property.findFirst({
+      where: {
+        id: params.id,
+        user: { clerkId: userId },
+        deletedAt: null
+      }
+    });
+
+    if (!property) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 });
+    }
+
+    const cacheService = createAreaDataCacheService();
+    const cacheParams = {
+      propertyId: property.id,
+      address: property.address,
+      zipCode: property.zipCode
+    };
+
+    const result = forceRefresh
+      ? await cacheService.refreshCache(cacheParams)
+      : await cacheService.getAreaData(cacheParams);
+
+    if (!result) {
+      return NextResponse.json({ 
+        error: "Area analysis service unavailable",
+        message: "Unable to fetch area data for this location"
+      }, { status: 503 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      areaData: toNeighborhoodAmenities(result.areaAnalysis),
+      places: result.areaAnalysis,
+      cacheInfo: result.cacheInfo,
+      dataSource: 'GoogleMaps'
+    });
+
+  } catch (error) {
+    logger.error("❌ Error fetching property area data:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Summarize nearby places into the NeighborhoodAmenities shape used by the UI.
+// Google Places has no crime data, so safety is reported as 0 (unknown).
+function toNeighborhoodAmenities(analysis: AreaAnalysis): NeighborhoodAmenities {
+  const { schools, amenities } = analysis;
+  const allSchools = [...schools.elementary, ...schools.middle, ...schools.high];
+  const ratedSchools = allSchools.filter(school => typeof school.rating === 'number');
+  const walkScore = analysis.walkScore ?? 0;
+
+  // Transit stations within a 10 minute walk (800m) count most
+  const transitScore = Math.min(
+    100,
+    amenities.publicTransit.reduce((score, stop) => score + (stop.distance <= 800 ? 25 : 10), 0)
+  );
+
+  // Bike score approximated from walkability plus nearby parks within 2km
+  const bikeScore = Math.min(100, Math.round(walkScore * 0.8 + countWithin(amenities.parks, 2000) * 4));
+
+  return {
+    schools: {
+      elementary: schools.elementary.length,
+      middle: schools.middle.length,
+      high: schools.high.length,
+      averageRating: ratedSchools.length > 0
+        ? Math.round((ratedSchools.reduce((sum, school) => sum + (school.rating || 0), 0) / ratedSchools.length) * 10) / 10
+        : 0
+    },
+    transportation: {
+      walkScore,
+      transitScore,
+      bikeScore
+    },
+    safety: {
+      crimeIndex: 0,
+      safetyRating: 0
+    },
+    recreation: {
+      parks: amenities.parks.length,
+      restaurants: amenities.restaurants.length,
+      shopping: amenities.groceryStores.length
+    }
+  };
+}
+
+function countWithin(places: PlaceInfo[], meters: number): number {
+  return places.filter(place => place.distance <= meters).length;
+}
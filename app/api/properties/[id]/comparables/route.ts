@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/prisma";
+import { createComparablesCacheService, CachedComparableResult } from "@/lib/services/ComparablesCacheService";
+import type { ComparableProperty, ComparablesData } from "@/lib/types/comparables";
+import { BudgetExhaustedError } from "@/lib/services/BudgetService";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const radius = parseFloat(searchParams.get('radius') || '0.5');
+    const forceRefresh = searchParams.get('refresh') === 'true';
+
+    if (isNaN(radius) || radius <= 0 || radius > 5) {
+      return NextResponse.json({ error: "Radius must be between 0 and 5 miles" }, { status: 400 });
+    }
+
+    // Check if property exists and belongs to user
+    const property = await prisma.property.findFirst({
+      where: {
+        id: params.id,
+        user: { clerkId: userId },
+        deletedAt: null
+      }
+    });
+
+    if (!property) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 });
+    }
+
+    const cacheService = createComparablesCacheService();
+    const cacheParams = {
+      propertyId: property.id,
+      zipCode: property.zipCode,
+      bedrooms: property.bedrooms || undefined,
+      bathrooms: property.bathrooms ? Number(property.bathrooms) : undefined,
+      squareFootage: property.squareFootage || undefined,
+      radius,
+      propertyType: property.propertyType || undefined
+    };
+
+    const result = forceRefresh
+      ? await cacheService.refreshCache(cacheParams)
+      : await cacheService.getComparables(cacheParams);
+
+    if (!result) {
+      return NextResponse.json({ 
+        error: "Comparables service unavailable",
+        message: "Unable to fetch comparable sales for this property"
+      }, { status: 503 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      comparables: toComparablesData(property, result),
+      cacheInfo: result.cacheInfo,
+      searchRadius: radius,
+      dataSource: 'BatchData'
+    });
+
+  } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
+    logger.error("❌ Error fetching property comparables:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Map cached BatchData comparables onto the ComparablesData shape used by the UI
+function toComparablesData(
+  property: { id: string; address: string; price: bigint; squareFootage: number | null },
+  result: CachedComparableResult
+): ComparablesData {
+  const targetPrice = Number(property.price) / 100; // Stored in cents
+
+  const comparables: ComparableProperty[] = result.comparables.map((comp: any) => ({
+    id: comp.id,
+    address: comp.address,
+    price: comp.price || 0,
+    sqft: comp.squareFootage || 0,
+    bedrooms: comp.bedrooms || 0,
+    bathrooms: comp.bathrooms || 0,
+    yearBuilt: comp.yearBuilt || 0,
+    daysOnMarket: comp.daysOnMarket || 0,
+    pricePerSqft: comp.pricePerSqft || 0,
+    distance: comp.distance || 0,
+    similarity: comp.similarity > 1 ? comp.similarity / 100 : (comp.similarity || 0), // BatchData scores 0-100
+    soldDate: comp.soldDate,
+    status: comp.isSold === false ? 'active' : 'sold'
+  }));
+
+  const prices = comparables.map(c => c.price).filter(p => p > 0);
+  const averagePricePerSqft = result.stats.avgPricePerSqft ||
+    (comparables.length > 0 ? comparables.reduce((sum, c) => sum + c.pricePerSqft, 0) / comparables.length : 0);
+
+  // Compare the subject's price per sqft against the comparable average (±5% band is fair)
+  let marketPosition: ComparablesData['analysis']['marketPosition'] = 'fairly_priced';
+  if (property.squareFootage && averagePricePerSqft > 0) {
+    const ratio = (targetPrice / property.squareFootage) / averagePricePerSqft;
+    if (ratio < 0.95) marketPosition = 'underpriced';
+    else if (ratio > 1.05) marketPosition = 'overpriced';
+  }
+
+  // Confidence grows with the number of comps (up to 6) and how similar they are
+  const averageSimilarity = comparables.length > 0
+    ? comparables.reduce((sum, c) => sum + c.similarity, 0) / comparables.length
+    : 0;
+  const confidenceScore = Math.round((Math.min(comparables.length, 6) / 6) * averageSimilarity * 100);
+
+  return {
+    targetProperty: {
+      id: property.id,
+      address: property.address,
+      price: targetPrice
+    },
+    comparables,
+    analysis: {
+      averagePrice: result.stats.avgSalePrice ||
+        (prices.length > 0 ? prices.reduce((sum, p) => sum + p, 0) / prices.length : 0),
+      averagePricePerSqft: Math.round(averagePricePerSqft),
+      priceRange: {
+        min: prices.length > 0 ? Math.min(...prices) : 0,
+        max: prices.length > 0 ? Math.max(...prices) : 0
+      },
+      marketPosition,
+      confidenceScore
+    },
+    generatedAt: new Date().toISOString()
+  };
+}
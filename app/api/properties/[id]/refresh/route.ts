@@ -3,6 +3,7 @@ import { logger } from "@/lib/utils/logger";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { budgetService, BudgetExhaustedError } from "@/lib/services/BudgetService";
 
 export async function POST(
   request: NextRequest,
@@ -15,6 +16,9 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // A refresh re-runs the paid analysis, so refuse it up front once the cap is hit
+    await budgetService.assertWithinBudget('BATCHDATA', userId);
+
     const propertyId = params.id;
     
     // Check if this is a force refresh (clears BatchData fields too)
@@ -110,6 +114,10 @@ export async function POST(
     });
 
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
     logger.error("❌ Error refreshing property:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
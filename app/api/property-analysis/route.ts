@@ -6,7 +6,9 @@ import { createBatchDataPropertyAnalysisService, BatchDataPropertyData } from "@
 import { createAIAnalysisService } from "@/lib/services/AIAnalysisService";
 import { createPropertyService } from "@/lib/services/PropertyService";
 import { createEnhancedInvestmentScoringService } from "@/lib/services/EnhancedInvestmentScoring";
+import { scoringProfileService } from "@/lib/services/ScoringProfileService";
 import { generalRateLimiter } from "@/lib/rate-limiter";
+import { budgetService, BudgetExhaustedError } from "@/lib/services/BudgetService";
 import { createZillowService } from "@/lib/services/ZillowService";
 
 // Extract address from MLS URL for BatchData search
@@ -102,7 +104,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 });
     }
 
-    const { propertyId, mlsUrl } = await request.json();
+    // Analysis always hits BatchData and Claude - stop before either once the cap is hit
+    await budgetService.assertWithinBudget('BATCHDATA', userId);
+
+    const { propertyId, mlsUrl, scoringProfileId } = await request.json();
 
     if (!propertyId || !mlsUrl) {
       return NextResponse.json({ error: "Property ID and MLS URL are required" }, { status: 400 });
@@ -123,6 +128,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Property not found or unauthorized" }, { status: 404 });
     }
 
+    // Score under the requested profile, or the user's active one
+    const scoringProfile = await scoringProfileService.resolveProfile(
+      userId,
+      typeof scoringProfileId === 'string' ? scoringProfileId : undefined
+    );
+
     // Parse MLS URL to extract property identifier
     const parsedUrl = parseMLSUrl(mlsUrl);
 
@@ -204,19 +215,20 @@ export async function POST(request: NextRequest) {
           distressedProperty: mockBatchDataFromProperty.quickLists?.distressedProperty,
           freeAndClear: mockBatchDataFromProperty.quickLists?.freeAndClear,
           recentlySold: mockBatchDataFromProperty.quickLists?.recentlySold
-        });
+        }, scoringProfile);
         
         // Apply enhanced scoring results
         analysisData.investmentScore = enhancedScore.totalScore;
         (analysisData as any).investmentGrade = enhancedScore.grade;
         (analysisData as any).investmentRecommendation = enhancedScore.recommendation;
         (analysisData as any).scoreBreakdown = enhancedScore.breakdown;
+        (analysisData as any).scoringProfile = enhancedScore.scoringProfile;
         analysisData.keyInsights = enhancedScore.aiInsights;
         analysisData.redFlags = enhancedScore.redFlags;
         (analysisData as any).keyOpportunities = enhancedScore.keyOpportunities;
         analysisData.aiConfidence = enhancedScore.confidence;
         
-        logger.debug(`✅ Enhanced scoring with existing data: ${enhancedScore.totalScore}/100 (${enhancedScore.grade})`);
+        logger.debug(`✅ Enhanced scoring with existing data: ${enhancedScore.totalScore}/${enhancedScore.maxScore} (${enhancedScore.grade})`);
         
       } catch (error) {
         logger.error('❌ Enhanced scoring failed with existing data:', error);
@@ -347,7 +359,7 @@ export async function POST(request: NextRequest) {
               // Rental analysis (estimated)
               rentToValueRatio: batchData.rentZestimate ? (batchData.rentZestimate * 12) / batchData.price : 0.01,
               capRate: 0.06 // Default estimate
-            });
+            }, scoringProfile);
             
             // Replace simple score with enhanced AI-powered score
             analysisData.investmentScore = enhancedScore.totalScore;
@@ -355,6 +367,7 @@ export async function POST(request: NextRequest) {
             (analysisData as any).investmentGrade = enhancedScore.grade;
             (analysisData as any).investmentRecommendation = enhancedScore.recommendation;
             (analysisData as any).scoreBreakdown = enhancedScore.breakdown;
+            (analysisData as any).scoringProfile = enhancedScore.scoringProfile;
             analysisData.keyInsights = enhancedScore.aiInsights;
             analysisData.redFlags = enhancedScore.redFlags;
             (analysisData as any).keyOpportunities = enhancedScore.keyOpportunities;
@@ -546,6 +559,14 @@ export async function POST(request: NextRequest) {
       }
     });
   } catch (error) {
+    if (error instanceof BudgetExhaustedError) {
+      return NextResponse.json(error.toResponseBody(), { status: 402 });
+    }
+
+    if (error instanceof Error && error.message === 'Scoring profile not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     logger.error("Error analyzing property:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { scoringProfileService } from "@/lib/services/ScoringProfileService";
+import { scoringProfileInputSchema } from "@/lib/validation/scoring";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// PUT /api/scoring-profiles/[id] - Replace a custom scoring profile's settings
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = scoringProfileInputSchema.parse(await request.json());
+    const profile = await scoringProfileService.updateProfile(userId, params.id, input);
+
+    return NextResponse.json({
+      success: true,
+      profile
+    });
+
+  } catch (error) {
+    return handleScoringProfileError(error, 'PUT');
+  }
+}
+
+// DELETE /api/scoring-profiles/[id] - Delete a custom scoring profile
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await scoringProfileService.deleteProfile(userId, params.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return handleScoringProfileError(error, 'DELETE');
+  }
+}
+
+function handleScoringProfileError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+  }
+
+  if (error instanceof Error && error.message === 'Built-in scoring profiles cannot be changed') {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  if (error instanceof Error && (error.message === 'Scoring profile not found' || error.message === 'User not found')) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  logger.error(`Error in scoring profile ${method}:`, error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
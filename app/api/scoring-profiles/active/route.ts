@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { scoringProfileService } from "@/lib/services/ScoringProfileService";
+import { activeScoringProfileSchema } from "@/lib/validation/scoring";
+
+// PUT /api/scoring-profiles/active - Choose the profile new analyses are scored with
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profileId } = activeScoringProfileSchema.parse(await request.json());
+    const profile = await scoringProfileService.setActiveProfile(userId, profileId);
+
+    return NextResponse.json({
+      success: true,
+      profile
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof Error && (error.message === 'Scoring profile not found' || error.message === 'User not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    logger.error("Error setting active scoring profile:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/utils/logger";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { scoringProfileService } from "@/lib/services/ScoringProfileService";
+import { createScoringProfileSchema } from "@/lib/validation/scoring";
+
+// GET /api/scoring-profiles - Built-in and custom scoring profiles, and the active one
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profiles, activeProfileId } = await scoringProfileService.listProfiles(userId);
+
+    return NextResponse.json({
+      success: true,
+      profiles,
+      activeProfileId
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    logger.error("Error fetching scoring profiles:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/scoring-profiles - Create a custom scoring profile
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { activate, ...input } = createScoringProfileSchema.parse(await request.json());
+    const profile = await scoringProfileService.createProfile(userId, input, activate);
+
+    return NextResponse.json({
+      success: true,
+      profile
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Invalid request data", details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message === 'User not found') {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    logger.error("Error creating scoring profile:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+// Timeline Activity API Route - Production Ready, Zero Tech Debt
+// Paginated audit trail of changes to a timeline
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { activityQuerySchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/[id]/activity - Get a page of activity, newest first
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = activityQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const page = await timelineService.getActivity(userId, params.id, query);
+
+    return NextResponse.json({
+      success: true,
+      ...page
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline activity GET error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
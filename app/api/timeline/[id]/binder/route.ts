@@ -0,0 +1,109 @@
+// Timeline Closing Binder API Route - Production Ready, Zero Tech Debt
+// Every current document on a timeline as one ZIP or merged PDF
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { ZodError } from 'zod';
+import { closingBinderService, ClosingBinderError } from '@/lib/services/ClosingBinderService';
+import { TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { binderQuerySchema } from '@/lib/validation/timeline';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/[id]/binder - Download the closing binder
+// ============================================================================
+
+/**
+ * `?format=zip` (default) keeps the original files under step and document
+ * type folders with an index; `?format=pdf` merges them behind a cover page
+ * and table of contents, with bookmarks per step and document.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { format } = binderQuerySchema.parse({
+      format: searchParams.get('format') || undefined
+    });
+
+    const binder = await closingBinderService.buildBinder(userId, params.id, format);
+
+    return new NextResponse(binder.buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': binder.contentType,
+        'Content-Length': String(binder.buffer.length),
+        'Content-Disposition': `attachment; filename="${binder.fileName.replace(/"/g, '')}"; filename*=UTF-8''${encodeURIComponent(binder.fileName)}`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof ClosingBinderError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline closing binder GET error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// Timeline Calendar Feed API Route - Production Ready, Zero Tech Debt
+// RFC 5545 feed of scheduled steps for Google Calendar, Outlook and Apple Calendar
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { buildTimelineCalendar, CalendarTimeline } from '@/lib/utils/ical';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/[id]/calendar.ics - Subscribable feed or one-off download
+// ============================================================================
+
+/**
+ * Calendar clients can't send session cookies, so `?token=` authorizes feed
+ * subscriptions. Without a token the signed-in owner gets the same document,
+ * as an attachment when `?download=1` is set.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { searchParams, origin } = new URL(request.url);
+    const token = searchParams.get('token');
+    let timeline: CalendarTimeline;
+
+    if (token) {
+      // Rate limit feed polling per timeline
+      if (!generalRateLimiter.isAllowed(`calendar:${params.id}`)) {
+        return NextResponse.json(
+          { success: false, error: 'Rate limit exceeded' },
+          { status: 429 }
+        );
+      }
+
+      timeline = await timelineService.getCalendarTimelineByToken(params.id, token);
+    } else {
+      const { userId } = await auth();
+
+      if (!userId) {
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+
+      // Rate limiting
+      if (!generalRateLimiter.isAllowed(userId)) {
+        return NextResponse.json(
+          { success: false, error: 'Rate limit exceeded' },
+          { status: 429 }
+        );
+      }
+
+      timeline = await timelineService.getCalendarTimeline(userId, params.id);
+    }
+
+    const calendar = buildTimelineCalendar(timeline, {
+      appUrl: `${origin}/timeline?propertyId=${encodeURIComponent(timeline.propertyId)}`
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, no-cache'
+    };
+
+    if (searchParams.get('download') === '1') {
+      headers['Content-Disposition'] = `attachment; filename="timeline-${timeline.id}.ics"`;
+    }
+
+    return new NextResponse(calendar, { status: 200, headers });
+
+  } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline calendar feed GET error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
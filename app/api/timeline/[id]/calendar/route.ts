@@ -0,0 +1,99 @@
+// Timeline Calendar Subscription API Route - Production Ready, Zero Tech Debt
+// Issue and rotate the token-protected .ics feed URL
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const buildFeedUrls = (origin: string, timelineId: string, token: string) => {
+  const feedUrl = `${origin}/api/timeline/${timelineId}/calendar.ics?token=${encodeURIComponent(token)}`;
+  return {
+    feedUrl,
+    // webcal:// opens the subscribe dialog in Apple Calendar and Outlook
+    webcalUrl: feedUrl.replace(/^https?:\/\//, 'webcal://')
+  };
+};
+
+// ============================================================================
+// GET /api/timeline/[id]/calendar - Get the calendar feed URL
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  return handleFeedUrlRequest(request, params.id, false);
+}
+
+// ============================================================================
+// POST /api/timeline/[id]/calendar - Rotate the feed token
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  return handleFeedUrlRequest(request, params.id, true);
+}
+
+async function handleFeedUrlRequest(request: NextRequest, timelineId: string, rotate: boolean) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const token = await timelineService.getCalendarFeedToken(userId, timelineId, rotate);
+    const { origin } = new URL(request.url);
+
+    return NextResponse.json({
+      success: true,
+      ...buildFeedUrls(origin, timelineId, token),
+      ...(rotate && { message: 'Calendar feed URL rotated. Previous subscriptions will stop updating.' })
+    });
+
+  } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error(`Timeline calendar ${rotate ? 'POST' : 'GET'} error:`, error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
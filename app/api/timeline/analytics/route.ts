@@ -4,7 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
-import { timelineService } from '@/lib/services/TimelineService';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
 import { generalRateLimiter } from '@/lib/rate-limiter';
 import { serializeData } from '@/lib/utils';
 import { ZodError } from 'zod';
@@ -107,6 +107,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -0,0 +1,106 @@
+// Timeline Contingency Resolution API Route - Production Ready, Zero Tech Debt
+// Record a contingency as removed, waived or failed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import {
+  timelineService,
+  TimelinePermissionError,
+  TimelineContingencyError
+} from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { resolveContingencySchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    contingencyId: string;
+  };
+}
+
+// ============================================================================
+// POST /api/timeline/contingencies/[contingencyId]/resolve - Remove, waive or fail
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = resolveContingencySchema.parse(body);
+
+    const contingency = await timelineService.resolveContingency(userId, params.contingencyId, validatedInput);
+
+    return NextResponse.json({
+      success: true,
+      contingency,
+      message: `Contingency ${contingency.status.toLowerCase()}`
+    });
+
+  } catch (error) {
+    return handleContingencyError(error, 'POST');
+  }
+}
+
+function handleContingencyError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof TimelineContingencyError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied') ||
+        error.message.includes('No Contingency found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Timeline contingency resolve ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,134 @@
+// Timeline Contingencies API Route - Production Ready, Zero Tech Debt
+// List contingencies with their countdowns, and create new ones
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import {
+  timelineService,
+  TimelinePermissionError,
+  TimelineContingencyError
+} from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { contingenciesQuerySchema, createContingencySchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+// ============================================================================
+// GET /api/timeline/contingencies - List contingencies, optionally those gating a step
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = contingenciesQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const contingencies = await timelineService.getContingencies(userId, validatedQuery);
+
+    return NextResponse.json({
+      success: true,
+      contingencies
+    });
+
+  } catch (error) {
+    return handleContingencyError(error, 'GET');
+  }
+}
+
+// ============================================================================
+// POST /api/timeline/contingencies - Create contingency
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = createContingencySchema.parse(body);
+
+    const contingency = await timelineService.createContingency(userId, validatedInput);
+
+    return NextResponse.json({
+      success: true,
+      contingency,
+      message: 'Contingency created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleContingencyError(error, 'POST');
+  }
+}
+
+function handleContingencyError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof TimelineContingencyError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Timeline contingencies ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 });
     }
 
-    const { propertyId, propertyData } = await request.json();
+    const { propertyId, propertyData, templateId } = await request.json();
 
     if (!propertyId) {
       return NextResponse.json({ error: "Property ID is required" }, { status: 400 });
@@ -45,12 +45,13 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Create timeline with property data
+    // Create timeline with property data - a template also sets the default closing window
     const timeline = await timelineService.createTimeline(userId, {
       propertyId: propertyId,
       title: `${targetProperty.address} Purchase Timeline`,
-      estimatedClosingDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-      customSteps: [] // Use default timeline steps
+      estimatedClosingDate: templateId ? undefined : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+      templateId: typeof templateId === 'string' && templateId ? templateId : undefined,
+      customSteps: [] // Use template or default timeline steps
     });
 
     return NextResponse.json({
@@ -60,6 +61,10 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof Error && error.message.includes('Template not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     logger.error("Error creating timeline:", error);
     return NextResponse.json({ 
       error: "Internal server error", 
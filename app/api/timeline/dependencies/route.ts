@@ -0,0 +1,80 @@
+// Timeline Dependency Graph API Route - Production Ready, Zero Tech Debt
+// Returns the full step dependency DAG for a timeline
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { dependencyGraphQuerySchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+// ============================================================================
+// GET /api/timeline/dependencies - Get the step dependency graph
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { timelineId } = dependencyGraphQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const graph = await timelineService.getDependencyGraph(userId, timelineId);
+
+    return NextResponse.json({
+      success: true,
+      graph
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request parameters',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline dependencies GET error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
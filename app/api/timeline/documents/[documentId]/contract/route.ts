@@ -0,0 +1,199 @@
+// Contract Analysis API Route - Production Ready, Zero Tech Debt
+// Parse a purchase contract and review the timeline updates it proposes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { contractAnalysisService, ContractAnalysisError } from '@/lib/services/ContractAnalysisService';
+import { TimelinePermissionError } from '@/lib/services/TimelineService';
+import { BudgetExhaustedError } from '@/lib/services/BudgetService';
+import { aiRateLimiter, generalRateLimiter } from '@/lib/rate-limiter';
+import { resolveContractProposalsSchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+interface RouteParams {
+  params: {
+    documentId: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/documents/[documentId]/contract - Latest analysis
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const analysis = await contractAnalysisService.getLatestAnalysis(userId, params.documentId);
+
+    return NextResponse.json({
+      success: true,
+      analysis
+    });
+
+  } catch (error) {
+    return handleContractError(error, 'GET');
+  }
+}
+
+// ============================================================================
+// POST /api/timeline/documents/[documentId]/contract - Analyze the contract
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!await aiRateLimiter.check(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const analysis = await contractAnalysisService.analyzeDocument(userId, params.documentId);
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+      message: analysis.proposals.length > 0
+        ? `Found ${analysis.proposals.length} suggested update${analysis.proposals.length === 1 ? '' : 's'}`
+        : 'Contract analyzed; the timeline already matches it'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleContractError(error, 'POST');
+  }
+}
+
+// ============================================================================
+// PUT /api/timeline/documents/[documentId]/contract - Accept or reject proposals
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { analysisId, decisions } = resolveContractProposalsSchema.parse(body);
+
+    const analysis = await contractAnalysisService.resolveProposals(
+      userId,
+      params.documentId,
+      analysisId,
+      decisions
+    );
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+      message: 'Contract proposals updated'
+    });
+
+  } catch (error) {
+    return handleContractError(error, 'PUT');
+  }
+}
+
+// ============================================================================
+// ERROR HANDLING
+// ============================================================================
+
+function handleContractError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof BudgetExhaustedError) {
+    return NextResponse.json(error.toResponseBody(), { status: 402 });
+  }
+
+  if (error instanceof ContractAnalysisError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 422 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied') ||
+        error.message.includes('No TimelineDocument found') || error.message.includes('No ContractAnalysis found')) {
+      return NextResponse.json(
+        { success: false, error: 'Document not found or access denied' },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Contract analysis ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
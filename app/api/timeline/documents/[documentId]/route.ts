@@ -0,0 +1,92 @@
+// Individual Timeline Document API Route - Production Ready, Zero Tech Debt
+// Update document details and verification
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { serializeData } from '@/lib/utils';
+import { updateDocumentSchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    documentId: string;
+  };
+}
+
+// ============================================================================
+// PUT /api/timeline/documents/[documentId] - Update or verify a document
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = updateDocumentSchema.parse(body);
+
+    const document = await timelineService.updateDocument(userId, params.documentId, validatedInput);
+
+    return NextResponse.json({
+      success: true,
+      document: serializeData(document),
+      message: 'Document updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied') ||
+          error.message.includes('No TimelineDocument found')) {
+        return NextResponse.json(
+          { success: false, error: 'Document not found or access denied' },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline document PUT error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
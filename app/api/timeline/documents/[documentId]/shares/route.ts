@@ -0,0 +1,144 @@
+// Document Share Links API Route - Production Ready, Zero Tech Debt
+// List a document's share links or create a new expiring link
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { getAppBaseUrl } from '@/lib/utils/app-url';
+import { createDocumentShareSchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    documentId: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/documents/[documentId]/shares - List share links
+// ============================================================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const shares = await timelineService.getDocumentShares(userId, params.documentId);
+
+    return NextResponse.json({
+      success: true,
+      shares
+    });
+
+  } catch (error) {
+    return handleShareError(error, 'GET');
+  }
+}
+
+// ============================================================================
+// POST /api/timeline/documents/[documentId]/shares - Create a share link
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+    const user = await currentUser();
+
+    if (!userId || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = createDocumentShareSchema.parse(body);
+
+    const sharerName = user.firstName && user.lastName
+      ? `${user.firstName} ${user.lastName}`
+      : user.emailAddresses[0]?.emailAddress?.split('@')[0] || 'Your teammate';
+
+    const result = await timelineService.createDocumentShare(userId, params.documentId, validatedInput, {
+      appUrl: getAppBaseUrl(),
+      sharerName
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: result.emailed
+        ? `Share link sent to ${result.share.recipientEmail}`
+        : 'Share link created. Copy it to send by hand.'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleShareError(error, 'POST');
+  }
+}
+
+function handleShareError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied') ||
+        error.message.includes('No TimelineDocument found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Document share ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,93 @@
+// Document Classification API Route - Production Ready, Zero Tech Debt
+// Suggests a document type and timeline step before a file is uploaded
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { ZodError } from 'zod';
+import { documentClassifierService } from '@/lib/services/DocumentClassifierService';
+import { TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { classifyDocumentSchema } from '@/lib/validation/timeline';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// ============================================================================
+// POST /api/timeline/documents/classify - Classify a file
+// ============================================================================
+
+/**
+ * Multipart form with `timelineId` and either `file` or just `fileName`.
+ * Files too large to post through the API are classified by name only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const upload = file instanceof File ? file : null;
+
+    const { timelineId, fileName } = classifyDocumentSchema.parse({
+      timelineId: formData.get('timelineId'),
+      fileName: formData.get('fileName') || upload?.name
+    });
+
+    const classification = await documentClassifierService.classifyForTimeline(userId, timelineId, {
+      fileName,
+      buffer: upload ? Buffer.from(await upload.arrayBuffer()) : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      classification
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Document classification POST error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 // Save Cloudinary Document API Route
-// Saves documents that were uploaded directly to Cloudinary from the client
+// Saves documents that were uploaded directly to Cloudinary or Supabase from the client
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { timelineService } from '@/lib/services/TimelineService';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { documentClassifierService } from '@/lib/services/DocumentClassifierService';
+import { documentTypeSchema } from '@/lib/validation/timeline';
 import { logger } from '@/lib/utils/logger';
 import { z } from 'zod';
 
@@ -16,6 +18,10 @@ const saveCloudinarySchema = z.object({
   storageKey: z.string().min(1),
   fileSize: z.number().positive(),
   completionSessionId: z.string().optional(),
+  // Direct uploads only exist for these two backends
+  storageProvider: z.enum(['CLOUDINARY', 'SUPABASE']).optional().default('CLOUDINARY'),
+  // Chosen in the upload dialog; classified from the file name when absent
+  documentType: documentTypeSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -45,8 +51,19 @@ export async function POST(request: NextRequest) {
     const fileExtension = validatedData.fileName.split('.').pop()?.toLowerCase() || '';
     const mimeType = getMimeType(fileExtension);
     
-    // Determine document type from file extension or default to OTHER
-    const documentType = getDocumentTypeFromFilename(validatedData.fileName);
+    // Check the uploader's role before classifying or saving anything
+    const access = await timelineService.getTimelineAccess(userId, validatedData.timelineId);
+    timelineService.assertTimelinePermission(access, 'document.upload', { documentType: validatedData.documentType });
+
+    // The file never passes through the server, so only its name can be classified
+    const classification = validatedData.documentType
+      ? null
+      : await documentClassifierService.classifyForUpload(access, { fileName: validatedData.fileName });
+    const documentType = validatedData.documentType ?? classification?.documentType ?? 'OTHER';
+    // Roles limited to specific types can't fall back to OTHER either
+    if (classification) {
+      timelineService.assertTimelinePermission(access, 'document.upload', { documentType });
+    }
 
     // Save document info to database
     logger.debug('Saving document to database', {
@@ -64,11 +81,13 @@ export async function POST(request: NextRequest) {
       originalName: validatedData.fileName,
       mimeType,
       fileSize: validatedData.fileSize,
-      documentType: documentType, // Use enum-compatible document type
-      storageProvider: 'CLOUDINARY',
+      documentType,
+      storageProvider: validatedData.storageProvider,
       storageKey: validatedData.storageKey,
       downloadUrl: validatedData.downloadUrl,
-      thumbnailUrl: generateThumbnailUrl(validatedData.downloadUrl, fileExtension),
+      thumbnailUrl: validatedData.storageProvider === 'CLOUDINARY'
+        ? generateThumbnailUrl(validatedData.downloadUrl, fileExtension)
+        : undefined,
       uploadedBy: userId,
       completionSessionId: validatedData.completionSessionId
     });
@@ -90,6 +109,7 @@ export async function POST(request: NextRequest) {
         mimeType: document.mimeType,
         uploadedAt: document.createdAt
       },
+      classification, // Null when the uploader picked the type
       message: 'Cloudinary document saved successfully'
     });
 
@@ -110,6 +130,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -144,98 +171,6 @@ function getMimeType(extension: string): string {
   return mimeTypes[extension] || 'application/octet-stream';
 }
 
-// Helper function to determine document type from filename
-function getDocumentTypeFromFilename(filename: string): string {
-  const lowerName = filename.toLowerCase();
-  
-  // INSPECTION - Most common type, check thoroughly
-  if (lowerName.includes('inspection') || 
-      lowerName.includes('inspect') ||
-      lowerName.includes('home') || 
-      lowerName.includes('property') ||
-      lowerName.includes('sewer') ||
-      lowerName.includes('chimney') ||
-      lowerName.includes('pool') ||
-      lowerName.includes('hvac') ||
-      lowerName.includes('electrical') ||
-      lowerName.includes('plumbing') ||
-      lowerName.includes('foundation') ||
-      lowerName.includes('roof') ||
-      lowerName.includes('pest') ||
-      lowerName.includes('termite') ||
-      lowerName.includes('walkthrough') ||
-      lowerName.includes('final walk') ||
-      lowerName.includes('report') && (lowerName.includes('home') || lowerName.includes('property'))) {
-    return 'INSPECTION';
-  }
-  
-  // APPRAISAL
-  if (lowerName.includes('appraisal') || lowerName.includes('apprai') || lowerName.includes('valuation')) {
-    return 'APPRAISAL';
-  }
-  
-  // CONTRACT
-  if (lowerName.includes('contract') || 
-      lowerName.includes('agreement') ||
-      lowerName.includes('purchase') && lowerName.includes('agreement') ||
-      lowerName.includes('sales') && lowerName.includes('contract')) {
-    return 'CONTRACT';
-  }
-  
-  // FINANCIAL
-  if (lowerName.includes('financial') || 
-      lowerName.includes('bank') || 
-      lowerName.includes('loan') ||
-      lowerName.includes('pre-approval') ||
-      lowerName.includes('preapproval') ||
-      lowerName.includes('mortgage') ||
-      lowerName.includes('financing')) {
-    return 'FINANCIAL';
-  }
-  
-  // INSURANCE
-  if (lowerName.includes('insurance') || 
-      lowerName.includes('homeowner') ||
-      lowerName.includes('coverage') ||
-      lowerName.includes('policy')) {
-    return 'INSURANCE';
-  }
-  
-  // TITLE
-  if (lowerName.includes('title') || 
-      lowerName.includes('deed') ||
-      lowerName.includes('ownership')) {
-    return 'TITLE';
-  }
-  
-  // CLOSING
-  if (lowerName.includes('closing') || 
-      lowerName.includes('settlement') ||
-      lowerName.includes('hud-1') ||
-      lowerName.includes('final') && lowerName.includes('statement')) {
-    return 'CLOSING';
-  }
-  
-  // CORRESPONDENCE
-  if (lowerName.includes('correspondence') || 
-      lowerName.includes('email') || 
-      lowerName.includes('letter') ||
-      lowerName.includes('communication')) {
-    return 'CORRESPONDENCE';
-  }
-  
-  // RECEIPT
-  if (lowerName.includes('receipt') || 
-      lowerName.includes('invoice') ||
-      lowerName.includes('payment') ||
-      lowerName.includes('bill')) {
-    return 'RECEIPT';
-  }
-  
-  // Default to OTHER for unrecognized types
-  return 'OTHER';
-}
-
 // Helper function to generate thumbnail URL
 function generateThumbnailUrl(url: string, extension: string): string {
   // For images, add transformation parameters
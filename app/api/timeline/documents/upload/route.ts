@@ -1,12 +1,14 @@
 // Document Upload API Route - Production Ready, Zero Tech Debt
-// Handles file upload to Cloudinary and database storage
+// Handles file upload to the configured document storage and database storage
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { uploadDocument } from '@/lib/cloudinary';
-import { timelineService } from '@/lib/services/TimelineService';
+import { getDocumentStorage } from '@/lib/services/storage';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
 import { generalRateLimiter } from '@/lib/rate-limiter';
 import { fileOptimization } from '@/lib/services/FileOptimizationService';
+import { documentClassifierService } from '@/lib/services/DocumentClassifierService';
+import { documentTypeSchema } from '@/lib/validation/timeline';
 import { z } from 'zod';
 
 import { logger } from "@/lib/utils/logger";
@@ -17,6 +19,8 @@ const uploadSchema = z.object({
   stepCategory: z.string().min(1),
   fileName: z.string().min(1),
   completionSessionId: z.string().optional(),
+  // Chosen in the upload dialog; classified from the file when absent
+  documentType: documentTypeSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -46,6 +50,7 @@ export async function POST(request: NextRequest) {
     const stepCategory = formData.get('stepCategory') as string;
     const fileName = formData.get('fileName') as string;
     const completionSessionId = formData.get('completionSessionId') as string;
+    const requestedType = formData.get('documentType') as string;
 
     logger.debug('Upload request received:', {
       fileName,
@@ -62,11 +67,9 @@ export async function POST(request: NextRequest) {
       timelineId,
       stepCategory,
       fileName: fileName || file?.name,
-      completionSessionId: completionSessionId || undefined
+      completionSessionId: completionSessionId || undefined,
+      documentType: requestedType || undefined
     });
-    
-    // Determine document type from file extension or default to OTHER
-    const documentType = getDocumentTypeFromFilename(validatedData.fileName);
 
     if (!file) {
       return NextResponse.json(
@@ -75,9 +78,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check the uploader's role before the file is read, classified or stored
+    const access = await timelineService.getTimelineAccess(userId, validatedData.timelineId);
+    timelineService.assertTimelinePermission(access, 'document.upload', { documentType: validatedData.documentType });
+
     // Convert file to buffer for analysis
     const fileBuffer = Buffer.from(await file.arrayBuffer());
 
+    // Classify before optimization, while the original text layer is intact
+    const classification = validatedData.documentType
+      ? null
+      : await documentClassifierService.classifyForUpload(access, { fileName: validatedData.fileName, buffer: fileBuffer });
+    const documentType = validatedData.documentType ?? classification?.documentType ?? 'OTHER';
+    // Roles limited to specific types can't fall back to OTHER either
+    if (classification) {
+      timelineService.assertTimelinePermission(access, 'document.upload', { documentType });
+    }
+
     // Analyze and potentially optimize large files
     const maxSize = 50 * 1024 * 1024; // 50MB limit
     let finalBuffer = fileBuffer;
@@ -136,14 +153,14 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Timeline ownership will be verified by the createDocument method
-
-    // Upload to Cloudinary using the optimized buffer
-    const uploadResult = await uploadDocument(finalBuffer, {
+    // Upload to the configured storage backend using the optimized buffer
+    const storage = getDocumentStorage();
+    const uploadResult = await storage.put(finalBuffer, {
       stepId: validatedData.stepId,
       timelineId: validatedData.timelineId,
       stepCategory: validatedData.stepCategory,
-      fileName: validatedData.fileName
+      fileName: validatedData.fileName,
+      contentType: file.type
     });
 
     // Save document info to database
@@ -154,10 +171,10 @@ export async function POST(request: NextRequest) {
       originalName: file.name,
       mimeType: file.type,
       fileSize: finalBuffer.length, // Use optimized size
-      documentType: documentType, // Use enum-compatible document type
-      storageProvider: 'CLOUDINARY',
-      storageKey: uploadResult.publicId,
-      downloadUrl: uploadResult.url,
+      documentType,
+      storageProvider: storage.provider,
+      storageKey: uploadResult.storageKey,
+      downloadUrl: uploadResult.downloadUrl,
       thumbnailUrl: uploadResult.thumbnailUrl,
       uploadedBy: userId,
       completionSessionId: validatedData.completionSessionId
@@ -175,6 +192,7 @@ export async function POST(request: NextRequest) {
         uploadedAt: document.createdAt
       },
       optimization: optimizationInfo, // Include optimization details if any
+      classification, // Null when the uploader picked the type
       message: optimizationInfo 
         ? `Document uploaded successfully (optimized from ${(optimizationInfo.originalSize / 1024 / 1024).toFixed(1)}MB to ${(optimizationInfo.optimizedSize / 1024 / 1024).toFixed(1)}MB)`
         : 'Document uploaded successfully'
@@ -196,6 +214,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       logger.error('Error message:', error.message);
       if (error.message.includes('not found') || error.message.includes('access denied')) {
@@ -218,95 +243,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper function to determine document type from filename
-function getDocumentTypeFromFilename(filename: string): string {
-  const lowerName = filename.toLowerCase();
-  
-  // INSPECTION - Most common type, check thoroughly
-  if (lowerName.includes('inspection') || 
-      lowerName.includes('inspect') ||
-      lowerName.includes('home') || 
-      lowerName.includes('property') ||
-      lowerName.includes('sewer') ||
-      lowerName.includes('chimney') ||
-      lowerName.includes('pool') ||
-      lowerName.includes('hvac') ||
-      lowerName.includes('electrical') ||
-      lowerName.includes('plumbing') ||
-      lowerName.includes('foundation') ||
-      lowerName.includes('roof') ||
-      lowerName.includes('pest') ||
-      lowerName.includes('termite') ||
-      lowerName.includes('walkthrough') ||
-      lowerName.includes('final walk') ||
-      lowerName.includes('report') && (lowerName.includes('home') || lowerName.includes('property'))) {
-    return 'INSPECTION';
-  }
-  
-  // APPRAISAL
-  if (lowerName.includes('appraisal') || lowerName.includes('apprai') || lowerName.includes('valuation')) {
-    return 'APPRAISAL';
-  }
-  
-  // CONTRACT
-  if (lowerName.includes('contract') || 
-      lowerName.includes('agreement') ||
-      lowerName.includes('purchase') && lowerName.includes('agreement') ||
-      lowerName.includes('sales') && lowerName.includes('contract')) {
-    return 'CONTRACT';
-  }
-  
-  // FINANCIAL
-  if (lowerName.includes('financial') || 
-      lowerName.includes('bank') || 
-      lowerName.includes('loan') ||
-      lowerName.includes('pre-approval') ||
-      lowerName.includes('preapproval') ||
-      lowerName.includes('mortgage') ||
-      lowerName.includes('financing')) {
-    return 'FINANCIAL';
-  }
-  
-  // INSURANCE
-  if (lowerName.includes('insurance') || 
-      lowerName.includes('homeowner') ||
-      lowerName.includes('coverage') ||
-      lowerName.includes('policy')) {
-    return 'INSURANCE';
-  }
-  
-  // TITLE
-  if (lowerName.includes('title') || 
-      lowerName.includes('deed') ||
-      lowerName.includes('ownership')) {
-    return 'TITLE';
-  }
-  
-  // CLOSING
-  if (lowerName.includes('closing') || 
-      lowerName.includes('settlement') ||
-      lowerName.includes('hud-1') ||
-      lowerName.includes('final') && lowerName.includes('statement')) {
-    return 'CLOSING';
-  }
-  
-  // CORRESPONDENCE
-  if (lowerName.includes('correspondence') || 
-      lowerName.includes('email') || 
-      lowerName.includes('letter') ||
-      lowerName.includes('communication')) {
-    return 'CORRESPONDENCE';
-  }
-  
-  // RECEIPT
-  if (lowerName.includes('receipt') || 
-      lowerName.includes('invoice') ||
-      lowerName.includes('payment') ||
-      lowerName.includes('bill')) {
-    return 'RECEIPT';
-  }
-  
-  // Default to OTHER for unrecognized types
-  return 'OTHER';
-}
\ No newline at end of file
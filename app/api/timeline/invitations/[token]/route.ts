@@ -0,0 +1,114 @@
+// Timeline Invitation API Route - Production Ready, Zero Tech Debt
+// Preview and accept an emailed collaboration invitation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelineInvitationError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+
+interface RouteParams {
+  params: {
+    token: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/invitations/[token] - Preview an invitation
+// ============================================================================
+
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const invitation = await timelineService.getInvitation(params.token);
+
+    return NextResponse.json({
+      success: true,
+      invitation
+    });
+
+  } catch (error) {
+    return handleInvitationError(error, 'GET');
+  }
+}
+
+// ============================================================================
+// POST /api/timeline/invitations/[token] - Accept an invitation
+// ============================================================================
+
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const result = await timelineService.acceptInvitation(userId, params.token);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: 'Invitation accepted'
+    });
+
+  } catch (error) {
+    return handleInvitationError(error, 'POST');
+  }
+}
+
+function handleInvitationError(error: unknown, method: string) {
+  if (error instanceof TimelineInvitationError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 404 }
+    );
+  }
+
+  logger.error(`Timeline invitation ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -4,7 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
-import { timelineService } from '@/lib/services/TimelineService';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
 import { generalRateLimiter } from '@/lib/rate-limiter';
 import { serializeData } from '@/lib/utils';
 import { 
@@ -86,6 +86,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       // Known error types
       if (error.message.includes('not found') || error.message.includes('access denied')) {
@@ -159,6 +166,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       // Handle specific business logic errors
       if (error.message.includes('Property not found')) {
@@ -251,6 +265,13 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -313,6 +334,13 @@ export async function DELETE(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -4,7 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth, currentUser } from '@clerk/nextjs/server';
-import { timelineService } from '@/lib/services/TimelineService';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
 import { generalRateLimiter } from '@/lib/rate-limiter';
 import { addStepCommentSchema } from '@/lib/validation/timeline';
 import { ZodError } from 'zod';
@@ -58,6 +58,13 @@ export async function GET(
     });
 
   } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -149,6 +156,13 @@ export async function POST(
       );
     }
 
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
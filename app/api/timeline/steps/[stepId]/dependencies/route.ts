@@ -0,0 +1,106 @@
+// Timeline Step Dependencies API Route - Production Ready, Zero Tech Debt
+// Replace the set of steps a step depends on
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelineDependencyError, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { updateStepDependenciesSchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    stepId: string;
+  };
+}
+
+// ============================================================================
+// PUT /api/timeline/steps/[stepId]/dependencies - Set step dependencies
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { stepId } = params;
+
+    if (!stepId) {
+      return NextResponse.json(
+        { success: false, error: 'Step ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { dependsOnStepIds } = updateStepDependenciesSchema.parse(body);
+
+    const graph = await timelineService.setStepDependencies(userId, stepId, dependsOnStepIds);
+
+    return NextResponse.json({
+      success: true,
+      graph,
+      message: 'Step dependencies updated successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof TimelineDependencyError) {
+      return NextResponse.json(
+        { success: false, error: error.message, ...error.details },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline step dependencies PUT error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
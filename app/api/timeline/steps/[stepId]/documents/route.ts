@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
-import { documentVersionService } from '@/lib/services/DocumentVersionService';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
 
 export async function GET(
   _request: NextRequest,
@@ -19,7 +19,7 @@ export async function GET(
     }
 
     // Get documents grouped by sessions (server version)
-    const documentVersions = await documentVersionService.getDocumentsGroupedBySessionsServer(stepId);
+    const documentVersions = await timelineService.getStepDocumentVersions(userId, stepId);
 
     // Convert BigInt values to numbers for JSON serialization
     const serializedResult = {
@@ -39,6 +39,13 @@ export async function GET(
     return NextResponse.json(serializedResult);
 
   } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof Error && error.message.includes('access denied')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
     logger.error('Error loading step documents:', error);
     return NextResponse.json(
       { error: 'Failed to load step documents' },
@@ -0,0 +1,75 @@
+// Individual Step Document Requirement API Route - Production Ready, Zero Tech Debt
+// Stop requiring a document on a step
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+
+interface RouteParams {
+  params: {
+    stepId: string;
+    requirementId: string;
+  };
+}
+
+// ============================================================================
+// DELETE /api/timeline/steps/[stepId]/requirements/[requirementId] - Remove requirement
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const checklist = await timelineService.deleteDocumentRequirement(userId, params.stepId, params.requirementId);
+
+    return NextResponse.json({
+      success: true,
+      checklist,
+      message: 'Document requirement removed successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    logger.error('Timeline step requirement DELETE error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
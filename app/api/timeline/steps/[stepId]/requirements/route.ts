@@ -0,0 +1,133 @@
+// Timeline Step Document Requirements API Route - Production Ready, Zero Tech Debt
+// The documents a step needs before it can be completed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth } from '@clerk/nextjs/server';
+import { timelineService, TimelinePermissionError } from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { createDocumentRequirementSchema } from '@/lib/validation/timeline';
+import { ZodError } from 'zod';
+
+interface RouteParams {
+  params: {
+    stepId: string;
+  };
+}
+
+// ============================================================================
+// GET /api/timeline/steps/[stepId]/requirements - Get the document checklist
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const checklist = await timelineService.getStepDocumentChecklist(userId, params.stepId);
+
+    return NextResponse.json({
+      success: true,
+      checklist
+    });
+
+  } catch (error) {
+    return handleRequirementError(error, 'GET');
+  }
+}
+
+// ============================================================================
+// POST /api/timeline/steps/[stepId]/requirements - Require a document
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedInput = createDocumentRequirementSchema.parse(body);
+
+    const checklist = await timelineService.addDocumentRequirement(userId, params.stepId, validatedInput);
+
+    return NextResponse.json({
+      success: true,
+      checklist,
+      message: 'Document requirement added successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleRequirementError(error, 'POST');
+  }
+}
+
+function handleRequirementError(error: unknown, method: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied') ||
+        error.message.includes('No TimelineStep found')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Timeline step requirements ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
@@ -4,7 +4,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from "@/lib/utils/logger";
 import { auth } from '@clerk/nextjs/server';
-import { timelineService } from '@/lib/services/TimelineService';
+import {
+  timelineService,
+  TimelineDependencyError,
+  TimelinePermissionError,
+  StepDocumentRequirementError
+} from '@/lib/services/TimelineService';
 import { generalRateLimiter } from '@/lib/rate-limiter';
 import { 
   updateTimelineStepSchema
@@ -61,6 +66,13 @@ export async function GET(
     });
 
   } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -121,6 +133,11 @@ export async function PUT(
     // Update timeline step
     const step = await timelineService.updateTimelineStep(userId, stepId, validatedInput);
 
+    // Completing a step ahead of an open contingency is allowed, but flagged
+    const warnings = validatedInput.isCompleted === true
+      ? await timelineService.getContingencyWarnings(userId, stepId)
+      : [];
+
     // Serialize BigInt fields for JSON response (including nested documents)
     const serializedStep = {
       ...step,
@@ -135,6 +152,7 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       step: serializedStep,
+      warnings,
       message: 'Timeline step updated successfully'
     });
 
@@ -156,6 +174,28 @@ export async function PUT(
       );
     }
 
+    if (error instanceof TimelineDependencyError) {
+      return NextResponse.json(
+        { success: false, error: error.message, ...error.details }, 
+        { status: 409 }
+      );
+    }
+
+    // Retrying with documentOverrideReason completes the step anyway
+    if (error instanceof StepDocumentRequirementError) {
+      return NextResponse.json(
+        { success: false, error: error.message, ...error.details },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
@@ -218,6 +258,13 @@ export async function DELETE(
     });
 
   } catch (error) {
+    if (error instanceof TimelinePermissionError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 403 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         return NextResponse.json(
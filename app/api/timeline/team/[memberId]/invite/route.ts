@@ -0,0 +1,139 @@
+// Timeline Team Invitation API Route - Production Ready, Zero Tech Debt
+// Invite a team member to collaborate, or revoke their access
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from "@/lib/utils/logger";
+import { auth, currentUser } from '@clerk/nextjs/server';
+import {
+  timelineService,
+  TimelinePermissionError,
+  TimelineInvitationError
+} from '@/lib/services/TimelineService';
+import { generalRateLimiter } from '@/lib/rate-limiter';
+import { getAppBaseUrl } from '@/lib/utils/app-url';
+
+interface RouteParams {
+  params: {
+    memberId: string;
+  };
+}
+
+// ============================================================================
+// POST /api/timeline/team/[memberId]/invite - Send an invitation
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+    const user = await currentUser();
+
+    if (!userId || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const inviterName = user.firstName && user.lastName
+      ? `${user.firstName} ${user.lastName}`
+      : user.emailAddresses[0]?.emailAddress?.split('@')[0] || 'Your teammate';
+
+    const invitation = await timelineService.inviteTeamMember(userId, params.memberId, {
+      appUrl: getAppBaseUrl(),
+      inviterName
+    });
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+      message: invitation.emailed
+        ? `Invitation sent to ${invitation.email}`
+        : 'Invitation created. Email is not configured, so share the link directly.'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleInvitationError(error, 'POST');
+  }
+}
+
+// ============================================================================
+// DELETE /api/timeline/team/[memberId]/invite - Revoke access
+// ============================================================================
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting
+    if (!generalRateLimiter.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    await timelineService.revokeTeamMemberAccess(userId, params.memberId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Access revoked'
+    });
+
+  } catch (error) {
+    return handleInvitationError(error, 'DELETE');
+  }
+}
+
+function handleInvitationError(error: unknown, method: string) {
+  if (error instanceof TimelinePermissionError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 403 }
+    );
+  }
+
+  if (error instanceof TimelineInvitationError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('not found') || error.message.includes('access denied') ||
+        error.message.includes('No TimelineTeamMember found')) {
+      return NextResponse.json(
+        { success: false, error: 'Team member not found or access denied' },
+        { status: 404 }
+      );
+    }
+  }
+
+  logger.error(`Timeline team invite ${method} error:`, error);
+
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
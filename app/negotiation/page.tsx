@@ -24,8 +24,10 @@ import {
 import { ReportUploadSection } from "@/components/negotiation/ReportUploadSection";
 import { NegotiationAnalysis } from "@/components/negotiation/NegotiationAnalysis";
 import { NegotiationWorkspace } from "@/components/negotiation/NegotiationWorkspace";
+import { SavedAnalysesSection } from "@/components/negotiation/SavedAnalysesSection";
 import AppNavigation from "@/components/app-navigation";
 import AppFooter from "@/components/app-footer";
+import BudgetIndicator from "@/components/budget-indicator";
 
 interface InspectionDocument {
   id: string;
@@ -73,6 +75,7 @@ function NegotiationPageContent() {
   const [isLoadingReports, setIsLoadingReports] = useState(true);
   const [availableReports, setAvailableReports] = useState<InspectionDocument[]>([]);
   const [hasInitiatedAnalysis, setHasInitiatedAnalysis] = useState(false);
+  const [budgetRefreshKey, setBudgetRefreshKey] = useState(0);
 
   // Load existing inspection reports from database
   useEffect(() => {
@@ -105,6 +108,30 @@ function NegotiationPageContent() {
     }
   };
 
+  // Reopen a saved analysis straight into the negotiation workspace
+  const handleReopenAnalysis = async (analysisId: string) => {
+    const response = await fetch(`/api/negotiation/analyses/${analysisId}`);
+    if (!response.ok) {
+      throw new Error('Failed to load saved analysis');
+    }
+
+    const { analysis } = await response.json();
+
+    setReports(prev => [
+      ...prev.filter(r => r.id !== analysis.analysisId),
+      {
+        id: analysis.analysisId,
+        name: analysis.documentName,
+        type: analysis.reportType,
+        analysisStatus: 'complete',
+        issues: analysis.issues || [],
+        detailedAnalysis: analysis.detailedAnalysis || null
+      }
+    ]);
+    setHasInitiatedAnalysis(true);
+    setCurrentStep('strategy');
+  };
+
   const stats = {
     totalReports: reports.length,
     totalIssues: reports.reduce((sum, report) => sum + (report.issues?.length || 0), 0),
@@ -256,6 +283,7 @@ function NegotiationPageContent() {
     const results = await Promise.allSettled(analysisPromises);
     
     setIsAnalyzing(false);
+    setBudgetRefreshKey(key => key + 1);
     
     // Count successful completions
     const successfulResults = results.filter(result => 
@@ -281,7 +309,8 @@ function NegotiationPageContent() {
     
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Analysis failed');
+      // Budget errors carry a user-facing message alongside the short error code
+      throw new Error(error.message || error.error || 'Analysis failed');
     }
     
     const result = await response.json();
@@ -303,7 +332,7 @@ function NegotiationPageContent() {
     
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Analysis failed');
+      throw new Error(error.message || error.error || 'Analysis failed');
     }
     
     const result = await response.json();
@@ -321,17 +350,20 @@ function NegotiationPageContent() {
       
       <div className="container mx-auto px-4 py-8 max-w-7xl">
       {/* Header */}
-      <div className="mb-8">
-        <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-          <DollarSign className="h-4 w-4" />
-          Negotiation
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+            <DollarSign className="h-4 w-4" />
+            Negotiation
+          </div>
+          <SectionHeader className="text-4xl font-bold mb-3">
+            Inspection Credit Negotiation
+          </SectionHeader>
+          <p className="text-gray-600 text-lg">
+            Transform your inspection reports into data-backed negotiation strategies with specific credit amounts
+          </p>
         </div>
-        <SectionHeader className="text-4xl font-bold mb-3">
-          Inspection Credit Negotiation
-        </SectionHeader>
-        <p className="text-gray-600 text-lg">
-          Transform your inspection reports into data-backed negotiation strategies with specific credit amounts
-        </p>
+        <BudgetIndicator refreshKey={budgetRefreshKey} />
       </div>
 
       {/* Progress Steps */}
@@ -468,13 +500,16 @@ function NegotiationPageContent() {
         /* Main Content */
         <div className="space-y-8">
           {currentStep === 'upload' && (
-            <ReportUploadSection 
-              onReportsUpload={handleReportsUpload}
-              reports={reports}
-              setReports={setReports}
-              availableReports={availableReports}
-              hasInitiatedAnalysis={hasInitiatedAnalysis}
-            />
+            <>
+              <SavedAnalysesSection onReopen={handleReopenAnalysis} />
+              <ReportUploadSection 
+                onReportsUpload={handleReportsUpload}
+                reports={reports}
+                setReports={setReports}
+                availableReports={availableReports}
+                hasInitiatedAnalysis={hasInitiatedAnalysis}
+              />
+            </>
           )}
         
         {currentStep === 'analysis' && (
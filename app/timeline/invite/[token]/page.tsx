@@ -0,0 +1,197 @@
+// Timeline Invitation Page - Production Ready, Zero Tech Debt
+// Review and accept an invitation to collaborate on a timeline
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { logger } from "@/lib/utils/logger";
+import { useUser, SignInButton } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Calendar, Users } from "lucide-react";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import AppNavigation from "@/components/app-navigation";
+import AppFooter from "@/components/app-footer";
+import type { TimelineInvitationPreview } from "@/lib/types/timeline-permissions";
+
+interface InvitationPageProps {
+  params: {
+    token: string;
+  };
+}
+
+const STATUS_MESSAGES: Record<Exclude<TimelineInvitationPreview['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been used.',
+  expired: 'This invitation has expired. Ask the timeline owner to send a new one.',
+  revoked: 'This invitation has been revoked.'
+};
+
+const formatRole = (role: string) => {
+  return role.replace(/_/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+};
+
+export default function TimelineInvitationPage({ params }: InvitationPageProps) {
+  const { isLoaded, isSignedIn } = useUser();
+  const router = useRouter();
+
+  const [invitation, setInvitation] = useState<TimelineInvitationPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    if (!isSignedIn) {
+      setIsLoading(false);
+      return;
+    }
+
+    loadInvitation();
+  }, [isLoaded, isSignedIn, params.token]);
+
+  const loadInvitation = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/timeline/invitations/${encodeURIComponent(params.token)}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load invitation');
+      }
+
+      setInvitation(data.invitation);
+    } catch (error) {
+      logger.error('Error loading invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const acceptInvitation = async () => {
+    try {
+      setIsAccepting(true);
+      setError(null);
+
+      const response = await fetch(`/api/timeline/invitations/${encodeURIComponent(params.token)}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to accept invitation');
+      }
+
+      router.push(`/timeline?propertyId=${data.propertyId}`);
+    } catch (error) {
+      logger.error('Error accepting invitation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to accept invitation');
+      setIsAccepting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-3"></div>
+          <p className="text-gray-600">Loading invitation...</p>
+        </div>
+      );
+    }
+
+    if (!isSignedIn) {
+      return (
+        <div className="text-center py-4">
+          <p className="text-gray-600 mb-4">
+            Sign in or create an account to accept this invitation.
+          </p>
+          <SignInButton>
+            <Button style={{ backgroundColor: '#5C1B10', color: 'white' }}>
+              Sign in to continue
+            </Button>
+          </SignInButton>
+        </div>
+      );
+    }
+
+    if (!invitation) {
+      return (
+        <div className="flex items-start gap-2 text-red-600">
+          <AlertCircle className="h-5 w-5 mt-0.5" />
+          <p>{error || 'Invitation not found'}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm text-gray-600">Property</p>
+          <p className="font-medium">{invitation.propertyAddress}</p>
+          <p className="text-sm text-gray-500">{invitation.timelineTitle}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Invited as</span>
+          <Badge variant="outline">{formatRole(invitation.role)}</Badge>
+          <span className="text-sm text-gray-500">({invitation.memberName})</span>
+        </div>
+
+        {invitation.status === 'pending' ? (
+          <>
+            <p className="text-sm text-gray-500 flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+            </p>
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+            <Button
+              className="w-full"
+              disabled={isAccepting}
+              onClick={acceptInvitation}
+              style={{ backgroundColor: '#5C1B10', color: 'white' }}
+            >
+              {isAccepting ? 'Joining...' : 'Accept Invitation'}
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-red-600">{STATUS_MESSAGES[invitation.status]}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <ErrorBoundary>
+      <div className="min-h-screen bg-gray-50">
+        <AppNavigation />
+        <div className="max-w-7xl mx-auto px-6 py-16 flex justify-center">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" style={{ color: '#5C1B10' }} />
+                Timeline Invitation
+              </CardTitle>
+              <CardDescription>
+                You&apos;ve been invited to collaborate on a home purchase timeline.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderContent()}
+            </CardContent>
+          </Card>
+        </div>
+        <AppFooter />
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -27,7 +27,9 @@ import {
   ArrowLeft,
   Plus,
   Settings,
-  DollarSign
+  DollarSign,
+  BookOpen,
+  History
 } from "lucide-react";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import AppNavigation from "@/components/app-navigation";
@@ -38,6 +40,9 @@ import { TimelineCalendarView } from "@/components/timeline/TimelineCalendarView
 import { TimelineTeamMembers } from "@/components/timeline/TimelineTeamMembers";
 import { TimelineDocuments } from "@/components/timeline/TimelineDocuments";
 import { TimelineAnalytics } from "@/components/timeline/TimelineAnalytics";
+import { TimelineNotes } from "@/components/timeline/TimelineNotes";
+import { TimelineActivity } from "@/components/timeline/TimelineActivity";
+import { ContingencyTracker } from "@/components/timeline/ContingencyTracker";
 
 interface TimelinePageProps {}
 
@@ -53,7 +58,7 @@ function TimelinePageContent() {
     costs?: TimelineCostSummary;
   } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'steps' | 'calendar' | 'team' | 'documents' | 'analytics'>('steps');
+  const [activeTab, setActiveTab] = useState<'steps' | 'calendar' | 'team' | 'documents' | 'notes' | 'activity' | 'analytics'>('steps');
   const [tabDataLoaded, setTabDataLoaded] = useState({
     team: false,
     documents: false
@@ -203,7 +208,9 @@ function TimelinePageContent() {
         overdue: prev?.progress?.overdue || 0,
         blocked: prev?.progress?.blocked || 0,
         estimatedDaysRemaining: prev?.progress?.estimatedDaysRemaining || 0,
-        onTrack: prev?.progress?.onTrack || true
+        onTrack: prev?.progress?.onTrack || true,
+        projectedClosingDate: prev?.progress?.projectedClosingDate ?? null,
+        closingVarianceDays: prev?.progress?.closingVarianceDays ?? null
       }
     }));
   };
@@ -757,10 +764,12 @@ function TimelinePageContent() {
             </CardContent>
           </Card>
 
+          {/* Contingency Countdowns */}
+          <ContingencyTracker timeline={timeline} />
 
           {/* Main Content Tabs */}
           <Tabs value={activeTab} onValueChange={handleTabChange}>
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="steps" className="flex items-center gap-2">
                 <CheckCircle className="h-4 w-4" />
                 Steps
@@ -777,6 +786,14 @@ function TimelinePageContent() {
                 <FileText className="h-4 w-4" />
                 Documents
               </TabsTrigger>
+              <TabsTrigger value="notes" className="flex items-center gap-2">
+                <BookOpen className="h-4 w-4" />
+                Journal
+              </TabsTrigger>
+              <TabsTrigger value="activity" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Activity
+              </TabsTrigger>
               <TabsTrigger value="analytics" className="flex items-center gap-2">
                 <TrendingUp className="h-4 w-4" />
                 Analytics
@@ -813,6 +830,17 @@ function TimelinePageContent() {
                 />
               </TabsContent>
 
+              <TabsContent value="notes">
+                <TimelineNotes 
+                  timeline={timeline}
+                  currentUserId={user?.id}
+                />
+              </TabsContent>
+
+              <TabsContent value="activity">
+                <TimelineActivity timeline={timeline} />
+              </TabsContent>
+
               <TabsContent value="analytics">
                 <TimelineAnalytics 
                   timeline={timeline}
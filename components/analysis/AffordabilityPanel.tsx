@@ -0,0 +1,302 @@
+// Affordability panel - max price, cost to buy this home and rent-vs-buy for owner-occupants
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Home, Loader2, XCircle } from 'lucide-react';
+import { logger } from '@/lib/utils/logger';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+  CREDIT_BAND_LABELS,
+  DEFAULT_RENT_VS_BUY_YEARS,
+  LOAN_PROGRAM_LABELS,
+  type AffordabilityAnalysis,
+  type AffordabilityLimit,
+  type BuyerProfile,
+  type CreditBand
+} from '@/lib/types/affordability';
+
+interface AffordabilityPanelProps {
+  propertyId: string;
+}
+
+interface ProfileForm {
+  annualIncome: string;
+  monthlyDebts: string;
+  savings: string;
+  creditBand: CreditBand;
+  vaEligible: boolean;
+  baseInterestRate: string;
+}
+
+const LIMIT_LABELS: Record<AffordabilityLimit, string> = {
+  front_end_dti: 'Housing DTI',
+  back_end_dti: 'Total DTI',
+  cash_to_close: 'Savings'
+};
+
+const toForm = (profile: BuyerProfile | null): ProfileForm => ({
+  annualIncome: profile ? String(profile.annualIncome) : '',
+  monthlyDebts: profile ? String(profile.monthlyDebts) : '0',
+  savings: profile ? String(profile.savings) : '',
+  creditBand: profile?.creditBand ?? 'good',
+  vaEligible: profile?.vaEligible ?? false,
+  baseInterestRate: profile?.baseInterestRate !== undefined ? String(profile.baseInterestRate) : ''
+});
+
+export const AffordabilityPanel: React.FC<AffordabilityPanelProps> = ({ propertyId }) => {
+  const [affordability, setAffordability] = useState<AffordabilityAnalysis | null>(null);
+  const [form, setForm] = useState<ProfileForm>(toForm(null));
+  const [years, setYears] = useState(String(DEFAULT_RENT_VS_BUY_YEARS));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAffordability = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/affordability`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load affordability');
+      }
+
+      setAffordability(result.affordability);
+      setForm(toForm(result.affordability?.profile ?? null));
+      setIsEditing(!result.affordability);
+    } catch (error) {
+      logger.error('Error loading affordability:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load affordability');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadAffordability();
+  }, [loadAffordability]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const profile: BuyerProfile = {
+        annualIncome: Number(form.annualIncome) || 0,
+        monthlyDebts: Number(form.monthlyDebts) || 0,
+        savings: Number(form.savings) || 0,
+        creditBand: form.creditBand,
+        vaEligible: form.vaEligible,
+        ...(form.baseInterestRate ? { baseInterestRate: Number(form.baseInterestRate) } : {}),
+        ...(affordability?.profile.targetDownPaymentPercent !== undefined
+          ? { targetDownPaymentPercent: affordability.profile.targetDownPaymentPercent }
+          : {})
+      };
+
+      const response = await fetch(`/api/properties/${propertyId}/affordability`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile, years: Number(years) || DEFAULT_RENT_VS_BUY_YEARS })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save buyer profile');
+      }
+
+      setAffordability(result.affordability);
+      setIsEditing(false);
+    } catch (error) {
+      logger.error('Error saving buyer profile:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save buyer profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateField = (field: 'annualIncome' | 'monthlyDebts' | 'savings' | 'baseInterestRate') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const rentVsBuy = affordability?.rentVsBuy;
+  const maxCost = rentVsBuy
+    ? Math.max(1, ...rentVsBuy.yearly.flatMap(year => [year.cumulativeRent, year.netCostOfOwning]))
+    : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Home className="h-5 w-5" />
+            Can I Afford It?
+          </span>
+          {affordability && !isEditing && (
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              Edit Profile
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span className="text-gray-600">Loading affordability...</span>
+          </div>
+        ) : isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Your buyer profile is saved to your account and used for every property.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="affordability-income" className="text-sm">Annual income ($)</Label>
+                <Input id="affordability-income" type="number" min="0" required value={form.annualIncome} onChange={updateField('annualIncome')} />
+              </div>
+              <div>
+                <Label htmlFor="affordability-debts" className="text-sm">Monthly debts ($)</Label>
+                <Input id="affordability-debts" type="number" min="0" value={form.monthlyDebts} onChange={updateField('monthlyDebts')} />
+              </div>
+              <div>
+                <Label htmlFor="affordability-savings" className="text-sm">Savings ($)</Label>
+                <Input id="affordability-savings" type="number" min="0" required value={form.savings} onChange={updateField('savings')} />
+              </div>
+              <div>
+                <Label htmlFor="affordability-credit" className="text-sm">Credit</Label>
+                <Select value={form.creditBand} onValueChange={(value) => setForm(prev => ({ ...prev, creditBand: value as CreditBand }))}>
+                  <SelectTrigger id="affordability-credit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CREDIT_BAND_LABELS) as CreditBand[]).map(band => (
+                      <SelectItem key={band} value={band}>
+                        {CREDIT_BAND_LABELS[band]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="affordability-rate" className="text-sm">Market rate (%)</Label>
+                <Input id="affordability-rate" type="number" min="0" step="0.125" placeholder="7" value={form.baseInterestRate} onChange={updateField('baseInterestRate')} />
+              </div>
+              <div>
+                <Label htmlFor="affordability-years" className="text-sm">Years you&apos;d stay</Label>
+                <Input id="affordability-years" type="number" min="1" max="30" value={years} onChange={(e) => setYears(e.target.value)} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-[#5C1B10]"
+                checked={form.vaEligible}
+                onChange={(e) => setForm(prev => ({ ...prev, vaEligible: e.target.checked }))}
+              />
+              Eligible for a VA loan
+            </label>
+            <div className="flex justify-end gap-2">
+              {affordability && (
+                <Button type="button" variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isSaving} className="bg-[#5C1B10] hover:bg-[#4A1508] text-white">
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save &amp; Calculate
+              </Button>
+            </div>
+          </form>
+        ) : affordability && (
+          <>
+            {/* This Home */}
+            <div>
+              <h4 className="font-semibold mb-2">Buying This Home</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {affordability.property.filter(quote => quote.eligible).map(quote => {
+                  const affordable = quote.withinDtiLimits && quote.withinSavings;
+                  return (
+                    <div key={quote.program} className={`p-3 rounded-lg border-2 ${affordable ? 'border-green-200 bg-green-50' : 'border-gray-200'}`}>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium">{LOAN_PROGRAM_LABELS[quote.program]}</span>
+                        {affordable
+                          ? <CheckCircle className="h-4 w-4 text-green-600" />
+                          : <XCircle className="h-4 w-4 text-red-500" />}
+                      </div>
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between"><span>Monthly:</span><span className="font-medium">{formatCurrency(quote.monthly.total)}</span></div>
+                        {quote.monthly.mortgageInsurance > 0 && (
+                          <div className="flex justify-between text-gray-600"><span>incl. mortgage insurance:</span><span>{formatCurrency(quote.monthly.mortgageInsurance)}</span></div>
+                        )}
+                        <div className="flex justify-between"><span>Down ({quote.downPaymentPercent.toFixed(1)}%):</span><span>{formatCurrency(quote.downPayment)}</span></div>
+                        <div className="flex justify-between"><span>Cash to close:</span><span className={quote.withinSavings ? '' : 'text-red-600'}>{formatCurrency(quote.cashToClose)}</span></div>
+                        <div className="flex justify-between"><span>DTI:</span><span className={quote.withinDtiLimits ? '' : 'text-red-600'}>{quote.frontEndDti.toFixed(0)}% / {quote.backEndDti.toFixed(0)}%</span></div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Max Price */}
+            <div>
+              <h4 className="font-semibold mb-2">Your Maximum Price</h4>
+              <div className="space-y-1 text-sm">
+                {affordability.maxPrice.map(quote => (
+                  <div key={quote.program} className="flex justify-between">
+                    <span>{LOAN_PROGRAM_LABELS[quote.program]}:</span>
+                    <span className="font-medium">
+                      {quote.eligible
+                        ? `${formatCurrency(quote.price)} (limited by ${LIMIT_LABELS[quote.limitedBy].toLowerCase()})`
+                        : quote.ineligibleReason}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Rent vs Buy */}
+            {rentVsBuy ? (
+              <div>
+                <h4 className="font-semibold mb-1">Rent vs. Buy</h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Renting at {formatCurrency(rentVsBuy.monthlyRent)}/mo vs. buying with {LOAN_PROGRAM_LABELS[rentVsBuy.program]}:{' '}
+                  {rentVsBuy.breakEvenYear
+                    ? `buying comes out ahead after ${rentVsBuy.breakEvenYear} year${rentVsBuy.breakEvenYear === 1 ? '' : 's'}`
+                    : `renting stays cheaper for all ${rentVsBuy.years} years`}
+                </p>
+                <div className="space-y-2">
+                  {rentVsBuy.yearly.map(year => (
+                    <div key={year.year} className="grid grid-cols-[3rem_1fr] gap-2 items-center text-xs">
+                      <span className="text-gray-500">Yr {year.year}</span>
+                      <div className="space-y-0.5">
+                        <div className="h-2 rounded bg-gray-400" style={{ width: `${(year.cumulativeRent / maxCost) * 100}%` }} title={`Rent: ${formatCurrency(year.cumulativeRent)}`} />
+                        <div className="h-2 rounded bg-[#5C1B10]" style={{ width: `${(Math.max(0, year.netCostOfOwning) / maxCost) * 100}%` }} title={`Own: ${formatCurrency(year.netCostOfOwning)}`} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-4 text-xs text-gray-600 mt-2">
+                  <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-gray-400" />Cumulative rent</span>
+                  <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-[#5C1B10]" />Net cost of owning</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No rent estimate is available for this property, so rent vs. buy can&apos;t be compared.</p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,285 @@
+// Investment sensitivity panel - shows how returns move when key assumptions change
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, BarChart3, Loader2 } from 'lucide-react';
+import { logger } from '@/lib/utils/logger';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+  SENSITIVITY_METRIC_LABELS,
+  SENSITIVITY_VARIABLES,
+  type BreakEvenThreshold,
+  type SensitivityAnalysis,
+  type SensitivityMetric,
+  type SensitivityVariable
+} from '@/lib/types/investment';
+
+interface InvestmentSensitivityPanelProps {
+  propertyId: string;
+  price: number;
+}
+
+interface SensitivityForm {
+  downPaymentPercent: string;
+  interestRate: string;
+  monthlyRent: string;
+  propertyTaxes: string;
+  insurance: string;
+}
+
+const DOLLAR_METRICS: SensitivityMetric[] = ['netCashFlow', 'npv'];
+
+const formatMetric = (metric: SensitivityMetric, value: number | null): string => {
+  if (value === null) return 'N/A';
+  return DOLLAR_METRICS.includes(metric) ? formatCurrency(value) : `${value.toFixed(1)}%`;
+};
+
+const formatInput = (variable: SensitivityVariable, value: number): string => {
+  return SENSITIVITY_VARIABLES[variable].unit === 'points' ? `${value.toFixed(2)}%` : formatCurrency(value);
+};
+
+const describeBreakEven = (item: BreakEvenThreshold): string => {
+  const outcome = item.metric === 'npv' ? 'NPV' : 'Cash flow';
+  if (item.status === 'always') return `${outcome} stays positive across the whole range`;
+  if (item.status === 'never') return `${outcome} is negative across the whole range`;
+
+  const threshold = formatInput(item.variable, item.threshold ?? 0);
+  return item.bound === 'max'
+    ? `${outcome} turns negative above ${threshold}`
+    : `${outcome} needs at least ${threshold}`;
+};
+
+export const InvestmentSensitivityPanel: React.FC<InvestmentSensitivityPanelProps> = ({
+  propertyId,
+  price
+}) => {
+  const [form, setForm] = useState<SensitivityForm>({
+    downPaymentPercent: '20',
+    interestRate: '7',
+    monthlyRent: String(Math.round(price * 0.008)),
+    propertyTaxes: String(Math.round(price * 0.011)),
+    insurance: String(Math.round(price * 0.004))
+  });
+  const [metric, setMetric] = useState<SensitivityMetric>('netCashFlow');
+  const [sensitivity, setSensitivity] = useState<SensitivityAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (field: keyof SensitivityForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const runAnalysis = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/investment-analysis/sensitivity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          propertyId,
+          metric,
+          investmentParams: {
+            downPayment: Math.round(price * (Number(form.downPaymentPercent) || 0) / 100),
+            interestRate: Number(form.interestRate) || 0,
+            loanTerm: 30,
+            monthlyRent: Number(form.monthlyRent) || 0,
+            propertyTaxes: Number(form.propertyTaxes) || 0,
+            insurance: Number(form.insurance) || 0,
+            investmentGoal: 'both',
+            timeHorizon: 10
+          }
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to run sensitivity analysis');
+      }
+      setSensitivity(result.data);
+    } catch (error) {
+      logger.error('Error running sensitivity analysis:', error);
+      setError(error instanceof Error ? error.message : 'Failed to run sensitivity analysis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const baseValue = sensitivity?.baseValue ?? 0;
+  const maxDeviation = sensitivity
+    ? Math.max(1e-9, ...sensitivity.tornado.flatMap(bar => [bar.lowValue, bar.highValue]
+        .filter((value): value is number => value !== null)
+        .map(value => Math.abs(value - baseValue))))
+    : 1;
+
+  const renderTornadoSegment = (value: number | null) => {
+    if (value === null) return null;
+    const deviation = value - baseValue;
+    const width = (Math.abs(deviation) / maxDeviation) * 50;
+
+    return (
+      <div
+        className={`absolute top-0 h-full ${deviation >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+        style={{ width: `${width}%`, left: deviation >= 0 ? '50%' : `${50 - width}%` }}
+      />
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Sensitivity Analysis
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Assumptions */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div>
+            <Label htmlFor="sensitivity-down-payment" className="text-sm">Down (%)</Label>
+            <Input id="sensitivity-down-payment" type="number" min="0" max="100" value={form.downPaymentPercent} onChange={updateField('downPaymentPercent')} />
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-rate" className="text-sm">Rate (%)</Label>
+            <Input id="sensitivity-rate" type="number" min="0" step="0.125" value={form.interestRate} onChange={updateField('interestRate')} />
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-rent" className="text-sm">Rent ($/mo)</Label>
+            <Input id="sensitivity-rent" type="number" min="0" value={form.monthlyRent} onChange={updateField('monthlyRent')} />
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-taxes" className="text-sm">Taxes ($/yr)</Label>
+            <Input id="sensitivity-taxes" type="number" min="0" value={form.propertyTaxes} onChange={updateField('propertyTaxes')} />
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-insurance" className="text-sm">Insurance ($/yr)</Label>
+            <Input id="sensitivity-insurance" type="number" min="0" value={form.insurance} onChange={updateField('insurance')} />
+          </div>
+          <div>
+            <Label htmlFor="sensitivity-metric" className="text-sm">Measure</Label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as SensitivityMetric)}>
+              <SelectTrigger id="sensitivity-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SENSITIVITY_METRIC_LABELS) as SensitivityMetric[]).map(key => (
+                  <SelectItem key={key} value={key}>
+                    {SENSITIVITY_METRIC_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={runAnalysis}
+            disabled={isLoading}
+            className="bg-[#5C1B10] hover:bg-[#4A1508] text-white"
+          >
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {sensitivity ? 'Update Analysis' : 'Run Analysis'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {sensitivity && (
+          <>
+            {/* Tornado Chart */}
+            <div>
+              <h4 className="font-semibold mb-1">What Moves {SENSITIVITY_METRIC_LABELS[sensitivity.metric]} Most</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                Base case: {formatMetric(sensitivity.metric, sensitivity.baseValue)}
+              </p>
+              <div className="space-y-3">
+                {sensitivity.tornado.map(bar => (
+                  <div key={bar.variable} className="grid grid-cols-[8rem_1fr] gap-3 items-center">
+                    <span className="text-sm font-medium text-gray-700">{SENSITIVITY_VARIABLES[bar.variable].label}</span>
+                    <div>
+                      <div className="relative h-5 bg-gray-100 rounded">
+                        {renderTornadoSegment(bar.lowValue)}
+                        {renderTornadoSegment(bar.highValue)}
+                        <div className="absolute top-0 left-1/2 h-full w-px bg-gray-700" />
+                      </div>
+                      <div className="flex justify-between text-xs text-gray-500 mt-1">
+                        <span>{formatInput(bar.variable, bar.lowInput)}: {formatMetric(sensitivity.metric, bar.lowValue)}</span>
+                        <span>{formatInput(bar.variable, bar.highInput)}: {formatMetric(sensitivity.metric, bar.highValue)}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Rate x Price Table */}
+            <div>
+              <h4 className="font-semibold mb-2">
+                {SENSITIVITY_VARIABLES[sensitivity.rateByPrice.rowVariable].label} × {SENSITIVITY_VARIABLES[sensitivity.rateByPrice.columnVariable].label}
+              </h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-2 text-left text-gray-500 font-medium">Rate \ Price</th>
+                      {sensitivity.rateByPrice.columns.map(column => (
+                        <th key={column} className="p-2 text-right text-gray-500 font-medium">
+                          {formatInput(sensitivity.rateByPrice.columnVariable, column)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sensitivity.rateByPrice.rows.map((row, rowIndex) => (
+                      <tr key={row} className="border-t">
+                        <td className="p-2 text-gray-500 font-medium">
+                          {formatInput(sensitivity.rateByPrice.rowVariable, row)}
+                        </td>
+                        {sensitivity.rateByPrice.values[rowIndex].map((value, columnIndex) => {
+                          const isBase = rowIndex === Math.floor(sensitivity.rateByPrice.rows.length / 2)
+                            && columnIndex === Math.floor(sensitivity.rateByPrice.columns.length / 2);
+                          return (
+                            <td
+                              key={columnIndex}
+                              className={`p-2 text-right ${value !== null && value >= 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'} ${isBase ? 'font-bold' : ''}`}
+                            >
+                              {formatMetric(sensitivity.metric, value)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Break-even Thresholds */}
+            <div>
+              <h4 className="font-semibold mb-2">Break-even Thresholds</h4>
+              <div className="space-y-1 text-sm">
+                {sensitivity.breakEven.map(item => (
+                  <div key={item.variable} className="flex justify-between gap-4">
+                    <span>{SENSITIVITY_VARIABLES[item.variable].label} (now {formatInput(item.variable, item.baseInput)}):</span>
+                    <span className="font-medium text-right">{describeBreakEven(item)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
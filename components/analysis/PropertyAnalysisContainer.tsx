@@ -8,7 +8,7 @@ import { PropertyAnalysisHeader } from './PropertyAnalysisHeader';
 import { usePropertyAnalysis } from '@/lib/hooks/usePropertyAnalysis';
 import { StreamlinedOfferStrategy } from '@/components/analysis/StreamlinedOfferStrategy';
 import type { Property } from '@/lib/types/property';
-import type { ComparablesData, AreaData } from '@/lib/types/comparables';
+import type { ComparablesData, NeighborhoodAmenities } from '@/lib/types/comparables';
 
 export const PropertyAnalysisContainer: React.FC = () => {
   const {
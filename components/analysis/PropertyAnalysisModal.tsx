@@ -17,6 +17,8 @@ import {
   Bed,
   Bath
 } from 'lucide-react';
+import { AffordabilityPanel } from './AffordabilityPanel';
+import { InvestmentSensitivityPanel } from './InvestmentSensitivityPanel';
 import { formatPrice } from '@/lib/utils/formatting';
 import { 
   getRecommendationColor, 
@@ -24,12 +26,12 @@ import {
   calculateTotalScore 
 } from '@/lib/utils/property-analysis';
 import type { Property } from '@/lib/types/property';
-import type { ComparablesData, AreaData } from '@/lib/types/comparables';
+import type { ComparablesData, NeighborhoodAmenities } from '@/lib/types/comparables';
 
 interface PropertyAnalysisModalProps {
   property: Property;
   comparables: ComparablesData | null;
-  areaData: AreaData | null;
+  areaData: NeighborhoodAmenities | null;
   onClose: () => void;
   onLoadComparables: () => void;
   isLoadingComps: boolean;
@@ -243,6 +245,12 @@ export const PropertyAnalysisModal: React.FC<PropertyAnalysisModalProps> = ({
             </CardContent>
           </Card>
 
+          {/* Affordability */}
+          <AffordabilityPanel propertyId={property.id} />
+
+          {/* Sensitivity Analysis */}
+          <InvestmentSensitivityPanel propertyId={property.id} price={data.price} />
+
           {/* Key Insights */}
           {analysis.keyInsights && analysis.keyInsights.length > 0 && (
             <Card>
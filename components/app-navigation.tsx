@@ -3,6 +3,7 @@
 import { usePathname } from "next/navigation";
 import { SignInButton, SignUpButton, SignedIn, SignedOut, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
+import NotificationInbox from "@/components/notification-inbox";
 
 const appNavLinks = [
   { name: "Property Analysis", href: "/analysis" },
@@ -65,6 +66,7 @@ export default function AppNavigation() {
             </SignUpButton>
           </SignedOut>
           <SignedIn>
+            <NotificationInbox />
             <UserButton />
           </SignedIn>
         </div>
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Wallet } from "lucide-react";
+import { logger } from "@/lib/utils/logger";
+
+interface BudgetStatus {
+  plan: string;
+  monthlyCap: number | null;
+  spent: number;
+  remaining: number | null;
+  exhausted: boolean;
+  periodStart: string;
+  resetsAt: string;
+}
+
+interface BudgetIndicatorProps {
+  // Bump to re-fetch after a paid action
+  refreshKey?: number;
+  className?: string;
+}
+
+export default function BudgetIndicator({ refreshKey = 0, className = "" }: BudgetIndicatorProps) {
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => {
+    const loadBudget = async () => {
+      try {
+        const response = await fetch('/api/budget');
+        if (response.ok) {
+          const data = await response.json();
+          setBudget(data.budget);
+        }
+      } catch (error) {
+        logger.error('Error loading budget status:', error);
+      }
+    };
+
+    loadBudget();
+  }, [refreshKey]);
+
+  // Uncapped plans have nothing to show
+  if (!budget || budget.monthlyCap === null || budget.remaining === null) {
+    return null;
+  }
+
+  const usedPercent = budget.monthlyCap > 0
+    ? Math.min((budget.spent / budget.monthlyCap) * 100, 100)
+    : 100;
+  const resetDate = new Date(budget.resetsAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+  const barColor = budget.exhausted ? 'bg-red-600' : usedPercent >= 80 ? 'bg-yellow-500' : 'bg-[#5C1B10]';
+
+  return (
+    <div
+      className={`inline-flex flex-col gap-2 px-4 py-3 bg-white rounded-lg border-2 border-gray-800 min-w-[240px] ${className}`}
+      style={{boxShadow: '3px 3px 0px #666, -2px 0px 0px #ddd'}}
+    >
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="flex items-center gap-2 font-medium text-gray-900">
+          <Wallet className="h-4 w-4 text-[#5C1B10]" />
+          Data Budget
+        </span>
+        <span className={budget.exhausted ? 'font-semibold text-red-600' : 'font-semibold text-gray-900'}>
+          ${budget.remaining.toFixed(2)} left
+        </span>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${usedPercent}%` }} />
+      </div>
+      <p className="text-xs text-gray-600">
+        {budget.exhausted
+          ? `Budget exhausted - resets ${resetDate}`
+          : `$${budget.spent.toFixed(2)} of $${budget.monthlyCap.toFixed(2)} used - resets ${resetDate}`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useConfirmation } from "@/lib/contexts/ConfirmationContext";
+import { useNotifications } from "@/lib/contexts/NotificationContext";
+import { logger } from "@/lib/utils/logger";
+import {
+  History,
+  FolderOpen,
+  Trash2,
+  Calendar,
+  AlertTriangle,
+  DollarSign,
+  Loader2
+} from "lucide-react";
+
+export interface SavedAnalysisSummary {
+  id: string;
+  propertyId: string | null;
+  documentId: string | null;
+  documentName: string;
+  reportType: string;
+  modelUsed: string;
+  analysisMethod: string;
+  confidence: number | null;
+  totalIssues: number;
+  totalNegotiationValue: number;
+  createdAt: string;
+}
+
+interface SavedAnalysesSectionProps {
+  onReopen: (analysisId: string) => Promise<void>;
+}
+
+export function SavedAnalysesSection({ onReopen }: SavedAnalysesSectionProps) {
+  const { confirm } = useConfirmation();
+  const { showError } = useNotifications();
+  const [analyses, setAnalyses] = useState<SavedAnalysisSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAnalyses();
+  }, []);
+
+  const loadAnalyses = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/negotiation/analyses');
+      if (response.ok) {
+        const data = await response.json();
+        setAnalyses(data.analyses || []);
+      }
+    } catch (error) {
+      logger.error('Error loading saved analyses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReopen = async (analysisId: string) => {
+    try {
+      setReopeningId(analysisId);
+      await onReopen(analysisId);
+    } catch (error) {
+      logger.error('Error reopening analysis:', error);
+      showError('Could not load the saved analysis. Please try again.', 'Reopen Failed');
+    } finally {
+      setReopeningId(null);
+    }
+  };
+
+  const handleDelete = async (analysis: SavedAnalysisSummary) => {
+    const confirmed = await confirm({
+      title: 'Delete Analysis',
+      description: `Delete the saved analysis of "${analysis.documentName}"? The report itself is not affected.`,
+      confirmText: 'Delete',
+      type: 'destructive'
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/negotiation/analyses/${analysis.id}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete analysis');
+      }
+
+      setAnalyses(prev => prev.filter(a => a.id !== analysis.id));
+    } catch (error) {
+      logger.error('Error deleting analysis:', error);
+      showError('Could not delete the saved analysis. Please try again.', 'Delete Failed');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  if (isLoading || analyses.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-2 border-gray-800" style={{boxShadow: '3px 3px 0px #666, -2px 0px 0px #ddd'}}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <History className="h-5 w-5 text-[#5C1B10]" />
+          Previous Analyses
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Reopen a saved analysis without running the report through AI again
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {analyses.map(analysis => (
+            <div
+              key={analysis.id}
+              className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="font-medium text-gray-900 truncate">{analysis.documentName}</p>
+                  <Badge variant="outline" className="capitalize">{analysis.reportType}</Badge>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    {formatDate(analysis.createdAt)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {analysis.totalIssues} issues
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <DollarSign className="h-3 w-3" />
+                    ${analysis.totalNegotiationValue.toLocaleString()}
+                  </span>
+                  <span className="text-xs text-gray-500">{analysis.analysisMethod}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 ml-4">
+                <Button
+                  size="sm"
+                  onClick={() => handleReopen(analysis.id)}
+                  disabled={reopeningId !== null}
+                  className="bg-[#5C1B10] hover:bg-[#4A1508] text-white"
+                >
+                  {reopeningId === analysis.id ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <FolderOpen className="h-4 w-4 mr-1" />
+                  )}
+                  Reopen
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(analysis)}
+                  disabled={reopeningId !== null}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
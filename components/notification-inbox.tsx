@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { logger } from "@/lib/utils/logger";
+
+interface InboxNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Reminders are generated by cron, so a slow poll is plenty
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+export default function NotificationInbox() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      logger.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+    const interval = setInterval(loadInbox, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadInbox]);
+
+  const markRead = async (notificationIds?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notificationIds ? { notificationIds } : {})
+      });
+      if (response.ok) {
+        await loadInbox();
+      }
+    } catch (error) {
+      logger.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (isOpen) loadInbox(); }}>
+      <SheetTrigger asChild>
+        <button
+          className="relative text-neutral-white hover:opacity-80 transition-opacity"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-cinnabar-lightest text-neutral-darkest text-[11px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <div className="flex items-center justify-between pr-6">
+            <SheetTitle>Notifications</SheetTitle>
+            {unreadCount > 0 && (
+              <button
+                className="text-sm text-[#5C1B10] hover:text-[#4A1508] font-medium"
+                onClick={() => markRead()}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {notifications.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-8">You&apos;re all caught up.</p>
+          ) : (
+            notifications.map(notification => (
+              <div
+                key={notification.id}
+                className={`p-3 rounded-lg border ${notification.readAt ? 'border-gray-200 bg-white' : 'border-[#5C1B10]/30 bg-red-50'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  {!notification.readAt && (
+                    <button
+                      className="text-xs text-gray-500 hover:text-gray-900 whitespace-nowrap"
+                      onClick={() => markRead([notification.id])}
+                    >
+                      Mark read
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-gray-500">
+                    {new Date(notification.createdAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                  {notification.link && (
+                    <Link
+                      href={notification.link}
+                      className="text-xs font-medium text-[#5C1B10] hover:text-[#4A1508]"
+                      onClick={() => {
+                        if (!notification.readAt) markRead([notification.id]);
+                        setOpen(false);
+                      }}
+                    >
+                      View timeline
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
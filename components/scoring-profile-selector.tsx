@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { logger } from "@/lib/utils/logger";
+import type { ScoringProfile } from "@/lib/types/scoring";
+
+interface ScoringProfileSelectorProps {
+  className?: string;
+}
+
+export default function ScoringProfileSelector({ className = "" }: ScoringProfileSelectorProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await fetch('/api/scoring-profiles');
+        if (response.ok) {
+          const data = await response.json();
+          setProfiles(data.profiles);
+          setActiveProfileId(data.activeProfileId);
+        }
+      } catch (error) {
+        logger.error('Error loading scoring profiles:', error);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  const handleChange = async (profileId: string) => {
+    const previous = activeProfileId;
+    setActiveProfileId(profileId);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/scoring-profiles/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileId })
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to set scoring profile: ${response.status}`);
+      }
+    } catch (error) {
+      logger.error('Error setting scoring profile:', error);
+      setActiveProfileId(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!activeProfileId || profiles.length === 0) {
+    return null;
+  }
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center gap-2 text-sm ${className}`}>
+      <span className="flex items-center gap-2 font-medium text-[#020B0A]">
+        <SlidersHorizontal className="h-4 w-4 text-[#5C1B10]" />
+        Score with
+      </span>
+      <Select value={activeProfileId} onValueChange={handleChange} disabled={isSaving}>
+        <SelectTrigger className="w-full sm:w-56 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeProfile?.description && (
+        <span className="text-xs text-gray-600">{activeProfile.description}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,519 @@
+// Contingency Tracker Component - Production Ready, Zero Tech Debt
+// Countdowns for open contingencies with extension history and removal/waiver records
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/lib/utils/logger";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck, Plus, CalendarPlus, CheckCircle, ChevronDown, ChevronUp, Trash2 } from "lucide-react";
+import { TimelineWithRelations } from "@/lib/types/timeline";
+import {
+  CONTINGENCY_TYPE_LABELS,
+  OPEN_CONTINGENCY_STATUSES,
+  ContingencyEntry,
+  ContingencyStatus,
+  ContingencyType
+} from "@/lib/types/timeline-contingencies";
+
+interface ContingencyTrackerProps {
+  timeline: TimelineWithRelations;
+}
+
+type DialogMode =
+  | { kind: 'create' }
+  | { kind: 'extend'; contingency: ContingencyEntry }
+  | { kind: 'resolve'; contingency: ContingencyEntry };
+
+type ResolutionStatus = typeof ContingencyStatus.REMOVED | typeof ContingencyStatus.WAIVED | typeof ContingencyStatus.FAILED;
+
+const NONE = 'NONE';
+
+const EMPTY_FORM = {
+  type: ContingencyType.INSPECTION as ContingencyType,
+  title: '',
+  deadline: '',
+  stepId: NONE,
+  documentId: NONE,
+  reason: '',
+  notes: '',
+  status: ContingencyStatus.REMOVED as ResolutionStatus
+};
+
+export function ContingencyTracker({ timeline }: ContingencyTrackerProps) {
+  const [contingencies, setContingencies] = useState<ContingencyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialog, setDialog] = useState<DialogMode | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [showResolved, setShowResolved] = useState(false);
+
+  const canManage = timeline.viewerAccess?.actions.includes('timeline.manage') ?? true;
+  const documents = timeline.documents?.filter(doc => doc.isCurrentVersion) || [];
+
+  const fetchContingencies = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/timeline/contingencies?timelineId=${timeline.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load contingencies');
+      }
+      const data = await response.json();
+      setContingencies(data.contingencies);
+    } catch (error) {
+      logger.error('Error loading contingencies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeline.id]);
+
+  useEffect(() => {
+    fetchContingencies();
+  }, [fetchContingencies]);
+
+  const openDialog = (mode: DialogMode) => {
+    setFormData(mode.kind === 'extend'
+      ? { ...EMPTY_FORM, deadline: toDateInput(mode.contingency.deadline) }
+      : EMPTY_FORM);
+    setError(null);
+    setDialog(mode);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog) return;
+
+    const documentId = formData.documentId !== NONE ? formData.documentId : undefined;
+    const request = dialog.kind === 'create'
+      ? {
+          url: '/api/timeline/contingencies',
+          body: {
+            timelineId: timeline.id,
+            type: formData.type,
+            title: formData.title.trim() || undefined,
+            deadline: fromDateInput(formData.deadline),
+            stepId: formData.stepId !== NONE ? formData.stepId : undefined,
+            documentId,
+            notes: formData.notes.trim() || undefined
+          }
+        }
+      : dialog.kind === 'extend'
+        ? {
+            url: `/api/timeline/contingencies/${dialog.contingency.id}/extend`,
+            body: {
+              newDeadline: fromDateInput(formData.deadline),
+              reason: formData.reason.trim() || undefined,
+              documentId
+            }
+          }
+        : {
+            url: `/api/timeline/contingencies/${dialog.contingency.id}/resolve`,
+            body: {
+              status: formData.status,
+              documentId,
+              notes: formData.notes.trim() || undefined
+            }
+          };
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request.body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save contingency');
+      }
+      setDialog(null);
+      await fetchContingencies();
+    } catch (error) {
+      logger.error('Error saving contingency:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save contingency');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (contingency: ContingencyEntry) => {
+    if (!confirm(`Delete "${contingency.title}" and its history?`)) return;
+
+    try {
+      const response = await fetch(`/api/timeline/contingencies/${contingency.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete contingency');
+      }
+      await fetchContingencies();
+    } catch (error) {
+      logger.error('Error deleting contingency:', error);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const getCountdownColor = (daysRemaining: number) => {
+    if (daysRemaining <= 2) return 'bg-red-100 text-red-800';
+    if (daysRemaining <= 5) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-green-100 text-green-800';
+  };
+
+  const getStatusColor = (status: ContingencyStatus) => {
+    switch (status) {
+      case ContingencyStatus.REMOVED: return 'bg-green-100 text-green-800';
+      case ContingencyStatus.WAIVED: return 'bg-blue-100 text-blue-800';
+      case ContingencyStatus.FAILED: return 'bg-red-100 text-red-800';
+      case ContingencyStatus.EXTENDED: return 'bg-orange-100 text-orange-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatCountdown = (daysRemaining: number) => {
+    if (daysRemaining < 0) return `${Math.abs(daysRemaining)}d overdue`;
+    if (daysRemaining === 0) return 'Due today';
+    return `${daysRemaining}d left`;
+  };
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const openContingencies = contingencies.filter(c => OPEN_CONTINGENCY_STATUSES.includes(c.status));
+  const resolvedContingencies = contingencies.filter(c => !OPEN_CONTINGENCY_STATUSES.includes(c.status));
+  const visible = showResolved ? [...openContingencies, ...resolvedContingencies] : openContingencies;
+
+  if (isLoading) return null;
+  // Nothing to show collaborators who can't add contingencies
+  if (contingencies.length === 0 && !canManage) return null;
+
+  return (
+    <Card className="mb-8 border-2">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Contingencies
+            </CardTitle>
+            <CardDescription>
+              {openContingencies.length > 0
+                ? `${openContingencies.length} open; remove or waive each one before its deadline`
+                : 'Track inspection, appraisal, financing and other contract contingencies'}
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button
+              size="sm"
+              onClick={() => openDialog({ kind: 'create' })}
+              style={{ backgroundColor: '#5C1B10', color: 'white' }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Contingency
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      {(visible.length > 0 || resolvedContingencies.length > 0) && (
+        <CardContent className="space-y-3">
+          {visible.map(contingency => {
+            const isOpen = OPEN_CONTINGENCY_STATUSES.includes(contingency.status);
+            const isExpanded = expanded.has(contingency.id);
+
+            return (
+              <div key={contingency.id} className="p-3 border rounded-lg">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <span className="font-medium">{contingency.title}</span>
+                      {isOpen ? (
+                        <Badge className={getCountdownColor(contingency.daysRemaining)}>
+                          {formatCountdown(contingency.daysRemaining)}
+                        </Badge>
+                      ) : null}
+                      <Badge className={getStatusColor(contingency.status)}>
+                        {contingency.status.toLowerCase()}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {CONTINGENCY_TYPE_LABELS[contingency.type]} · Deadline {formatDate(contingency.deadline)}
+                      {contingency.step && <> · {contingency.step.title}</>}
+                    </p>
+                    {contingency.document && (
+                      <a
+                        href={contingency.document.downloadUrl ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        {contingency.document.originalName}
+                      </a>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    {canManage && isOpen && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog({ kind: 'extend', contingency })}
+                        >
+                          <CalendarPlus className="h-4 w-4 mr-1" />
+                          Extend
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog({ kind: 'resolve', contingency })}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Resolve
+                        </Button>
+                      </>
+                    )}
+                    {contingency.extensions.length > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => toggleExpanded(contingency.id)}>
+                        {contingency.extensions.length} extension{contingency.extensions.length === 1 ? '' : 's'}
+                        {isExpanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+                      </Button>
+                    )}
+                    {canManage && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(contingency)}>
+                        <Trash2 className="h-4 w-4 text-gray-400" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <ul className="mt-3 space-y-1 text-sm border-t pt-2">
+                    {contingency.extensions.map(extension => (
+                      <li key={extension.id} className="text-gray-600">
+                        {formatDate(extension.previousDeadline)} → {formatDate(extension.newDeadline)}
+                        <span className="text-xs text-gray-500"> · {formatDate(extension.createdAt)}</span>
+                        {extension.reason && <span className="block text-xs text-gray-500">{extension.reason}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          {resolvedContingencies.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowResolved(prev => !prev)}>
+              {showResolved ? 'Hide' : 'Show'} {resolvedContingencies.length} resolved
+            </Button>
+          )}
+        </CardContent>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.kind === 'create' ? 'Add Contingency'
+                : dialog?.kind === 'extend' ? 'Extend Deadline'
+                : 'Resolve Contingency'}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog?.kind === 'create'
+                ? 'Link the step it protects to get a warning if that step is completed while it is still open.'
+                : dialog && 'contingency' in dialog ? dialog.contingency.title : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {dialog?.kind === 'create' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="contingency-type">Type *</Label>
+                    <Select
+                      value={formData.type}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as ContingencyType }))}
+                    >
+                      <SelectTrigger id="contingency-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(ContingencyType).map(type => (
+                          <SelectItem key={type} value={type}>
+                            {CONTINGENCY_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="contingency-title">Title</Label>
+                    <Input
+                      id="contingency-title"
+                      value={formData.title}
+                      onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                      placeholder={`${CONTINGENCY_TYPE_LABELS[formData.type]} contingency`}
+                      maxLength={200}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="contingency-step">Protected step</Label>
+                  <Select
+                    value={formData.stepId}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, stepId: value }))}
+                  >
+                    <SelectTrigger id="contingency-step">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None</SelectItem>
+                      {timeline.steps.map(step => (
+                        <SelectItem key={step.id} value={step.id}>
+                          {step.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {dialog?.kind !== 'resolve' && (
+              <div>
+                <Label htmlFor="contingency-deadline">{dialog?.kind === 'extend' ? 'New deadline *' : 'Deadline *'}</Label>
+                <Input
+                  id="contingency-deadline"
+                  type="date"
+                  value={formData.deadline}
+                  onChange={(e) => setFormData(prev => ({ ...prev, deadline: e.target.value }))}
+                  required
+                />
+              </div>
+            )}
+
+            {dialog?.kind === 'extend' && (
+              <div>
+                <Label htmlFor="contingency-reason">Reason</Label>
+                <Input
+                  id="contingency-reason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="e.g. Appraisal rescheduled, addendum signed"
+                  maxLength={500}
+                />
+              </div>
+            )}
+
+            {dialog?.kind === 'resolve' && (
+              <div>
+                <Label htmlFor="contingency-status">Outcome *</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as ResolutionStatus }))}
+                >
+                  <SelectTrigger id="contingency-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ContingencyStatus.REMOVED}>Removed (satisfied)</SelectItem>
+                    <SelectItem value={ContingencyStatus.WAIVED}>Waived</SelectItem>
+                    <SelectItem value={ContingencyStatus.FAILED}>Failed (exercised)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="contingency-document">
+                {dialog?.kind === 'extend' ? 'Signed addendum' : 'Evidence document'}
+              </Label>
+              <Select
+                value={formData.documentId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, documentId: value }))}
+              >
+                <SelectTrigger id="contingency-document">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {documents.map(doc => (
+                    <SelectItem key={doc.id} value={doc.id}>
+                      {doc.originalName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {dialog?.kind !== 'extend' && (
+              <div>
+                <Label htmlFor="contingency-notes">Notes</Label>
+                <Textarea
+                  id="contingency-notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={3}
+                  maxLength={2000}
+                />
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-700">{error}</p>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting || (dialog?.kind !== 'resolve' && !formData.deadline)}
+                style={{ backgroundColor: '#5C1B10', color: 'white' }}
+              >
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** YYYY-MM-DD in the viewer's timezone, for date inputs */
+function toDateInput(date: Date | string): string {
+  const value = new Date(date);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/** Contingencies run to the end of the deadline day in the viewer's timezone */
+function fromDateInput(value: string): string {
+  return new Date(`${value}T23:59:00`).toISOString();
+}
@@ -0,0 +1,317 @@
+// Contract Analysis Review Component - Production Ready, Zero Tech Debt
+// Parse a purchase contract and accept or reject the timeline updates it proposes
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { logger } from "@/lib/utils/logger";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Check, FileSearch, RefreshCw, X } from "lucide-react";
+import {
+  CONTRACT_AMOUNT_LABELS,
+  CONTRACT_DEADLINE_LABELS,
+  ContractAmountKind,
+  ContractAnalysisResult,
+  ContractDeadlineKind,
+  ContractProposal,
+  ContractProposalDecision
+} from "@/lib/types/contract";
+
+interface ContractAnalysisReviewProps {
+  documentId: string;
+  documentName: string;
+  onApplied: () => void;
+}
+
+export function ContractAnalysisReview({ documentId, documentName, onApplied }: ContractAnalysisReviewProps) {
+  const [analysis, setAnalysis] = useState<ContractAnalysisResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const endpoint = `/api/timeline/documents/${documentId}/contract`;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(endpoint);
+        if (!response.ok) {
+          throw new Error('Failed to load contract analysis');
+        }
+        const data = await response.json();
+        setAnalysis(data.analysis);
+      } catch (error) {
+        logger.error('Error loading contract analysis:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [endpoint]);
+
+  const analyzeContract = async () => {
+    try {
+      setIsAnalyzing(true);
+      setError(null);
+      const response = await fetch(endpoint, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze contract');
+      }
+      setAnalysis(data.analysis);
+    } catch (error) {
+      logger.error('Error analyzing contract:', error);
+      setError(error instanceof Error ? error.message : 'Failed to analyze contract');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const resolveProposals = async (decisions: ContractProposalDecision[]) => {
+    if (!analysis || decisions.length === 0) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analysisId: analysis.id, decisions })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update proposals');
+      }
+      setAnalysis(data.analysis);
+      if (decisions.some(decision => decision.accept)) {
+        onApplied();
+      }
+    } catch (error) {
+      logger.error('Error resolving contract proposals:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update proposals');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatValue = (proposal: ContractProposal, value: string | number | null) => {
+    if (value === null) return 'Not set';
+    if (proposal.field === 'estimatedCost') {
+      return `$${Number(value).toLocaleString()}`;
+    }
+    // Calendar dates from the contract; format without a timezone shift
+    return new Date(`${value}T12:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: ContractProposal['status']) => {
+    switch (status) {
+      case 'accepted': return 'bg-green-100 text-green-800';
+      case 'rejected': return 'bg-gray-100 text-gray-600';
+      default: return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const pending = analysis?.proposals.filter(proposal => proposal.status === 'pending') ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Contract Terms</CardTitle>
+            <CardDescription>
+              {documentName}
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            disabled={isAnalyzing || isLoading}
+            onClick={analyzeContract}
+            style={{ backgroundColor: '#5C1B10', color: 'white' }}
+          >
+            {analysis ? <RefreshCw className="h-4 w-4 mr-1" /> : <FileSearch className="h-4 w-4 mr-1" />}
+            {isAnalyzing ? 'Analyzing...' : analysis ? 'Re-analyze' : 'Analyze Contract'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {isLoading || isAnalyzing ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-3"></div>
+            <p className="text-gray-600">
+              {isAnalyzing ? 'Reading the contract. This can take a minute...' : 'Loading contract analysis...'}
+            </p>
+          </div>
+        ) : !analysis ? (
+          <p className="text-sm text-gray-600">
+            Analyze this contract to pull its deadlines, amounts and parties, and get suggested updates for your timeline.
+          </p>
+        ) : (
+          <>
+            {analysis.terms.warnings.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <ul className="text-sm text-yellow-800 list-disc list-inside space-y-1">
+                  {analysis.terms.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Suggested updates */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium">Suggested Updates</h4>
+                {pending.length > 1 && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => resolveProposals(pending.map(p => ({ proposalId: p.id, accept: false })))}
+                    >
+                      Reject all
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => resolveProposals(pending.map(p => ({ proposalId: p.id, accept: true })))}
+                      style={{ backgroundColor: '#5C1B10', color: 'white' }}
+                    >
+                      Accept all
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {analysis.proposals.length === 0 ? (
+                <p className="text-sm text-gray-600">Your timeline already matches this contract.</p>
+              ) : (
+                <div className="space-y-2">
+                  {analysis.proposals.map(proposal => (
+                    <div key={proposal.id} className="p-3 border rounded-lg">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-sm font-medium">
+                              {proposal.stepTitle ?? 'Timeline'}
+                            </span>
+                            <Badge className={getStatusColor(proposal.status)}>
+                              {proposal.status}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {proposal.label}:{' '}
+                            <span className="line-through text-red-700">{formatValue(proposal, proposal.currentValue)}</span>
+                            {' → '}
+                            <span className="text-green-700 font-medium">{formatValue(proposal, proposal.proposedValue)}</span>
+                          </p>
+                          {proposal.sourceText && (
+                            <p className="text-xs text-gray-500 italic mt-1">&ldquo;{proposal.sourceText}&rdquo;</p>
+                          )}
+                        </div>
+                        {proposal.status === 'pending' && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={isSaving}
+                              onClick={() => resolveProposals([{ proposalId: proposal.id, accept: false }])}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              disabled={isSaving}
+                              onClick={() => resolveProposals([{ proposalId: proposal.id, accept: true }])}
+                              style={{ backgroundColor: '#5C1B10', color: 'white' }}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Extracted terms */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <h4 className="font-medium mb-2">Deadlines</h4>
+                <dl className="space-y-1">
+                  {(Object.keys(CONTRACT_DEADLINE_LABELS) as ContractDeadlineKind[]).map(kind => {
+                    const deadline = analysis.terms.deadlines[kind];
+                    const value = deadline.date ??
+                      (deadline.daysAfterEffective !== null ? `${deadline.daysAfterEffective} days after effective date` : null);
+                    return (
+                      <div key={kind} className="flex justify-between gap-2">
+                        <dt className="text-gray-600">{CONTRACT_DEADLINE_LABELS[kind]}</dt>
+                        <dd className="text-right">{value ?? '—'}</dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">Amounts</h4>
+                <dl className="space-y-1">
+                  {(Object.keys(CONTRACT_AMOUNT_LABELS) as ContractAmountKind[]).map(kind => {
+                    const amount = analysis.terms.amounts[kind].amount;
+                    return (
+                      <div key={kind} className="flex justify-between gap-2">
+                        <dt className="text-gray-600">{CONTRACT_AMOUNT_LABELS[kind]}</dt>
+                        <dd className="text-right">{amount !== null ? `$${amount.toLocaleString()}` : '—'}</dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">Parties</h4>
+                <dl className="space-y-1">
+                  {[
+                    ['Buyers', analysis.terms.parties.buyers.join(', ')],
+                    ['Sellers', analysis.terms.parties.sellers.join(', ')],
+                    ['Buyer agent', analysis.terms.parties.buyerAgent],
+                    ['Seller agent', analysis.terms.parties.sellerAgent],
+                    ['Lender', analysis.terms.parties.lender],
+                    ['Title company', analysis.terms.parties.titleCompany],
+                    ['Escrow agent', analysis.terms.parties.escrowAgent]
+                  ].map(([label, value]) => (
+                    <div key={label} className="flex justify-between gap-2">
+                      <dt className="text-gray-600">{label}</dt>
+                      <dd className="text-right">{value || '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Extracted {new Date(analysis.createdAt).toLocaleString()} · {Math.round(analysis.terms.confidence * 100)}% confidence.
+              Always confirm dates against the signed contract.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
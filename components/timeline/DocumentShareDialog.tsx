@@ -0,0 +1,342 @@
+// Document Share Dialog Component - Production Ready, Zero Tech Debt
+// Send one document to someone outside the timeline with an expiring, revocable link
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/lib/utils/logger";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Send, XCircle } from "lucide-react";
+import { TimelineTeamMember } from "@prisma/client";
+import {
+  DEFAULT_SHARE_EXPIRY_DAYS,
+  DOCUMENT_SHARE_STATUS_LABELS,
+  DocumentShareStatus,
+  DocumentShareSummary
+} from "@/lib/types/document-shares";
+
+interface DocumentShareDialogProps {
+  document: { id: string; originalName: string } | null;
+  teamMembers: TimelineTeamMember[];
+  onClose: () => void;
+}
+
+const OTHER = 'OTHER';
+const LINK_ONLY = 'LINK_ONLY';
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+const initialFormData = {
+  recipient: LINK_ONLY,
+  email: '',
+  expiresInDays: String(DEFAULT_SHARE_EXPIRY_DAYS),
+  maxDownloads: '',
+  message: ''
+};
+
+export function DocumentShareDialog({ document, teamMembers, onClose }: DocumentShareDialogProps) {
+  const [shares, setShares] = useState<DocumentShareSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(initialFormData);
+  const [created, setCreated] = useState<{ url: string; message: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const recipients = teamMembers.filter(member => member.isActive && member.email);
+  const endpoint = document ? `/api/timeline/documents/${document.id}/shares` : null;
+
+  const loadShares = useCallback(async () => {
+    if (!endpoint) return;
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        throw new Error('Failed to load share links');
+      }
+      const data = await response.json();
+      setShares(data.shares);
+    } catch (error) {
+      logger.error('Error loading share links:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    setFormData(initialFormData);
+    setCreated(null);
+    setError(null);
+    setShares([]);
+    loadShares();
+  }, [loadShares]);
+
+  const selectedMember = recipients.find(member => member.id === formData.recipient);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!endpoint) return;
+
+    const recipientEmail = selectedMember?.email ?? (formData.recipient === OTHER ? formData.email.trim() : undefined);
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          recipientEmail: recipientEmail || undefined,
+          recipientName: selectedMember?.name,
+          expiresInDays: parseInt(formData.expiresInDays, 10),
+          maxDownloads: formData.maxDownloads ? parseInt(formData.maxDownloads, 10) : undefined,
+          message: formData.message.trim() || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create share link');
+      }
+
+      setCreated({ url: data.shareUrl, message: data.message });
+      setCopied(false);
+      setFormData(initialFormData);
+      await loadShares();
+    } catch (error) {
+      logger.error('Error creating share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revokeShare = async (shareId: string) => {
+    if (!endpoint) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`${endpoint}/${shareId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke share link');
+      }
+      setShares(prev => prev.map(share => share.id === shareId ? data.share : share));
+    } catch (error) {
+      logger.error('Error revoking share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke share link');
+    }
+  };
+
+  const copyLink = async () => {
+    if (!created) return;
+
+    try {
+      await navigator.clipboard.writeText(created.url);
+      setCopied(true);
+    } catch (error) {
+      logger.error('Error copying share link:', error);
+    }
+  };
+
+  const getStatusColor = (status: DocumentShareStatus) => {
+    switch (status) {
+      case 'active': return 'bg-green-100 text-green-800';
+      case 'revoked': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-600';
+    }
+  };
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <Dialog open={document !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share Document</DialogTitle>
+          <DialogDescription>
+            {document?.originalName}. Recipients can download only this file, until the link expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {created && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+            <p className="text-sm text-green-800">{created.message}</p>
+            <div className="flex gap-2">
+              <Input value={created.url} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" size="sm" className="h-10" onClick={copyLink}>
+                <Copy className="h-4 w-4 mr-1" />
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="share-recipient">Recipient</Label>
+            <Select
+              value={formData.recipient}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, recipient: value }))}
+            >
+              <SelectTrigger id="share-recipient">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LINK_ONLY}>No one, just create a link</SelectItem>
+                {recipients.map(member => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name} ({member.email})
+                  </SelectItem>
+                ))}
+                <SelectItem value={OTHER}>Someone else...</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.recipient === OTHER && (
+            <div>
+              <Label htmlFor="share-email">Email *</Label>
+              <Input
+                id="share-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="contractor@example.com"
+                required
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="share-expiry">Expires after</Label>
+              <Select
+                value={formData.expiresInDays}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, expiresInDays: value }))}
+              >
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} day{days === 1 ? '' : 's'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="share-max-downloads">Download limit</Label>
+              <Input
+                id="share-max-downloads"
+                type="number"
+                min={1}
+                max={100}
+                value={formData.maxDownloads}
+                onChange={(e) => setFormData(prev => ({ ...prev, maxDownloads: e.target.value }))}
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          {formData.recipient !== LINK_ONLY && (
+            <div>
+              <Label htmlFor="share-message">Message</Label>
+              <Textarea
+                id="share-message"
+                value={formData.message}
+                onChange={(e) => setFormData(prev => ({ ...prev, message: e.target.value }))}
+                placeholder="Here's the inspection report for the quote."
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving}
+              style={{ backgroundColor: '#5C1B10', color: 'white' }}
+            >
+              {formData.recipient === LINK_ONLY ? <Link2 className="h-4 w-4 mr-1" /> : <Send className="h-4 w-4 mr-1" />}
+              {isSaving ? 'Sharing...' : formData.recipient === LINK_ONLY ? 'Create Link' : 'Send Link'}
+            </Button>
+          </div>
+        </form>
+
+        {/* Existing links */}
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-3">Share Links</h4>
+          {isLoading ? (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900 mx-auto"></div>
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-600">This document hasn&apos;t been shared yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {shares.map(share => (
+                <div key={share.id} className="p-3 border rounded-lg">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-medium truncate">
+                          {share.recipientName || share.recipientEmail || 'Anyone with the link'}
+                        </span>
+                        <Badge className={getStatusColor(share.status)}>
+                          {DOCUMENT_SHARE_STATUS_LABELS[share.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        {share.downloadCount}{share.maxDownloads !== null ? ` of ${share.maxDownloads}` : ''} download{share.downloadCount === 1 ? '' : 's'}
+                        {' · '}
+                        {share.status === 'revoked' && share.revokedAt
+                          ? `revoked ${formatDate(share.revokedAt)}`
+                          : `expires ${formatDate(share.expiresAt)}`}
+                        {share.lastAccessedAt && ` · last opened ${formatDate(share.lastAccessedAt)}`}
+                      </p>
+                      {share.recentAccesses.some(access => access.outcome !== 'GRANTED') && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          {share.recentAccesses.filter(access => access.outcome !== 'GRANTED').length} blocked attempt(s) recently
+                        </p>
+                      )}
+                    </div>
+                    {share.status === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => revokeShare(share.id)}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,7 +19,8 @@ import {
   AlertCircle,
   Calendar,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Share2
 } from "lucide-react";
 import { DocumentWithVersionInfo, DocumentCompletionSession } from "@/lib/services/DocumentVersionService";
 
@@ -32,6 +33,8 @@ interface DocumentVersionsViewProps {
   }>;
   onPromoteDocument: (documentId: string) => Promise<void>;
   onDownload: (document: DocumentWithVersionInfo) => void;
+  /** Shown only for documents the viewer may share */
+  onShare?: (document: DocumentWithVersionInfo) => void;
 }
 
 export function DocumentVersionsView({
@@ -39,7 +42,8 @@ export function DocumentVersionsView({
   currentDocuments,
   previousSessions,
   onPromoteDocument,
-  onDownload
+  onDownload,
+  onShare
 }: DocumentVersionsViewProps) {
   const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
   const [promotingDocument, setPromotingDocument] = useState<string | null>(null);
@@ -164,6 +168,18 @@ export function DocumentVersionsView({
               <Download className="w-3 h-3 mr-1" />
               Download
             </Button>
+
+            {onShare && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onShare(document)}
+                className="text-xs"
+              >
+                <Share2 className="w-3 h-3 mr-1" />
+                Share
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -8,9 +8,18 @@ import { logger } from "@/lib/utils/logger";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Upload, X, File, CheckCircle, Loader2, AlertCircle, Cloud } from "lucide-react";
-import { TimelineStepWithRelations } from "@/lib/types/timeline";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, X, File, CheckCircle, Circle, Clock, Loader2, AlertCircle, Cloud, Sparkles } from "lucide-react";
+import { DocumentType, TimelineStepWithRelations } from "@/lib/types/timeline";
+import {
+  DOCUMENT_TYPE_LABELS,
+  DocumentClassification,
+  MIN_AUTO_APPLY_CONFIDENCE
+} from "@/lib/types/document-classification";
+import { buildDocumentChecklist } from "@/lib/types/timeline-document-requirements";
+import { ContingencyEntry } from "@/lib/types/timeline-contingencies";
 import { documentVersionService } from "@/lib/services/DocumentVersionService";
 import { useCloudinaryUpload } from "@/lib/hooks/useCloudinaryUpload";
 import { useSupabaseUpload } from "@/lib/hooks/useSupabaseUpload";
@@ -26,8 +35,16 @@ interface StepCompletionModalProps {
     cloudinaryDocuments?: Array<{ url: string; publicId: string; fileName: string; fileSize: number }>;
     supabaseDocuments?: Array<{ path: string; fileName: string; fileSize: number }>;
     completionSessionId: string;
+    /** Document type per file name, as suggested or picked */
+    documentTypes?: Record<string, DocumentType>;
+    /** Set when completing without every required document */
+    documentOverrideReason?: string;
   }) => Promise<void>;
   isLoading?: boolean;
+  /** Open contingencies this step would get ahead of */
+  openContingencies?: ContingencyEntry[];
+  /** Whether the viewer may complete the step with required documents missing */
+  canOverrideDocuments?: boolean;
 }
 
 // 4MB threshold - files larger than this will use direct upload
@@ -38,7 +55,9 @@ export function StepCompletionModalEnhanced({
   isOpen,
   onClose,
   onComplete,
-  isLoading = false
+  isLoading = false,
+  openContingencies = [],
+  canOverrideDocuments = false
 }: StepCompletionModalProps) {
   const [actualCost, setActualCost] = useState<string>('');
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -47,6 +66,11 @@ export function StepCompletionModalEnhanced({
   const [previousCompletions, setPreviousCompletions] = useState<number>(0);
   const [uploadingFiles, setUploadingFiles] = useState<Set<string>>(new Set());
   const [uploadErrors, setUploadErrors] = useState<Map<string, string>>(new Map());
+  const [classifications, setClassifications] = useState<Map<string, DocumentClassification>>(new Map());
+  const [chosenTypes, setChosenTypes] = useState<Map<string, DocumentType>>(new Map());
+  const [classifyingFiles, setClassifyingFiles] = useState<Set<string>>(new Set());
+  const [overrideDocuments, setOverrideDocuments] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
 
   // User for Supabase uploads
   const { user } = useUser();
@@ -75,6 +99,11 @@ export function StepCompletionModalEnhanced({
       setIsDragOver(false);
       setUploadingFiles(new Set());
       setUploadErrors(new Map());
+      setClassifications(new Map());
+      setChosenTypes(new Map());
+      setClassifyingFiles(new Set());
+      setOverrideDocuments(false);
+      setOverrideReason('');
       
       const initializeSession = async () => {
         try {
@@ -109,16 +138,54 @@ export function StepCompletionModalEnhanced({
     onClose();
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(event.target.files || []);
+  const classifyFile = async (file: File) => {
+    if (!step) return;
+
+    setClassifyingFiles(prev => new Set(prev).add(file.name));
+    try {
+      // Large files go straight to storage, so only their name is sent
+      const formData = new FormData();
+      formData.append('timelineId', step.timelineId);
+      formData.append('fileName', file.name);
+      if (file.size <= DIRECT_UPLOAD_THRESHOLD) {
+        formData.append('file', file);
+      }
+
+      const response = await fetch('/api/timeline/documents/classify', {
+        method: 'POST',
+        body: formData
+      });
+      if (!response.ok) {
+        throw new Error('Failed to classify document');
+      }
+
+      const data = await response.json();
+      setClassifications(prev => new Map(prev).set(file.name, data.classification));
+    } catch (error) {
+      // The upload still classifies on the server, so this only costs the preview
+      logger.error('Error classifying document:', error);
+    } finally {
+      setClassifyingFiles(prev => {
+        const updated = new Set(prev);
+        updated.delete(file.name);
+        return updated;
+      });
+    }
+  };
+
+  const addFiles = (files: File[]) => {
     setSelectedFiles(prev => [...prev, ...files]);
+    files.forEach(classifyFile);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
   };
 
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragOver(false);
-    const files = Array.from(event.dataTransfer.files);
-    setSelectedFiles(prev => [...prev, ...files]);
+    addFiles(Array.from(event.dataTransfer.files));
   };
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -135,6 +202,20 @@ export function StepCompletionModalEnhanced({
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  /**
+   * The user's pick, else a confident suggestion. Undefined leaves the
+   * choice to the server-side classifier
+   */
+  const getDocumentType = (fileName: string): DocumentType | undefined => {
+    const chosen = chosenTypes.get(fileName);
+    if (chosen) return chosen;
+
+    const classification = classifications.get(fileName);
+    return classification && classification.confidence >= MIN_AUTO_APPLY_CONFIDENCE
+      ? classification.documentType
+      : undefined;
+  };
+
   const handleComplete = async () => {
     const costValue = actualCost.trim() ? parseFloat(actualCost.replace(/[,$]/g, '')) : undefined;
     
@@ -204,13 +285,23 @@ export function StepCompletionModalEnhanced({
       }
     }
     
+    const documentTypes: Record<string, DocumentType> = {};
+    selectedFiles.forEach(file => {
+      const documentType = getDocumentType(file.name);
+      if (documentType) {
+        documentTypes[file.name] = documentType;
+      }
+    });
+
     // Complete with small files (server upload), cloudinary URLs, and supabase documents
     await onComplete({
       actualCost: costValue,
       documents: smallFiles,
       cloudinaryDocuments: cloudinaryDocuments.length > 0 ? cloudinaryDocuments : undefined,
       supabaseDocuments: supabaseDocuments.length > 0 ? supabaseDocuments : undefined,
-      completionSessionId: completionSessionId
+      completionSessionId: completionSessionId,
+      documentTypes,
+      documentOverrideReason: missingDocuments.length > 0 ? overrideReason.trim() : undefined
     });
   };
 
@@ -222,10 +313,22 @@ export function StepCompletionModalEnhanced({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  // Selected files count toward the checklist once their type is known
+  const checklist = step
+    ? buildDocumentChecklist(
+        step.documentRequirements || [],
+        step.documents,
+        selectedFiles.flatMap(file => getDocumentType(file.name) ?? [])
+      )
+    : [];
+  const missingDocuments = checklist.filter(item => item.status === 'missing');
+
   if (!step) return null;
 
   const isUploading = cloudinaryUpload.isUploading || supabaseUpload.isUploading || isLoading;
   const hasLargeFiles = selectedFiles.some(file => file.size > DIRECT_UPLOAD_THRESHOLD);
+  const isBlockedByDocuments = missingDocuments.length > 0 &&
+    !(overrideDocuments && overrideReason.trim().length >= 3);
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -242,6 +345,31 @@ export function StepCompletionModalEnhanced({
             Would you like to upload any documents and enter costs for this step before marking it complete?
           </p>
 
+          {openContingencies.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-amber-800 mb-1">
+                    Open Contingenc{openContingencies.length === 1 ? 'y' : 'ies'}
+                  </p>
+                  <ul className="text-amber-700 space-y-1">
+                    {openContingencies.map(contingency => (
+                      <li key={contingency.id}>
+                        {contingency.title}: {contingency.daysRemaining < 0
+                          ? 'deadline passed without removal or waiver'
+                          : `open until ${new Date(contingency.deadline).toLocaleDateString()}`}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-amber-700 mt-1">
+                    You can still complete this step, but consider removing or waiving the contingency first.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {previousCompletions > 0 && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
               <div className="flex items-start space-x-3">
@@ -262,7 +390,7 @@ export function StepCompletionModalEnhanced({
           {/* File Upload Area */}
           <div className="space-y-3">
             <Label htmlFor="file-upload" className="text-sm font-medium">
-              Documents (Optional)
+              Documents{checklist.length === 0 && ' (Optional)'}
             </Label>
             
             <div
@@ -312,6 +440,9 @@ export function StepCompletionModalEnhanced({
                     const isLarge = file.size > DIRECT_UPLOAD_THRESHOLD;
                     const isUploading = uploadingFiles.has(file.name);
                     const uploadError = uploadErrors.get(file.name);
+                    const classification = classifications.get(file.name);
+                    const documentType = getDocumentType(file.name);
+                    const suggestedStep = classification?.suggestedStep;
                     
                     return (
                       <div
@@ -344,6 +475,38 @@ export function StepCompletionModalEnhanced({
                             {uploadError && (
                               <p className="text-xs text-red-600 mt-1">{uploadError}</p>
                             )}
+                            <div className="flex items-center gap-2 mt-1">
+                              <Select
+                                value={documentType ?? ''}
+                                onValueChange={(value) => setChosenTypes(prev => new Map(prev).set(file.name, value as DocumentType))}
+                                disabled={isUploading}
+                              >
+                                <SelectTrigger className="h-7 text-xs w-36">
+                                  <SelectValue placeholder={classifyingFiles.has(file.name) ? 'Detecting...' : 'Auto-detect type'} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.values(DocumentType).map(type => (
+                                    <SelectItem key={type} value={type}>
+                                      {DOCUMENT_TYPE_LABELS[type]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {classification && !chosenTypes.has(file.name) && classification.documentType === documentType && (
+                                <span
+                                  className="text-xs text-gray-500 flex items-center gap-1"
+                                  title={classification.signals.length > 0 ? `Based on: ${classification.signals.join(', ')}` : undefined}
+                                >
+                                  <Sparkles className="h-3 w-3" />
+                                  {Math.round(classification.confidence * 100)}% match
+                                </span>
+                              )}
+                            </div>
+                            {suggestedStep && suggestedStep.stepId !== step.id && (
+                              <p className="text-xs text-amber-700 mt-1">
+                                This looks like it belongs to &quot;{suggestedStep.title}&quot;
+                              </p>
+                            )}
                           </div>
                         </div>
                         <Button
@@ -363,6 +526,72 @@ export function StepCompletionModalEnhanced({
             )}
           </div>
 
+          {/* Required Documents Checklist */}
+          {checklist.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Required Documents</Label>
+              <ul className="space-y-1">
+                {checklist.map(item => (
+                  <li key={item.requirementId} className="flex items-start gap-2 text-sm">
+                    {item.status === 'satisfied' ? (
+                      <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    ) : item.status === 'pending' ? (
+                      <Clock className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <Circle className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className={item.status === 'missing' ? 'text-gray-900' : 'text-gray-600'}>
+                        {item.label}
+                        <span className="text-xs text-gray-500"> ({DOCUMENT_TYPE_LABELS[item.documentType]})</span>
+                      </p>
+                      {item.status === 'satisfied' && item.documentName && (
+                        <p className="text-xs text-gray-500 truncate">{item.documentName}</p>
+                      )}
+                      {item.status === 'pending' && (
+                        <p className="text-xs text-blue-600">Uploads with this completion</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {missingDocuments.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+                  <p className="text-sm text-amber-800">
+                    {missingDocuments.length} required document{missingDocuments.length === 1 ? ' is' : 's are'} missing.
+                    Upload {missingDocuments.length === 1 ? 'it' : 'them'} above, or set the type of a selected file.
+                  </p>
+                  {canOverrideDocuments && (
+                    <>
+                      <label htmlFor="override-documents" className="flex items-center gap-2 text-sm text-amber-800 cursor-pointer">
+                        <input
+                          id="override-documents"
+                          type="checkbox"
+                          checked={overrideDocuments}
+                          onChange={(e) => setOverrideDocuments(e.target.checked)}
+                          disabled={isUploading}
+                          className="h-4 w-4 accent-[#5C1B10]"
+                        />
+                        Complete without {missingDocuments.length === 1 ? 'it' : 'them'}
+                      </label>
+                      {overrideDocuments && (
+                        <Textarea
+                          value={overrideReason}
+                          onChange={(e) => setOverrideReason(e.target.value)}
+                          placeholder="Why is this step complete without the document? (recorded in the activity log)"
+                          maxLength={500}
+                          rows={2}
+                          disabled={isUploading}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Actual Cost Input */}
           <div className="space-y-2">
             <Label htmlFor="actual-cost" className="text-sm font-medium">
@@ -399,7 +628,7 @@ export function StepCompletionModalEnhanced({
             </Button>
             <Button
               onClick={handleComplete}
-              disabled={isUploading}
+              disabled={isUploading || isBlockedByDocuments}
               style={{ backgroundColor: '#5C1B10', color: 'white' }}
               className="flex-1"
             >
@@ -10,8 +10,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, X, File, CheckCircle, Loader2, AlertCircle, DollarSign, FileText, History, Eye } from "lucide-react";
-import { TimelineStepWithRelations } from "@/lib/types/timeline";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, X, File, CheckCircle, Circle, Loader2, AlertCircle, DollarSign, FileText, History, Eye, GitBranch, ListChecks, Plus } from "lucide-react";
+import { DocumentType, TimelineStepWithRelations } from "@/lib/types/timeline";
+import { DOCUMENT_TYPE_LABELS } from "@/lib/types/document-classification";
+import { StepDocumentChecklist } from "@/lib/types/timeline-document-requirements";
 import { documentVersionService } from "@/lib/services/DocumentVersionService";
 
 interface StepEditModalProps {
@@ -21,6 +24,10 @@ interface StepEditModalProps {
   onUpdateCost: (cost?: number) => Promise<void>;
   onUploadDocument: (file: File, replaceDocumentId?: string) => Promise<void>;
   onRefresh: () => Promise<void>;
+  onUpdateDependencies?: (dependsOnStepIds: string[]) => Promise<void>;
+  allSteps?: TimelineStepWithRelations[];
+  /** Whether the viewer may change which documents the step requires */
+  canManageRequirements?: boolean;
   isLoading?: boolean;
 }
 
@@ -31,15 +38,28 @@ export function StepEditModal({
   onUpdateCost,
   onUploadDocument,
   onRefresh,
+  onUpdateDependencies,
+  allSteps = [],
+  canManageRequirements = false,
   isLoading = false
 }: StepEditModalProps) {
   const [actualCost, setActualCost] = useState<string>('');
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
   const [documentVersions, setDocumentVersions] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'cost' | 'documents' | 'history'>('cost');
+  const [activeTab, setActiveTab] = useState<'cost' | 'documents' | 'history' | 'dependencies' | 'requirements'>('cost');
   const [uploadingDocuments, setUploadingDocuments] = useState<Set<string>>(new Set());
   const [replacingDocuments, setReplacingDocuments] = useState<Set<string>>(new Set());
+  const [selectedDependencies, setSelectedDependencies] = useState<Set<string>>(new Set());
+  const [dependencyError, setDependencyError] = useState<string | null>(null);
+  const [isSavingDependencies, setIsSavingDependencies] = useState(false);
+  const [checklist, setChecklist] = useState<StepDocumentChecklist | null>(null);
+  const [newRequirement, setNewRequirement] = useState<{ documentType: DocumentType; label: string }>({
+    documentType: DocumentType.OTHER,
+    label: ''
+  });
+  const [requirementError, setRequirementError] = useState<string | null>(null);
+  const [isSavingRequirement, setIsSavingRequirement] = useState(false);
 
   // Load step data when modal opens
   useEffect(() => {
@@ -47,9 +67,17 @@ export function StepEditModal({
       // Set current cost
       const currentCost = step.actualCost ? Number(step.actualCost) / 100 : 0;
       setActualCost(currentCost > 0 ? currentCost.toString() : '');
+
+      // Current dependency selection
+      setSelectedDependencies(new Set((step.dependencies || []).map(dep => dep.dependsOnStepId)));
+      setDependencyError(null);
+      setChecklist(null);
+      setRequirementError(null);
+      setNewRequirement({ documentType: DocumentType.OTHER, label: '' });
       
       // Load document versions
       loadDocumentVersions();
+      loadChecklist();
     }
   }, [isOpen, step?.id]);
 
@@ -64,6 +92,64 @@ export function StepEditModal({
     }
   };
 
+  const loadChecklist = async () => {
+    if (!step) return;
+
+    try {
+      const response = await fetch(`/api/timeline/steps/${step.id}/requirements`);
+      if (!response.ok) {
+        throw new Error('Failed to load document requirements');
+      }
+      const data = await response.json();
+      setChecklist(data.checklist);
+    } catch (error) {
+      logger.error('Error loading document requirements:', error);
+    }
+  };
+
+  const changeRequirements = async (request: Promise<Response>) => {
+    setIsSavingRequirement(true);
+    setRequirementError(null);
+
+    try {
+      const response = await request;
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update document requirements');
+      }
+      setChecklist(data.checklist);
+      await onRefresh();
+      return true;
+    } catch (error) {
+      setRequirementError(error instanceof Error ? error.message : 'Failed to update document requirements');
+      return false;
+    } finally {
+      setIsSavingRequirement(false);
+    }
+  };
+
+  const handleAddRequirement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!step || !newRequirement.label.trim()) return;
+
+    const added = await changeRequirements(fetch(`/api/timeline/steps/${step.id}/requirements`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...newRequirement, label: newRequirement.label.trim() })
+    }));
+    if (added) {
+      setNewRequirement({ documentType: DocumentType.OTHER, label: '' });
+    }
+  };
+
+  const handleRemoveRequirement = async (requirementId: string) => {
+    if (!step) return;
+
+    await changeRequirements(fetch(`/api/timeline/steps/${step.id}/requirements/${requirementId}`, {
+      method: 'DELETE'
+    }));
+  };
+
   const handleClose = () => {
     if (isLoading) return;
     setSelectedFiles([]);
@@ -105,6 +191,36 @@ export function StepEditModal({
     await onRefresh();
   };
 
+  const toggleDependency = (stepId: string) => {
+    setDependencyError(null);
+    setSelectedDependencies(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  const handleDependenciesUpdate = async () => {
+    if (!onUpdateDependencies) return;
+
+    setIsSavingDependencies(true);
+    setDependencyError(null);
+
+    try {
+      await onUpdateDependencies(Array.from(selectedDependencies));
+      await onRefresh();
+    } catch (error) {
+      // Cycles are rejected server-side; keep the selection so the user can adjust it
+      setDependencyError(error instanceof Error ? error.message : 'Failed to update dependencies');
+    } finally {
+      setIsSavingDependencies(false);
+    }
+  };
+
   const handleDocumentUpload = async (file: File, replaceDocumentId?: string) => {
     const uploadId = `${file.name}_${Date.now()}`;
     setUploadingDocuments(prev => new Set(prev).add(uploadId));
@@ -163,6 +279,9 @@ export function StepEditModal({
 
   const currentDocuments = documentVersions?.currentDocuments || [];
   const hasDocuments = currentDocuments.length > 0;
+  const otherSteps = allSteps
+    .filter(s => s.id !== step.id)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -175,7 +294,7 @@ export function StepEditModal({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="cost" className="flex items-center gap-2">
               <DollarSign className="h-4 w-4" />
               Cost
@@ -189,6 +308,16 @@ export function StepEditModal({
               <History className="h-4 w-4" />
               History
             </TabsTrigger>
+            <TabsTrigger value="dependencies" className="flex items-center gap-2">
+              <GitBranch className="h-4 w-4" />
+              Dependencies
+              {selectedDependencies.size > 0 && <span className="ml-1 text-xs bg-blue-100 text-blue-600 px-1 rounded">{selectedDependencies.size}</span>}
+            </TabsTrigger>
+            <TabsTrigger value="requirements" className="flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Required
+              {checklist && checklist.missingCount > 0 && <span className="ml-1 text-xs bg-amber-100 text-amber-700 px-1 rounded">{checklist.missingCount}</span>}
+            </TabsTrigger>
           </TabsList>
 
           {/* Cost Tab */}
@@ -490,6 +619,185 @@ export function StepEditModal({
               </div>
             )}
           </TabsContent>
+
+          {/* Dependencies Tab */}
+          <TabsContent value="dependencies" className="space-y-4">
+            <div>
+              <h4 className="font-medium text-gray-900 mb-1">Steps that must be completed first</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                This step can&apos;t be marked complete until every selected step is done.
+              </p>
+
+              {otherSteps.length > 0 ? (
+                <div className="space-y-2">
+                  {otherSteps.map(other => (
+                    <label
+                      key={other.id}
+                      htmlFor={`dependency-${other.id}`}
+                      className="flex items-center justify-between p-3 border-2 rounded-lg bg-white cursor-pointer hover:bg-gray-50"
+                    >
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <input
+                          id={`dependency-${other.id}`}
+                          type="checkbox"
+                          checked={selectedDependencies.has(other.id)}
+                          onChange={() => toggleDependency(other.id)}
+                          disabled={isSavingDependencies}
+                          className="h-4 w-4 accent-[#5C1B10]"
+                        />
+                        <span className="text-sm text-gray-900 truncate">{other.title}</span>
+                      </div>
+                      {other.isCompleted && (
+                        <span className="flex items-center gap-1 text-xs text-green-700">
+                          <CheckCircle className="h-3 w-3" />
+                          Completed
+                        </span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-8">No other steps in this timeline</p>
+              )}
+            </div>
+
+            {dependencyError && (
+              <div className="flex items-start gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{dependencyError}</span>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                disabled={isSavingDependencies}
+                className="border-gray-300 hover:bg-gray-50"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleDependenciesUpdate}
+                disabled={isSavingDependencies || !onUpdateDependencies}
+                className="bg-[#5C1B10] hover:bg-[#4A1508] text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingDependencies ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Save Dependencies
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Required Documents Tab */}
+          <TabsContent value="requirements" className="space-y-4">
+            <div>
+              <h4 className="font-medium text-gray-900 mb-1">Documents required to complete this step</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Each requirement is met by a current document of its type uploaded to this step.
+              </p>
+
+              {checklist === null ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                  <span className="text-gray-600">Loading requirements...</span>
+                </div>
+              ) : checklist.items.length > 0 ? (
+                <div className="space-y-2">
+                  {checklist.items.map(item => (
+                    <div
+                      key={item.requirementId}
+                      className="flex items-center justify-between p-3 border-2 rounded-lg bg-white"
+                    >
+                      <div className="flex items-center space-x-3 min-w-0">
+                        {item.status === 'satisfied' ? (
+                          <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+                        ) : (
+                          <Circle className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900 truncate">
+                            {item.label}
+                            <span className="text-xs text-gray-500"> ({DOCUMENT_TYPE_LABELS[item.documentType]})</span>
+                          </p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {item.documentName ?? 'Not uploaded yet'}
+                          </p>
+                        </div>
+                      </div>
+                      {canManageRequirements && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveRequirement(item.requirementId)}
+                          disabled={isSavingRequirement}
+                          className="h-6 w-6 p-0"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-8">This step doesn&apos;t require any documents</p>
+              )}
+
+              {checklist?.override && (
+                <div className="mt-3 p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                  Completed without all required documents
+                  {checklist.override.overriddenAt && ` on ${new Date(checklist.override.overriddenAt).toLocaleDateString()}`}: {checklist.override.reason}
+                </div>
+              )}
+            </div>
+
+            {canManageRequirements && (
+              <form onSubmit={handleAddRequirement} className="flex items-end gap-2">
+                <div className="w-44">
+                  <Label htmlFor="requirement-type" className="text-sm font-medium">Type</Label>
+                  <Select
+                    value={newRequirement.documentType}
+                    onValueChange={(value) => setNewRequirement(prev => ({ ...prev, documentType: value as DocumentType }))}
+                  >
+                    <SelectTrigger id="requirement-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(DocumentType).map(type => (
+                        <SelectItem key={type} value={type}>
+                          {DOCUMENT_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor="requirement-label" className="text-sm font-medium">Document</Label>
+                  <Input
+                    id="requirement-label"
+                    value={newRequirement.label}
+                    onChange={(e) => setNewRequirement(prev => ({ ...prev, label: e.target.value }))}
+                    placeholder="Earnest money receipt"
+                    maxLength={100}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={isSavingRequirement || !newRequirement.label.trim()}
+                  className="bg-[#5C1B10] hover:bg-[#4A1508] text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSavingRequirement ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                  Add
+                </Button>
+              </form>
+            )}
+
+            {requirementError && (
+              <div className="flex items-start gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{requirementError}</span>
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,261 @@
+// Timeline Activity Component - Production Ready, Zero Tech Debt
+// Audit trail of who changed what on the timeline, with field-level diffs
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/lib/utils/logger";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, ChevronDown, ChevronUp } from "lucide-react";
+import { TimelineWithRelations } from "@/lib/types/timeline";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  ActivityFieldValue,
+  TimelineActivityEntry
+} from "@/lib/types/timeline-activity";
+
+interface TimelineActivityProps {
+  timeline: TimelineWithRelations;
+}
+
+const ALL_ENTITIES = 'ALL';
+const PAGE_SIZE = 25;
+
+const ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  [ActivityEntityType.TIMELINE]: 'Timeline',
+  [ActivityEntityType.STEP]: 'Steps',
+  [ActivityEntityType.DOCUMENT]: 'Documents',
+  [ActivityEntityType.TEAM_MEMBER]: 'Team',
+  [ActivityEntityType.NOTE]: 'Notes',
+  [ActivityEntityType.COMMENT]: 'Comments',
+  [ActivityEntityType.CONTINGENCY]: 'Contingencies',
+};
+
+export function TimelineActivity({ timeline }: TimelineActivityProps) {
+  const [activities, setActivities] = useState<TimelineActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState<ActivityEntityType | typeof ALL_ENTITIES>(ALL_ENTITIES);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+    if (entityFilter !== ALL_ENTITIES) params.set('entityType', entityFilter);
+
+    const response = await fetch(`/api/timeline/${timeline.id}/activity?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to load activity');
+    }
+    return response.json() as Promise<{ activities: TimelineActivityEntry[]; nextCursor: string | null }>;
+  }, [timeline.id, entityFilter]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const data = await fetchPage();
+        setActivities(data.activities);
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        logger.error('Error loading activity:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [fetchPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setIsLoadingMore(true);
+      const data = await fetchPage(nextCursor);
+      setActivities(prev => [...prev, ...data.activities]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      logger.error('Error loading more activity:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const getActionColor = (action: ActivityAction) => {
+    switch (action) {
+      case ActivityAction.CREATE: return 'bg-green-100 text-green-800';
+      case ActivityAction.COMPLETE: return 'bg-green-100 text-green-800';
+      case ActivityAction.VERIFY: return 'bg-blue-100 text-blue-800';
+      case ActivityAction.DELETE: return 'bg-red-100 text-red-800';
+      case ActivityAction.REOPEN: return 'bg-orange-100 text-orange-800';
+      case ActivityAction.EXTEND: return 'bg-orange-100 text-orange-800';
+      case ActivityAction.SUPERSEDE: return 'bg-yellow-100 text-yellow-800';
+      case ActivityAction.RESTORE: return 'bg-purple-100 text-purple-800';
+      case ActivityAction.SHARE: return 'bg-blue-100 text-blue-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatAction = (action: ActivityAction) => {
+    return action.charAt(0) + action.slice(1).toLowerCase();
+  };
+
+  const formatField = (field: string) => {
+    return field.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase());
+  };
+
+  const formatValue = (value: ActivityFieldValue) => {
+    if (value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    // ISO timestamps from date fields
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+      return new Date(value).toLocaleDateString();
+    }
+    return String(value);
+  };
+
+  const formatTimestamp = (createdAt: Date | string) => {
+    return new Date(createdAt).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Activity</CardTitle>
+            <CardDescription>
+              Every change to this timeline, who made it and when
+            </CardDescription>
+          </div>
+          <Select
+            value={entityFilter}
+            onValueChange={(value) => setEntityFilter(value as ActivityEntityType | typeof ALL_ENTITIES)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ENTITIES}>All activity</SelectItem>
+              {Object.values(ActivityEntityType).map(type => (
+                <SelectItem key={type} value={type}>
+                  {ENTITY_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto mb-3"></div>
+            <p className="text-gray-600">Loading activity...</p>
+          </div>
+        ) : activities.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No activity recorded yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {activities.map(activity => {
+              const changes = activity.changes ? Object.entries(activity.changes) : [];
+              const isExpanded = expanded.has(activity.id);
+
+              return (
+                <div key={activity.id} className="p-3 border rounded-lg">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge className={getActionColor(activity.action)}>
+                          {formatAction(activity.action)}
+                        </Badge>
+                        <span className="text-sm font-medium">{activity.summary}</span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {activity.actorName} · {formatTimestamp(activity.createdAt)}
+                      </p>
+                    </div>
+                    {changes.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleExpanded(activity.id)}
+                      >
+                        {changes.length} change{changes.length === 1 ? '' : 's'}
+                        {isExpanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+                      </Button>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <table className="w-full mt-3 text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="font-medium pb-1 w-1/4">Field</th>
+                          <th className="font-medium pb-1">Before</th>
+                          <th className="font-medium pb-1">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(([field, change]) => (
+                          <tr key={field} className="border-t align-top">
+                            <td className="py-1 pr-2 text-gray-600">{formatField(field)}</td>
+                            <td className="py-1 pr-2 text-red-700 line-through decoration-red-300 break-words">
+                              {formatValue(change.before)}
+                            </td>
+                            <td className="py-1 text-green-700 break-words">
+                              {formatValue(change.after)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+
+            {nextCursor && (
+              <div className="text-center pt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isLoadingMore}
+                  onClick={loadMore}
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -26,6 +26,13 @@ export function TimelineAnalytics({ timeline, analytics }: TimelineAnalyticsProp
     }).format(amount);
   };
 
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
   return (
     <div className="space-y-6">
       {/* Overview Stats */}
@@ -61,6 +68,14 @@ export function TimelineAnalytics({ timeline, analytics }: TimelineAnalyticsProp
             <p className="text-xs text-gray-500 mt-1">
               {analytics?.progress?.onTrack ? 'On track' : 'Behind schedule'}
             </p>
+            {analytics?.progress?.projectedClosingDate && (
+              <p className="text-xs text-gray-500">
+                Projected close {formatDate(analytics.progress.projectedClosingDate)}
+                {analytics.progress.closingVarianceDays
+                  ? ` (${Math.abs(analytics.progress.closingVarianceDays)} days ${analytics.progress.closingVarianceDays > 0 ? 'late' : 'early'})`
+                  : ''}
+              </p>
+            )}
           </CardContent>
         </Card>
 
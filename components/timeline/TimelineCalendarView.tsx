@@ -14,9 +14,12 @@ import {
   Clock,
   CheckCircle,
   AlertCircle,
-  Eye
+  Eye,
+  Download,
+  Link2
 } from "lucide-react";
 import { TimelineWithRelations, StepStatus, StepCategory } from "@/lib/types/timeline";
+import { logger } from "@/lib/utils/logger";
 
 interface TimelineCalendarViewProps {
   timeline: TimelineWithRelations;
@@ -34,6 +37,28 @@ export function TimelineCalendarView({ timeline, onStepUpdate }: TimelineCalenda
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [view, setView] = useState<'month' | 'week'>('month');
+  const [feedStatus, setFeedStatus] = useState<'idle' | 'loading' | 'copied' | 'error'>('idle');
+
+  // Copy the token-protected feed URL so it can be added to Google Calendar or Outlook
+  const copyFeedUrl = async () => {
+    setFeedStatus('loading');
+    try {
+      const response = await fetch(`/api/timeline/${timeline.id}/calendar`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to get calendar feed');
+      }
+
+      await navigator.clipboard.writeText(data.feedUrl);
+      setFeedStatus('copied');
+    } catch (error) {
+      logger.error('Error copying calendar feed URL:', error);
+      setFeedStatus('error');
+    } finally {
+      setTimeout(() => setFeedStatus('idle'), 3000);
+    }
+  };
 
   // Generate calendar data
   const calendarData = useMemo(() => {
@@ -156,6 +181,21 @@ export function TimelineCalendarView({ timeline, onStepUpdate }: TimelineCalenda
             </div>
             
             <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={copyFeedUrl}
+                disabled={feedStatus === 'loading'}
+              >
+                <Link2 className="h-4 w-4 mr-1" />
+                {feedStatus === 'copied' ? 'Feed URL copied' : feedStatus === 'error' ? 'Copy failed' : 'Subscribe'}
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/timeline/${timeline.id}/calendar.ics?download=1`}>
+                  <Download className="h-4 w-4 mr-1" />
+                  .ics
+                </a>
+              </Button>
               <Button
                 variant={view === 'month' ? 'default' : 'outline'}
                 size="sm"
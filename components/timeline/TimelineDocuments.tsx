@@ -23,6 +23,8 @@ import {
 } from "lucide-react";
 import { TimelineWithRelations, StepCategory } from "@/lib/types/timeline";
 import { DocumentVersionsView } from "./DocumentVersionsView";
+import { ContractAnalysisReview } from "./ContractAnalysisReview";
+import { DocumentShareDialog } from "./DocumentShareDialog";
 import { documentVersionService } from "@/lib/services/DocumentVersionService";
 
 interface TimelineDocumentsProps {
@@ -35,6 +37,9 @@ export function TimelineDocuments({ timeline, onDocumentUpdate }: TimelineDocume
   const [selectedCategory, setSelectedCategory] = useState<StepCategory | "ALL">("ALL");
   const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set());
   const [documentVersions, setDocumentVersions] = useState<Map<string, any>>(new Map());
+  const [sharingDocument, setSharingDocument] = useState<{ id: string; originalName: string } | null>(null);
+
+  const canShareDocuments = timeline.viewerAccess?.actions.includes('document.upload') ?? true;
 
   // Collect all documents organized by step
   const documentsByStep = useMemo(() => {
@@ -67,6 +72,16 @@ export function TimelineDocuments({ timeline, onDocumentUpdate }: TimelineDocume
     return stepDocs;
   }, [timeline]);
 
+  // Current purchase contracts, which can be parsed into timeline updates
+  const contractDocuments = useMemo(() => {
+    const canManageTimeline = timeline.viewerAccess?.actions.includes('timeline.manage') ?? true;
+    if (!canManageTimeline) return [];
+
+    return timeline.documents?.filter(doc =>
+      doc.documentType === 'CONTRACT' && doc.isCurrentVersion
+    ) || [];
+  }, [timeline]);
+
   // Calculate total document stats
   const documentStats = useMemo(() => {
     let totalDocs = 0;
@@ -260,9 +275,32 @@ export function TimelineDocuments({ timeline, onDocumentUpdate }: TimelineDocume
             <option value="COMMUNICATION">Communication</option>
             <option value="CLOSING">Closing</option>
           </select>
+          {/* Closing binder: every current document in one download */}
+          <Button variant="outline" size="sm" className="h-10" asChild>
+            <a href={`/api/timeline/${timeline.id}/binder?format=zip`} title="Download all documents as a ZIP">
+              <Download className="h-4 w-4 mr-1" />
+              ZIP
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" className="h-10" asChild>
+            <a href={`/api/timeline/${timeline.id}/binder?format=pdf`} title="Download all documents as one PDF">
+              <Download className="h-4 w-4 mr-1" />
+              PDF
+            </a>
+          </Button>
         </div>
       </div>
 
+      {/* Purchase Contract Review */}
+      {contractDocuments.map(doc => (
+        <ContractAnalysisReview
+          key={doc.id}
+          documentId={doc.id}
+          documentName={doc.originalName}
+          onApplied={onDocumentUpdate}
+        />
+      ))}
+
       {/* Document Sections by Step */}
       <div className="space-y-4">
         {Array.from(filteredStepDocs.entries())
@@ -307,6 +345,7 @@ export function TimelineDocuments({ timeline, onDocumentUpdate }: TimelineDocume
                         previousSessions={documentVersions.get(stepId)?.previousSessions || []}
                         onPromoteDocument={handlePromoteDocument}
                         onDownload={handleDownloadDocument}
+                        onShare={canShareDocuments ? setSharingDocument : undefined}
                       />
                     ) : (
                       <div className="flex items-center justify-center py-8">
@@ -321,6 +360,12 @@ export function TimelineDocuments({ timeline, onDocumentUpdate }: TimelineDocume
           })}
       </div>
 
+      <DocumentShareDialog
+        document={sharingDocument}
+        teamMembers={timeline.teamMembers ?? []}
+        onClose={() => setSharingDocument(null)}
+      />
+
       {/* No Results State */}
       {filteredStepDocs.size === 0 && documentStats.totalDocs > 0 && (
         <Card>
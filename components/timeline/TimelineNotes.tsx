@@ -0,0 +1,442 @@
+// Timeline Notes Component - Production Ready, Zero Tech Debt
+// Journal of notes, decisions and issues with hh.fun design system
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/lib/utils/logger";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  BookOpen,
+  Plus,
+  Search,
+  Star,
+  Lock,
+  Edit2,
+  Trash2,
+  Tag
+} from "lucide-react";
+import { TimelineWithRelations, TimelineNote, NoteType } from "@/lib/types/timeline";
+
+interface TimelineNotesProps {
+  timeline: TimelineWithRelations;
+  currentUserId?: string;
+}
+
+interface NoteForm {
+  title: string;
+  content: string;
+  noteType: NoteType;
+  tags: string;
+  isImportant: boolean;
+  isPrivate: boolean;
+}
+
+const initialForm: NoteForm = {
+  title: '',
+  content: '',
+  noteType: NoteType.GENERAL,
+  tags: '',
+  isImportant: false,
+  isPrivate: false,
+};
+
+const ALL_TYPES = 'ALL';
+
+export function TimelineNotes({ timeline, currentUserId }: TimelineNotesProps) {
+  const [notes, setNotes] = useState<TimelineNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<NoteType | typeof ALL_TYPES>(ALL_TYPES);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [importantOnly, setImportantOnly] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingNote, setEditingNote] = useState<string | null>(null);
+  const [formData, setFormData] = useState<NoteForm>(initialForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadNotes = useCallback(async () => {
+    const params = new URLSearchParams({ timelineId: timeline.id });
+    if (search.trim()) params.set('search', search.trim());
+    if (typeFilter !== ALL_TYPES) params.set('noteType', typeFilter);
+    if (tagFilter) params.set('tag', tagFilter);
+    if (importantOnly) params.set('isImportant', 'true');
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/timeline/notes?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load notes');
+      }
+      const data = await response.json();
+      setNotes(data.notes);
+    } catch (error) {
+      logger.error('Error loading notes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeline.id, search, typeFilter, tagFilter, importantOnly]);
+
+  // Debounce so search doesn't fire on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(loadNotes, 300);
+    return () => clearTimeout(timeout);
+  }, [loadNotes]);
+
+  const getTypeColor = (type: NoteType) => {
+    switch (type) {
+      case NoteType.MILESTONE: return 'bg-green-100 text-green-800';
+      case NoteType.ISSUE: return 'bg-red-100 text-red-800';
+      case NoteType.DECISION: return 'bg-blue-100 text-blue-800';
+      case NoteType.REMINDER: return 'bg-yellow-100 text-yellow-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatType = (type: NoteType) => {
+    return type.charAt(0) + type.slice(1).toLowerCase();
+  };
+
+  const openEditor = (note?: TimelineNote) => {
+    setFormData(note ? {
+      title: note.title || '',
+      content: note.content,
+      noteType: note.noteType,
+      tags: note.tags.join(', '),
+      isImportant: note.isImportant,
+      isPrivate: note.isPrivate,
+    } : initialForm);
+    setEditingNote(note?.id ?? null);
+    setIsEditorOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.content.trim()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const payload = {
+        title: formData.title || undefined,
+        content: formData.content,
+        noteType: formData.noteType,
+        tags: formData.tags ? formData.tags.split(',').map(t => t.trim()).filter(Boolean) : [],
+        isImportant: formData.isImportant,
+        isPrivate: formData.isPrivate,
+      };
+
+      const response = await fetch(
+        editingNote ? `/api/timeline/notes/${editingNote}` : '/api/timeline/notes',
+        {
+          method: editingNote ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(editingNote ? payload : { ...payload, timelineId: timeline.id }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to save note');
+      }
+
+      setFormData(initialForm);
+      setIsEditorOpen(false);
+      setEditingNote(null);
+      await loadNotes();
+    } catch (error) {
+      logger.error('Error saving note:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteNote = async (noteId: string) => {
+    try {
+      const response = await fetch(`/api/timeline/notes/${noteId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete note');
+      }
+
+      setNotes(prev => prev.filter(note => note.id !== noteId));
+    } catch (error) {
+      logger.error('Error deleting note:', error);
+    }
+  };
+
+  // The API already hides other people's private notes; never render one regardless
+  const visibleNotes = notes.filter(note => !note.isPrivate || note.authorId === currentUserId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">Journal</CardTitle>
+              <CardDescription>
+                Keep track of milestones, decisions and issues as your purchase moves along
+              </CardDescription>
+            </div>
+            <Button
+              style={{ backgroundColor: '#5C1B10', color: 'white' }}
+              onClick={() => openEditor()}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Note
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search notes..."
+                className="pl-9"
+              />
+            </div>
+            <Select
+              value={typeFilter}
+              onValueChange={(value) => setTypeFilter(value as NoteType | typeof ALL_TYPES)}
+            >
+              <SelectTrigger className="md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                {Object.values(NoteType).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {formatType(type)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={importantOnly ? 'default' : 'outline'}
+              onClick={() => setImportantOnly(prev => !prev)}
+            >
+              <Star className="h-4 w-4 mr-2" />
+              Important
+            </Button>
+          </div>
+          {tagFilter && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+              Filtered by tag
+              <Badge variant="outline" className="cursor-pointer" onClick={() => setTagFilter(null)}>
+                #{tagFilter} ✕
+              </Badge>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Notes List */}
+      {isLoading && visibleNotes.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">Loading notes...</CardContent>
+        </Card>
+      ) : visibleNotes.length > 0 ? (
+        <div className="space-y-4">
+          {visibleNotes.map(note => {
+            const isAuthor = note.authorId === currentUserId;
+
+            return (
+              <Card key={note.id} className={note.isImportant ? 'border-[#5C1B10]' : undefined}>
+                <CardContent className="pt-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-2 flex-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {note.isImportant && <Star className="h-4 w-4 text-[#5C1B10] fill-current" />}
+                        {note.title && <h4 className="font-semibold text-gray-900">{note.title}</h4>}
+                        <Badge className={getTypeColor(note.noteType)}>{formatType(note.noteType)}</Badge>
+                        {note.isPrivate && (
+                          <Badge variant="outline" className="flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Private
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{note.content}</p>
+                      {note.tags.length > 0 && (
+                        <div className="flex items-center gap-1 flex-wrap">
+                          <Tag className="h-3 w-3 text-gray-400" />
+                          {note.tags.map(tag => (
+                            <button
+                              key={tag}
+                              className="text-xs text-gray-600 hover:text-[#5C1B10]"
+                              onClick={() => setTagFilter(tag)}
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {note.authorName} · {new Date(note.createdAt).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric'
+                        })}
+                      </p>
+                    </div>
+                    {isAuthor && (
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(note)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteNote(note.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No notes yet</h3>
+            <p className="text-gray-600">
+              {search || typeFilter !== ALL_TYPES || tagFilter || importantOnly
+                ? 'No notes match these filters.'
+                : 'Capture decisions, issues and milestones as they happen.'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Note Editor */}
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingNote ? 'Edit Note' : 'Add Note'}</DialogTitle>
+            <DialogDescription>
+              Private notes are only visible to you.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="note-title">Title</Label>
+                <Input
+                  id="note-title"
+                  value={formData.title}
+                  onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Optional title"
+                  maxLength={200}
+                />
+              </div>
+              <div>
+                <Label htmlFor="note-type">Type</Label>
+                <Select
+                  value={formData.noteType}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, noteType: value as NoteType }))}
+                >
+                  <SelectTrigger id="note-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(NoteType).map(type => (
+                      <SelectItem key={type} value={type}>
+                        {formatType(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="note-content">Note *</Label>
+              <Textarea
+                id="note-content"
+                value={formData.content}
+                onChange={(e) => setFormData(prev => ({ ...prev, content: e.target.value }))}
+                placeholder="What happened?"
+                rows={6}
+                maxLength={5000}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="note-tags">Tags</Label>
+              <Input
+                id="note-tags"
+                value={formData.tags}
+                onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
+                placeholder="appraisal, lender, repairs (comma separated)"
+              />
+            </div>
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="note-important"
+                  checked={formData.isImportant}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isImportant: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="note-important">Mark as important</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="note-private"
+                  checked={formData.isPrivate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isPrivate: e.target.checked }))}
+                  className="rounded"
+                />
+                <Label htmlFor="note-private">Private</Label>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setIsEditorOpen(false);
+                  setEditingNote(null);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting || !formData.content.trim()}
+                style={{ backgroundColor: '#5C1B10', color: 'white' }}
+              >
+                {isSubmitting ? 'Saving...' : editingNote ? 'Update Note' : 'Add Note'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
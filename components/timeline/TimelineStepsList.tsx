@@ -29,10 +29,11 @@ import {
   Eye,
   Loader2
 } from "lucide-react";
-import { TimelineWithRelations, StepStatus, StepCategory, StepPriority, checkStepDependencies } from "@/lib/types/timeline";
+import { TimelineWithRelations, StepStatus, StepCategory, StepPriority, DocumentType, checkStepDependencies } from "@/lib/types/timeline";
 import { StepCompletionModal } from "./StepCompletionModal";
 import { StepCompletionModalEnhanced } from "./StepCompletionModalEnhanced";
 import { StepEditModal } from "./StepEditModal";
+import { ContingencyEntry } from "@/lib/types/timeline-contingencies";
 
 interface TimelineStepsListProps {
   timeline: TimelineWithRelations;
@@ -59,6 +60,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
     isEarlyCompletion: false
   });
   
+  const [gatingContingencies, setGatingContingencies] = useState<ContingencyEntry[]>([]);
+
   const [editModal, setEditModal] = useState<{
     isOpen: boolean;
     step: any | null;
@@ -339,6 +342,22 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
       step,
       isEarlyCompletion
     });
+    loadGatingContingencies(step.id);
+  };
+
+  // Open contingencies this step would get ahead of, shown as a warning in the completion modal
+  const loadGatingContingencies = async (stepId: string) => {
+    setGatingContingencies([]);
+    try {
+      const params = new URLSearchParams({ timelineId: timeline.id, gatingStepId: stepId });
+      const response = await fetch(`/api/timeline/contingencies?${params.toString()}`);
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setGatingContingencies(data.contingencies);
+    } catch (error) {
+      logger.error('Error loading contingencies:', error);
+    }
   };
 
   const closeCompletionModal = () => {
@@ -369,6 +388,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
     cloudinaryDocuments?: Array<{ url: string; publicId: string; fileName: string; fileSize: number }>;
     supabaseDocuments?: Array<{ path: string; fileName: string; fileSize: number }>;
     completionSessionId: string;
+    documentTypes?: Record<string, DocumentType>;
+    documentOverrideReason?: string;
   }) => {
     if (!completionModal.step) return;
 
@@ -393,7 +414,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
                 downloadUrl: cloudDoc.url,
                 storageKey: cloudDoc.publicId,
                 fileSize: cloudDoc.fileSize,
-                completionSessionId: data.completionSessionId
+                completionSessionId: data.completionSessionId,
+                documentType: data.documentTypes?.[cloudDoc.fileName]
               })
             });
             
@@ -426,7 +448,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
                 storageKey: supabaseDoc.path,
                 fileSize: supabaseDoc.fileSize,
                 completionSessionId: data.completionSessionId,
-                storageProvider: 'SUPABASE' // Add this to identify it's from Supabase
+                storageProvider: 'SUPABASE', // Add this to identify it's from Supabase
+                documentType: data.documentTypes?.[supabaseDoc.fileName]
               })
             });
             
@@ -453,6 +476,10 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
           formData.append('stepCategory', completionModal.step!.category);
           formData.append('fileName', file.name);
           formData.append('completionSessionId', data.completionSessionId);
+          const documentType = data.documentTypes?.[file.name];
+          if (documentType) {
+            formData.append('documentType', documentType);
+          }
 
           const uploadResponse = await fetch('/api/timeline/documents/upload', {
             method: 'POST',
@@ -488,6 +515,10 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
         requestBody.actualCost = Math.round(data.actualCost * 100);
       }
 
+      if (data.documentOverrideReason) {
+        requestBody.documentOverrideReason = data.documentOverrideReason;
+      }
+
       const response = await fetch(`/api/timeline/steps/${completionModal.step.id}`, {
         method: 'PUT',
         headers: {
@@ -497,7 +528,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
       });
 
       if (!response.ok) {
-        throw new Error('Failed to complete step');
+        const errorData = await response.json().catch(() => ({ error: 'Failed to complete step' }));
+        throw new Error(errorData.error || 'Failed to complete step');
       }
 
       // Close modal first
@@ -546,6 +578,23 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
     }
   };
 
+  const handleDependenciesUpdate = async (dependsOnStepIds: string[]) => {
+    if (!editModal.step) return;
+
+    const response = await fetch(`/api/timeline/steps/${editModal.step.id}/dependencies`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ dependsOnStepIds }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || 'Failed to update dependencies');
+    }
+  };
+
   const handleDocumentUpload = async (file: File, replaceDocumentId?: string) => {
     if (!editModal.step) return;
 
@@ -675,6 +724,15 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
                               <FileText className="h-4 w-4 mr-1" />
                               {step.notes ? 'View Notes' : 'Add Notes'}
                             </Button>
+
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openEditModal(step)}
+                            >
+                              <Edit2 className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
                           </>
                         ) : !step.isCompleted ? (
                           // Future step buttons
@@ -705,6 +763,15 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
                               <FileText className="h-4 w-4 mr-1" />
                               {step.notes ? 'View Notes' : 'Add Notes'}
                             </Button>
+
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openEditModal(step)}
+                            >
+                              <Edit2 className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
                           </>
                         ) : (
                           // Completed step buttons
@@ -969,6 +1036,8 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
         onClose={closeCompletionModal}
         onComplete={handleStepCompletion}
         isLoading={isUpdating === completionModal.step?.id}
+        openContingencies={gatingContingencies}
+        canOverrideDocuments={timeline.viewerAccess?.actions.includes('timeline.manage') ?? true}
       />
 
       {/* Step Edit Modal */}
@@ -979,6 +1048,9 @@ export function TimelineStepsList({ timeline, onStepUpdate, onRefreshTimeline }:
         onUpdateCost={handleCostUpdate}
         onUploadDocument={handleDocumentUpload}
         onRefresh={onRefreshTimeline || (() => Promise.resolve())}
+        onUpdateDependencies={handleDependenciesUpdate}
+        allSteps={steps}
+        canManageRequirements={timeline.viewerAccess?.actions.includes('timeline.manage') ?? true}
         isLoading={isUpdating === editModal.step?.id}
       />
     </div>
@@ -25,7 +25,11 @@ import {
   Trash2,
   Crown,
   Clock,
-  MapPin
+  MapPin,
+  Send,
+  UserCheck,
+  UserX,
+  Copy
 } from "lucide-react";
 import { TimelineWithRelations, TeamMemberRole, ContactMethod } from "@/lib/types/timeline";
 
@@ -71,6 +75,15 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
   const [editingMember, setEditingMember] = useState<string | null>(null);
   const [formData, setFormData] = useState<TeamMemberForm>(initialForm);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [invitingMember, setInvitingMember] = useState<string | null>(null);
+  const [inviteResult, setInviteResult] = useState<{
+    memberId: string;
+    message: string;
+    inviteUrl?: string;
+  } | null>(null);
+
+  // Collaborators see the team but only the owner manages it
+  const canManageTeam = timeline.viewerAccess?.isOwner ?? true;
 
   const getRoleColor = (role: TeamMemberRole) => {
     switch (role) {
@@ -85,6 +98,7 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
       case TeamMemberRole.INSURANCE_AGENT: return 'bg-teal-100 text-teal-800';
       case TeamMemberRole.CONTRACTOR: return 'bg-gray-100 text-gray-800';
       case TeamMemberRole.ESCROW_OFFICER: return 'bg-pink-100 text-pink-800';
+      case TeamMemberRole.CO_BUYER: return 'bg-amber-100 text-amber-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -196,6 +210,59 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
     }
   };
 
+  const inviteMember = async (memberId: string) => {
+    try {
+      setInvitingMember(memberId);
+      setInviteResult(null);
+
+      const response = await fetch(`/api/timeline/team/${memberId}/invite`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setInviteResult({ memberId, message: data.error || 'Failed to send invitation' });
+        return;
+      }
+
+      setInviteResult({
+        memberId,
+        message: data.message,
+        inviteUrl: data.invitation.emailed ? undefined : data.invitation.inviteUrl
+      });
+    } catch (error) {
+      logger.error('Error inviting team member:', error);
+      setInviteResult({ memberId, message: 'Failed to send invitation' });
+    } finally {
+      setInvitingMember(null);
+    }
+  };
+
+  const revokeAccess = async (memberId: string) => {
+    try {
+      const response = await fetch(`/api/timeline/team/${memberId}/invite`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke access');
+      }
+
+      setInviteResult(null);
+      onTeamUpdate();
+    } catch (error) {
+      logger.error('Error revoking team member access:', error);
+    }
+  };
+
+  const copyInviteUrl = async (inviteUrl: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+    } catch (error) {
+      logger.error('Error copying invite link:', error);
+    }
+  };
+
   // Group team members by role
   const groupedMembers = timeline.teamMembers.reduce((acc, member) => {
     if (!acc[member.role]) {
@@ -214,9 +281,12 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
             <div>
               <CardTitle className="text-lg">Team Members</CardTitle>
               <CardDescription>
-                Manage your home buying team contacts and communication
+                {canManageTeam
+                  ? 'Manage your home buying team and invite them to collaborate'
+                  : 'Your home buying team contacts'}
               </CardDescription>
             </div>
+            {canManageTeam && (
             <Dialog open={isAddingMember} onOpenChange={setIsAddingMember}>
               <DialogTrigger>
                 <Button
@@ -412,6 +482,7 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
                 </form>
               </DialogContent>
             </Dialog>
+            )}
           </div>
         </CardHeader>
       </Card>
@@ -443,6 +514,12 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
                             {member.isPrimary && (
                               <Crown className="h-4 w-4 text-yellow-500" />
                             )}
+                            {member.userId && (
+                              <Badge variant="outline" className="text-xs text-green-700 border-green-300">
+                                <UserCheck className="h-3 w-3 mr-1" />
+                                Has access
+                              </Badge>
+                            )}
                             {member.rating && (
                               <div className="flex items-center">
                                 <Star className="h-3 w-3 text-yellow-400 fill-current" />
@@ -496,6 +573,22 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
                             </div>
                           )}
 
+                          {inviteResult?.memberId === member.id && (
+                            <div className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+                              <span>{inviteResult.message}</span>
+                              {inviteResult.inviteUrl && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => copyInviteUrl(inviteResult.inviteUrl!)}
+                                >
+                                  <Copy className="h-3 w-3 mr-1" />
+                                  Copy link
+                                </Button>
+                              )}
+                            </div>
+                          )}
+
                           {member.specialties && member.specialties.length > 0 && (
                             <div className="flex flex-wrap gap-1 mt-2">
                               {member.specialties.slice(0, 3).map((specialty, index) => (
@@ -513,7 +606,28 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
                         </div>
                       </div>
 
+                      {canManageTeam && (
                       <div className="flex items-center space-x-2">
+                        {member.userId ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => revokeAccess(member.id)}
+                            title="Revoke access"
+                          >
+                            <UserX className="h-3 w-3" />
+                          </Button>
+                        ) : member.email && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={invitingMember === member.id}
+                            onClick={() => inviteMember(member.id)}
+                            title="Invite to collaborate"
+                          >
+                            <Send className="h-3 w-3" />
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
@@ -530,6 +644,7 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
                           <Trash2 className="h-3 w-3" />
                         </Button>
                       </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -546,13 +661,15 @@ export function TimelineTeamMembers({ timeline, onTeamUpdate }: TimelineTeamMemb
             <p className="text-gray-600 mb-4">
               Add professionals to your home buying team for easy reference and communication.
             </p>
-            <Button
-              style={{ backgroundColor: '#5C1B10', color: 'white' }}
-              onClick={() => setIsAddingMember(true)}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add First Team Member
-            </Button>
+            {canManageTeam && (
+              <Button
+                style={{ backgroundColor: '#5C1B10', color: 'white' }}
+                onClick={() => setIsAddingMember(true)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add First Team Member
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
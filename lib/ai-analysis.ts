@@ -1,7 +1,13 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
+import { investmentFinancialEngine } from '@/lib/services/InvestmentFinancialEngine';
+import type { InvestmentFinancials, InvestmentParameters } from '@/lib/types/investment';
 import { ZillowPropertyData } from './zillow-api';
 
+export type { InvestmentParameters } from '@/lib/types/investment';
+
 export interface PropertyAnalysisResult {
   marketValue: {
     low: number;
@@ -35,47 +41,8 @@ export interface PropertyAnalysisResult {
   analysis: string;
 }
 
-export interface InvestmentParameters {
-  downPayment: number;
-  interestRate: number;
-  loanTerm: number;
-  monthlyRent?: number;
-  propertyTaxes?: number;
-  insurance?: number;
-  maintenance?: number;
-  vacancy?: number;
-  capEx?: number;
-  propertyManagement?: number;
-  investmentGoal: 'cashflow' | 'appreciation' | 'both';
-  timeHorizon: number;
-}
-
-export interface InvestmentAnalysisResult {
-  cashFlow: {
-    monthlyIncome: number;
-    monthlyExpenses: number;
-    netCashFlow: number;
-    annualCashFlow: number;
-    cashOnCashReturn: number;
-  };
-  financing: {
-    loanAmount: number;
-    monthlyPayment: number;
-    totalInterest: number;
-    payoffTime: number;
-  };
-  returns: {
-    capRate: number;
-    grossRentMultiplier: number;
-    totalROI: number;
-    breakEvenPoint: number;
-  };
-  appreciation: {
-    expectedAnnualAppreciation: number;
-    fiveYearValue: number;
-    tenYearValue: number;
-    totalReturn: number;
-  };
+/** Every number comes from the financial engine; the AI only writes the narrative around them */
+export interface InvestmentAnalysisResult extends InvestmentFinancials {
   risks: {
     vacancyImpact: number;
     interestRateRisk: string;
@@ -181,6 +148,7 @@ export class PropertyAIAnalyzer {
   
   async generateInsights(propertyData: ZillowPropertyData): Promise<{keyInsights: string[], redFlags: string[], investmentScore: number}> {
     // Generate AI analysis for property
+    await budgetService.assertWithinBudget('ANTHROPIC');
     
     try {
       const pricePerSqft = propertyData.pricePerSqft || (propertyData.price && propertyData.livingArea ? Math.round(propertyData.price / propertyData.livingArea) : 0);
@@ -256,12 +224,16 @@ Respond with JSON only:
   "redFlags": ["Any deal-breakers or concerns", "Local area issues if applicable"]
 }`;
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 800,
-        temperature: 0.8,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const response = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'property-insights' } },
+        () => this.anthropic.messages.create({
+          model: 'claude-3-5-sonnet-20241022',
+          max_tokens: 800,
+          temperature: 0.8,
+          messages: [{ role: 'user', content: prompt }]
+        }),
+        result => apiUsageService.describeAnthropicResponse(result)
+      );
       
       const content = response.content[0];
       if (content.type === 'text') {
@@ -290,19 +262,24 @@ Respond with JSON only:
 
   async analyzeProperty(propertyData: ZillowPropertyData): Promise<PropertyAnalysisResult> {
     const prompt = this.buildAnalysisPrompt(propertyData);
+    await budgetService.assertWithinBudget('ANTHROPIC');
     
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2500,
-        temperature: 0.6,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+      const response = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'property-analysis' } },
+        () => this.anthropic.messages.create({
+          model: 'claude-3-5-sonnet-20241022',
+          max_tokens: 2500,
+          temperature: 0.6,
+          messages: [
+            {
+              role: 'user',
+              content: prompt
+            }
+          ]
+        }),
+        result => apiUsageService.describeAnthropicResponse(result)
+      );
       
       const content = response.content[0];
       if (content.type === 'text') {
@@ -325,48 +302,59 @@ Respond with JSON only:
   }
   
   async analyzeInvestment(property: any, params: InvestmentParameters): Promise<InvestmentAnalysisResult> {
-    const prompt = this.buildInvestmentPrompt(property, params);
+    const financials = investmentFinancialEngine.analyze(Number(property.price) / 100, params); // Convert from cents
+    const prompt = this.buildInvestmentPrompt(property, params, financials);
+    await budgetService.assertWithinBudget('ANTHROPIC');
     
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2500,
-        temperature: 0.2,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+      const response = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'investment-analysis' } },
+        () => this.anthropic.messages.create({
+          model: 'claude-3-5-sonnet-20241022',
+          max_tokens: 2500,
+          temperature: 0.2,
+          messages: [
+            {
+              role: 'user',
+              content: prompt
+            }
+          ]
+        }),
+        result => apiUsageService.describeAnthropicResponse(result)
+      );
       
       const content = response.content[0];
       if (content.type === 'text') {
-        return this.parseInvestmentResponse(content.text, property, params);
+        return this.parseInvestmentResponse(content.text, financials);
       }
       
       throw new Error('Invalid response format from AI');
     } catch (error) {
       logger.error('AI Investment Analysis Error:', error);
-      return this.fallbackInvestmentAnalysis(property, params);
+      return this.fallbackInvestmentAnalysis(financials);
     }
   }
 
   async analyzeNegotiation(property: any, params: NegotiationParameters): Promise<NegotiationAnalysisResult> {
     const prompt = this.buildNegotiationPrompt(property, params);
+    await budgetService.assertWithinBudget('ANTHROPIC');
     
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        temperature: 0.3,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
+      const response = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'negotiation-analysis' } },
+        () => this.anthropic.messages.create({
+          model: 'claude-3-5-sonnet-20241022',
+          max_tokens: 2000,
+          temperature: 0.3,
+          messages: [
+            {
+              role: 'user',
+              content: prompt
+            }
+          ]
+        }),
+        result => apiUsageService.describeAnthropicResponse(result)
+      );
       
       const content = response.content[0];
       if (content.type === 'text') {
@@ -511,15 +499,15 @@ For negotiationStrategy, provide educational insights based on your deep knowled
 As Sarah Chen, provide realistic, conservative estimates based on your actual ${zipcode} market experience helping ${hasRentalFeatures ? 'investors' : 'families'}. Be thorough but educational in your analysis.`;
   }
 
-  private buildInvestmentPrompt(property: any, params: InvestmentParameters): string {
-    const price = Number(property.price) / 100; // Convert from cents
-    const monthlyRent = params.monthlyRent || (price * 0.01); // 1% rule fallback
+  private buildInvestmentPrompt(property: any, params: InvestmentParameters, financials: InvestmentFinancials): string {
+    const { cashFlow, financing, operations, returns, appreciation, assumptions } = financials;
+    const money = (amount: number) => `$${amount.toLocaleString()}`;
     
     return `You are a real estate investment expert. Analyze this investment opportunity:
 
 Property Details:
 - Address: ${property.address}
-- Purchase Price: $${price.toLocaleString()}
+- Purchase Price: ${money(financials.purchasePrice)}
 - Square Footage: ${property.squareFootage || 'Unknown'}
 - Bedrooms: ${property.bedrooms || 'Unknown'}
 - Bathrooms: ${property.bathrooms || 'Unknown'}
@@ -527,48 +515,36 @@ Property Details:
 - Property Type: ${property.propertyType || 'Unknown'}
 
 Investment Parameters:
-- Down Payment: $${params.downPayment.toLocaleString()}
+- Down Payment: ${money(params.downPayment)}
 - Interest Rate: ${params.interestRate}%
 - Loan Term: ${params.loanTerm} years
-- Expected Monthly Rent: $${monthlyRent.toLocaleString()}
-- Property Taxes: $${params.propertyTaxes || 'Unknown'}/year
-- Insurance: $${params.insurance || 'Unknown'}/year
-- Maintenance: $${params.maintenance || 'Unknown'}/year
-- Vacancy Rate: ${params.vacancy || 5}%
-- CapEx: $${params.capEx || 'Unknown'}/year
-- Property Management: ${params.propertyManagement || 0}%
+- Vacancy Rate: ${assumptions.vacancy}%
+- Property Management: ${assumptions.propertyManagement}%
+- Appreciation: ${assumptions.appreciationRate}%/year, Rent Growth: ${assumptions.rentGrowthRate}%/year
 - Investment Goal: ${params.investmentGoal}
 - Time Horizon: ${params.timeHorizon} years
 
-Provide a detailed investment analysis in this JSON format:
+Calculated Financials (exact - do not recalculate or contradict these):
+- Cash Invested: ${money(financials.totalCashInvested)}
+- Monthly Rent: ${money(cashFlow.monthlyIncome)}
+- Monthly Expenses (vacancy, operating, debt service): ${money(cashFlow.monthlyExpenses)}
+- Monthly Cash Flow: ${money(cashFlow.netCashFlow)}
+- Loan Amount: ${money(financing.loanAmount)}
+- Monthly Payment (P&I): ${money(financing.monthlyPayment)}, PITI: ${money(financing.monthlyPITI)}
+- Net Operating Income: ${money(operations.netOperatingIncome)}/year
+- DSCR: ${operations.debtServiceCoverageRatio ?? 'No debt'}
+- Cap Rate: ${returns.capRate}%
+- Cash-on-Cash Return: ${cashFlow.cashOnCashReturn}%
+- Gross Rent Multiplier: ${returns.grossRentMultiplier}
+- IRR over ${params.timeHorizon} years: ${returns.irr === null ? 'Not meaningful' : `${returns.irr}%`}
+- NPV at ${assumptions.discountRate}%: ${money(returns.npv)}
+- Total ROI over ${params.timeHorizon} years: ${returns.totalROI}%
+- Break-even if sold: ${returns.breakEvenPoint === null ? 'Not within the loan term' : `year ${returns.breakEvenPoint}`}
+- Projected Value in 5 / 10 years: ${money(appreciation.fiveYearValue)} / ${money(appreciation.tenYearValue)}
+
+Provide your assessment in this JSON format:
 {
-  "cashFlow": {
-    "monthlyIncome": number,
-    "monthlyExpenses": number,
-    "netCashFlow": number,
-    "annualCashFlow": number,
-    "cashOnCashReturn": number
-  },
-  "financing": {
-    "loanAmount": number,
-    "monthlyPayment": number,
-    "totalInterest": number,
-    "payoffTime": number
-  },
-  "returns": {
-    "capRate": number,
-    "grossRentMultiplier": number,
-    "totalROI": number,
-    "breakEvenPoint": number
-  },
-  "appreciation": {
-    "expectedAnnualAppreciation": number,
-    "fiveYearValue": number,
-    "tenYearValue": number,
-    "totalReturn": number
-  },
   "risks": {
-    "vacancyImpact": number,
     "interestRateRisk": "low/medium/high",
     "marketRisk": "low/medium/high",
     "liquidityRisk": "low/medium/high"
@@ -582,7 +558,7 @@ Provide a detailed investment analysis in this JSON format:
   "analysis": "comprehensive written analysis"
 }
 
-Calculate all financial metrics accurately. Consider local market conditions, property condition, and investment timeline. Provide conservative estimates.`;
+Base your assessment on the calculated financials above and quote them as given. Consider local market conditions, property condition, and investment timeline. Be conservative.`;
   }
 
   private buildNegotiationPrompt(property: any, params: NegotiationParameters): string {
@@ -689,7 +665,7 @@ Consider market psychology, seller motivation, property factors, and timing. Pro
     }
   }
 
-  private parseInvestmentResponse(aiResponse: string, property: any, params: InvestmentParameters): InvestmentAnalysisResult {
+  private parseInvestmentResponse(aiResponse: string, financials: InvestmentFinancials): InvestmentAnalysisResult {
     try {
       const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
@@ -699,33 +675,9 @@ Consider market psychology, seller motivation, property factors, and timing. Pro
       const parsed = JSON.parse(jsonMatch[0]);
       
       return {
-        cashFlow: {
-          monthlyIncome: parsed.cashFlow?.monthlyIncome || 0,
-          monthlyExpenses: parsed.cashFlow?.monthlyExpenses || 0,
-          netCashFlow: parsed.cashFlow?.netCashFlow || 0,
-          annualCashFlow: parsed.cashFlow?.annualCashFlow || 0,
-          cashOnCashReturn: parsed.cashFlow?.cashOnCashReturn || 0
-        },
-        financing: {
-          loanAmount: parsed.financing?.loanAmount || 0,
-          monthlyPayment: parsed.financing?.monthlyPayment || 0,
-          totalInterest: parsed.financing?.totalInterest || 0,
-          payoffTime: parsed.financing?.payoffTime || params.loanTerm
-        },
-        returns: {
-          capRate: parsed.returns?.capRate || 0,
-          grossRentMultiplier: parsed.returns?.grossRentMultiplier || 0,
-          totalROI: parsed.returns?.totalROI || 0,
-          breakEvenPoint: parsed.returns?.breakEvenPoint || 0
-        },
-        appreciation: {
-          expectedAnnualAppreciation: parsed.appreciation?.expectedAnnualAppreciation || 3,
-          fiveYearValue: parsed.appreciation?.fiveYearValue || 0,
-          tenYearValue: parsed.appreciation?.tenYearValue || 0,
-          totalReturn: parsed.appreciation?.totalReturn || 0
-        },
+        ...financials,
         risks: {
-          vacancyImpact: parsed.risks?.vacancyImpact || 0,
+          vacancyImpact: financials.operations.vacancyLoss,
           interestRateRisk: parsed.risks?.interestRateRisk || 'medium',
           marketRisk: parsed.risks?.marketRisk || 'medium',
           liquidityRisk: parsed.risks?.liquidityRisk || 'medium'
@@ -740,7 +692,7 @@ Consider market psychology, seller motivation, property factors, and timing. Pro
       };
     } catch (error) {
       logger.error('Error parsing investment response:', error);
-      return this.fallbackInvestmentAnalysis(property, params);
+      return this.fallbackInvestmentAnalysis(financials);
     }
   }
 
@@ -861,42 +813,11 @@ Consider market psychology, seller motivation, property factors, and timing. Pro
     };
   }
 
-  private fallbackInvestmentAnalysis(property: any, params: InvestmentParameters): InvestmentAnalysisResult {
-    const price = Number(property.price) / 100;
-    const loanAmount = price - params.downPayment;
-    const monthlyRate = params.interestRate / 100 / 12;
-    const numPayments = params.loanTerm * 12;
-    const monthlyPayment = (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1);
-    const monthlyRent = params.monthlyRent || (price * 0.01);
-    
+  private fallbackInvestmentAnalysis(financials: InvestmentFinancials): InvestmentAnalysisResult {
     return {
-      cashFlow: {
-        monthlyIncome: monthlyRent,
-        monthlyExpenses: monthlyPayment + 500,
-        netCashFlow: monthlyRent - monthlyPayment - 500,
-        annualCashFlow: (monthlyRent - monthlyPayment - 500) * 12,
-        cashOnCashReturn: ((monthlyRent - monthlyPayment - 500) * 12) / params.downPayment * 100
-      },
-      financing: {
-        loanAmount,
-        monthlyPayment,
-        totalInterest: monthlyPayment * numPayments - loanAmount,
-        payoffTime: params.loanTerm
-      },
-      returns: {
-        capRate: (monthlyRent * 12) / price * 100,
-        grossRentMultiplier: price / (monthlyRent * 12),
-        totalROI: 8,
-        breakEvenPoint: 10
-      },
-      appreciation: {
-        expectedAnnualAppreciation: 3,
-        fiveYearValue: price * Math.pow(1.03, 5),
-        tenYearValue: price * Math.pow(1.03, 10),
-        totalReturn: 8
-      },
+      ...financials,
       risks: {
-        vacancyImpact: monthlyRent * 0.05,
+        vacancyImpact: financials.operations.vacancyLoss,
         interestRateRisk: 'medium',
         marketRisk: 'medium',
         liquidityRisk: 'medium'
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiCache } from '@/lib/cache';
+import { MemoryStore } from '@/lib/stores/MemoryStore';
+import type { CacheStore } from '@/lib/stores';
+
+// The stores barrel pulls in PostgresStore; these tests never reach the database
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+describe('apiCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    apiCache.useStore(new MemoryStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns cached values until their TTL passes', async () => {
+    await apiCache.set('key', { price: 100 }, 1000);
+    expect(await apiCache.get('key')).toEqual({ price: 100 });
+
+    vi.advanceTimersByTime(1001);
+    expect(await apiCache.get('key')).toBeNull();
+  });
+
+  it('defaults to a five minute TTL', async () => {
+    await apiCache.set('key', 'value');
+
+    vi.advanceTimersByTime(5 * 60 * 1000 - 1);
+    expect(await apiCache.get('key')).toBe('value');
+
+    vi.advanceTimersByTime(2);
+    expect(await apiCache.get('key')).toBeNull();
+  });
+
+  it('reads through a store shared with another cache user', async () => {
+    const store = new MemoryStore();
+    apiCache.useStore(store);
+
+    await store.set('key', 'written elsewhere', 1000);
+    expect(await apiCache.get('key')).toBe('written elsewhere');
+  });
+
+  it('treats store failures as cache misses instead of failing the request', async () => {
+    const failing: CacheStore = {
+      backend: 'redis',
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      delete: () => Promise.reject(new Error('connection refused')),
+      clear: () => Promise.reject(new Error('connection refused')),
+      cleanup: () => Promise.reject(new Error('connection refused'))
+    };
+    apiCache.useStore(failing);
+
+    await expect(apiCache.set('key', 'value')).resolves.toBeUndefined();
+    expect(await apiCache.get('key')).toBeNull();
+  });
+});
@@ -1,68 +1,58 @@
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  expiresAt: number;
-}
+import { logger } from "@/lib/utils/logger";
+import { CacheStore, createStore } from './stores';
 
-class InMemoryCache {
-  private cache = new Map<string, CacheEntry<any>>();
+class ApiCache {
   private readonly defaultTTL = 5 * 60 * 1000; // 5 minutes
 
-  set<T>(key: string, data: T, ttl?: number): void {
-    const now = Date.now();
-    const expires = now + (ttl || this.defaultTTL);
-    
-    this.cache.set(key, {
-      data,
-      timestamp: now,
-      expiresAt: expires
-    });
-  }
+  constructor(private store: CacheStore) {}
 
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return null;
+  async set<T>(key: string, data: T, ttl?: number): Promise<void> {
+    try {
+      await this.store.set(key, data, ttl || this.defaultTTL);
+    } catch (error) {
+      // A cache write failure should never fail the request
+      logger.warn('Cache write failed', { key, backend: this.store.backend, error });
     }
-    
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      logger.warn('Cache read failed', { key, backend: this.store.backend, error });
       return null;
     }
-    
-    return entry.data;
   }
 
-  delete(key: string): boolean {
-    return this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
   }
 
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.store.clear();
   }
 
   // Clean up expired entries
-  cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-    this.cache.forEach((entry, key) => {
-      if (now > entry.expiresAt) {
-        keysToDelete.push(key);
-      }
-    });
-    keysToDelete.forEach(key => this.cache.delete(key));
+  async cleanup(): Promise<number> {
+    return this.store.cleanup();
+  }
+
+  /**
+   * Swap the backing store - lets tests run against an in-process MemoryStore
+   */
+  useStore(store: CacheStore): void {
+    this.store = store;
   }
 
-  size(): number {
-    return this.cache.size;
+  get backend() {
+    return this.store.backend;
   }
 }
 
-// Global cache instance
-export const apiCache = new InMemoryCache();
+// Global cache instance - backend chosen by CACHE_STORE
+export const apiCache = new ApiCache(createStore());
 
 // Auto-cleanup every 10 minutes
 setInterval(() => {
-  apiCache.cleanup();
-}, 10 * 60 * 1000);
\ No newline at end of file
+  apiCache.cleanup().catch(error => logger.warn('Cache cleanup failed', { error }));
+}, 10 * 60 * 1000);
@@ -14,6 +14,8 @@ cloudinary.config({
 // Debug: Check if configuration is loaded
 // logger.debug("API call made");
 
+export type CloudinaryResourceType = 'image' | 'video' | 'raw';
+
 // Upload options for timeline documents
 export interface DocumentUploadOptions {
   stepId: string;
@@ -127,10 +129,10 @@ export async function uploadDocument(
   }
 }
 
-// Delete document from Cloudinary
-export async function deleteDocument(publicId: string): Promise<void> {
+// Delete document from Cloudinary. Raw uploads (PDFs, Office files) must name their resource type
+export async function deleteDocument(publicId: string, resourceType: CloudinaryResourceType = 'image'): Promise<void> {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
   } catch (error) {
     logger.error('Cloudinary delete error:', error);
     throw new Error(`Failed to delete document: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -138,14 +140,26 @@ export async function deleteDocument(publicId: string): Promise<void> {
 }
 
 // Generate signed URL for secure access
-export function generateSignedUrl(publicId: string, expiresIn: number = 3600): string {
+export function generateSignedUrl(
+  publicId: string,
+  expiresIn: number = 3600,
+  resourceType: CloudinaryResourceType = 'image',
+  format: string = 'auto'
+): string {
   const timestamp = Math.round(Date.now() / 1000) + expiresIn;
   
-  return cloudinary.utils.private_download_url(publicId, 'auto', {
+  return cloudinary.utils.private_download_url(publicId, format, {
+    resource_type: resourceType,
     expires_at: timestamp
   });
 }
 
+// Resource type a stored file was uploaded as, read from its delivery URL
+export function getResourceTypeFromUrl(url: string): CloudinaryResourceType {
+  const match = url.match(/\/(image|video|raw)\/upload\//);
+  return (match?.[1] as CloudinaryResourceType | undefined) ?? 'image';
+}
+
 // Helper function to determine resource type based on file extension
 function getResourceType(fileName: string): 'auto' | 'image' | 'video' | 'raw' {
   const extension = fileName.toLowerCase().split('.').pop();
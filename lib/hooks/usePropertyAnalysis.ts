@@ -6,14 +6,14 @@ import { logger } from '@/lib/utils/logger';
 import { useNotifications } from '@/lib/contexts/NotificationContext';
 import { useConfirmation } from '@/lib/contexts/ConfirmationContext';
 import type { Property } from '@/lib/types/property';
-import type { ComparablesData, AreaData } from '@/lib/types/comparables';
+import type { ComparablesData, NeighborhoodAmenities } from '@/lib/types/comparables';
 
 interface UsePropertyAnalysisReturn {
   // State
   properties: Property[];
   selectedProperty: Property | null;
   comparables: ComparablesData | null;
-  areaData: AreaData | null;
+  areaData: NeighborhoodAmenities | null;
   loadingComps: string | null;
   isLoading: boolean;
   creatingTimeline: string | null;
@@ -41,7 +41,7 @@ export const usePropertyAnalysis = (): UsePropertyAnalysisReturn => {
   const [properties, setProperties] = useState<Property[]>([]);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
   const [comparables, setComparables] = useState<ComparablesData | null>(null);
-  const [areaData, setAreaData] = useState<AreaData | null>(null);
+  const [areaData, setAreaData] = useState<NeighborhoodAmenities | null>(null);
   const [loadingComps, setLoadingComps] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [creatingTimeline, setCreatingTimeline] = useState<string | null>(null);
@@ -140,7 +140,7 @@ export const usePropertyAnalysis = (): UsePropertyAnalysisReturn => {
         setProperties(prev => prev.map(p => 
           p.id === propertyId ? { ...p, status: 'error' as const } : p
         ));
-        showError(data.error || 'Analysis failed');
+        showError(data.message || data.error || 'Analysis failed');
         return false;
       }
     } catch (error) {
@@ -214,7 +214,7 @@ export const usePropertyAnalysis = (): UsePropertyAnalysisReturn => {
         showSuccess('Property data refreshed');
         return true;
       } else {
-        showError(data.error || 'Failed to refresh property');
+        showError(data.message || data.error || 'Failed to refresh property');
         return false;
       }
     } catch (error) {
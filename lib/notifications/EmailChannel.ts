@@ -0,0 +1,71 @@
+// Email delivery over SMTP
+
+import { randomBytes } from 'crypto';
+import { SmtpClient, SmtpConfig } from './SmtpClient';
+import { NotificationChannel, NotificationMessage } from './types';
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  constructor(
+    private readonly config: SmtpConfig,
+    private readonly from: string,
+    private readonly appUrl?: string
+  ) {}
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    const client = new SmtpClient(this.config);
+
+    await client.send({
+      from: extractAddress(this.from),
+      to: [message.recipient.email],
+      data: this.buildMessage(message)
+    });
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private buildMessage(message: NotificationMessage): string {
+    const link = message.link && this.appUrl && message.link.startsWith('/')
+      ? `${this.appUrl.replace(/\/$/, '')}${message.link}`
+      : message.link;
+    const text = link ? `${message.body}\n\n${link}\n` : `${message.body}\n`;
+    const to = message.recipient.name
+      ? `${encodeHeader(message.recipient.name)} <${message.recipient.email}>`
+      : message.recipient.email;
+    const domain = extractAddress(this.from).split('@')[1] || 'localhost';
+
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${to}`,
+      `Subject: ${encodeHeader(message.title)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64'
+    ];
+
+    // base64 keeps every body line under the 998 octet SMTP limit
+    const encoded = Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+    const wrapped = encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+
+    return `${headers.join('\r\n')}\r\n\r\n${wrapped}`;
+  }
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
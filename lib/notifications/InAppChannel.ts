@@ -0,0 +1,27 @@
+// In-app inbox delivery - writes to the notifications table
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NotificationChannel, NotificationMessage } from './types';
+
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app' as const;
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    const { userId } = message.recipient;
+    if (!userId) {
+      throw new Error('In-app notifications need a recipient account');
+    }
+
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: message.type,
+        title: message.title,
+        message: message.body,
+        link: message.link,
+        metadata: message.metadata as Prisma.InputJsonValue | undefined
+      }
+    });
+  }
+}
@@ -0,0 +1,202 @@
+// Minimal SMTP client - enough of RFC 5321 to hand a message to a relay.
+// Supports implicit TLS, STARTTLS and AUTH PLAIN; works with MailHog, Mailpit
+// or scripts/smtp-sink.ts as a local stand-in
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+  /** Full RFC 5322 message including headers, CRLF line endings */
+  data: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class SmtpClient {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private responseLines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  /**
+   * Open a connection, send one message and close it
+   */
+  async send(envelope: SmtpEnvelope): Promise<void> {
+    try {
+      await this.connect(this.config.secure === true);
+      await this.expect(null, 220);
+
+      let capabilities = await this.hello();
+
+      if (!this.config.secure && capabilities.includes('STARTTLS')) {
+        await this.expect('STARTTLS', 220);
+        await this.upgrade();
+        capabilities = await this.hello();
+      }
+
+      if (this.config.user) {
+        if (!capabilities.some(line => line.startsWith('AUTH') && line.includes('PLAIN'))) {
+          throw new Error('SMTP server does not offer AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.pass ?? ''}`).toString('base64');
+        await this.expect(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await this.expect(`MAIL FROM:<${envelope.from}>`, 250);
+      for (const recipient of envelope.to) {
+        await this.expect(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await this.expect('DATA', 354);
+
+      // Dot-stuff lines that start with "." and terminate with <CRLF>.<CRLF>
+      const body = envelope.data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+      await this.expect(`${body}\r\n.`, 250);
+
+      await this.expect('QUIT', 221).catch(() => undefined);
+    } finally {
+      this.close();
+    }
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private connect(secure: boolean): Promise<void> {
+    const { host, port } = this.config;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+
+      this.attach(socket);
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(): Promise<void> {
+    const plain = this.socket;
+    if (!plain) {
+      return Promise.reject(new Error('SMTP connection is not open'));
+    }
+
+    plain.removeAllListeners('data');
+
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername: this.config.host }, () => resolve());
+      this.attach(secured);
+      secured.once('error', reject);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    socket.on('data', (chunk: string) => this.handleData(chunk));
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+
+    this.socket = socket;
+    this.buffer = '';
+  }
+
+  private async hello(): Promise<string[]> {
+    const response = await this.expect(`EHLO ${os.hostname() || 'localhost'}`, 250);
+    return response.lines.map(line => line.slice(4).toUpperCase());
+  }
+
+  /**
+   * Send a command (or just wait, for the greeting) and require one of the given reply codes
+   */
+  private async expect(command: string | null, codes: number | number[]): Promise<SmtpResponse> {
+    if (command !== null) {
+      if (!this.socket || this.socket.destroyed) {
+        throw this.failure ?? new Error('SMTP connection is not open');
+      }
+      this.socket.write(`${command}\r\n`);
+    }
+
+    const response = await this.nextResponse();
+    const accepted = Array.isArray(codes) ? codes : [codes];
+
+    if (!accepted.includes(response.code)) {
+      const verb = command?.split(' ')[0] ?? 'greeting';
+      throw new Error(`SMTP ${verb} failed: ${response.lines.join(' ')}`);
+    }
+
+    return response;
+  }
+
+  private nextResponse(): Promise<SmtpResponse> {
+    const queued = this.responses.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.responseLines.push(line);
+
+      // "250-" continues a multiline reply, "250 " ends it
+      if (line.length < 4 || line[3] !== '-') {
+        const response = { code: parseInt(line.slice(0, 3)), lines: this.responseLines };
+        this.responseLines = [];
+
+        if (this.waiting) {
+          const { resolve } = this.waiting;
+          this.waiting = null;
+          resolve(response);
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  private close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,71 @@
+// Channel selection for reminder delivery.
+// NOTIFICATION_CHANNELS=in_app,email (default: in_app, plus email when SMTP_HOST is set)
+// SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM configure email
+
+import { logger } from '@/lib/utils/logger';
+import { EmailChannel } from './EmailChannel';
+import { InAppChannel } from './InAppChannel';
+import { NotificationChannel, NotificationChannelName } from './types';
+
+export * from './types';
+export { EmailChannel } from './EmailChannel';
+export { InAppChannel } from './InAppChannel';
+export { SmtpClient } from './SmtpClient';
+
+const DEFAULT_FROM = 'hh.fun <reminders@hh.fun>';
+
+export function getNotificationChannelNames(): NotificationChannelName[] {
+  const configured = process.env.NOTIFICATION_CHANNELS;
+  if (!configured) {
+    return process.env.SMTP_HOST ? ['in_app', 'email'] : ['in_app'];
+  }
+
+  const names: NotificationChannelName[] = [];
+  for (const raw of configured.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)) {
+    if (raw === 'in_app' || raw === 'email') {
+      if (!names.includes(raw)) names.push(raw);
+    } else {
+      logger.warn(`Unknown notification channel "${raw}" - ignoring`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Channels for the configured names. Email is skipped with a warning when SMTP is not configured.
+ * appUrl turns app-relative links absolute in emails
+ */
+export function createNotificationChannels(
+  options: { names?: NotificationChannelName[]; appUrl?: string } = {}
+): NotificationChannel[] {
+  const names = options.names ?? getNotificationChannelNames();
+  const channels: NotificationChannel[] = [];
+
+  for (const name of names) {
+    if (name === 'in_app') {
+      channels.push(new InAppChannel());
+      continue;
+    }
+
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      logger.warn('Email notifications enabled but SMTP_HOST is not set - skipping email channel');
+      continue;
+    }
+
+    const secure = process.env.SMTP_SECURE === 'true';
+    channels.push(new EmailChannel(
+      {
+        host,
+        port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587')),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined
+      },
+      process.env.SMTP_FROM || DEFAULT_FROM,
+      options.appUrl
+    ));
+  }
+
+  return channels;
+}
@@ -0,0 +1,30 @@
+// Notification delivery contracts shared by the reminder engine and its channels
+
+export type NotificationChannelName = 'email' | 'in_app';
+
+export interface NotificationRecipient {
+  /** Internal User.id - absent for people without an account yet (e.g. invitees) */
+  userId?: string;
+  email: string;
+  name?: string | null;
+}
+
+export interface NotificationMessage {
+  recipient: NotificationRecipient;
+  /** Machine-readable type, e.g. step_reminder */
+  type: string;
+  title: string;
+  body: string;
+  /** Absolute or app-relative link back to the relevant page */
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A delivery target. deliver() throws on failure so the caller can retry
+ * the channel on the next run without re-sending the ones that succeeded
+ */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  deliver(message: NotificationMessage): Promise<void>;
+}
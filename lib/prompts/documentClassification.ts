@@ -0,0 +1,42 @@
+// Document Classification AI Prompts - Production-ready Claude prompts
+// Sorts real estate transaction documents into the timeline's document types
+
+export const DOCUMENT_CLASSIFICATION_SYSTEM_PROMPT = `You are a real estate transaction coordinator who files every document in a home purchase into the right folder.
+
+## Document Types:
+- **CONTRACT** - Purchase agreements, addenda, counteroffers, amendments, builder contracts
+- **FINANCIAL** - Bank statements, proof of funds, pre-approval letters, pay stubs, tax returns
+- **INSPECTION** - Home, pest, sewer, roof and other inspection reports, repair requests
+- **APPRAISAL** - Appraisal reports and valuation reviews
+- **INSURANCE** - Homeowner's, flood and hazard policies, binders and quotes
+- **TITLE** - Title commitments, title policies, deeds, surveys, HOA documents
+- **MORTGAGE** - Loan estimates, loan applications, promissory notes, deeds of trust, underwriting conditions
+- **CLOSING** - Closing disclosures, settlement statements, wire instructions, closing checklists
+- **CORRESPONDENCE** - Letters and emails between parties
+- **RECEIPT** - Invoices, receipts and payment confirmations
+- **OTHER** - Anything that fits none of the above
+
+## Core Principles:
+- **Judge by content** - The file name is a hint; the text wins when they disagree
+- **Be calibrated** - Confidence below 0.5 when the text is short, garbled or fits several types
+
+You will receive the file name and the first pages of text and return structured JSON only.`;
+
+export const DOCUMENT_CLASSIFICATION_USER_PROMPT = (fileName: string, documentText: string) => `Classify this document.
+
+## File Name:
+${fileName}
+
+## Document Text (first pages):
+${documentText}
+
+## Required JSON Response:
+Return a single JSON object in a \`\`\`json code block with exactly this shape:
+
+\`\`\`json
+{
+  "documentType": "CONTRACT" | "FINANCIAL" | "INSPECTION" | "APPRAISAL" | "INSURANCE" | "TITLE" | "MORTGAGE" | "CLOSING" | "CORRESPONDENCE" | "RECEIPT" | "OTHER",
+  "confidence": number between 0 and 1,
+  "signals": ["short phrases from the text that support the type"]
+}
+\`\`\``;
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '@/lib/rate-limiter';
+import { MemoryStore } from '@/lib/stores/MemoryStore';
+import type { RateLimitStore } from '@/lib/stores';
+
+// The stores barrel pulls in PostgresStore; these tests never reach the database
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('isAllowed without a shared store', () => {
+    it('allows up to the limit within a window, then again once it resets', () => {
+      const limiter = new RateLimiter('test', 2, 1000);
+
+      expect(limiter.isAllowed('user')).toBe(true);
+      expect(limiter.isAllowed('user')).toBe(true);
+      expect(limiter.isAllowed('user')).toBe(false);
+      expect(limiter.getRemainingRequests('user')).toBe(0);
+
+      vi.advanceTimersByTime(1000);
+      expect(limiter.isAllowed('user')).toBe(true);
+    });
+
+    it('keeps keys independent', () => {
+      const limiter = new RateLimiter('test', 1, 1000);
+
+      expect(limiter.isAllowed('a')).toBe(true);
+      expect(limiter.isAllowed('b')).toBe(true);
+      expect(limiter.isAllowed('a')).toBe(false);
+    });
+  });
+
+  describe('check against a shared store', () => {
+    it('enforces one limit across instances sharing the store', async () => {
+      const store = new MemoryStore();
+      const first = new RateLimiter('test', 2, 1000, store);
+      const second = new RateLimiter('test', 2, 1000, store);
+
+      expect(await first.check('user')).toBe(true);
+      expect(await second.check('user')).toBe(true);
+      expect(await second.check('user')).toBe(false);
+      expect(await first.check('user')).toBe(false);
+    });
+
+    it('denies a cold instance once the window is used up elsewhere', async () => {
+      const store = new MemoryStore();
+      const warm = new RateLimiter('test', 1, 1000, store);
+      expect(await warm.check('user')).toBe(true);
+
+      const cold = new RateLimiter('test', 1, 1000, store);
+      expect(await cold.check('user')).toBe(false);
+      expect(cold.getRemainingRequests('user')).toBe(0);
+    });
+
+    it('scopes shared counts by limiter name', async () => {
+      const store = new MemoryStore();
+      const ai = new RateLimiter('ai', 1, 1000, store);
+      const zillow = new RateLimiter('zillow', 1, 1000, store);
+
+      expect(await ai.check('user')).toBe(true);
+      expect(await zillow.check('user')).toBe(true);
+    });
+
+    it('falls back to local limits when the store is unreachable', async () => {
+      const failing: RateLimitStore = {
+        backend: 'redis',
+        increment: () => Promise.reject(new Error('connection refused')),
+        peek: () => Promise.reject(new Error('connection refused')),
+        reset: () => Promise.reject(new Error('connection refused'))
+      };
+      const limiter = new RateLimiter('test', 1, 1000, failing);
+
+      expect(await limiter.check('user')).toBe(true);
+      expect(await limiter.check('user')).toBe(false);
+    });
+  });
+
+  it('isAllowed folds the shared count back in once the store replies', async () => {
+    const store = new MemoryStore();
+    await store.increment('test:user', 1000);
+    await store.increment('test:user', 1000);
+
+    const limiter = new RateLimiter('test', 3, 1000, store);
+    expect(limiter.isAllowed('user')).toBe(true);
+
+    await vi.waitFor(() => expect(limiter.getRemainingRequests('user')).toBe(0));
+    expect(limiter.isAllowed('user')).toBe(false);
+  });
+});
@@ -1,14 +1,26 @@
+import { logger } from "@/lib/utils/logger";
+import { RateLimitStore, createStore, getStoreBackend } from './stores';
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
 }
 
-class RateLimiter {
+/**
+ * Fixed-window limiter. `isAllowed` stays synchronous so existing call sites work
+ * unchanged: it decides against the local view and mirrors each request to the
+ * shared store (when one is configured), folding the shared count back in so
+ * limits hold across instances and cold starts. Use `check` where a strict,
+ * awaited decision against the shared store is needed.
+ */
+export class RateLimiter {
   private limits = new Map<string, RateLimitEntry>();
-  
+
   constructor(
+    private name: string,
     private maxRequests: number = 100,
-    private windowMs: number = 60 * 1000 // 1 minute
+    private windowMs: number = 60 * 1000, // 1 minute
+    private store: RateLimitStore | null = null
   ) {}
 
   isAllowed(key: string): boolean {
@@ -21,12 +33,14 @@ class RateLimiter {
         count: 1,
         resetTime: now + this.windowMs
       });
+      this.syncWithStore(key);
       return true;
     }
 
     // If under limit, increment and allow
     if (entry.count < this.maxRequests) {
       entry.count++;
+      this.syncWithStore(key);
       return true;
     }
 
@@ -34,6 +48,25 @@ class RateLimiter {
     return false;
   }
 
+  /**
+   * Strict check that waits on the shared store. Falls back to the local view
+   * if no store is configured or the store is unreachable
+   */
+  async check(key: string): Promise<boolean> {
+    if (!this.store) {
+      return this.isAllowed(key);
+    }
+
+    try {
+      const state = await this.store.increment(this.storeKey(key), this.windowMs);
+      this.limits.set(key, state);
+      return state.count <= this.maxRequests;
+    } catch (error) {
+      logger.warn('Rate limit store unavailable - using local limits', { limiter: this.name, error });
+      return this.isAllowed(key);
+    }
+  }
+
   getRemainingRequests(key: string): number {
     const entry = this.limits.get(key);
     if (!entry) {
@@ -57,6 +90,15 @@ class RateLimiter {
     return entry.resetTime;
   }
 
+  /**
+   * Swap the shared store - pass a MemoryStore in tests to simulate several
+   * instances sharing state, or null for purely local limits
+   */
+  useStore(store: RateLimitStore | null): void {
+    this.store = store;
+    this.limits.clear();
+  }
+
   cleanup(): void {
     const now = Date.now();
     const keysToDelete: string[] = [];
@@ -67,16 +109,43 @@ class RateLimiter {
     });
     keysToDelete.forEach(key => this.limits.delete(key));
   }
+
+  private syncWithStore(key: string): void {
+    if (!this.store) {
+      return;
+    }
+
+    this.store.increment(this.storeKey(key), this.windowMs)
+      .then(state => {
+        // Other instances may have counted more in this window than we have seen locally
+        const entry = this.limits.get(key);
+        const localCount = entry && Date.now() < entry.resetTime ? entry.count : 0;
+        this.limits.set(key, {
+          count: Math.max(state.count, localCount),
+          resetTime: state.resetTime
+        });
+      })
+      .catch(error => {
+        logger.warn('Rate limit store sync failed', { limiter: this.name, error });
+      });
+  }
+
+  private storeKey(key: string): string {
+    return `${this.name}:${key}`;
+  }
 }
 
+// Shared limits only when a distributed backend is configured; memory keeps them process-local
+const rateLimitStore = getStoreBackend() === 'memory' ? null : createStore();
+
 // Global rate limiters for different services
-export const zillowRateLimiter = new RateLimiter(50, 60 * 1000); // 50 requests per minute
-export const aiRateLimiter = new RateLimiter(20, 60 * 1000); // 20 requests per minute
-export const generalRateLimiter = new RateLimiter(100, 60 * 1000); // 100 requests per minute
+export const zillowRateLimiter = new RateLimiter('zillow', 50, 60 * 1000, rateLimitStore); // 50 requests per minute
+export const aiRateLimiter = new RateLimiter('ai', 20, 60 * 1000, rateLimitStore); // 20 requests per minute
+export const generalRateLimiter = new RateLimiter('general', 100, 60 * 1000, rateLimitStore); // 100 requests per minute
 
 // Auto-cleanup every 5 minutes
 setInterval(() => {
   zillowRateLimiter.cleanup();
   aiRateLimiter.cleanup();
   generalRateLimiter.cleanup();
-}, 5 * 60 * 1000);
\ No newline at end of file
+}, 5 * 60 * 1000);
@@ -1,4 +1,5 @@
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from "@/lib/services/ApiUsageService";
 
 // Rentcast API integration for property comparables
 
@@ -68,12 +69,16 @@ export class RentcastAPI {
       });
       
       
-      const response = await fetch(`${this.baseUrl}/avm/value?${params}`, {
-        headers: {
-          'X-Api-Key': this.apiKey,
-          'Accept': 'application/json'
-        }
-      });
+      const response = await apiUsageService.track(
+        { provider: 'RENTCAST', endpoint: '/avm/value', method: 'GET' },
+        () => fetch(`${this.baseUrl}/avm/value?${params}`, {
+          headers: {
+            'X-Api-Key': this.apiKey,
+            'Accept': 'application/json'
+          }
+        }),
+        res => apiUsageService.describeResponse(res)
+      );
       
       
       if (!response.ok) {
@@ -99,12 +104,16 @@ export class RentcastAPI {
         address: `${address}, ${zipCode}` // Try full address format
       });
       
-      const response = await fetch(`${this.baseUrl}/property?${params}`, {
-        headers: {
-          'X-Api-Key': this.apiKey,
-          'Accept': 'application/json'
-        }
-      });
+      const response = await apiUsageService.track(
+        { provider: 'RENTCAST', endpoint: '/property', method: 'GET' },
+        () => fetch(`${this.baseUrl}/property?${params}`, {
+          headers: {
+            'X-Api-Key': this.apiKey,
+            'Accept': 'application/json'
+          }
+        }),
+        res => apiUsageService.describeResponse(res)
+      );
       
       if (response.status === 404) {
         logger.warn(`⚠️  SUBJECT PROPERTY NOT FOUND IN RENTCAST: ${address}, ${zipCode}`);
@@ -125,13 +134,17 @@ export class RentcastAPI {
         zipcode: zipCode
       });
       
-      const response = await fetch(`${this.baseUrl}/property?${params}`, {
-        headers: {
-          'X-Api-Key': this.apiKey,
-          'Accept': 'application/json',
-          'Content-Type': 'application/json'
-        }
-      });
+      const response = await apiUsageService.track(
+        { provider: 'RENTCAST', endpoint: '/property', method: 'GET' },
+        () => fetch(`${this.baseUrl}/property?${params}`, {
+          headers: {
+            'X-Api-Key': this.apiKey,
+            'Accept': 'application/json',
+            'Content-Type': 'application/json'
+          }
+        }),
+        res => apiUsageService.describeResponse(res)
+      );
       
       if (!response.ok) {
         logger.error('Rentcast Property API error:', new Error(`HTTP ${response.status}: ${response.statusText}`));
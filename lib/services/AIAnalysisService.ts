@@ -20,14 +20,14 @@ export class AIAnalysisService {
   async generatePropertyInsights(propertyData: ZillowPropertyData): Promise<PropertyInsights> {
     // Create cache key based on property data
     const cacheKey = `ai_insights_${propertyData.zpid}_${propertyData.price}_${propertyData.livingArea}`;
-    const cachedInsights = apiCache.get<PropertyInsights>(cacheKey);
+    const cachedInsights = await apiCache.get<PropertyInsights>(cacheKey);
     
     if (cachedInsights) {
       return cachedInsights;
     }
 
     // Check rate limit
-    if (!aiRateLimiter.isAllowed('ai_analysis')) {
+    if (!await aiRateLimiter.check('ai_analysis')) {
       throw new Error('AI analysis rate limit exceeded. Please try again later.');
     }
 
@@ -35,7 +35,7 @@ export class AIAnalysisService {
       const insights = await this.analyzer.generateInsights(propertyData);
       
       // Cache AI insights for 1 hour
-      apiCache.set(cacheKey, insights, 60 * 60 * 1000);
+      await apiCache.set(cacheKey, insights, 60 * 60 * 1000);
       
       return insights;
     } catch (error) {
@@ -53,14 +53,14 @@ export class AIAnalysisService {
   async generateFullAnalysis(propertyData: ZillowPropertyData): Promise<PropertyAnalysisResult> {
     // Create cache key based on property data
     const cacheKey = `ai_analysis_${propertyData.zpid}_${propertyData.price}_${propertyData.livingArea}`;
-    const cachedAnalysis = apiCache.get<PropertyAnalysisResult>(cacheKey);
+    const cachedAnalysis = await apiCache.get<PropertyAnalysisResult>(cacheKey);
     
     if (cachedAnalysis) {
       return cachedAnalysis;
     }
 
     // Check rate limit
-    if (!aiRateLimiter.isAllowed('ai_analysis')) {
+    if (!await aiRateLimiter.check('ai_analysis')) {
       throw new Error('AI analysis rate limit exceeded. Please try again later.');
     }
 
@@ -68,7 +68,7 @@ export class AIAnalysisService {
       const analysis = await this.analyzer.analyzeProperty(propertyData);
       
       // Cache full analysis for 2 hours
-      apiCache.set(cacheKey, analysis, 2 * 60 * 60 * 1000);
+      await apiCache.set(cacheKey, analysis, 2 * 60 * 60 * 1000);
       
       return analysis;
     } catch (error) {
@@ -0,0 +1,403 @@
+// Affordability Service - Production Ready, Zero Tech Debt
+// Max price by DTI rules, cash to close, mortgage insurance and rent-vs-buy for owner-occupant buyers
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import {
+  AffordabilityAnalysis,
+  AffordabilityLimit,
+  BuyerProfile,
+  CreditBand,
+  DEFAULT_RENT_VS_BUY_YEARS,
+  LoanProgram,
+  MaxPriceQuote,
+  ProgramQuote,
+  PropertyQuote,
+  RentVsBuyAnalysis,
+  RentVsBuyYear
+} from '@/lib/types/affordability';
+import { buildAmortizationSchedule, calculateMonthlyPayment, roundCurrency, roundRate } from '@/lib/utils/financial';
+import { buyerProfileSchema } from '@/lib/validation/affordability';
+import { getUserPreferences, toPreferencesObject, updateUserPreferences } from '@/lib/utils/user-preferences';
+
+// ============================================================================
+// PROGRAM RULES
+// ============================================================================
+
+interface ProgramRules {
+  /** Housing payment / gross income cap in %, null when the program has none */
+  frontEndDti: number | null;
+  /** Housing payment plus debts / gross income cap in % */
+  backEndDti: number;
+  /** Minimum down payment in % by credit band; null means the band doesn't qualify */
+  minDownPercent: Record<CreditBand, number | null>;
+  defaultDownPercent: number;
+  /** Financed into the loan, as % of the base loan */
+  upfrontFeeRate: number;
+  /** Annual mortgage insurance as % of the base loan */
+  mortgageInsuranceRate: (creditBand: CreditBand, downPercent: number) => number;
+}
+
+const PROGRAM_RULES: Record<LoanProgram, ProgramRules> = {
+  conventional: {
+    frontEndDti: 28,
+    backEndDti: 36,
+    minDownPercent: { excellent: 3, good: 3, fair: 5, poor: null },
+    defaultDownPercent: 20,
+    upfrontFeeRate: 0,
+    mortgageInsuranceRate: (creditBand, downPercent) => {
+      if (downPercent >= 20) return 0;
+      return { excellent: 0.3, good: 0.5, fair: 0.8, poor: 1.2 }[creditBand];
+    }
+  },
+  fha: {
+    frontEndDti: 31,
+    backEndDti: 43,
+    minDownPercent: { excellent: 3.5, good: 3.5, fair: 3.5, poor: 10 },
+    defaultDownPercent: 3.5,
+    upfrontFeeRate: 1.75,
+    mortgageInsuranceRate: () => 0.55
+  },
+  va: {
+    frontEndDti: null,
+    backEndDti: 41,
+    minDownPercent: { excellent: 0, good: 0, fair: 0, poor: 0 },
+    defaultDownPercent: 0,
+    upfrontFeeRate: 2.15,
+    mortgageInsuranceRate: () => 0
+  }
+};
+
+const LOAN_PROGRAMS = Object.keys(PROGRAM_RULES) as LoanProgram[];
+
+/** Added to the base rate for each credit band, in percentage points */
+const CREDIT_BAND_RATE_ADJUSTMENTS: Record<CreditBand, number> = {
+  excellent: 0,
+  good: 0.25,
+  fair: 0.75,
+  poor: 1.5
+};
+
+const AFFORDABILITY_DEFAULTS = {
+  baseInterestRate: 7,
+  loanTermYears: 30,
+  propertyTaxRate: 1.1, // % of price per year
+  insuranceRate: 0.35, // % of price per year
+  closingCostRate: 3, // % of price
+  maintenanceRate: 1, // % of value per year
+  appreciationRate: 3,
+  rentGrowthRate: 3,
+  sellingCostRate: 6,
+  investmentReturnRate: 5, // what the cash to close would earn if the buyer kept renting
+  /** Conventional PMI drops off once the balance reaches this share of the price */
+  pmiRemovalLtv: 78
+};
+
+const MAX_PRICE_REFERENCE = 100000;
+
+/** Costs that come from the property rather than the price */
+interface PropertyCosts {
+  annualTaxes?: number;
+  monthlyHoa?: number;
+}
+
+export class AffordabilityService {
+
+  // ============================================================================
+  // BUYER PROFILE
+  // ============================================================================
+
+  /**
+   * The buyer profile saved for a Clerk user, or null if they haven't set one
+   */
+  async getBuyerProfile(clerkUserId: string): Promise<BuyerProfile | null> {
+    return this.readBuyerProfile(await getUserPreferences(clerkUserId));
+  }
+
+  /**
+   * Save a buyer profile, keeping other preferences intact
+   */
+  async saveBuyerProfile(clerkUserId: string, profile: BuyerProfile): Promise<BuyerProfile> {
+    await updateUserPreferences(clerkUserId, preferences => ({ ...preferences, buyerProfile: profile }));
+
+    return profile;
+  }
+
+  // ============================================================================
+  // AFFORDABILITY ANALYSIS
+  // ============================================================================
+
+  /**
+   * Affordability of a user's property under each loan program. Saves `profile`
+   * when given, otherwise uses the stored one; null when neither exists
+   */
+  async analyzeProperty(
+    clerkUserId: string,
+    propertyId: string,
+    options: { profile?: BuyerProfile; years?: number; monthlyRent?: number } = {}
+  ): Promise<AffordabilityAnalysis | null> {
+    const property = await prisma.property.findFirst({
+      where: {
+        id: propertyId,
+        user: { clerkId: clerkUserId },
+        deletedAt: null
+      },
+      select: { price: true, propertyTaxes: true, hoaFees: true, rentZestimate: true, estimatedRent: true }
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    const profile = options.profile
+      ? await this.saveBuyerProfile(clerkUserId, options.profile)
+      : await this.getBuyerProfile(clerkUserId);
+
+    if (!profile) {
+      return null;
+    }
+
+    // Money is stored in cents
+    const price = Number(property.price) / 100;
+    const costs: PropertyCosts = {
+      annualTaxes: property.propertyTaxes ? Number(property.propertyTaxes) / 100 : undefined,
+      monthlyHoa: property.hoaFees ? Number(property.hoaFees) / 100 : undefined
+    };
+    const storedRent = property.rentZestimate ?? property.estimatedRent;
+    const monthlyRent = options.monthlyRent ?? (storedRent ? Number(storedRent) / 100 : null);
+
+    const propertyQuotes = this.quoteProperty(profile, price, costs);
+
+    return {
+      profile,
+      maxPrice: this.calculateMaxPrices(profile),
+      property: propertyQuotes,
+      rentVsBuy: monthlyRent
+        ? this.calculateRentVsBuy(profile, propertyQuotes, costs, monthlyRent, options.years ?? DEFAULT_RENT_VS_BUY_YEARS)
+        : null
+    };
+  }
+
+  /**
+   * Highest price each program supports: the lowest of the front-end DTI,
+   * back-end DTI and savings limits, rounded down to $1,000. Without a target
+   * down payment, options between the program minimum and default are compared
+   */
+  calculateMaxPrices(profile: BuyerProfile): MaxPriceQuote[] {
+    return LOAN_PROGRAMS.map(program => this.downPaymentOptions(program, profile)
+      .map(downPaymentPercent => this.quoteMaxPrice(program, profile, downPaymentPercent))
+      .reduce((best, current) => current.price > best.price ? current : best));
+  }
+
+  /**
+   * Buying at `price` under each program, with DTI and savings checks. Without
+   * a target, the down payment is as close to the program default as savings allow
+   */
+  quoteProperty(profile: BuyerProfile, price: number, costs: PropertyCosts = {}): PropertyQuote[] {
+    return LOAN_PROGRAMS.map(program => {
+      const rules = PROGRAM_RULES[program];
+      const affordablePercent = price > 0
+        ? (profile.savings / price) * 100 - AFFORDABILITY_DEFAULTS.closingCostRate
+        : rules.defaultDownPercent;
+      const quote = this.quote(
+        program,
+        profile,
+        price,
+        costs,
+        profile.targetDownPaymentPercent ?? Math.min(rules.defaultDownPercent, affordablePercent)
+      );
+
+      return {
+        ...quote,
+        withinDtiLimits: quote.backEndDti <= rules.backEndDti
+          && (rules.frontEndDti === null || quote.frontEndDti <= rules.frontEndDti),
+        withinSavings: quote.cashToClose <= profile.savings
+      };
+    });
+  }
+
+  /**
+   * Cumulative cost of renting against the net cost of owning, year by year.
+   * Uses the first affordable eligible program, preferring VA, then
+   * conventional. Tax deductions are not modeled
+   */
+  calculateRentVsBuy(
+    profile: BuyerProfile,
+    quotes: PropertyQuote[],
+    costs: PropertyCosts,
+    monthlyRent: number,
+    years: number
+  ): RentVsBuyAnalysis | null {
+    const eligible = quotes.filter(quote => quote.eligible);
+    const preferred = ['va', 'conventional', 'fha'] as LoanProgram[];
+    const ranked = [...eligible].sort((a, b) => preferred.indexOf(a.program) - preferred.indexOf(b.program));
+    const quote = ranked.find(candidate => candidate.withinDtiLimits && candidate.withinSavings) ?? ranked[0];
+
+    if (!quote) {
+      return null;
+    }
+
+    const defaults = AFFORDABILITY_DEFAULTS;
+    const schedule = buildAmortizationSchedule(quote.loanAmount, quote.interestRate, defaults.loanTermYears);
+    const baseLoan = quote.price - quote.downPayment;
+    const miRate = PROGRAM_RULES[quote.program].mortgageInsuranceRate(profile.creditBand, quote.downPaymentPercent);
+    const annualTaxes = costs.annualTaxes ?? quote.price * defaults.propertyTaxRate / 100;
+    const annualInsurance = quote.price * defaults.insuranceRate / 100;
+
+    const yearly: RentVsBuyYear[] = [];
+    let cumulativeRent = 0;
+    let cumulativeOwning = 0;
+    let breakEvenYear: number | null = null;
+
+    for (let year = 1; year <= years; year++) {
+      const growth = Math.pow(1 + defaults.appreciationRate / 100, year - 1);
+      const startValue = quote.price * growth;
+      const homeValue = startValue * (1 + defaults.appreciationRate / 100);
+
+      const payments = schedule.slice((year - 1) * 12, year * 12);
+      const mortgagePaid = payments.reduce((total, payment) => total + payment.payment, 0);
+      const insuredMonths = quote.program === 'conventional'
+        ? payments.filter(payment => payment.balance > quote.price * defaults.pmiRemovalLtv / 100).length
+        : 12;
+      const mortgageInsurance = baseLoan * miRate / 100 / 12 * insuredMonths;
+      const carryingCosts = (annualTaxes + annualInsurance) * growth + (costs.monthlyHoa ?? 0) * 12
+        + startValue * defaults.maintenanceRate / 100;
+
+      cumulativeOwning += mortgagePaid + mortgageInsurance + carryingCosts;
+      cumulativeRent += monthlyRent * 12 * Math.pow(1 + defaults.rentGrowthRate / 100, year - 1);
+
+      const loanBalance = schedule.length > year * 12 ? schedule[year * 12 - 1].balance : 0;
+      const saleEquity = homeValue * (1 - defaults.sellingCostRate / 100) - loanBalance;
+      const forgoneReturns = quote.cashToClose * (Math.pow(1 + defaults.investmentReturnRate / 100, year) - 1);
+      const netCostOfOwning = quote.cashToClose + cumulativeOwning + forgoneReturns - saleEquity;
+
+      if (breakEvenYear === null && netCostOfOwning <= cumulativeRent) {
+        breakEvenYear = year;
+      }
+
+      yearly.push({
+        year,
+        cumulativeRent: roundCurrency(cumulativeRent),
+        netCostOfOwning: roundCurrency(netCostOfOwning),
+        homeValue: roundCurrency(homeValue),
+        loanBalance: roundCurrency(loanBalance)
+      });
+    }
+
+    return {
+      program: quote.program,
+      monthlyRent: roundCurrency(monthlyRent),
+      years,
+      breakEvenYear,
+      yearly
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private quoteMaxPrice(program: LoanProgram, profile: BuyerProfile, downPaymentPercent: number): MaxPriceQuote {
+    // Costs are proportional to price, so one reference quote gives the cost per dollar
+    const reference = this.quote(program, profile, MAX_PRICE_REFERENCE, {}, downPaymentPercent);
+    const monthlyPerDollar = reference.monthly.total / MAX_PRICE_REFERENCE;
+    const cashPerDollar = reference.cashToClose / MAX_PRICE_REFERENCE;
+    const monthlyIncome = profile.annualIncome / 12;
+    const rules = PROGRAM_RULES[program];
+
+    const limits: [AffordabilityLimit, number][] = [
+      ['back_end_dti', (monthlyIncome * rules.backEndDti / 100 - profile.monthlyDebts) / monthlyPerDollar],
+      ['cash_to_close', profile.savings / cashPerDollar]
+    ];
+    if (rules.frontEndDti !== null) {
+      limits.push(['front_end_dti', (monthlyIncome * rules.frontEndDti / 100) / monthlyPerDollar]);
+    }
+
+    const [limitedBy, limit] = limits.reduce((lowest, current) => current[1] < lowest[1] ? current : lowest);
+    const maxPrice = reference.eligible ? Math.max(0, Math.floor(limit / 1000) * 1000) : 0;
+
+    return { ...this.quote(program, profile, maxPrice, {}, downPaymentPercent), limitedBy };
+  }
+
+  /** Down payments to try for max price, in half-point steps from the program minimum to its default */
+  private downPaymentOptions(program: LoanProgram, profile: BuyerProfile): number[] {
+    if (profile.targetDownPaymentPercent !== undefined) {
+      return [profile.targetDownPaymentPercent];
+    }
+
+    const rules = PROGRAM_RULES[program];
+    const minimum = rules.minDownPercent[profile.creditBand] ?? rules.defaultDownPercent;
+    const options = [rules.defaultDownPercent];
+    for (let percent = minimum; percent < rules.defaultDownPercent; percent += 0.5) {
+      options.push(percent);
+    }
+    return options;
+  }
+
+  /**
+   * Monthly cost and cash to close at `price`. Without property costs every
+   * figure scales with price. The down payment is raised to the program minimum
+   */
+  private quote(
+    program: LoanProgram,
+    profile: BuyerProfile,
+    price: number,
+    costs: PropertyCosts,
+    requestedDownPercent: number
+  ): ProgramQuote {
+    const rules = PROGRAM_RULES[program];
+    const defaults = AFFORDABILITY_DEFAULTS;
+    const minDownPercent = rules.minDownPercent[profile.creditBand];
+    const ineligibleReason = program === 'va' && !profile.vaEligible
+      ? 'VA loans require military service eligibility'
+      : minDownPercent === null
+        ? 'Credit score is below the program minimum'
+        : null;
+
+    const downPaymentPercent = Math.min(100, Math.max(minDownPercent ?? 0, requestedDownPercent));
+    const interestRate = (profile.baseInterestRate ?? defaults.baseInterestRate) + CREDIT_BAND_RATE_ADJUSTMENTS[profile.creditBand];
+    const downPayment = price * downPaymentPercent / 100;
+    const baseLoan = price - downPayment;
+    const loanAmount = baseLoan * (1 + rules.upfrontFeeRate / 100);
+    const closingCosts = price * defaults.closingCostRate / 100;
+
+    const principalAndInterest = calculateMonthlyPayment(loanAmount, interestRate, defaults.loanTermYears);
+    const taxes = (costs.annualTaxes ?? price * defaults.propertyTaxRate / 100) / 12;
+    const insurance = price * defaults.insuranceRate / 100 / 12;
+    const mortgageInsurance = baseLoan * rules.mortgageInsuranceRate(profile.creditBand, downPaymentPercent) / 100 / 12;
+    const hoa = costs.monthlyHoa ?? 0;
+    const total = principalAndInterest + taxes + insurance + mortgageInsurance + hoa;
+    const monthlyIncome = profile.annualIncome / 12;
+
+    return {
+      program,
+      eligible: ineligibleReason === null,
+      ineligibleReason,
+      interestRate,
+      price: roundCurrency(price),
+      downPaymentPercent,
+      downPayment: roundCurrency(downPayment),
+      loanAmount: roundCurrency(loanAmount),
+      closingCosts: roundCurrency(closingCosts),
+      cashToClose: roundCurrency(downPayment + closingCosts),
+      monthly: {
+        principalAndInterest: roundCurrency(principalAndInterest),
+        taxes: roundCurrency(taxes),
+        insurance: roundCurrency(insurance),
+        mortgageInsurance: roundCurrency(mortgageInsurance),
+        hoa: roundCurrency(hoa),
+        total: roundCurrency(total)
+      },
+      frontEndDti: monthlyIncome > 0 ? roundRate(total / monthlyIncome * 100) : 0,
+      backEndDti: monthlyIncome > 0 ? roundRate((total + profile.monthlyDebts) / monthlyIncome * 100) : 0
+    };
+  }
+
+  private readBuyerProfile(preferences: Prisma.JsonValue): BuyerProfile | null {
+    const parsed = buyerProfileSchema.safeParse(toPreferencesObject(preferences).buyerProfile);
+    return parsed.success ? parsed.data : null;
+  }
+}
+
+// Export singleton instance
+export const affordabilityService = new AffordabilityService();
@@ -0,0 +1,508 @@
+// API Usage Service - Production Ready, Zero Tech Debt
+// Records every outbound call to paid data providers and aggregates spend for the admin dashboard
+
+import { prisma } from '@/lib/prisma';
+import { ApiProvider, ApiUsageOutcome, Prisma } from '@prisma/client';
+import { auth } from '@clerk/nextjs/server';
+import { logger } from '@/lib/utils/logger';
+
+// ============================================================================
+// COST TABLE
+// ============================================================================
+
+/** Estimated cost per returned property, page or request, in dollars */
+export const API_UNIT_COSTS = {
+  BATCHDATA_PER_PROPERTY: 0.46,
+  LLAMAPARSE_PER_PAGE: 0.003,
+  GOOGLE_VISION_PER_PAGE: 0.0015,
+  ZILLOW_PER_REQUEST: 0.005,
+  RENTCAST_PER_REQUEST: 0.06
+} as const;
+
+/** Anthropic pricing in dollars per million tokens, matched by model prefix */
+const ANTHROPIC_TOKEN_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 }
+];
+
+const DEFAULT_ANTHROPIC_PRICING = { input: 3, output: 15 };
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrackedApiCall {
+  provider: ApiProvider;
+  endpoint: string;
+  method?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ApiUsageEventInput extends TrackedApiCall {
+  cost?: number;
+  latencyMs?: number;
+  cacheHit?: boolean;
+  outcome?: ApiUsageOutcome;
+  statusCode?: number;
+  errorMessage?: string;
+  units?: number;
+  clerkUserId?: string | null;
+}
+
+/** Fields a tracked call can derive from its result */
+export type ApiUsageDetails = Pick<
+  ApiUsageEventInput,
+  'cost' | 'units' | 'statusCode' | 'outcome' | 'errorMessage' | 'metadata'
+>;
+
+export interface AnthropicUsageLike {
+  model?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+export interface ProviderUsageSummary {
+  provider: ApiProvider;
+  calls: number;
+  cacheHits: number;
+  errors: number;
+  units: number;
+  cost: number;
+  avgLatencyMs: number;
+}
+
+export interface UserUsageSummary {
+  userId: string | null;
+  email: string | null;
+  name: string | null;
+  calls: number;
+  cost: number;
+}
+
+export interface UsagePeriodSummary {
+  period: string;
+  calls: number;
+  cost: number;
+  byProvider: Partial<Record<ApiProvider, number>>;
+}
+
+export interface DailyUsageSummary extends UsagePeriodSummary {
+  date: string;
+  searches: number;
+  propertiesReturned: number;
+  estimatedCost: number;
+}
+
+export interface ApiUsageReport {
+  days: number;
+  since: string;
+  totals: {
+    calls: number;
+    cost: number;
+    cacheHits: number;
+    errors: number;
+    avgLatencyMs: number;
+  };
+  batchData: {
+    searches: number;
+    propertiesReturned: number;
+    cacheHits: number;
+    cost: number;
+  };
+  byProvider: ProviderUsageSummary[];
+  byUser: UserUsageSummary[];
+  daily: DailyUsageSummary[];
+  weekly: UsagePeriodSummary[];
+}
+
+export class ApiUsageService {
+  private userIdCache = new Map<string, string | null>();
+
+  /**
+   * Record a single API usage event. Never throws - tracking must not break the call it tracks
+   */
+  async recordEvent(input: ApiUsageEventInput): Promise<void> {
+    try {
+      const outcome = input.outcome ?? ApiUsageOutcome.SUCCESS;
+      const cacheHit = input.cacheHit ?? false;
+      const cost = input.cost ?? (
+        cacheHit || outcome === ApiUsageOutcome.ERROR ? 0 : this.estimateCost(input.provider, input.units)
+      );
+      const userId = await this.resolveUserId(input.clerkUserId);
+
+      await prisma.apiUsageEvent.create({
+        data: {
+          userId,
+          provider: input.provider,
+          endpoint: input.endpoint,
+          method: input.method ?? null,
+          cost,
+          latencyMs: input.latencyMs !== undefined ? Math.round(input.latencyMs) : null,
+          cacheHit,
+          outcome,
+          statusCode: input.statusCode ?? null,
+          errorMessage: input.errorMessage?.substring(0, 1000) ?? null,
+          units: input.units ?? null,
+          metadata: input.metadata
+            ? input.metadata as Prisma.InputJsonValue
+            : Prisma.JsonNull
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record API usage event:', error, {
+        provider: input.provider,
+        endpoint: input.endpoint
+      });
+    }
+  }
+
+  /**
+   * Run an outbound call, timing it and recording its outcome.
+   * Errors are recorded and rethrown unchanged
+   */
+  async track<T>(
+    call: TrackedApiCall,
+    fn: () => Promise<T>,
+    describe?: (result: T) => ApiUsageDetails
+  ): Promise<T> {
+    const startTime = Date.now();
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      await this.recordEvent({
+        ...call,
+        latencyMs: Date.now() - startTime,
+        outcome: ApiUsageOutcome.ERROR,
+        errorMessage: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    const details = describe ? describe(result) : {};
+    await this.recordEvent({
+      ...call,
+      ...details,
+      metadata: (call.metadata || details.metadata)
+        ? { ...call.metadata, ...details.metadata }
+        : undefined,
+      latencyMs: Date.now() - startTime
+    });
+
+    return result;
+  }
+
+  /**
+   * Usage details for a plain fetch response - non-2xx responses count as errors
+   */
+  describeResponse(response: Response): ApiUsageDetails {
+    return {
+      statusCode: response.status,
+      outcome: response.ok ? ApiUsageOutcome.SUCCESS : ApiUsageOutcome.ERROR,
+      errorMessage: response.ok ? undefined : response.statusText
+    };
+  }
+
+  /**
+   * Usage details for an Anthropic Messages API response, priced by token count
+   */
+  describeAnthropicResponse(response: AnthropicUsageLike, fallbackModel?: string): ApiUsageDetails {
+    const model = response.model || fallbackModel || 'unknown';
+    const inputTokens = response.usage?.input_tokens ?? 0;
+    const outputTokens = response.usage?.output_tokens ?? 0;
+
+    return {
+      cost: this.estimateAnthropicCost(model, inputTokens, outputTokens),
+      units: inputTokens + outputTokens,
+      metadata: { model, inputTokens, outputTokens }
+    };
+  }
+
+  /**
+   * Estimate the dollar cost of an Anthropic call
+   */
+  estimateAnthropicCost(model: string, inputTokens: number, outputTokens: number): number {
+    const pricing = ANTHROPIC_TOKEN_PRICING.find(p => model.startsWith(p.prefix)) ?? DEFAULT_ANTHROPIC_PRICING;
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Internal user id for a Clerk id, falling back to the signed-in user of the
+   * current request. Returns null for system calls made outside a request
+   */
+  async resolveUserId(clerkUserId?: string | null): Promise<string | null> {
+    let clerkId = clerkUserId ?? null;
+
+    if (clerkUserId === undefined) {
+      try {
+        clerkId = (await auth()).userId;
+      } catch {
+        // Called outside a request (scripts, background jobs)
+        clerkId = null;
+      }
+    }
+
+    if (!clerkId) {
+      return null;
+    }
+
+    if (this.userIdCache.has(clerkId)) {
+      return this.userIdCache.get(clerkId) ?? null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId },
+      select: { id: true }
+    });
+
+    const userId = user?.id ?? null;
+    if (userId) {
+      this.userIdCache.set(clerkId, userId);
+    }
+
+    return userId;
+  }
+
+  /**
+   * Aggregate spend over the last `days` days per provider, per user, per day and per week
+   */
+  async getUsageReport(days: number = 7): Promise<ApiUsageReport> {
+    const since = this.startOfUtcDay(new Date());
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const events = await prisma.apiUsageEvent.findMany({
+      where: { createdAt: { gte: since } },
+      select: {
+        userId: true,
+        provider: true,
+        cost: true,
+        latencyMs: true,
+        cacheHit: true,
+        outcome: true,
+        units: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const providers = new Map<ApiProvider, ProviderUsageSummary & { latencyTotal: number; latencyCount: number }>();
+    const users = new Map<string | null, { calls: number; cost: number }>();
+    const daily = new Map<string, DailyUsageSummary>();
+    const weekly = new Map<string, UsagePeriodSummary>();
+
+    // Seed every day in range so quiet days still show up
+    for (let i = 0; i < days; i++) {
+      const day = new Date(since);
+      day.setUTCDate(since.getUTCDate() + i);
+      const date = this.formatDate(day);
+      daily.set(date, this.emptyDay(date));
+
+      const week = this.formatDate(this.startOfUtcWeek(day));
+      if (!weekly.has(week)) {
+        weekly.set(week, { period: week, calls: 0, cost: 0, byProvider: {} });
+      }
+    }
+
+    let totalCost = 0;
+    let cacheHits = 0;
+    let errors = 0;
+    let latencyTotal = 0;
+    let latencyCount = 0;
+    const batchData = { searches: 0, propertiesReturned: 0, cacheHits: 0, cost: 0 };
+
+    for (const event of events) {
+      const cost = Number(event.cost);
+      const isError = event.outcome === ApiUsageOutcome.ERROR;
+
+      totalCost += cost;
+      if (event.cacheHit) cacheHits++;
+      if (isError) errors++;
+      if (event.latencyMs !== null && !event.cacheHit) {
+        latencyTotal += event.latencyMs;
+        latencyCount++;
+      }
+
+      const provider = providers.get(event.provider) ?? {
+        provider: event.provider,
+        calls: 0,
+        cacheHits: 0,
+        errors: 0,
+        units: 0,
+        cost: 0,
+        avgLatencyMs: 0,
+        latencyTotal: 0,
+        latencyCount: 0
+      };
+      provider.calls++;
+      provider.cost += cost;
+      provider.units += event.units ?? 0;
+      if (event.cacheHit) provider.cacheHits++;
+      if (isError) provider.errors++;
+      if (event.latencyMs !== null && !event.cacheHit) {
+        provider.latencyTotal += event.latencyMs;
+        provider.latencyCount++;
+      }
+      providers.set(event.provider, provider);
+
+      const user = users.get(event.userId) ?? { calls: 0, cost: 0 };
+      user.calls++;
+      user.cost += cost;
+      users.set(event.userId, user);
+
+      const isBatchDataSearch = event.provider === ApiProvider.BATCHDATA && !event.cacheHit && !isError;
+      if (event.provider === ApiProvider.BATCHDATA) {
+        batchData.cost += cost;
+        if (event.cacheHit) batchData.cacheHits++;
+        if (isBatchDataSearch) {
+          batchData.searches++;
+          batchData.propertiesReturned += event.units ?? 0;
+        }
+      }
+
+      const date = this.formatDate(event.createdAt);
+      const day = daily.get(date) ?? this.emptyDay(date);
+      day.calls++;
+      day.cost += cost;
+      day.byProvider[event.provider] = (day.byProvider[event.provider] ?? 0) + cost;
+      if (event.provider === ApiProvider.BATCHDATA) {
+        day.estimatedCost += cost;
+        if (isBatchDataSearch) {
+          day.searches++;
+          day.propertiesReturned += event.units ?? 0;
+        }
+      }
+      daily.set(date, day);
+
+      const weekKey = this.formatDate(this.startOfUtcWeek(event.createdAt));
+      const week = weekly.get(weekKey) ?? { period: weekKey, calls: 0, cost: 0, byProvider: {} };
+      week.calls++;
+      week.cost += cost;
+      week.byProvider[event.provider] = (week.byProvider[event.provider] ?? 0) + cost;
+      weekly.set(weekKey, week);
+    }
+
+    const userIds = Array.from(users.keys()).filter((id): id is string => id !== null);
+    const userRecords = userIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, email: true, name: true }
+        })
+      : [];
+    const userLookup = new Map(userRecords.map(u => [u.id, u]));
+
+    return {
+      days,
+      since: since.toISOString(),
+      totals: {
+        calls: events.length,
+        cost: this.roundCost(totalCost),
+        cacheHits,
+        errors,
+        avgLatencyMs: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : 0
+      },
+      batchData: { ...batchData, cost: this.roundCost(batchData.cost) },
+      byProvider: Array.from(providers.values())
+        .map(({ latencyTotal: total, latencyCount: count, ...provider }) => ({
+          ...provider,
+          cost: this.roundCost(provider.cost),
+          avgLatencyMs: count > 0 ? Math.round(total / count) : 0
+        }))
+        .sort((a, b) => b.cost - a.cost),
+      byUser: Array.from(users.entries())
+        .map(([userId, usage]) => ({
+          userId,
+          email: userId ? userLookup.get(userId)?.email ?? null : null,
+          name: userId ? userLookup.get(userId)?.name ?? null : null,
+          calls: usage.calls,
+          cost: this.roundCost(usage.cost)
+        }))
+        .sort((a, b) => b.cost - a.cost),
+      daily: Array.from(daily.values())
+        .map(day => ({
+          ...day,
+          cost: this.roundCost(day.cost),
+          estimatedCost: this.roundCost(day.estimatedCost),
+          byProvider: this.roundProviderCosts(day.byProvider)
+        }))
+        .sort((a, b) => b.date.localeCompare(a.date)),
+      weekly: Array.from(weekly.values())
+        .map(week => ({
+          ...week,
+          cost: this.roundCost(week.cost),
+          byProvider: this.roundProviderCosts(week.byProvider)
+        }))
+        .sort((a, b) => b.period.localeCompare(a.period))
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private estimateCost(provider: ApiProvider, units?: number): number {
+    switch (provider) {
+      case ApiProvider.BATCHDATA:
+        return (units ?? 0) * API_UNIT_COSTS.BATCHDATA_PER_PROPERTY;
+      case ApiProvider.LLAMAPARSE:
+        return (units ?? 0) * API_UNIT_COSTS.LLAMAPARSE_PER_PAGE;
+      case ApiProvider.GOOGLE_VISION:
+        return (units ?? 0) * API_UNIT_COSTS.GOOGLE_VISION_PER_PAGE;
+      case ApiProvider.ZILLOW:
+        return API_UNIT_COSTS.ZILLOW_PER_REQUEST;
+      case ApiProvider.RENTCAST:
+        return API_UNIT_COSTS.RENTCAST_PER_REQUEST;
+      default:
+        // Anthropic calls are priced by token count via describeAnthropicResponse
+        return 0;
+    }
+  }
+
+  private emptyDay(date: string): DailyUsageSummary {
+    return {
+      period: date,
+      date,
+      calls: 0,
+      cost: 0,
+      searches: 0,
+      propertiesReturned: 0,
+      estimatedCost: 0,
+      byProvider: {}
+    };
+  }
+
+  private startOfUtcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  /** Weeks start on Monday */
+  private startOfUtcWeek(date: Date): Date {
+    const day = this.startOfUtcDay(date);
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+    return day;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private roundCost(cost: number): number {
+    return parseFloat(cost.toFixed(4));
+  }
+
+  private roundProviderCosts(costs: Partial<Record<ApiProvider, number>>): Partial<Record<ApiProvider, number>> {
+    return Object.fromEntries(
+      Object.entries(costs).map(([provider, cost]) => [provider, this.roundCost(cost ?? 0)])
+    ) as Partial<Record<ApiProvider, number>>;
+  }
+}
+
+export const apiUsageService = new ApiUsageService();
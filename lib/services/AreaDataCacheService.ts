@@ -0,0 +1,186 @@
+import { prisma } from '../prisma';
+import { logger } from "@/lib/utils/logger";
+import { AreaAnalysis, createGoogleMapsAPI } from '../google-maps-api';
+
+export interface AreaDataCacheParams {
+  propertyId: string;
+  address: string;
+  zipCode: string;
+}
+
+export interface CachedAreaDataResult {
+  areaAnalysis: AreaAnalysis;
+  cacheInfo: {
+    fromCache: boolean;
+    cacheAge: number; // hours
+    accessCount: number;
+  };
+}
+
+export class AreaDataCacheService {
+  private readonly CACHE_EXPIRY_DAYS = 90; // Schools and amenities change slowly
+  private readonly GOOGLE_MAPS_COST = 0.26; // 1 geocode + 8 nearby searches
+
+  /**
+   * Get area analysis with intelligent caching
+   */
+  async getAreaData(params: AreaDataCacheParams): Promise<CachedAreaDataResult | null> {
+    try {
+      // First, try to find existing cache
+      const cached = await this.findCachedAreaData(params);
+
+      if (cached && this.isCacheValid(cached.expiresAt)) {
+        // Update access tracking
+        await this.updateCacheAccess(cached.id);
+
+        const cacheAge = Math.floor((Date.now() - cached.createdAt.getTime()) / (1000 * 60 * 60));
+
+        logger.debug(`🎯 Using cached area data for ${params.zipCode} (age: ${cacheAge}h)`);
+
+        return {
+          areaAnalysis: cached.areaData as unknown as AreaAnalysis,
+          cacheInfo: {
+            fromCache: true,
+            cacheAge,
+            accessCount: cached.accessCount
+          }
+        };
+      }
+
+      // Cache miss or expired - fetch from API
+      logger.debug('🔍 Cache miss - fetching fresh area data from Google Maps API');
+
+      const freshData = await this.fetchFreshAreaData(params);
+      if (!freshData) {
+        return null;
+      }
+
+      // Store in cache
+      await this.storeCachedAreaData(params, freshData);
+
+      return {
+        areaAnalysis: freshData,
+        cacheInfo: {
+          fromCache: false,
+          cacheAge: 0,
+          accessCount: 1
+        }
+      };
+
+    } catch (error) {
+      logger.error('Error in AreaDataCacheService:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find existing cached area data for the property's current address
+   */
+  private async findCachedAreaData(params: AreaDataCacheParams) {
+    return await prisma.areaDataCache.findFirst({
+      where: {
+        propertyId: params.propertyId,
+        address: params.address,
+        zipCode: params.zipCode,
+        expiresAt: {
+          gt: new Date() // Not expired
+        }
+      },
+      orderBy: {
+        lastAccessedAt: 'desc'
+      }
+    });
+  }
+
+  /**
+   * Check if cache is still valid
+   */
+  private isCacheValid(expiresAt: Date): boolean {
+    return new Date() < expiresAt;
+  }
+
+  /**
+   * Update cache access tracking
+   */
+  private async updateCacheAccess(cacheId: string) {
+    await prisma.areaDataCache.update({
+      where: { id: cacheId },
+      data: {
+        lastAccessedAt: new Date(),
+        accessCount: {
+          increment: 1
+        }
+      }
+    });
+  }
+
+  /**
+   * Fetch fresh area analysis from Google Maps API
+   */
+  private async fetchFreshAreaData(params: AreaDataCacheParams): Promise<AreaAnalysis | null> {
+    const googleMapsAPI = createGoogleMapsAPI();
+    if (!googleMapsAPI) {
+      logger.warn('Google Maps service not available');
+      return null;
+    }
+
+    return await googleMapsAPI.getAreaAnalysis(params.address, params.zipCode);
+  }
+
+  /**
+   * Store area analysis in cache
+   */
+  private async storeCachedAreaData(params: AreaDataCacheParams, data: AreaAnalysis) {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + this.CACHE_EXPIRY_DAYS);
+
+    await prisma.areaDataCache.create({
+      data: {
+        propertyId: params.propertyId,
+        address: params.address,
+        zipCode: params.zipCode,
+        areaData: data as any,
+        walkScore: data.walkScore ?? null,
+        expiresAt,
+        apiCost: this.GOOGLE_MAPS_COST
+      }
+    });
+
+    logger.debug(`💾 Cached area data for ${params.zipCode} (expires: ${expiresAt.toLocaleDateString()})`);
+  }
+
+  /**
+   * Clean up expired cache entries (can be run periodically)
+   */
+  async cleanupExpiredCache() {
+    const result = await prisma.areaDataCache.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date()
+        }
+      }
+    });
+
+    logger.debug(`🧹 Cleaned up ${result.count} expired area data cache entries`);
+    return result.count;
+  }
+
+  /**
+   * Force refresh cache for a specific property
+   */
+  async refreshCache(params: AreaDataCacheParams) {
+    // Delete existing cache
+    await prisma.areaDataCache.deleteMany({
+      where: {
+        propertyId: params.propertyId
+      }
+    });
+
+    // Fetch fresh data
+    return await this.getAreaData(params);
+  }
+}
+
+export function createAreaDataCacheService(): AreaDataCacheService {
+  return new AreaDataCacheService();
+}
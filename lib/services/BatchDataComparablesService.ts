@@ -1,4 +1,5 @@
 import { BatchDataService } from './BatchDataService';
+import { BudgetExhaustedError } from './BudgetService';
 import { logger } from "@/lib/utils/logger";
 import { RentcastComparable, RentcastCompsResponse } from '../rentcast-api';
 
@@ -77,6 +78,7 @@ export class BatchDataComparablesService {
       };
 
     } catch (error) {
+      if (error instanceof BudgetExhaustedError) throw error;
       logger.error('Error fetching comparables from BatchData:', error);
       return null;
     }
@@ -165,6 +167,7 @@ export class BatchDataComparablesService {
         }
 
       } catch (error) {
+        if (error instanceof BudgetExhaustedError) throw error;
         logger.debug(`❌ Failed ${config.method} ${config.endpoint}:`, error instanceof Error ? error : new Error(String(error)));
         continue;
       }
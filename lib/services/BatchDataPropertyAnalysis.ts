@@ -1,4 +1,5 @@
 import { BatchDataService } from './BatchDataService';
+import { BudgetExhaustedError } from './BudgetService';
 import { logger } from "@/lib/utils/logger";
 import { BatchDataComparablesService } from './BatchDataComparablesService';
 
@@ -131,6 +132,7 @@ export class BatchDataPropertyAnalysisService {
             }
           }
         } catch (error) {
+          if (error instanceof BudgetExhaustedError) throw error;
           logger.debug(`❌ ${strategy.name} failed:`, error instanceof Error ? error : new Error(String(error)));
           continue;
         }
@@ -190,6 +192,7 @@ export class BatchDataPropertyAnalysisService {
       return propertyData;
 
     } catch (error) {
+      if (error instanceof BudgetExhaustedError) throw error;
       logger.error('Error in BatchData property analysis:', error);
       return null;
     }
@@ -9,6 +9,8 @@ import {
   MarketAnalysisParams
 } from '@/types/batchdata';
 import { logger } from '@/lib/utils/logger';
+import { apiUsageService, API_UNIT_COSTS } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
 
 export class BatchDataService {
   private apiKey: string;
@@ -43,6 +45,12 @@ export class BatchDataService {
       };
     }
 
+    // Outside the try block so a BudgetExhaustedError reaches the route
+    await budgetService.assertWithinBudget('BATCHDATA');
+
+    const startTime = Date.now();
+    let statusCode: number | undefined;
+
     try {
       const url = new URL(`${this.baseUrl}${endpoint}`);
       
@@ -71,6 +79,7 @@ export class BatchDataService {
       }
 
       const response = await fetch(url.toString(), requestOptions);
+      statusCode = response.status;
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -81,7 +90,7 @@ export class BatchDataService {
       const data = await response.json();
 
       // Track API usage for cost monitoring
-      await this.trackUsage(endpoint, params, data);
+      await this.trackUsage(endpoint, method, data, statusCode, Date.now() - startTime);
 
       return {
         success: true,
@@ -97,6 +106,15 @@ export class BatchDataService {
       };
     } catch (error) {
       logger.error('BatchData API error:', error);
+      await apiUsageService.recordEvent({
+        provider: 'BATCHDATA',
+        endpoint,
+        method,
+        latencyMs: Date.now() - startTime,
+        outcome: 'ERROR',
+        statusCode,
+        errorMessage: error instanceof Error ? error.message : String(error)
+      });
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -225,27 +243,27 @@ export class BatchDataService {
   /**
    * Track BatchData API usage for cost monitoring
    */
-  private async trackUsage(endpoint: string, params: any, response: any): Promise<void> {
-    try {
-      const propertiesCount = this.countProperties(response);
-      const estimatedCost = this.estimateCost(response);
-
-      // Log usage (you could also save to database)
-      logger.debug(`📊 BatchData Usage: ${endpoint} - ${propertiesCount} properties - ~$${estimatedCost.toFixed(2)}`);
-
-      // TODO: Save to database for proper tracking
-      // await prisma.batchDataUsage.create({
-      //   data: {
-      //     endpoint,
-      //     propertiesCount,
-      //     estimatedCost,
-      //     timestamp: new Date(),
-      //     params: JSON.stringify(params)
-      //   }
-      // });
-    } catch (error) {
-      logger.error('Failed to track BatchData usage:', error);
-    }
+  private async trackUsage(
+    endpoint: string,
+    method: string,
+    response: any,
+    statusCode: number,
+    latencyMs: number
+  ): Promise<void> {
+    const propertiesCount = this.countProperties(response);
+    const estimatedCost = this.estimateCost(response);
+
+    logger.debug(`📊 BatchData Usage: ${endpoint} - ${propertiesCount} properties - ~$${estimatedCost.toFixed(2)}`);
+
+    await apiUsageService.recordEvent({
+      provider: 'BATCHDATA',
+      endpoint,
+      method,
+      cost: estimatedCost,
+      units: propertiesCount,
+      latencyMs,
+      statusCode
+    });
   }
 
   /**
@@ -270,7 +288,6 @@ export class BatchDataService {
    */
   private estimateCost(response: any): number {
     const propertiesCount = this.countProperties(response);
-    const costPerProperty = 0.46; // Updated to actual cost observed: 46¢ per property
-    return propertiesCount * costPerProperty;
+    return propertiesCount * API_UNIT_COSTS.BATCHDATA_PER_PROPERTY;
   }
 }
\ No newline at end of file
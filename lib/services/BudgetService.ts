@@ -0,0 +1,194 @@
+// Budget Service - Production Ready, Zero Tech Debt
+// Monthly spend caps for paid data providers, enforced against the API usage ledger
+
+import { prisma } from '@/lib/prisma';
+import { ApiProvider, Prisma } from '@prisma/client';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { toPreferencesObject, updateUserPreferences } from '@/lib/utils/user-preferences';
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export type BudgetPlan = 'free' | 'standard' | 'pro' | 'unlimited';
+
+/** Monthly cap in dollars per plan - null means uncapped */
+export const BUDGET_PLAN_CAPS: Record<BudgetPlan, number | null> = {
+  free: 5,
+  standard: 25,
+  pro: 100,
+  unlimited: null
+};
+
+const BUDGET_PLANS = Object.keys(BUDGET_PLAN_CAPS) as BudgetPlan[];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Stored under `budget` in User.preferences */
+export interface BudgetPreferences {
+  plan?: BudgetPlan;
+  monthlyCapUsd?: number | null;
+}
+
+export interface BudgetStatus {
+  plan: BudgetPlan;
+  monthlyCap: number | null;
+  spent: number;
+  remaining: number | null;
+  exhausted: boolean;
+  periodStart: string;
+  resetsAt: string;
+}
+
+export class BudgetExhaustedError extends Error {
+  constructor(
+    public readonly budget: BudgetStatus,
+    public readonly provider?: ApiProvider
+  ) {
+    super(`Monthly data budget of $${budget.monthlyCap?.toFixed(2)} exhausted`);
+    this.name = 'BudgetExhaustedError';
+  }
+
+  /** Payload for the 402 response routes return when the cap is hit */
+  toResponseBody() {
+    const resetDate = new Date(this.budget.resetsAt).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+
+    return {
+      success: false,
+      error: 'Budget exhausted',
+      code: 'BUDGET_EXHAUSTED',
+      message: `You've used your $${this.budget.monthlyCap?.toFixed(2)} monthly data budget. It resets on ${resetDate}.`,
+      provider: this.provider ?? null,
+      budget: this.budget
+    };
+  }
+}
+
+export class BudgetService {
+
+  /**
+   * Budget status for a Clerk user in the current calendar month (UTC)
+   */
+  async getBudgetStatus(clerkUserId: string): Promise<BudgetStatus> {
+    const user = await prisma.user.findUnique({
+      where: { clerkId: clerkUserId },
+      select: { id: true, preferences: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return this.buildStatus(user.id, user.preferences);
+  }
+
+  /**
+   * Throw a BudgetExhaustedError if the user is over their cap. Resolves the
+   * user from the current request when no Clerk id is given; system calls are never capped
+   */
+  async assertWithinBudget(provider: ApiProvider, clerkUserId?: string): Promise<void> {
+    const userId = await apiUsageService.resolveUserId(clerkUserId);
+    if (!userId) {
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, preferences: true }
+    });
+
+    if (!user) {
+      return;
+    }
+
+    const status = await this.buildStatus(user.id, user.preferences);
+    if (status.exhausted) {
+      throw new BudgetExhaustedError(status, provider);
+    }
+  }
+
+  /**
+   * Set a user's plan and optional custom cap, keeping other preferences intact
+   */
+  async updateBudget(clerkUserId: string, budget: BudgetPreferences): Promise<BudgetStatus> {
+    const updated = await updateUserPreferences(clerkUserId, preferences => {
+      const current = this.readBudgetPreferences(preferences);
+      const next: BudgetPreferences = {
+        plan: budget.plan ?? current.plan,
+        monthlyCapUsd: budget.monthlyCapUsd !== undefined ? budget.monthlyCapUsd : current.monthlyCapUsd
+      };
+      return { ...preferences, budget: next };
+    });
+
+    return this.buildStatus(updated.id, updated.preferences);
+  }
+
+  isValidPlan(plan: string): plan is BudgetPlan {
+    return BUDGET_PLANS.includes(plan as BudgetPlan);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async buildStatus(userId: string, preferences: Prisma.JsonValue): Promise<BudgetStatus> {
+    const budget = this.readBudgetPreferences(preferences);
+    const plan = budget.plan ?? this.getDefaultPlan();
+    const monthlyCap = budget.monthlyCapUsd !== undefined && budget.monthlyCapUsd !== null
+      ? budget.monthlyCapUsd
+      : BUDGET_PLAN_CAPS[plan];
+
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    const usage = await prisma.apiUsageEvent.aggregate({
+      where: {
+        userId,
+        createdAt: { gte: periodStart }
+      },
+      _sum: { cost: true }
+    });
+
+    const spent = parseFloat(Number(usage._sum.cost ?? 0).toFixed(2));
+    const remaining = monthlyCap !== null
+      ? parseFloat(Math.max(monthlyCap - spent, 0).toFixed(2))
+      : null;
+
+    return {
+      plan,
+      monthlyCap,
+      spent,
+      remaining,
+      exhausted: monthlyCap !== null && spent >= monthlyCap,
+      periodStart: periodStart.toISOString(),
+      resetsAt: resetsAt.toISOString()
+    };
+  }
+
+  private readBudgetPreferences(preferences: Prisma.JsonValue): BudgetPreferences {
+    const budget = toPreferencesObject(preferences).budget;
+    if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+      return {};
+    }
+
+    const { plan, monthlyCapUsd } = budget as Record<string, unknown>;
+    return {
+      plan: typeof plan === 'string' && this.isValidPlan(plan) ? plan : undefined,
+      monthlyCapUsd: typeof monthlyCapUsd === 'number' ? monthlyCapUsd : undefined
+    };
+  }
+
+  private getDefaultPlan(): BudgetPlan {
+    const plan = process.env.DEFAULT_BUDGET_PLAN;
+    return plan && this.isValidPlan(plan) ? plan : 'free';
+  }
+}
+
+export const budgetService = new BudgetService();
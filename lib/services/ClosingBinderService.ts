@@ -0,0 +1,551 @@
+// Closing Binder Service - Production Ready, Zero Tech Debt
+// Packages every current timeline document into one ZIP or merged PDF
+
+import JSZip from 'jszip';
+import {
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  StandardFonts,
+  rgb
+} from 'pdf-lib';
+import { prisma } from '@/lib/prisma';
+import { DocumentType, StepCategory } from '@prisma/client';
+import { logger } from '@/lib/utils/logger';
+import { readDocumentFile } from '@/lib/services/storage';
+import { timelineService, TimelinePermissionError } from './TimelineService';
+import { hasTimelinePermission } from '@/lib/types/timeline-permissions';
+
+// Everything is buffered in memory, so cap what one export may pull down
+const MAX_BINDER_BYTES = 250 * 1024 * 1024;
+const DOWNLOAD_CONCURRENCY = 4;
+
+// US Letter, in PDF points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_HEIGHT = 16;
+
+export type BinderFormat = 'zip' | 'pdf';
+
+export interface ClosingBinderFile {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+export class ClosingBinderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClosingBinderError';
+  }
+}
+
+interface BinderDocument {
+  id: string;
+  originalName: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  documentType: DocumentType;
+  isVerified: boolean;
+  createdAt: Date;
+  downloadUrl: string | null;
+  storageProvider: string;
+  storageKey: string;
+  /** Null when the download failed; the index records why */
+  content: Buffer | null;
+  error: string | null;
+}
+
+interface BinderSection {
+  title: string;
+  category: StepCategory | null;
+  groups: Array<{ documentType: DocumentType; documents: BinderDocument[] }>;
+}
+
+interface BinderTimeline {
+  title: string;
+  status: string;
+  startDate: Date;
+  estimatedClosingDate: Date | null;
+  actualClosingDate: Date | null;
+  totalSteps: number;
+  completedSteps: number;
+  property: { address: string; city: string; state: string; zipCode: string };
+}
+
+interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+  children?: OutlineEntry[];
+}
+
+export class ClosingBinderService {
+
+  // ============================================================================
+  // EXPORT
+  // ============================================================================
+
+  /**
+   * Build the closing binder for a timeline: every current document the viewer
+   * may see, grouped by step and document type
+   * @param userId - Clerk user ID; needs document.view
+   * @param timelineId - Timeline to export
+   * @param format - 'zip' keeps the original files plus an index; 'pdf' merges them
+   */
+  async buildBinder(userId: string, timelineId: string, format: BinderFormat): Promise<ClosingBinderFile> {
+    const access = await timelineService.getTimelineAccess(userId, timelineId);
+    if (!hasTimelinePermission(access, 'document.view')) {
+      throw new TimelinePermissionError('Your role on this timeline does not allow document.view', 'document.view');
+    }
+
+    const timeline = await prisma.timeline.findUniqueOrThrow({
+      where: { id: timelineId },
+      select: {
+        title: true,
+        status: true,
+        startDate: true,
+        estimatedClosingDate: true,
+        actualClosingDate: true,
+        totalSteps: true,
+        completedSteps: true,
+        property: { select: { address: true, city: true, state: true, zipCode: true } },
+        documents: {
+          where: {
+            isCurrentVersion: true,
+            ...(access.documentTypes !== 'ALL' && { documentType: { in: access.documentTypes } })
+          },
+          include: { step: { select: { title: true, sortOrder: true, category: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (timeline.documents.length === 0) {
+      throw new ClosingBinderError('This timeline has no documents to export yet');
+    }
+
+    const totalBytes = timeline.documents.reduce((sum, doc) => sum + Number(doc.fileSize), 0);
+    if (totalBytes > MAX_BINDER_BYTES) {
+      throw new ClosingBinderError(
+        `These documents total ${Math.round(totalBytes / 1024 / 1024)} MB, over the ${MAX_BINDER_BYTES / 1024 / 1024} MB binder limit`
+      );
+    }
+
+    const documents = await this.downloadDocuments(timeline.documents.map(doc => ({
+      id: doc.id,
+      originalName: doc.originalName,
+      fileName: doc.fileName,
+      mimeType: doc.mimeType,
+      fileSize: Number(doc.fileSize),
+      documentType: doc.documentType,
+      isVerified: doc.isVerified,
+      createdAt: doc.createdAt,
+      downloadUrl: doc.downloadUrl,
+      storageProvider: doc.storageProvider,
+      storageKey: doc.storageKey,
+      step: doc.step
+    })));
+
+    const sections = this.groupDocuments(documents);
+    const baseName = `${this.toFileSafe(timeline.property.address || timeline.title)} - Closing Binder`;
+
+    logger.info('Building closing binder', {
+      timelineId,
+      format,
+      documents: documents.length,
+      failed: documents.filter(doc => !doc.content).length
+    });
+
+    if (format === 'pdf') {
+      return {
+        buffer: await this.buildPdf(timeline, sections),
+        fileName: `${baseName}.pdf`,
+        contentType: 'application/pdf'
+      };
+    }
+
+    return {
+      buffer: await this.buildZip(timeline, sections),
+      fileName: `${baseName}.zip`,
+      contentType: 'application/zip'
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async downloadDocuments(
+    documents: Array<Omit<BinderDocument, 'content' | 'error'> & {
+      step: { title: string; sortOrder: number; category: StepCategory } | null;
+    }>
+  ) {
+    const results: Array<BinderDocument & { step: (typeof documents)[number]['step'] }> = [];
+
+    for (let i = 0; i < documents.length; i += DOWNLOAD_CONCURRENCY) {
+      const batch = documents.slice(i, i + DOWNLOAD_CONCURRENCY);
+      results.push(...await Promise.all(batch.map(async (doc) => {
+        try {
+          return { ...doc, content: await readDocumentFile(doc), error: null };
+        } catch (error) {
+          logger.warn('Closing binder download failed', {
+            documentId: doc.id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return { ...doc, content: null, error: 'File could not be downloaded' };
+        }
+      })));
+    }
+
+    return results;
+  }
+
+  /**
+   * Steps in timeline order with loose documents last; document types in enum order
+   */
+  private groupDocuments(
+    documents: Array<BinderDocument & { step: { title: string; sortOrder: number; category: StepCategory } | null }>
+  ): BinderSection[] {
+    const byStep = new Map<string, BinderSection & { sortOrder: number }>();
+
+    for (const doc of documents) {
+      const key = doc.step ? `${doc.step.sortOrder}:${doc.step.title}` : 'general';
+      if (!byStep.has(key)) {
+        byStep.set(key, {
+          title: doc.step?.title ?? 'General Documents',
+          category: doc.step?.category ?? null,
+          sortOrder: doc.step?.sortOrder ?? Number.MAX_SAFE_INTEGER,
+          groups: []
+        });
+      }
+
+      const section = byStep.get(key)!;
+      let group = section.groups.find(g => g.documentType === doc.documentType);
+      if (!group) {
+        group = { documentType: doc.documentType, documents: [] };
+        section.groups.push(group);
+      }
+      group.documents.push(doc);
+    }
+
+    const typeOrder = Object.values(DocumentType);
+    return Array.from(byStep.values())
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map(({ sortOrder: _sortOrder, ...section }) => ({
+        ...section,
+        groups: section.groups.sort((a, b) => typeOrder.indexOf(a.documentType) - typeOrder.indexOf(b.documentType))
+      }));
+  }
+
+  private async buildZip(timeline: BinderTimeline, sections: BinderSection[]): Promise<Buffer> {
+    const zip = new JSZip();
+    const index: string[] = [
+      `${timeline.title} - Closing Binder`,
+      this.formatAddress(timeline),
+      `Generated ${this.formatDate(new Date())}`,
+      '',
+      ...this.summaryLines(timeline),
+      ''
+    ];
+
+    sections.forEach((section, sectionIndex) => {
+      const sectionFolder = `${String(sectionIndex + 1).padStart(2, '0')} - ${this.toFileSafe(section.title)}`;
+      index.push(`${sectionFolder}/`);
+
+      for (const group of section.groups) {
+        const folder = `${sectionFolder}/${this.formatDocumentType(group.documentType)}`;
+        const usedNames = new Set<string>();
+        index.push(`  ${this.formatDocumentType(group.documentType)}/`);
+
+        for (const doc of group.documents) {
+          const name = this.uniqueName(this.toFileSafe(doc.originalName), usedNames);
+          const details = `${this.formatDate(doc.createdAt)}, ${this.formatSize(doc.fileSize)}${doc.isVerified ? ', verified' : ''}`;
+
+          if (doc.content) {
+            zip.file(`${folder}/${name}`, doc.content, { date: doc.createdAt });
+            index.push(`    ${name} (${details})`);
+          } else {
+            index.push(`    ${name} - NOT INCLUDED: ${doc.error}`);
+          }
+        }
+      }
+      index.push('');
+    });
+
+    zip.file('00 - Index.txt', index.join('\r\n'));
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+  }
+
+  private async buildPdf(timeline: BinderTimeline, sections: BinderSection[]): Promise<Buffer> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(`${timeline.title} - Closing Binder`);
+    pdf.setCreator('hh.fun');
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+    // Document pages first; the cover and contents are inserted in front once page numbers are known
+    const outline: OutlineEntry[] = [];
+    const contents: Array<{ text: string; pageIndex: number; indent: number }> = [];
+
+    for (const section of sections) {
+      const sectionEntry: OutlineEntry = { title: section.title, pageIndex: pdf.getPageCount(), children: [] };
+      contents.push({ text: section.title, pageIndex: sectionEntry.pageIndex, indent: 0 });
+
+      for (const group of section.groups) {
+        for (const doc of group.documents) {
+          const pageIndex = pdf.getPageCount();
+          await this.appendDocument(pdf, doc, font, boldFont);
+
+          const title = `${doc.originalName} (${this.formatDocumentType(group.documentType)})`;
+          sectionEntry.children!.push({ title, pageIndex });
+          contents.push({ text: title, pageIndex, indent: 1 });
+        }
+      }
+
+      outline.push(sectionEntry);
+    }
+
+    const coverLines = this.summaryLines(timeline).length + 8;
+    const linesPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+    const coverPageCount = Math.max(1, Math.ceil((coverLines + contents.length) / linesPerPage));
+
+    const coverPages: PDFPage[] = [];
+    for (let i = 0; i < coverPageCount; i++) {
+      coverPages.push(pdf.insertPage(i, [PAGE_WIDTH, PAGE_HEIGHT]));
+    }
+    this.drawCover(coverPages, timeline, contents, coverPageCount, font, boldFont);
+
+    this.addOutline(pdf, [
+      { title: 'Cover & Contents', pageIndex: 0 },
+      ...outline.map(entry => this.shiftOutline(entry, coverPageCount))
+    ]);
+
+    return Buffer.from(await pdf.save());
+  }
+
+  /**
+   * PDFs are merged page by page, JPEG/PNG images get a page each, and
+   * anything else gets a placeholder pointing at the original
+   */
+  private async appendDocument(pdf: PDFDocument, doc: BinderDocument, font: PDFFont, boldFont: PDFFont): Promise<void> {
+    if (doc.content) {
+      try {
+        if (doc.mimeType === 'application/pdf') {
+          const source = await PDFDocument.load(doc.content, { ignoreEncryption: true });
+          const pages = await pdf.copyPages(source, source.getPageIndices());
+          pages.forEach(page => pdf.addPage(page));
+          return;
+        }
+
+        if (doc.mimeType === 'image/jpeg' || doc.mimeType === 'image/png') {
+          const image = doc.mimeType === 'image/png'
+            ? await pdf.embedPng(doc.content)
+            : await pdf.embedJpg(doc.content);
+          const scaled = image.scaleToFit(PAGE_WIDTH - MARGIN * 2, PAGE_HEIGHT - MARGIN * 2);
+          const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+          page.drawImage(image, {
+            x: (PAGE_WIDTH - scaled.width) / 2,
+            y: (PAGE_HEIGHT - scaled.height) / 2,
+            width: scaled.width,
+            height: scaled.height
+          });
+          return;
+        }
+      } catch (error) {
+        logger.warn('Closing binder could not merge document', {
+          documentId: doc.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN - 20;
+    page.drawText(this.fitText(doc.originalName, boldFont, 16, PAGE_WIDTH - MARGIN * 2), { x: MARGIN, y, size: 16, font: boldFont });
+    y -= LINE_HEIGHT * 2;
+    const reason = doc.content
+      ? `This ${doc.mimeType || 'file'} can't be merged into a PDF.`
+      : doc.error ?? 'File could not be downloaded.';
+    for (const line of [reason, 'Download the original from the timeline documents or the ZIP binder.']) {
+      page.drawText(this.fitText(line, font, 11, PAGE_WIDTH - MARGIN * 2), { x: MARGIN, y, size: 11, font, color: rgb(0.3, 0.3, 0.3) });
+      y -= LINE_HEIGHT;
+    }
+  }
+
+  private drawCover(
+    pages: PDFPage[],
+    timeline: BinderTimeline,
+    contents: Array<{ text: string; pageIndex: number; indent: number }>,
+    coverPageCount: number,
+    font: PDFFont,
+    boldFont: PDFFont
+  ): void {
+    const width = PAGE_WIDTH - MARGIN * 2;
+    let pageNumber = 0;
+    let page = pages[0];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const nextLine = (height = LINE_HEIGHT) => {
+      y -= height;
+      if (y < MARGIN && pageNumber < pages.length - 1) {
+        page = pages[++pageNumber];
+        y = PAGE_HEIGHT - MARGIN - height;
+      }
+    };
+
+    nextLine(24);
+    page.drawText(this.fitText(`${timeline.title} - Closing Binder`, boldFont, 22, width), { x: MARGIN, y, size: 22, font: boldFont });
+    nextLine(22);
+    page.drawText(this.fitText(this.formatAddress(timeline), font, 13, width), { x: MARGIN, y, size: 13, font });
+    nextLine(LINE_HEIGHT * 1.5);
+
+    for (const line of this.summaryLines(timeline)) {
+      page.drawText(this.fitText(line, font, 11, width), { x: MARGIN, y, size: 11, font });
+      nextLine();
+    }
+    page.drawText(`Generated ${this.formatDate(new Date())}`, { x: MARGIN, y, size: 9, font, color: rgb(0.4, 0.4, 0.4) });
+
+    nextLine(LINE_HEIGHT * 2);
+    page.drawText('Contents', { x: MARGIN, y, size: 14, font: boldFont });
+    nextLine(LINE_HEIGHT * 1.5);
+
+    for (const entry of contents) {
+      const entryFont = entry.indent === 0 ? boldFont : font;
+      const x = MARGIN + entry.indent * 16;
+      const pageLabel = String(entry.pageIndex + coverPageCount + 1);
+      const labelWidth = font.widthOfTextAtSize(pageLabel, 10);
+
+      page.drawText(this.fitText(entry.text, entryFont, 10, width - (x - MARGIN) - labelWidth - 12), { x, y, size: 10, font: entryFont });
+      page.drawText(pageLabel, { x: PAGE_WIDTH - MARGIN - labelWidth, y, size: 10, font });
+      nextLine();
+    }
+  }
+
+  /**
+   * Bookmarks panel entries. pdf-lib has no outline API, so the outline
+   * dictionaries are written directly
+   */
+  private addOutline(pdf: PDFDocument, entries: OutlineEntry[]): void {
+    const context = pdf.context;
+    const pageRefs = pdf.getPages().map(page => page.ref);
+
+    const buildLevel = (items: OutlineEntry[], parent: PDFRef): { first: PDFRef; last: PDFRef; count: number } => {
+      const refs = items.map(() => context.nextRef());
+      let count = items.length;
+
+      items.forEach((item, i) => {
+        const dict: PDFDict = context.obj({
+          Title: PDFHexString.fromText(item.title),
+          Parent: parent,
+          Dest: [pageRefs[item.pageIndex], 'XYZ', null, null, null]
+        });
+        if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+        if (i < items.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+
+        if (item.children?.length) {
+          const child = buildLevel(item.children, refs[i]);
+          dict.set(PDFName.of('First'), child.first);
+          dict.set(PDFName.of('Last'), child.last);
+          // Negative count: the step starts collapsed
+          dict.set(PDFName.of('Count'), context.obj(-child.count));
+        }
+
+        context.assign(refs[i], dict);
+      });
+
+      return { first: refs[0], last: refs[refs.length - 1], count };
+    };
+
+    const rootRef = context.nextRef();
+    const level = buildLevel(entries, rootRef);
+    context.assign(rootRef, context.obj({
+      Type: 'Outlines',
+      First: level.first,
+      Last: level.last,
+      Count: level.count
+    }));
+
+    pdf.catalog.set(PDFName.of('Outlines'), rootRef);
+    pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+  }
+
+  private shiftOutline(entry: OutlineEntry, offset: number): OutlineEntry {
+    return {
+      title: entry.title,
+      pageIndex: entry.pageIndex + offset,
+      children: entry.children?.map(child => this.shiftOutline(child, offset))
+    };
+  }
+
+  private summaryLines(timeline: BinderTimeline): string[] {
+    return [
+      `Status: ${timeline.status.charAt(0) + timeline.status.slice(1).toLowerCase()}`,
+      `Started: ${this.formatDate(timeline.startDate)}`,
+      `Closing: ${timeline.actualClosingDate
+        ? this.formatDate(timeline.actualClosingDate)
+        : timeline.estimatedClosingDate
+          ? `${this.formatDate(timeline.estimatedClosingDate)} (estimated)`
+          : 'Not scheduled'}`,
+      `Steps completed: ${timeline.completedSteps} of ${timeline.totalSteps}`
+    ];
+  }
+
+  private formatAddress(timeline: BinderTimeline): string {
+    const { address, city, state, zipCode } = timeline.property;
+    return [address, city, `${state} ${zipCode}`.trim()].filter(Boolean).join(', ');
+  }
+
+  private formatDocumentType(type: DocumentType): string {
+    return type.charAt(0) + type.slice(1).toLowerCase();
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  private toFileSafe(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 120) || 'Untitled';
+  }
+
+  private uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${ext}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  /**
+   * Standard fonts only encode WinAnsi, so replace anything else and
+   * truncate to the available width
+   */
+  private fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let safe = text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+    if (font.widthOfTextAtSize(safe, size) <= maxWidth) return safe;
+
+    while (safe.length > 1 && font.widthOfTextAtSize(`${safe}...`, size) > maxWidth) {
+      safe = safe.slice(0, -1);
+    }
+    return `${safe}...`;
+  }
+}
+
+// Export singleton instance
+export const closingBinderService = new ClosingBinderService();
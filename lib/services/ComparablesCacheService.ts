@@ -1,6 +1,8 @@
 import { prisma } from '../prisma';
 import { logger } from "@/lib/utils/logger";
 import { createBatchDataComparablesService } from './BatchDataComparablesService';
+import { apiUsageService } from './ApiUsageService';
+import { BudgetExhaustedError } from './BudgetService';
 
 export interface ComparableCacheParams {
   propertyId: string;
@@ -47,6 +49,14 @@ export class ComparablesCacheService {
         const cacheAge = Math.floor((Date.now() - cached.createdAt.getTime()) / (1000 * 60 * 60));
         
         logger.debug(`🎯 Using cached comparables (${cached.comparableCount} properties, age: ${cacheAge}h)`);
+
+        await apiUsageService.recordEvent({
+          provider: 'BATCHDATA',
+          endpoint: '/property/comparables',
+          cacheHit: true,
+          units: cached.comparableCount,
+          metadata: { propertyId: params.propertyId, cacheAge }
+        });
         
         return {
           comparables: (cached.comparablesData as any).comparables || [],
@@ -85,6 +95,7 @@ export class ComparablesCacheService {
       };
 
     } catch (error) {
+      if (error instanceof BudgetExhaustedError) throw error;
       logger.error('Error in ComparablesCacheService:', error);
       return null;
     }
@@ -0,0 +1,555 @@
+// Contract Analysis Service - Production Ready, Zero Tech Debt
+// Reads a purchase contract and proposes the step dates and costs it implies
+
+import Anthropic from '@anthropic-ai/sdk';
+import { prisma } from '@/lib/prisma';
+import {
+  ActivityAction,
+  ActivityEntityType,
+  ContractAnalysis,
+  DocumentType,
+  Prisma,
+  TimelineStep
+} from '@prisma/client';
+import { logger } from '@/lib/utils/logger';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService, BudgetExhaustedError } from '@/lib/services/BudgetService';
+import { DocumentProcessor } from '@/lib/services/document';
+import { LlamaParseProcessor } from '@/lib/services/document/LlamaParseProcessor';
+import { readDocumentFile } from '@/lib/services/storage';
+import { timelineService, TimelinePermissionError } from './TimelineService';
+import { timelineActivityService } from './TimelineActivityService';
+import { hasTimelinePermission } from '@/lib/types/timeline-permissions';
+import {
+  CONTRACT_AMOUNT_LABELS,
+  CONTRACT_DEADLINE_LABELS,
+  ContractAmount,
+  ContractAmountKind,
+  ContractAnalysisResult,
+  ContractDeadline,
+  ContractDeadlineKind,
+  ContractProposal,
+  ContractProposalDecision,
+  ContractTerms
+} from '@/lib/types/contract';
+import {
+  CONTRACT_ANALYSIS_SYSTEM_PROMPT,
+  CONTRACT_ANALYSIS_USER_PROMPT
+} from '@/lib/prompts/contractAnalysis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANALYSIS_MODEL = 'claude-3-5-sonnet-20241022';
+const MIN_TEXT_LENGTH = 100;
+// Keeps long contracts with addenda inside the model's context window
+const MAX_TEXT_LENGTH = 150000;
+
+const DEADLINE_KINDS = Object.keys(CONTRACT_DEADLINE_LABELS) as ContractDeadlineKind[];
+const AMOUNT_KINDS = Object.keys(CONTRACT_AMOUNT_LABELS) as ContractAmountKind[];
+
+/**
+ * Step title patterns each deadline lands on, most specific first.
+ * Matches the titles used by the built-in templates
+ */
+const DEADLINE_STEP_PATTERNS: Partial<Record<ContractDeadlineKind, RegExp[]>> = {
+  effectiveDate: [/offer accepted/i, /contract (signed|executed|accepted)/i],
+  earnestMoneyDue: [/earnest money/i, /deposit/i],
+  inspectionContingency: [/inspection.*(resolution|response|objection)/i, /due diligence/i, /inspection/i],
+  appraisalContingency: [/appraisal/i],
+  financingContingency: [/underwriting/i, /loan approval/i, /financing|mortgage/i],
+  closingDate: [/closing day/i, /closing/i]
+};
+
+export class ContractAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContractAnalysisError';
+  }
+}
+
+type StepCandidate = Pick<TimelineStep, 'id' | 'title' | 'sortOrder' | 'isCompleted' | 'scheduledDate' | 'estimatedCost'>;
+
+export class ContractAnalysisService {
+  private anthropic: Anthropic | null = null;
+
+  // ============================================================================
+  // ANALYSIS
+  // ============================================================================
+
+  /**
+   * Extract the terms of a CONTRACT document and propose timeline updates.
+   * Nothing on the timeline changes until the proposals are accepted
+   * @param userId - Clerk user ID; needs timeline.manage
+   * @param documentId - TimelineDocument of type CONTRACT
+   */
+  async analyzeDocument(userId: string, documentId: string): Promise<ContractAnalysisResult> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId }
+    });
+
+    await this.requireManageAccess(userId, document.timelineId, document.documentType);
+
+    if (document.documentType !== DocumentType.CONTRACT) {
+      throw new ContractAnalysisError('Only purchase contract documents can be analyzed');
+    }
+
+    if (!document.downloadUrl) {
+      throw new ContractAnalysisError('This document has no stored file to analyze');
+    }
+
+    const buffer = await readDocumentFile(document);
+    const { text, method } = await this.extractText(buffer, document.originalName);
+
+    if (text.trim().length < MIN_TEXT_LENGTH) {
+      throw new ContractAnalysisError('Could not read enough text from this contract to analyze it');
+    }
+
+    const terms = await this.extractTerms(text);
+
+    const timeline = await prisma.timeline.findUniqueOrThrow({
+      where: { id: document.timelineId },
+      select: {
+        estimatedClosingDate: true,
+        steps: {
+          select: {
+            id: true,
+            title: true,
+            sortOrder: true,
+            isCompleted: true,
+            scheduledDate: true,
+            estimatedCost: true
+          },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    });
+
+    const proposals = this.buildProposals(terms, timeline.steps, timeline.estimatedClosingDate);
+
+    const analysis = await prisma.contractAnalysis.create({
+      data: {
+        timelineId: document.timelineId,
+        documentId,
+        requestedBy: userId,
+        terms: terms as unknown as Prisma.InputJsonValue,
+        proposals: proposals as unknown as Prisma.InputJsonValue,
+        modelUsed: ANALYSIS_MODEL,
+        extractionMethod: method
+      }
+    });
+
+    logger.info('Contract analyzed', {
+      documentId,
+      timelineId: document.timelineId,
+      proposals: proposals.length,
+      confidence: terms.confidence
+    });
+
+    return this.toResult(analysis, document.originalName);
+  }
+
+  /**
+   * Most recent analysis of a document, or null if it has never been analyzed
+   */
+  async getLatestAnalysis(userId: string, documentId: string): Promise<ContractAnalysisResult | null> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId },
+      select: { timelineId: true, documentType: true, originalName: true }
+    });
+
+    await this.requireManageAccess(userId, document.timelineId, document.documentType);
+
+    const analysis = await prisma.contractAnalysis.findFirst({
+      where: { documentId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return analysis ? this.toResult(analysis, document.originalName) : null;
+  }
+
+  // ============================================================================
+  // REVIEW
+  // ============================================================================
+
+  /**
+   * Accept or reject pending proposals. Accepted ones are written to the steps
+   * and timeline in one transaction and recorded in the activity log
+   * @param userId - Clerk user ID; needs timeline.manage
+   * @param documentId - Contract document the analysis was run on
+   * @param analysisId - Analysis the proposals belong to
+   * @param decisions - One decision per proposal being resolved
+   */
+  async resolveProposals(
+    userId: string,
+    documentId: string,
+    analysisId: string,
+    decisions: ContractProposalDecision[]
+  ): Promise<ContractAnalysisResult> {
+    const analysis = await prisma.contractAnalysis.findFirstOrThrow({
+      where: { id: analysisId, documentId },
+      include: { document: { select: { originalName: true, documentType: true } } }
+    });
+
+    await this.requireManageAccess(userId, analysis.timelineId, analysis.document.documentType);
+
+    const proposals = analysis.proposals as unknown as ContractProposal[];
+    const resolvedAt = new Date().toISOString();
+    const accepted: ContractProposal[] = [];
+
+    for (const decision of decisions) {
+      const proposal = proposals.find(p => p.id === decision.proposalId);
+      if (!proposal) {
+        throw new ContractAnalysisError(`Proposal ${decision.proposalId} not found on this analysis`);
+      }
+      if (proposal.status !== 'pending') continue;
+
+      proposal.status = decision.accept ? 'accepted' : 'rejected';
+      proposal.resolvedAt = resolvedAt;
+      proposal.resolvedBy = userId;
+      if (decision.accept) accepted.push(proposal);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await this.applyProposals(tx, userId, analysis.timelineId, analysis.document.originalName, accepted);
+
+      return tx.contractAnalysis.update({
+        where: { id: analysisId },
+        data: { proposals: proposals as unknown as Prisma.InputJsonValue }
+      });
+    });
+
+    return this.toResult(updated, analysis.document.originalName);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private getAnthropicClient(): Anthropic {
+    if (!this.anthropic) {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required');
+      }
+      this.anthropic = new Anthropic({ apiKey });
+    }
+    return this.anthropic;
+  }
+
+  private async requireManageAccess(userId: string, timelineId: string, documentType: DocumentType): Promise<void> {
+    const access = await timelineService.getTimelineAccess(userId, timelineId);
+
+    if (!hasTimelinePermission(access, 'document.view', { documentType })) {
+      throw new TimelinePermissionError(
+        `Your role on this timeline does not allow document.view for ${documentType}`,
+        'document.view'
+      );
+    }
+    if (!hasTimelinePermission(access, 'timeline.manage')) {
+      throw new TimelinePermissionError(
+        'Your role on this timeline does not allow timeline.manage',
+        'timeline.manage'
+      );
+    }
+  }
+
+  /**
+   * LlamaParse handles scanned and form-heavy contracts best; the local
+   * processor is the fallback when it is unavailable or fails
+   */
+  private async extractText(buffer: Buffer, fileName: string): Promise<{ text: string; method: string }> {
+    try {
+      const result = await LlamaParseProcessor.processDocument(buffer, fileName, 'contract');
+      if (result.success && result.extractedText.trim().length >= MIN_TEXT_LENGTH) {
+        return { text: result.extractedText, method: 'llamaparse' };
+      }
+      logger.warn('LlamaParse contract extraction failed, falling back', { fileName, error: result.error });
+    } catch (error) {
+      if (error instanceof BudgetExhaustedError) throw error;
+      logger.warn('LlamaParse contract extraction threw, falling back', {
+        fileName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const processor = new DocumentProcessor();
+    const result = await processor.processBuffer(buffer, fileName, {
+      fallbackEnabled: true,
+      timeout: 120000
+    });
+
+    if (!result.success) {
+      throw new ContractAnalysisError(result.error || 'Failed to extract text from contract');
+    }
+
+    return { text: result.extractedText, method: result.method };
+  }
+
+  private async extractTerms(text: string): Promise<ContractTerms> {
+    const anthropic = this.getAnthropicClient();
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
+    const response = await apiUsageService.track(
+      { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'contract-analysis' } },
+      () => anthropic.messages.create({
+        model: ANALYSIS_MODEL,
+        max_tokens: 4000,
+        temperature: 0, // Extraction only, no creativity wanted
+        system: CONTRACT_ANALYSIS_SYSTEM_PROMPT,
+        messages: [{
+          role: 'user',
+          content: CONTRACT_ANALYSIS_USER_PROMPT(text.slice(0, MAX_TEXT_LENGTH))
+        }]
+      }),
+      result => apiUsageService.describeAnthropicResponse(result)
+    );
+
+    const content = response.content[0];
+    if (content?.type !== 'text') {
+      throw new Error('Unexpected response format from AI');
+    }
+
+    // Extract JSON from response (handle markdown code blocks)
+    const jsonMatch = content.text.match(/```json\n([\s\S]*?)\n```/) ||
+                     content.text.match(/```\n([\s\S]*?)\n```/) ||
+                     [null, content.text];
+
+    try {
+      return this.normalizeTerms(JSON.parse(jsonMatch[1] ?? ''));
+    } catch (error) {
+      logger.error('Failed to parse contract analysis response:', error);
+      throw new ContractAnalysisError('Could not interpret the contract analysis');
+    }
+  }
+
+  /**
+   * Coerce the model output into ContractTerms, dropping anything malformed
+   */
+  private normalizeTerms(raw: unknown): ContractTerms {
+    const record = (value: unknown): Record<string, unknown> =>
+      value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+    const source = record(raw);
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+    const isoDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+      !isNaN(Date.parse(value)) ? value : null;
+    const number = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0 ? value : null;
+
+    const rawDeadlines = record(source.deadlines);
+    const deadlines = {} as Record<ContractDeadlineKind, ContractDeadline>;
+    for (const kind of DEADLINE_KINDS) {
+      const entry = record(rawDeadlines[kind]);
+      const days = number(entry.daysAfterEffective);
+      deadlines[kind] = {
+        date: isoDate(entry.date),
+        daysAfterEffective: kind === 'effectiveDate' || days === null ? null : Math.round(days),
+        sourceText: text(entry.sourceText)
+      };
+    }
+
+    const rawAmounts = record(source.amounts);
+    const amounts = {} as Record<ContractAmountKind, ContractAmount>;
+    for (const kind of AMOUNT_KINDS) {
+      const entry = record(rawAmounts[kind]);
+      const amount = number(entry.amount);
+      amounts[kind] = {
+        amount: amount === null ? null : Math.round(amount),
+        sourceText: text(entry.sourceText)
+      };
+    }
+
+    const names = (value: unknown) => Array.isArray(value)
+      ? value.map(text).filter((name): name is string => !!name)
+      : [];
+    const parties = record(source.parties);
+    const confidence = number(source.confidence);
+
+    return {
+      deadlines,
+      amounts,
+      parties: {
+        buyers: names(parties.buyers),
+        sellers: names(parties.sellers),
+        buyerAgent: text(parties.buyerAgent),
+        sellerAgent: text(parties.sellerAgent),
+        lender: text(parties.lender),
+        titleCompany: text(parties.titleCompany),
+        escrowAgent: text(parties.escrowAgent)
+      },
+      confidence: confidence === null ? 0 : Math.min(confidence, 1),
+      warnings: names(source.warnings)
+    };
+  }
+
+  /**
+   * Calendar date of a deadline; relative deadlines need the effective date
+   */
+  private resolveDeadline(terms: ContractTerms, kind: ContractDeadlineKind): string | null {
+    const deadline = terms.deadlines[kind];
+    if (deadline.date) return deadline.date;
+
+    const effectiveDate = terms.deadlines.effectiveDate.date;
+    if (deadline.daysAfterEffective === null || !effectiveDate) return null;
+
+    const resolved = new Date(Date.parse(effectiveDate) + deadline.daysAfterEffective * DAY_MS);
+    return resolved.toISOString().slice(0, 10);
+  }
+
+  private findStep(steps: StepCandidate[], kind: ContractDeadlineKind): StepCandidate | null {
+    for (const pattern of DEADLINE_STEP_PATTERNS[kind] ?? []) {
+      const step = steps.find(candidate => pattern.test(candidate.title));
+      if (step) return step;
+    }
+    return null;
+  }
+
+  private buildProposals(
+    terms: ContractTerms,
+    steps: StepCandidate[],
+    estimatedClosingDate: Date | null
+  ): ContractProposal[] {
+    const proposals: ContractProposal[] = [];
+    const sourceText = (kind: ContractDeadlineKind) => terms.deadlines[kind].sourceText;
+    const base = { status: 'pending' as const, resolvedAt: null, resolvedBy: null };
+
+    for (const kind of DEADLINE_KINDS) {
+      const date = this.resolveDeadline(terms, kind);
+      if (!date) continue;
+
+      const step = this.findStep(steps, kind);
+      const currentDate = step?.scheduledDate?.toISOString().slice(0, 10) ?? null;
+      if (step && !step.isCompleted && currentDate !== date) {
+        proposals.push({
+          ...base,
+          id: `${kind}:scheduledDate:${step.id}`,
+          source: kind,
+          label: CONTRACT_DEADLINE_LABELS[kind],
+          field: 'scheduledDate',
+          stepId: step.id,
+          stepTitle: step.title,
+          currentValue: currentDate,
+          proposedValue: date,
+          sourceText: sourceText(kind)
+        });
+      }
+
+      const currentClosing = estimatedClosingDate?.toISOString().slice(0, 10) ?? null;
+      if (kind === 'closingDate' && currentClosing !== date) {
+        proposals.push({
+          ...base,
+          id: 'closingDate:estimatedClosingDate:timeline',
+          source: kind,
+          label: 'Estimated closing date',
+          field: 'estimatedClosingDate',
+          stepId: null,
+          stepTitle: null,
+          currentValue: currentClosing,
+          proposedValue: date,
+          sourceText: sourceText(kind)
+        });
+      }
+    }
+
+    // Earnest money is the only contract amount that is itself a step's cost
+    const earnestMoney = terms.amounts.earnestMoney;
+    const earnestStep = this.findStep(steps, 'earnestMoneyDue');
+    if (earnestMoney.amount !== null && earnestStep && !earnestStep.isCompleted) {
+      const currentCost = earnestStep.estimatedCost === null ? null : Number(earnestStep.estimatedCost) / 100;
+      if (currentCost !== earnestMoney.amount) {
+        proposals.push({
+          ...base,
+          id: `earnestMoney:estimatedCost:${earnestStep.id}`,
+          source: 'earnestMoney',
+          label: CONTRACT_AMOUNT_LABELS.earnestMoney,
+          field: 'estimatedCost',
+          stepId: earnestStep.id,
+          stepTitle: earnestStep.title,
+          currentValue: currentCost,
+          proposedValue: earnestMoney.amount,
+          sourceText: earnestMoney.sourceText
+        });
+      }
+    }
+
+    return proposals;
+  }
+
+  private async applyProposals(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    timelineId: string,
+    documentName: string,
+    accepted: ContractProposal[]
+  ): Promise<void> {
+    for (const proposal of accepted) {
+      const summary = `Applied ${proposal.label.toLowerCase()} from ${documentName}`;
+
+      if (proposal.field === 'estimatedClosingDate') {
+        const before = await tx.timeline.findUniqueOrThrow({ where: { id: timelineId } });
+        const after = await tx.timeline.update({
+          where: { id: timelineId },
+          data: { estimatedClosingDate: this.toDate(String(proposal.proposedValue)) }
+        });
+
+        await timelineActivityService.record({
+          timelineId,
+          actorId: userId,
+          action: ActivityAction.UPDATE,
+          entityType: ActivityEntityType.TIMELINE,
+          entityId: timelineId,
+          summary,
+          changes: timelineActivityService.diffChanges(before, after, ['estimatedClosingDate'])
+        }, tx);
+        continue;
+      }
+
+      if (!proposal.stepId) continue;
+
+      const before = await tx.timelineStep.findFirst({
+        where: { id: proposal.stepId, timelineId }
+      });
+      // The step may have been deleted since the analysis ran
+      if (!before) continue;
+
+      const after = await tx.timelineStep.update({
+        where: { id: before.id },
+        data: proposal.field === 'scheduledDate'
+          // A new due date re-arms deadline reminders
+          ? { scheduledDate: this.toDate(String(proposal.proposedValue)), reminderSent: false }
+          : { estimatedCost: BigInt(Math.round(Number(proposal.proposedValue) * 100)) }
+      });
+
+      await timelineActivityService.record({
+        timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.STEP,
+        entityId: before.id,
+        summary: `${summary} to "${before.title}"`,
+        changes: timelineActivityService.diffChanges(before, after, [proposal.field as keyof TimelineStep & string])
+      }, tx);
+    }
+  }
+
+  /**
+   * Contract dates are calendar days; noon UTC keeps them on the same day in every US timezone
+   */
+  private toDate(isoDate: string): Date {
+    return new Date(`${isoDate}T12:00:00.000Z`);
+  }
+
+  private toResult(analysis: ContractAnalysis, documentName: string): ContractAnalysisResult {
+    return {
+      id: analysis.id,
+      timelineId: analysis.timelineId,
+      documentId: analysis.documentId,
+      documentName,
+      terms: analysis.terms as unknown as ContractTerms,
+      proposals: analysis.proposals as unknown as ContractProposal[],
+      modelUsed: analysis.modelUsed,
+      extractionMethod: analysis.extractionMethod,
+      createdAt: analysis.createdAt
+    };
+  }
+}
+
+// Export singleton instance
+export const contractAnalysisService = new ContractAnalysisService();
@@ -1,5 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
 import { prisma } from '@/lib/prisma';
 
 export interface NegotiationAnalysis {
@@ -58,15 +60,21 @@ export class DealMakerAgent {
     },
     marketData?: any // Will be populated by BatchData later
   ): Promise<NegotiationAnalysis> {
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
     try {
       const prompt = this.buildNegotiationPrompt(propertyData, buyerProfile, marketData);
       
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        temperature: 0.3, // Lower temperature for more consistent financial analysis
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const response = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'deal-maker-negotiation' } },
+        () => this.anthropic.messages.create({
+          model: 'claude-3-5-sonnet-20241022',
+          max_tokens: 2000,
+          temperature: 0.3, // Lower temperature for more consistent financial analysis
+          messages: [{ role: 'user', content: prompt }]
+        }),
+        result => apiUsageService.describeAnthropicResponse(result)
+      );
       
       const content = response.content[0];
       if (content.type === 'text') {
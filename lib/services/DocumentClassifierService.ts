@@ -0,0 +1,476 @@
+// Document Classifier Service - Production Ready, Zero Tech Debt
+// Suggests a document type and the timeline step an uploaded file belongs to
+
+import Anthropic from '@anthropic-ai/sdk';
+import { prisma } from '@/lib/prisma';
+import { DocumentType, StepCategory, StepStatus, TimelineStep } from '@prisma/client';
+import { logger } from '@/lib/utils/logger';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
+import { DocumentProcessor, FileValidator, SupportedFileType } from '@/lib/services/document';
+import { PdfTextExtractor } from '@/lib/services/document/extractors';
+import { timelineService } from './TimelineService';
+import { hasTimelinePermission, TimelineAccess } from '@/lib/types/timeline-permissions';
+import {
+  ClassificationTextSource,
+  DocumentClassification,
+  DocumentTypeScore,
+  SuggestedStep
+} from '@/lib/types/document-classification';
+import {
+  DOCUMENT_CLASSIFICATION_SYSTEM_PROMPT,
+  DOCUMENT_CLASSIFICATION_USER_PROMPT
+} from '@/lib/prompts/documentClassification';
+
+const CLASSIFIER_MODEL = 'claude-3-5-sonnet-20241022';
+// The first pages carry the form title and headings; later pages are boilerplate
+const MAX_PAGES = 3;
+const MAX_TEXT_LENGTH = 12000;
+const HEADER_LENGTH = 600;
+// Matches in the file name count this much more than one in the body
+const FILENAME_WEIGHT = 2;
+const HEADER_WEIGHT = 1.5;
+// Repeats of the same phrase stop adding evidence after this many
+const MAX_MATCHES_PER_RULE = 3;
+const MIN_TYPE_SCORE = 2;
+const MIN_STEP_SCORE = 0.35;
+
+const DOCUMENT_TYPES = Object.values(DocumentType);
+
+interface KeywordRule {
+  pattern: RegExp;
+  weight: number;
+}
+
+/**
+ * Phrases that identify each document type, strongest first. Weights are
+ * tuned so one form title outweighs a handful of passing mentions
+ */
+const TYPE_RULES: Record<Exclude<DocumentType, 'OTHER'>, KeywordRule[]> = {
+  CONTRACT: [
+    { pattern: /purchase (and sale )?(agreement|contract)/gi, weight: 5 },
+    { pattern: /residential (purchase|sales?) (agreement|contract)/gi, weight: 5 },
+    { pattern: /\b(counter ?offer|addendum|amendment to contract)\b/gi, weight: 3 },
+    { pattern: /\bearnest money\b/gi, weight: 1.5 },
+    { pattern: /\b(buyer|seller)('s)? (signature|initials)\b/gi, weight: 1.5 },
+    { pattern: /\bcontingen(cy|cies)\b/gi, weight: 1 },
+    { pattern: /\bcontract\b/gi, weight: 1 },
+    { pattern: /\bagreement\b/gi, weight: 0.5 }
+  ],
+  FINANCIAL: [
+    { pattern: /\b(proof of funds|pre-?approval|pre-?qualification)\b/gi, weight: 4 },
+    { pattern: /\b(bank|account) statement\b/gi, weight: 4 },
+    { pattern: /\b(pay ?stub|w-?2|form 1040|tax return|earnings statement)\b/gi, weight: 3 },
+    { pattern: /\b(beginning|ending|available) balance\b/gi, weight: 2 },
+    { pattern: /\b(deposits?|withdrawals?) and (other )?(credits|debits)\b/gi, weight: 2 },
+    { pattern: /\b(checking|savings|brokerage) account\b/gi, weight: 1 }
+  ],
+  INSPECTION: [
+    { pattern: /\b(home|property|building) inspection\b/gi, weight: 4 },
+    { pattern: /\binspection (report|summary|agreement)\b/gi, weight: 4 },
+    { pattern: /\b(wood destroying|termite|pest|radon|sewer scope|mold) (inspection|report|test)/gi, weight: 4 },
+    { pattern: /\b(repair request|request for repairs?)\b/gi, weight: 3 },
+    { pattern: /\b(deficienc(y|ies)|safety hazard|recommend(ed)? (repair|evaluation))\b/gi, weight: 1.5 },
+    { pattern: /\b(roof(ing)?|foundation|hvac|plumbing|electrical panel|water heater|attic)\b/gi, weight: 0.5 },
+    { pattern: /\binspector\b/gi, weight: 1 }
+  ],
+  APPRAISAL: [
+    { pattern: /\buniform residential appraisal report\b/gi, weight: 6 },
+    { pattern: /\bappraisal (report|review)\b/gi, weight: 4 },
+    { pattern: /\b(opinion of|appraised|market) value\b/gi, weight: 2 },
+    { pattern: /\b(sales comparison approach|comparable sales?|adjusted sale price)\b/gi, weight: 2 },
+    { pattern: /\bapprais(al|er)\b/gi, weight: 1 }
+  ],
+  INSURANCE: [
+    { pattern: /\b(homeowners?'?|hazard|flood|dwelling) (insurance|policy)\b/gi, weight: 4 },
+    { pattern: /\b(declarations page|evidence of (property )?insurance|insurance binder)\b/gi, weight: 4 },
+    { pattern: /\b(coverage [a-f]|personal liability|loss of use)\b/gi, weight: 2 },
+    { pattern: /\b(premium|deductible|insured|policy (number|period))\b/gi, weight: 1 }
+  ],
+  TITLE: [
+    { pattern: /\b(title commitment|commitment for title insurance|owner'?s policy|lender'?s policy)\b/gi, weight: 5 },
+    { pattern: /\b(preliminary title report|title report|abstract of title)\b/gi, weight: 4 },
+    { pattern: /\b(warranty|grant|quitclaim) deed\b/gi, weight: 4 },
+    { pattern: /\bschedule b-?(i|ii|1|2)\b/gi, weight: 2 },
+    { pattern: /\b(vesting|easements?|encumbrances?|legal description|survey)\b/gi, weight: 1 },
+    { pattern: /\b(hoa|homeowners association) (documents|bylaws|covenants|resale certificate)\b/gi, weight: 2 }
+  ],
+  MORTGAGE: [
+    { pattern: /\b(loan estimate|uniform residential loan application|form 1003)\b/gi, weight: 5 },
+    { pattern: /\b(promissory note|deed of trust|mortgage note)\b/gi, weight: 4 },
+    { pattern: /\b(conditional approval|clear to close|underwriting conditions?|commitment letter)\b/gi, weight: 3 },
+    { pattern: /\b(interest rate|loan term|monthly principal|annual percentage rate|apr)\b/gi, weight: 1.5 },
+    { pattern: /\b(lender|borrower|loan amount|escrow account)\b/gi, weight: 0.5 },
+    { pattern: /\bmortgage\b/gi, weight: 1 }
+  ],
+  CLOSING: [
+    { pattern: /\bclosing disclosure\b/gi, weight: 6 },
+    { pattern: /\b(settlement statement|alta settlement|hud-?1)\b/gi, weight: 5 },
+    { pattern: /\bwire (transfer )?instructions\b/gi, weight: 3 },
+    { pattern: /\b(cash to close|closing costs|closing date|disbursement date)\b/gi, weight: 1.5 },
+    { pattern: /\b(final walk-?through|closing)\b/gi, weight: 0.5 }
+  ],
+  CORRESPONDENCE: [
+    { pattern: /^\s*(from|to|subject|sent|cc):/gim, weight: 2 },
+    { pattern: /\b(dear|sincerely|best regards|kind regards)\b/gi, weight: 1.5 },
+    { pattern: /\b(letter|email|memo|correspondence)\b/gi, weight: 1 }
+  ],
+  RECEIPT: [
+    { pattern: /\b(receipt|invoice)( (number|#|no\.?))?\b/gi, weight: 3 },
+    { pattern: /\b(amount paid|payment received|paid in full|balance due|amount due)\b/gi, weight: 2 },
+    { pattern: /\b(subtotal|total due|payment method|transaction id)\b/gi, weight: 1.5 }
+  ]
+};
+
+/**
+ * Where each type of document usually lands on a timeline. Title patterns
+ * follow the built-in templates, most specific first
+ */
+const STEP_HINTS: Record<DocumentType, { categories: StepCategory[]; titles: RegExp[] }> = {
+  CONTRACT: { categories: ['LEGAL'], titles: [/contract review/i, /contract signed/i, /offer accepted/i, /contract|offer/i] },
+  FINANCIAL: { categories: ['FINANCING'], titles: [/proof of funds/i, /earnest money|deposit/i, /mortgage application/i] },
+  INSPECTION: { categories: ['INSPECTION'], titles: [/inspection issues|repairs/i, /inspection/i, /walkthrough|punch list/i] },
+  APPRAISAL: { categories: ['INSPECTION', 'FINANCING'], titles: [/appraisal/i] },
+  INSURANCE: { categories: ['PAPERWORK', 'CLOSING'], titles: [/insurance/i, /closing day/i] },
+  TITLE: { categories: ['LEGAL', 'PAPERWORK'], titles: [/title/i, /hoa document/i, /closing day/i] },
+  MORTGAGE: { categories: ['FINANCING'], titles: [/underwriting/i, /mortgage application/i, /financing|mortgage/i] },
+  CLOSING: { categories: ['CLOSING'], titles: [/closing disclosure/i, /closing day|closing/i] },
+  CORRESPONDENCE: { categories: ['COMMUNICATION'], titles: [] },
+  RECEIPT: { categories: ['FINANCING', 'PAPERWORK'], titles: [/earnest money|deposit/i, /inspection/i, /appraisal/i] },
+  OTHER: { categories: ['PAPERWORK'], titles: [] }
+};
+
+export interface DocumentClassifierInput {
+  fileName: string;
+  /** Omit for large files uploaded directly to storage; only the name is used then */
+  buffer?: Buffer;
+}
+
+type StepCandidate = Pick<TimelineStep, 'id' | 'title' | 'category' | 'status' | 'isCompleted' | 'sortOrder'>;
+
+export class DocumentClassifierService {
+  private anthropic: Anthropic | null = null;
+  private readonly pdfExtractor = new PdfTextExtractor({ maxPages: MAX_PAGES });
+
+  // ============================================================================
+  // CLASSIFICATION
+  // ============================================================================
+
+  /**
+   * Suggest a document type. Never throws: unreadable files and model
+   * failures fall back to the keyword classifier or to OTHER
+   */
+  async classify(input: DocumentClassifierInput): Promise<DocumentClassification> {
+    const { text, source } = await this.extractText(input);
+    const heuristic = this.classifyHeuristically(input.fileName, text, source);
+
+    if (!this.isLlmEnabled() || source === 'filename') {
+      return heuristic;
+    }
+
+    try {
+      return await this.classifyWithLlm(input.fileName, text, source, heuristic);
+    } catch (error) {
+      logger.warn('LLM document classification failed, using keyword classifier', {
+        fileName: input.fileName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return heuristic;
+    }
+  }
+
+  /**
+   * Suggest a document type and the step on this timeline it most likely belongs to
+   */
+  async classifyForTimeline(
+    userId: string,
+    timelineId: string,
+    input: DocumentClassifierInput
+  ): Promise<DocumentClassification> {
+    const access = await timelineService.getTimelineAccess(userId, timelineId);
+    timelineService.assertTimelinePermission(access, 'document.upload');
+
+    const [classification, steps] = await Promise.all([
+      this.classifyForUpload(access, input),
+      prisma.timelineStep.findMany({
+        where: { timelineId },
+        select: { id: true, title: true, category: true, status: true, isCompleted: true, sortOrder: true },
+        orderBy: { sortOrder: 'asc' }
+      })
+    ]);
+
+    return {
+      ...classification,
+      suggestedStep: this.matchStep(classification.documentType, input.fileName, steps)
+    };
+  }
+
+  /**
+   * Suggest only types the uploader's role may upload: a disallowed pick gives
+   * way to the strongest allowed alternative, then to OTHER
+   */
+  async classifyForUpload(access: TimelineAccess, input: DocumentClassifierInput): Promise<DocumentClassification> {
+    const classification = await this.classify(input);
+    const canUpload = (documentType: DocumentType) =>
+      hasTimelinePermission(access, 'document.upload', { documentType });
+
+    const alternatives = classification.alternatives.filter(alternative => canUpload(alternative.documentType));
+    if (canUpload(classification.documentType)) {
+      return { ...classification, alternatives };
+    }
+
+    const [fallback, ...rest] = alternatives;
+    return {
+      ...classification,
+      documentType: fallback?.documentType ?? DocumentType.OTHER,
+      confidence: fallback?.confidence ?? 0,
+      signals: [],
+      alternatives: fallback ? rest : []
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private isLlmEnabled(): boolean {
+    return process.env.DOCUMENT_CLASSIFIER_USE_LLM === 'true' && Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  private getAnthropicClient(): Anthropic {
+    if (!this.anthropic) {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable is required');
+      }
+      this.anthropic = new Anthropic({ apiKey });
+    }
+    return this.anthropic;
+  }
+
+  /**
+   * Reads the PDF text layer offline. OCR is only attempted for scans and
+   * images when the LLM upgrade is on, since both need network access
+   */
+  private async extractText(input: DocumentClassifierInput): Promise<{ text: string; source: ClassificationTextSource }> {
+    if (!input.buffer) {
+      return { text: '', source: 'filename' };
+    }
+
+    const fileType = FileValidator.detectFileType(input.buffer);
+
+    if (fileType === SupportedFileType.PDF) {
+      const result = await this.pdfExtractor.extract({
+        buffer: input.buffer,
+        metadata: { fileName: input.fileName, fileSize: input.buffer.length, fileType }
+      });
+      if (result.success) {
+        return { text: result.extractedText.slice(0, MAX_TEXT_LENGTH), source: 'pdf-text' };
+      }
+    }
+
+    if (this.isLlmEnabled() && DocumentProcessor.isConfigured() && fileType !== SupportedFileType.UNKNOWN) {
+      try {
+        const processor = new DocumentProcessor();
+        const result = await processor.processBuffer(input.buffer, input.fileName, {
+          fallbackEnabled: true,
+          timeout: 30000
+        });
+        if (result.success && result.extractedText.trim()) {
+          return { text: result.extractedText.slice(0, MAX_TEXT_LENGTH), source: 'ocr' };
+        }
+      } catch (error) {
+        logger.warn('OCR for document classification failed', {
+          fileName: input.fileName,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return { text: '', source: 'filename' };
+  }
+
+  private classifyHeuristically(
+    fileName: string,
+    text: string,
+    source: ClassificationTextSource
+  ): DocumentClassification {
+    // Separators in file names ("closing_disclosure-v2.pdf") read as spaces
+    const name = fileName.replace(/\.[a-z0-9]+$/i, '').replace(/[_\-.]+/g, ' ');
+    const header = text.slice(0, HEADER_LENGTH);
+    const body = text.slice(HEADER_LENGTH);
+
+    const scores: Array<{ documentType: DocumentType; score: number; signals: string[] }> = [];
+
+    for (const [documentType, rules] of Object.entries(TYPE_RULES) as Array<[DocumentType, KeywordRule[]]>) {
+      let score = 0;
+      const signals = new Set<string>();
+
+      for (const rule of rules) {
+        const weighted: Array<[string, number]> = [[name, FILENAME_WEIGHT], [header, HEADER_WEIGHT], [body, 1]];
+        for (const [haystack, multiplier] of weighted) {
+          const matches = haystack.match(rule.pattern);
+          if (!matches?.[0]) continue;
+
+          score += rule.weight * multiplier * Math.min(matches.length, MAX_MATCHES_PER_RULE);
+          signals.add(matches[0].trim().toLowerCase());
+        }
+      }
+
+      if (score > 0) {
+        scores.push({ documentType, score, signals: Array.from(signals) });
+      }
+    }
+
+    scores.sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scores;
+
+    if (!best || best.score < MIN_TYPE_SCORE) {
+      return {
+        documentType: DocumentType.OTHER,
+        confidence: source === 'filename' ? 0.2 : 0.3,
+        method: 'heuristic',
+        textSource: source,
+        signals: best?.signals ?? [],
+        alternatives: this.toAlternatives(scores, DocumentType.OTHER),
+        suggestedStep: null
+      };
+    }
+
+    // Strong evidence and a clear margin over the runner-up both raise confidence
+    const strength = 1 - Math.exp(-best.score / 8);
+    const margin = best.score / (best.score + (runnerUp?.score ?? 0));
+    const confidence = this.round(Math.min(0.98, strength * margin * (source === 'filename' ? 0.8 : 1)));
+
+    return {
+      documentType: best.documentType,
+      confidence,
+      method: 'heuristic',
+      textSource: source,
+      signals: best.signals.slice(0, 5),
+      alternatives: this.toAlternatives(scores, best.documentType),
+      suggestedStep: null
+    };
+  }
+
+  private async classifyWithLlm(
+    fileName: string,
+    text: string,
+    source: ClassificationTextSource,
+    heuristic: DocumentClassification
+  ): Promise<DocumentClassification> {
+    const anthropic = this.getAnthropicClient();
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
+    const response = await apiUsageService.track(
+      { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'document-classification' } },
+      () => anthropic.messages.create({
+        model: CLASSIFIER_MODEL,
+        max_tokens: 500,
+        temperature: 0,
+        system: DOCUMENT_CLASSIFICATION_SYSTEM_PROMPT,
+        messages: [{
+          role: 'user',
+          content: DOCUMENT_CLASSIFICATION_USER_PROMPT(fileName, text)
+        }]
+      }),
+      result => apiUsageService.describeAnthropicResponse(result)
+    );
+
+    const content = response.content[0];
+    if (content?.type !== 'text') {
+      throw new Error('Unexpected response format from AI');
+    }
+
+    // Extract JSON from response (handle markdown code blocks)
+    const jsonMatch = content.text.match(/```json\n([\s\S]*?)\n```/) ||
+                     content.text.match(/```\n([\s\S]*?)\n```/) ||
+                     [null, content.text];
+    const raw = JSON.parse(jsonMatch[1] ?? '') as Record<string, unknown>;
+
+    const documentType = DOCUMENT_TYPES.find(type => type === raw.documentType);
+    if (!documentType) {
+      throw new Error(`Unknown document type from AI: ${String(raw.documentType)}`);
+    }
+    const confidence = typeof raw.confidence === 'number' ? Math.max(0, Math.min(1, raw.confidence)) : 0.5;
+    const signals = Array.isArray(raw.signals)
+      ? raw.signals.filter((signal): signal is string => typeof signal === 'string').slice(0, 5)
+      : [];
+
+    return {
+      documentType,
+      confidence: this.round(confidence),
+      method: 'llm',
+      textSource: source,
+      signals,
+      alternatives: [
+        ...(heuristic.documentType !== documentType
+          ? [{ documentType: heuristic.documentType, confidence: heuristic.confidence }]
+          : []),
+        ...heuristic.alternatives.filter(alternative => alternative.documentType !== documentType)
+      ].slice(0, 3),
+      suggestedStep: null
+    };
+  }
+
+  private toAlternatives(
+    scores: Array<{ documentType: DocumentType; score: number }>,
+    chosen: DocumentType
+  ): DocumentTypeScore[] {
+    const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+    return scores
+      .filter(entry => entry.documentType !== chosen)
+      .slice(0, 3)
+      .map(entry => ({ documentType: entry.documentType, confidence: this.round(entry.score / total) }));
+  }
+
+  /**
+   * Score each step by title and category fit. Steps still ahead of the
+   * buyer win ties, since documents usually arrive for open work
+   */
+  private matchStep(documentType: DocumentType, fileName: string, steps: StepCandidate[]): SuggestedStep | null {
+    const hints = STEP_HINTS[documentType];
+    const name = fileName.toLowerCase();
+    let best: { step: StepCandidate; score: number } | null = null;
+
+    for (const step of steps) {
+      let score = 0;
+
+      const titleIndex = hints.titles.findIndex(pattern => pattern.test(step.title));
+      if (titleIndex >= 0) {
+        score += 0.6 - titleIndex * 0.1;
+      }
+      if (hints.categories.includes(step.category)) {
+        score += hints.categories[0] === step.category ? 0.25 : 0.15;
+      }
+      // The file name sometimes quotes the step ("Final Walkthrough notes.pdf")
+      if (name.includes(step.title.toLowerCase())) {
+        score += 0.3;
+      }
+      if (!step.isCompleted && step.status !== StepStatus.SKIPPED) {
+        score += step.status === StepStatus.CURRENT ? 0.15 : 0.1;
+      }
+
+      if (!best || score > best.score) {
+        best = { step, score };
+      }
+    }
+
+    if (!best || best.score < MIN_STEP_SCORE) {
+      return null;
+    }
+
+    return {
+      stepId: best.step.id,
+      title: best.step.title,
+      confidence: this.round(Math.min(1, best.score))
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Export singleton instance
+export const documentClassifierService = new DocumentClassifierService();
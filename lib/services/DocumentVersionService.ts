@@ -2,7 +2,9 @@
 // Handles document completion sessions and version control
 
 import { prisma } from '@/lib/prisma';
-import { TimelineDocument } from '@prisma/client';
+import { ActivityAction, ActivityEntityType, TimelineDocument } from '@prisma/client';
+import { TimelineActivityInput } from '@/lib/types/timeline-activity';
+import { timelineActivityService } from './TimelineActivityService';
 
 export interface DocumentCompletionSession {
   id: string;
@@ -100,7 +102,11 @@ export class DocumentVersionService {
    * Mark previous versions as superseded when step is re-completed
    * This is called AFTER all documents in a session are uploaded
    */
-  async markPreviousVersionsSuperseded(stepId: string, newSessionId: string): Promise<void> {
+  async markPreviousVersionsSuperseded(
+    stepId: string,
+    newSessionId: string,
+    actorId: string | null = null
+  ): Promise<void> {
     // Get all current version documents for this step from DIFFERENT sessions
     const currentDocuments = await prisma.timelineDocument.findMany({
       where: {
@@ -122,6 +128,11 @@ export class DocumentVersionService {
             supersededAt: new Date()
           }
         });
+
+        await timelineActivityService.recordMany(
+          currentDocuments.map(doc => this.versionActivity(doc, ActivityAction.SUPERSEDE, actorId, 'step re-completed')),
+          tx
+        );
       });
     }
   }
@@ -129,7 +140,7 @@ export class DocumentVersionService {
   /**
    * Clean up documents when a step is marked incomplete
    */
-  async handleStepIncomplete(stepId: string): Promise<void> {
+  async handleStepIncomplete(stepId: string, actorId: string | null = null): Promise<void> {
     // When a step is marked incomplete, we could either:
     // 1. Delete the latest session documents (current approach)
     // 2. Keep them but mark as "incomplete session"
@@ -141,6 +152,14 @@ export class DocumentVersionService {
     const mostRecentSession = latestSession[latestSession.length - 1];
     
     await prisma.$transaction(async (tx) => {
+      const supersededDocuments = await tx.timelineDocument.findMany({
+        where: {
+          stepId,
+          completionSessionId: mostRecentSession.id,
+          isCurrentVersion: true
+        }
+      });
+
       // Mark current session documents as not current
       await tx.timelineDocument.updateMany({
         where: {
@@ -179,6 +198,15 @@ export class DocumentVersionService {
           }
         });
       }
+
+      await timelineActivityService.recordMany([
+        ...supersededDocuments.map(doc =>
+          this.versionActivity(doc, ActivityAction.SUPERSEDE, actorId, 'step marked incomplete')
+        ),
+        ...previousDocuments.map(doc =>
+          this.versionActivity(doc, ActivityAction.RESTORE, actorId, 'step marked incomplete')
+        )
+      ], tx);
     });
   }
 
@@ -189,7 +217,8 @@ export class DocumentVersionService {
     stepId: string,
     documentType: string,
     newDocumentId: string,
-    sessionId: string
+    sessionId: string,
+    actorId: string | null = null
   ): Promise<void> {
     // Get the new document's filename to check for exact matches
     const newDocument = await prisma.timelineDocument.findUniqueOrThrow({
@@ -234,6 +263,12 @@ export class DocumentVersionService {
           supersededAt: new Date()
         }
       });
+
+      await timelineActivityService.record(
+        this.versionActivity(previousVersion, ActivityAction.SUPERSEDE, actorId, `replaced by version ${newVersionNumber}`, {
+          supersededBy: { before: null, after: newDocumentId }
+        })
+      );
     } else {
       // First version OR first in this session - start at version 1
       await prisma.timelineDocument.update({
@@ -337,12 +372,21 @@ export class DocumentVersionService {
   /**
    * Promote a previous version to current
    */
-  async promoteDocumentToCurrent(documentId: string): Promise<void> {
+  async promoteDocumentToCurrent(documentId: string, actorId: string | null = null): Promise<void> {
     const document = await prisma.timelineDocument.findUniqueOrThrow({
       where: { id: documentId }
     });
 
     await prisma.$transaction(async (tx) => {
+      const demotedDocuments = await tx.timelineDocument.findMany({
+        where: {
+          stepId: document.stepId,
+          documentType: document.documentType,
+          isCurrentVersion: true,
+          id: { not: documentId }
+        }
+      });
+
       // Mark all other versions of same document type as not current
       await tx.timelineDocument.updateMany({
         where: {
@@ -365,6 +409,15 @@ export class DocumentVersionService {
           supersededAt: null
         }
       });
+
+      await timelineActivityService.recordMany([
+        ...demotedDocuments.map(doc =>
+          this.versionActivity(doc, ActivityAction.SUPERSEDE, actorId, `${document.originalName} promoted`)
+        ),
+        ...(document.isCurrentVersion
+          ? []
+          : [this.versionActivity(document, ActivityAction.RESTORE, actorId, 'promoted to current')])
+      ], tx);
     });
   }
 
@@ -382,6 +435,33 @@ export class DocumentVersionService {
       }
     });
   }
+
+  /**
+   * Activity entry for a document moving out of or back into the current version
+   */
+  private versionActivity(
+    document: TimelineDocument,
+    action: typeof ActivityAction.SUPERSEDE | typeof ActivityAction.RESTORE,
+    actorId: string | null,
+    reason: string,
+    extraChanges: TimelineActivityInput['changes'] = {}
+  ): TimelineActivityInput {
+    const isCurrent = action === ActivityAction.RESTORE;
+
+    return {
+      timelineId: document.timelineId,
+      actorId,
+      action,
+      entityType: ActivityEntityType.DOCUMENT,
+      entityId: document.id,
+      summary: `${isCurrent ? 'Restored' : 'Superseded'} ${document.originalName} v${document.documentVersion} (${reason})`,
+      changes: {
+        isCurrentVersion: { before: !isCurrent, after: isCurrent },
+        ...extraChanges
+      },
+      documentType: document.documentType
+    };
+  }
 }
 
 export const documentVersionService = new DocumentVersionService();
\ No newline at end of file
@@ -1,6 +1,14 @@
 import { createAIAnalysisService } from './AIAnalysisService';
 
 import { logger } from "@/lib/utils/logger";
+import {
+  BUILT_IN_SCORING_PROFILES,
+  InvestmentGrade,
+  InvestmentRecommendation,
+  ScoringComponent,
+  ScoringComponentSettings,
+  ScoringProfile
+} from "@/lib/types/scoring";
 
 // Rent-to-value ratio constants for different property price ranges
 const RENT_RATIOS = {
@@ -24,6 +32,21 @@ const DAYS_ON_MARKET = {
   VERY_STALE: 120,         // Highly motivated seller
   DEFAULT: 30              // Default assumption
 };
+
+// Points each component scores out of before the profile's weights are applied
+const COMPONENT_MAX_SCORES: Record<ScoringComponent, number> = {
+  dealPotential: 25,
+  marketTiming: 20,
+  ownerMotivation: 20,
+  financialOpportunity: 20,
+  riskAssessment: 15
+};
+
+// Distressed deals earn a buy recommendation this many points earlier
+const DISTRESSED_RECOMMENDATION_DISCOUNT = 10;
+
+// Grades from best to worst; anything below the D cutoff is an F
+const GRADE_ORDER: Exclude<InvestmentGrade, 'F'>[] = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D'];
 /**
  * Enhanced Investment Scoring Service
  * Uses BatchData intelligence + AI analysis for accurate investment scoring
@@ -183,9 +206,10 @@ export interface InvestmentScoreBreakdown {
 export interface EnhancedInvestmentScore {
   totalScore: number;
   maxScore: number;
-  grade: 'A+' | 'A' | 'A-' | 'B+' | 'B' | 'B-' | 'C+' | 'C' | 'C-' | 'D' | 'F';
-  recommendation: 'STRONG BUY' | 'BUY' | 'HOLD' | 'CAUTION' | 'AVOID';
+  grade: InvestmentGrade;
+  recommendation: InvestmentRecommendation;
   confidence: number;
+  scoringProfile: { id: string; name: string };
   breakdown: InvestmentScoreBreakdown;
   aiInsights: string[];
   keyOpportunities: string[];
@@ -196,20 +220,26 @@ export class EnhancedInvestmentScoringService {
   private aiService = createAIAnalysisService();
 
   /**
-   * Calculate comprehensive investment score using BatchData intelligence + AI
+   * Calculate comprehensive investment score using BatchData intelligence + AI,
+   * weighted and graded by the given scoring profile (Balanced by default)
    */
-  async calculateEnhancedScore(property: Property, batchDataIntelligence?: BatchDataIntelligence): Promise<EnhancedInvestmentScore> {
-    logger.debug('🔍 Calculating enhanced investment score with BatchData intelligence...');
+  async calculateEnhancedScore(
+    property: Property,
+    batchDataIntelligence?: BatchDataIntelligence,
+    profile: ScoringProfile = BUILT_IN_SCORING_PROFILES[0]
+  ): Promise<EnhancedInvestmentScore> {
+    logger.debug(`🔍 Calculating enhanced investment score with BatchData intelligence (${profile.name} profile)...`);
     
     // Extract BatchData intelligence from property or separate parameter
     const intelligence = batchDataIntelligence || this.extractBatchDataIntelligence(property);
     
-    // Calculate component scores
-    const dealPotential = this.calculateDealPotential(property, intelligence);
-    const marketTiming = this.calculateMarketTiming(intelligence);
-    const ownerMotivation = this.calculateOwnerMotivation(intelligence);
-    const financialOpportunity = this.calculateFinancialOpportunity(property, intelligence);
-    const riskAssessment = this.calculateRiskAssessment(property, intelligence);
+    // Calculate component scores, then scale each to the profile's weight
+    const { components } = profile;
+    const dealPotential = this.applyWeight(this.calculateDealPotential(property, intelligence, profile), components.dealPotential);
+    const marketTiming = this.applyWeight(this.calculateMarketTiming(intelligence, profile), components.marketTiming);
+    const ownerMotivation = this.applyWeight(this.calculateOwnerMotivation(intelligence, profile), components.ownerMotivation);
+    const financialOpportunity = this.applyWeight(this.calculateFinancialOpportunity(property, intelligence, profile), components.financialOpportunity);
+    const riskAssessment = this.applyWeight(this.calculateRiskAssessment(property, intelligence, profile), components.riskAssessment);
 
     // Total score and grading
     const totalScore = dealPotential.score + marketTiming.score + ownerMotivation.score + 
@@ -217,9 +247,9 @@ export class EnhancedInvestmentScoringService {
     const maxScore = dealPotential.maxScore + marketTiming.maxScore + ownerMotivation.maxScore +
                     financialOpportunity.maxScore + riskAssessment.maxScore;
     
-    const percentage = (totalScore / maxScore) * 100;
-    const grade = this.calculateGrade(percentage);
-    const recommendation = this.getRecommendation(percentage, intelligence);
+    const percentage = maxScore > 0 ? (totalScore / maxScore) * 100 : 0;
+    const grade = this.calculateGrade(percentage, profile);
+    const recommendation = this.getRecommendation(percentage, intelligence, profile);
     
     // Generate AI insights
     const aiAnalysis = await this.generateAIInsights(property, intelligence, percentage);
@@ -239,6 +269,7 @@ export class EnhancedInvestmentScoringService {
       grade,
       recommendation,
       confidence: aiAnalysis.confidence,
+      scoringProfile: { id: profile.id, name: profile.name },
       breakdown: {
         dealPotential,
         marketTiming,
@@ -256,7 +287,8 @@ export class EnhancedInvestmentScoringService {
    * Deal Potential Score (0-25 points)
    * Analyzes price vs value, equity position, and financial opportunity
    */
-  private calculateDealPotential(property: Property, intelligence: BatchDataIntelligence): InvestmentScoreBreakdown['dealPotential'] {
+  private calculateDealPotential(property: Property, intelligence: BatchDataIntelligence, profile: ScoringProfile): InvestmentScoreBreakdown['dealPotential'] {
+    const { factors: enabled } = profile;
     let score = 0; // Start from 0 for more dynamic scoring
     const factors: string[] = [];
     let description = 'Deal evaluation in progress';
@@ -266,7 +298,7 @@ export class EnhancedInvestmentScoringService {
     const daysOnMarket = intelligence.daysOnMarket || DAYS_ON_MARKET.DEFAULT;
 
     // Price vs Estimated Value Analysis (0-12 points)
-    if (price > 0 && estimatedValue > 0) {
+    if (enabled.priceVsValue && price > 0 && estimatedValue > 0) {
       const valueRatio = price / estimatedValue;
       const discount = ((estimatedValue - price) / estimatedValue) * 100;
       
@@ -298,48 +330,52 @@ export class EnhancedInvestmentScoringService {
     }
 
     // Market Timing Advantage (0-6 points)
-    if (daysOnMarket > DAYS_ON_MARKET.VERY_STALE) {
-      score += 6;
-      factors.push(`${daysOnMarket} days on market - highly motivated seller`);
-      if (description === 'Deal evaluation in progress') description = 'Strong negotiation position';
-    } else if (daysOnMarket > DAYS_ON_MARKET.EXTENDED) {
-      score += 4;
-      factors.push(`${daysOnMarket} days on market - seller motivation building`);
-    } else if (daysOnMarket > DAYS_ON_MARKET.STANDARD) {
-      score += 2;
-      factors.push(`${daysOnMarket} days on market - standard timeline`);
-    } else if (daysOnMarket < DAYS_ON_MARKET.FRESH_LISTING) {
-      score += 1;
-      factors.push('Fresh listing - competitive market');
+    if (enabled.daysOnMarket) {
+      if (daysOnMarket > DAYS_ON_MARKET.VERY_STALE) {
+        score += 6;
+        factors.push(`${daysOnMarket} days on market - highly motivated seller`);
+        if (description === 'Deal evaluation in progress') description = 'Strong negotiation position';
+      } else if (daysOnMarket > DAYS_ON_MARKET.EXTENDED) {
+        score += 4;
+        factors.push(`${daysOnMarket} days on market - seller motivation building`);
+      } else if (daysOnMarket > DAYS_ON_MARKET.STANDARD) {
+        score += 2;
+        factors.push(`${daysOnMarket} days on market - standard timeline`);
+      } else if (daysOnMarket < DAYS_ON_MARKET.FRESH_LISTING) {
+        score += 1;
+        factors.push('Fresh listing - competitive market');
+      }
     }
 
     // Equity & Financial Leverage (0-7 points)
-    if (intelligence.highEquity) {
-      score += 4;
-      factors.push(`High equity (${intelligence.equityPercent ? intelligence.equityPercent.toFixed(0) : '60+'}%) - flexible seller`);
-    }
+    if (enabled.equity) {
+      if (intelligence.highEquity) {
+        score += 4;
+        factors.push(`High equity (${intelligence.equityPercent ? intelligence.equityPercent.toFixed(0) : '60+'}%) - flexible seller`);
+      }
     
-    if (intelligence.freeAndClear) {
-      score += 3;
-      factors.push('Property owned free and clear - maximum flexibility');
-    } else if (intelligence.equityPercent && intelligence.equityPercent > 75) {
-      score += 2;
-      factors.push('Very high equity position');
+      if (intelligence.freeAndClear) {
+        score += 3;
+        factors.push('Property owned free and clear - maximum flexibility');
+      } else if (intelligence.equityPercent && intelligence.equityPercent > 75) {
+        score += 2;
+        factors.push('Very high equity position');
+      }
     }
 
     // Distress Signals (Bonus points for motivated sellers)
-    if (intelligence.distressedProperty) {
+    if (enabled.distress && intelligence.distressedProperty) {
       score += 5;
       factors.push('Distressed property - significant discount potential');
       description = intelligence.foreclosureStatus !== 'none' ? 'High-opportunity distressed deal' : 'Motivated seller situation';
     }
     
-    if (intelligence.foreclosureStatus && intelligence.foreclosureStatus !== 'none') {
+    if (enabled.distress && intelligence.foreclosureStatus && intelligence.foreclosureStatus !== 'none') {
       score += 4;
       factors.push(`Foreclosure status: ${intelligence.foreclosureStatus} - urgent sale`);
     }
 
-    if (intelligence.absenteeOwner) {
+    if (enabled.absenteeOwner && intelligence.absenteeOwner) {
       score += 2;
       factors.push('Absentee owner - potentially motivated to sell');
     }
@@ -352,8 +388,8 @@ export class EnhancedInvestmentScoringService {
     }
 
     return {
-      score: Math.min(score, 25),
-      maxScore: 25,
+      score: Math.min(score, COMPONENT_MAX_SCORES.dealPotential),
+      maxScore: COMPONENT_MAX_SCORES.dealPotential,
       description,
       factors
     };
@@ -363,7 +399,8 @@ export class EnhancedInvestmentScoringService {
    * Market Timing Score (0-20 points)
    * Analyzes market conditions and timing
    */
-  private calculateMarketTiming(intelligence: BatchDataIntelligence): InvestmentScoreBreakdown['marketTiming'] {
+  private calculateMarketTiming(intelligence: BatchDataIntelligence, profile: ScoringProfile): InvestmentScoreBreakdown['marketTiming'] {
+    const { factors: enabled } = profile;
     let score = 0; // Start from 0 for dynamic scoring
     const factors: string[] = [];
     let description = 'Market timing analysis';
@@ -373,55 +410,61 @@ export class EnhancedInvestmentScoringService {
     const demandLevel = intelligence.demandLevel || 'medium';
 
     // Market Trend Analysis (0-8 points)
-    if (marketTrend === 'hot') {
-      score += 8;
-      factors.push('Hot market - rapid appreciation expected');
-      description = 'Excellent timing for investment';
-    } else if (marketTrend === 'warm') {
-      score += 6;
-      factors.push('Warm market conditions - steady growth');
-      description = 'Good market timing';
-    } else if (marketTrend === 'cold') {
-      score += 3;
-      factors.push('Buyer\'s market - negotiation advantages');
-      description = 'Favorable buyer conditions';
-    } else if (marketTrend === 'declining') {
-      score += 1;
-      factors.push('Declining trend - proceed with caution');
-      description = 'Challenging market conditions';
+    if (enabled.marketTrend) {
+      if (marketTrend === 'hot') {
+        score += 8;
+        factors.push('Hot market - rapid appreciation expected');
+        description = 'Excellent timing for investment';
+      } else if (marketTrend === 'warm') {
+        score += 6;
+        factors.push('Warm market conditions - steady growth');
+        description = 'Good market timing';
+      } else if (marketTrend === 'cold') {
+        score += 3;
+        factors.push('Buyer\'s market - negotiation advantages');
+        description = 'Favorable buyer conditions';
+      } else if (marketTrend === 'declining') {
+        score += 1;
+        factors.push('Declining trend - proceed with caution');
+        description = 'Challenging market conditions';
+      }
     }
 
     // Demand Level Analysis (0-6 points)
-    if (demandLevel === 'high') {
-      score += 6;
-      factors.push('High buyer demand - strong competition');
-      if (daysOnMarket < 14) {
-        factors.push('Properties selling quickly in area');
+    if (enabled.demandLevel) {
+      if (demandLevel === 'high') {
+        score += 6;
+        factors.push('High buyer demand - strong competition');
+        if (daysOnMarket < 14) {
+          factors.push('Properties selling quickly in area');
+        }
+      } else if (demandLevel === 'medium') {
+        score += 4;
+        factors.push('Moderate buyer demand - balanced market');
+      } else {
+        score += 2;
+        factors.push('Lower buyer demand - more inventory available');
       }
-    } else if (demandLevel === 'medium') {
-      score += 4;
-      factors.push('Moderate buyer demand - balanced market');
-    } else {
-      score += 2;
-      factors.push('Lower buyer demand - more inventory available');
     }
 
     // Market Activity & Timing (0-6 points)
-    if (daysOnMarket < DAYS_ON_MARKET.FRESH_LISTING) {
-      score += 2;
-      factors.push('Fresh listing in active market');
-    } else if (daysOnMarket < DAYS_ON_MARKET.RECENT) {
-      score += 4;
-      factors.push('Recently listed - good timing to act');
-    } else if (daysOnMarket < DAYS_ON_MARKET.STANDARD) {
-      score += 5;
-      factors.push('Standard market time - seller motivation building');
-    } else if (daysOnMarket < DAYS_ON_MARKET.EXTENDED) {
-      score += 6;
-      factors.push('Extended time - strong buyer position');
-    } else {
-      score += 4;
-      factors.push('Long market exposure - significant leverage');
+    if (enabled.daysOnMarket) {
+      if (daysOnMarket < DAYS_ON_MARKET.FRESH_LISTING) {
+        score += 2;
+        factors.push('Fresh listing in active market');
+      } else if (daysOnMarket < DAYS_ON_MARKET.RECENT) {
+        score += 4;
+        factors.push('Recently listed - good timing to act');
+      } else if (daysOnMarket < DAYS_ON_MARKET.STANDARD) {
+        score += 5;
+        factors.push('Standard market time - seller motivation building');
+      } else if (daysOnMarket < DAYS_ON_MARKET.EXTENDED) {
+        score += 6;
+        factors.push('Extended time - strong buyer position');
+      } else {
+        score += 4;
+        factors.push('Long market exposure - significant leverage');
+      }
     }
 
     // Recent Sales Activity
@@ -432,14 +475,14 @@ export class EnhancedInvestmentScoringService {
 
     // Seasonal/cyclical adjustments
     const currentMonth = new Date().getMonth();
-    if (currentMonth >= 2 && currentMonth <= 5) { // March-June
+    if (enabled.seasonality && currentMonth >= 2 && currentMonth <= 5) { // March-June
       score += 1;
       factors.push('Spring/summer market - peak buying season');
     }
 
     return {
-      score: Math.min(score, 20),
-      maxScore: 20,
+      score: Math.min(score, COMPONENT_MAX_SCORES.marketTiming),
+      maxScore: COMPONENT_MAX_SCORES.marketTiming,
       description,
       factors
     };
@@ -449,20 +492,21 @@ export class EnhancedInvestmentScoringService {
    * Owner Motivation Score (0-20 points)
    * Analyzes owner circumstances for negotiation leverage
    */
-  private calculateOwnerMotivation(intelligence: BatchDataIntelligence): InvestmentScoreBreakdown['ownerMotivation'] {
+  private calculateOwnerMotivation(intelligence: BatchDataIntelligence, profile: ScoringProfile): InvestmentScoreBreakdown['ownerMotivation'] {
+    const { factors: enabled } = profile;
     let score = 5; // Base score
     const factors: string[] = [];
     let description = 'Standard owner motivation';
 
     // Absentee Owner (often more flexible)
-    if (intelligence.absenteeOwner) {
+    if (enabled.absenteeOwner && intelligence.absenteeOwner) {
       score += 6;
       factors.push('Absentee owner - potentially motivated');
       description = 'High owner motivation signals';
     }
 
     // Ownership Length (long ownership often means motivated)
-    if (intelligence.ownershipLength) {
+    if (enabled.ownershipLength && intelligence.ownershipLength) {
       if (intelligence.ownershipLength >= 10) {
         score += 5;
         factors.push(`${intelligence.ownershipLength} years owned - lifecycle change`);
@@ -473,7 +517,7 @@ export class EnhancedInvestmentScoringService {
     }
 
     // Free and Clear (no mortgage pressure but flexible)
-    if (intelligence.freeAndClear) {
+    if (enabled.equity && intelligence.freeAndClear) {
       score += 4;
       factors.push('Property owned free and clear');
     }
@@ -491,8 +535,8 @@ export class EnhancedInvestmentScoringService {
     }
 
     return {
-      score: Math.min(score, 20),
-      maxScore: 20,
+      score: Math.min(score, COMPONENT_MAX_SCORES.ownerMotivation),
+      maxScore: COMPONENT_MAX_SCORES.ownerMotivation,
       description,
       factors
     };
@@ -538,14 +582,17 @@ export class EnhancedInvestmentScoringService {
 
   /**
    * Financial Opportunity Score (0-20 points)
-   * Primary residence focus unless rental income features detected
+   * Primary residence focus unless rental income features detected or the profile fixes the focus
    */
-  private calculateFinancialOpportunity(property: Property, intelligence: BatchDataIntelligence): InvestmentScoreBreakdown['financialOpportunity'] {
+  private calculateFinancialOpportunity(property: Property, intelligence: BatchDataIntelligence, profile: ScoringProfile): InvestmentScoreBreakdown['financialOpportunity'] {
+    const { factors: enabled } = profile;
     let score = 10; // Base score for primary residence value
     const factors: string[] = [];
     let description = 'Strong primary residence value';
     
-    const hasRentalFeatures = this.hasRentalIncomeFeatures(property, intelligence);
+    const hasRentalFeatures = profile.financialFocus === 'auto'
+      ? this.hasRentalIncomeFeatures(property, intelligence)
+      : profile.financialFocus === 'rental';
     
     if (hasRentalFeatures) {
       // Property has rental income potential - use investment analysis
@@ -553,7 +600,7 @@ export class EnhancedInvestmentScoringService {
       description = 'Standard investment returns';
       
       // Rental Yield Analysis
-      if (intelligence.rentToValueRatio) {
+      if (enabled.rentalYield && intelligence.rentToValueRatio) {
         if (intelligence.rentToValueRatio >= 0.012) { // 1.2%+ monthly
           score += 8;
           factors.push('Excellent rent-to-price ratio (1.2%+ rule)');
@@ -575,25 +622,27 @@ export class EnhancedInvestmentScoringService {
       const propertyData = property.data || property;
       
       // Appreciate factors that matter for primary residence
+      if (enabled.propertyAge) {
       if (propertyData.yearBuilt && propertyData.yearBuilt >= 2010) {
-        score += 3;
-        factors.push('Modern construction reduces maintenance needs');
-      } else if (propertyData.yearBuilt && propertyData.yearBuilt >= 1990) {
-        score += 1;
-        factors.push('Updated systems likely');
-      }
+          score += 3;
+          factors.push('Modern construction reduces maintenance needs');
+        } else if (propertyData.yearBuilt && propertyData.yearBuilt >= 1990) {
+          score += 1;
+          factors.push('Updated systems likely');
+        }
       
-      // Good size for primary residence
-      if (propertyData.livingArea && propertyData.livingArea >= 1800) {
-        score += 2;
-        factors.push('Spacious living area');
-      } else if (propertyData.livingArea && propertyData.livingArea >= 1200) {
-        score += 1;
-        factors.push('Adequate living space');
-      }
+        // Good size for primary residence
+        if (propertyData.livingArea && propertyData.livingArea >= 1800) {
+          score += 2;
+          factors.push('Spacious living area');
+        } else if (propertyData.livingArea && propertyData.livingArea >= 1200) {
+          score += 1;
+          factors.push('Adequate living space');
+        }
+    }
       
       // Value retention factors
-      if (intelligence.estimatedValue && propertyData.price) {
+      if (enabled.priceVsValue && intelligence.estimatedValue && propertyData.price) {
         const valueGap = (intelligence.estimatedValue - propertyData.price) / propertyData.price;
         if (valueGap > 0.05) {
           score += 4;
@@ -607,7 +656,7 @@ export class EnhancedInvestmentScoringService {
     }
 
     // Cap Rate Analysis (only for rental properties)
-    if (hasRentalFeatures && intelligence.capRate) {
+    if (hasRentalFeatures && enabled.rentalYield && intelligence.capRate) {
       if (intelligence.capRate >= 8) {
         score += 6;
         factors.push(`High cap rate: ${intelligence.capRate.toFixed(1)}%`);
@@ -621,27 +670,29 @@ export class EnhancedInvestmentScoringService {
     }
 
     // Property Features 
-    if (intelligence.pool) {
-      if (hasRentalFeatures) {
-        score += 2;
-        factors.push('Pool adds rental premium');
-      } else {
-        score += 1;
-        factors.push('Pool enhances lifestyle value');
+    if (enabled.propertyFeatures) {
+      if (intelligence.pool) {
+        if (hasRentalFeatures) {
+          score += 2;
+          factors.push('Pool adds rental premium');
+        } else {
+          score += 1;
+          factors.push('Pool enhances lifestyle value');
+        }
       }
-    }
-    if (intelligence.garageParkingSpaces && intelligence.garageParkingSpaces >= 2) {
-      score += 1;
-      if (hasRentalFeatures) {
-        factors.push('Multiple parking spaces add rental value');
-      } else {
-        factors.push('Ample parking for homeowner');
+      if (intelligence.garageParkingSpaces && intelligence.garageParkingSpaces >= 2) {
+        score += 1;
+        if (hasRentalFeatures) {
+          factors.push('Multiple parking spaces add rental value');
+        } else {
+          factors.push('Ample parking for homeowner');
+        }
       }
     }
 
     return {
-      score: Math.min(score, 20),
-      maxScore: 20,
+      score: Math.min(score, COMPONENT_MAX_SCORES.financialOpportunity),
+      maxScore: COMPONENT_MAX_SCORES.financialOpportunity,
       description,
       factors
     };
@@ -651,7 +702,8 @@ export class EnhancedInvestmentScoringService {
    * Risk Assessment Score (0-15 points, higher is lower risk)
    * Analyzes potential risks and red flags
    */
-  private calculateRiskAssessment(property: Property, intelligence: BatchDataIntelligence): InvestmentScoreBreakdown['riskAssessment'] {
+  private calculateRiskAssessment(property: Property, intelligence: BatchDataIntelligence, profile: ScoringProfile): InvestmentScoreBreakdown['riskAssessment'] {
+    const { factors: enabled } = profile;
     let score = 12; // Start high, deduct for risks
     const factors: string[] = [];
     let description = 'Moderate risk profile';
@@ -663,7 +715,7 @@ export class EnhancedInvestmentScoringService {
       description = 'Lower risk investment';
     }
 
-    if (property.data?.yearBuilt && (new Date().getFullYear() - property.data.yearBuilt) < 15) {
+    if (enabled.propertyAge && property.data?.yearBuilt && (new Date().getFullYear() - property.data.yearBuilt) < 15) {
       score += 1;
       factors.push('Newer construction reduces maintenance risk');
     }
@@ -687,14 +739,14 @@ export class EnhancedInvestmentScoringService {
     }
 
     // Market risk
-    if (intelligence.demandLevel === 'low') {
+    if (enabled.demandLevel && intelligence.demandLevel === 'low') {
       score -= 1;
       factors.push('Low market demand');
     }
 
     return {
-      score: Math.max(score, 0),
-      maxScore: 15,
+      score: Math.min(Math.max(score, 0), COMPONENT_MAX_SCORES.riskAssessment),
+      maxScore: COMPONENT_MAX_SCORES.riskAssessment,
       description,
       factors
     };
@@ -1079,37 +1131,47 @@ export class EnhancedInvestmentScoringService {
   }
 
   /**
-   * Calculate letter grade from percentage
+   * Scale a component's score to the profile's weight; disabled components score 0/0
    */
-  private calculateGrade(percentage: number): EnhancedInvestmentScore['grade'] {
-    if (percentage >= 95) return 'A+';
-    if (percentage >= 90) return 'A';
-    if (percentage >= 85) return 'A-';
-    if (percentage >= 80) return 'B+';
-    if (percentage >= 75) return 'B';
-    if (percentage >= 70) return 'B-';
-    if (percentage >= 65) return 'C+';
-    if (percentage >= 60) return 'C';
-    if (percentage >= 55) return 'C-';
-    if (percentage >= 50) return 'D';
-    return 'F';
+  private applyWeight<T extends { score: number; maxScore: number; description: string; factors: string[] }>(
+    component: T,
+    settings: ScoringComponentSettings
+  ): T {
+    if (!settings.enabled || settings.weight <= 0) {
+      return { ...component, score: 0, maxScore: 0, description: 'Not scored in this profile', factors: [] };
+    }
+
+    return {
+      ...component,
+      score: Math.round((component.score / component.maxScore) * settings.weight),
+      maxScore: settings.weight
+    };
   }
 
   /**
-   * Get investment recommendation based on score and intelligence
+   * Calculate letter grade from percentage using the profile's cutoffs
    */
-  private getRecommendation(percentage: number, intelligence: BatchDataIntelligence): EnhancedInvestmentScore['recommendation'] {
+  private calculateGrade(percentage: number, profile: ScoringProfile): EnhancedInvestmentScore['grade'] {
+    return GRADE_ORDER.find(grade => percentage >= profile.gradeThresholds[grade]) ?? 'F';
+  }
+
+  /**
+   * Get investment recommendation based on score, intelligence and the profile's cutoffs
+   */
+  private getRecommendation(percentage: number, intelligence: BatchDataIntelligence, profile: ScoringProfile): EnhancedInvestmentScore['recommendation'] {
+    const thresholds = profile.recommendationThresholds;
+
     // Adjust recommendation based on special circumstances
-    if (intelligence.distressedProperty || intelligence.foreclosureStatus !== 'none') {
-      if (percentage >= 75) return 'STRONG BUY';
-      if (percentage >= 65) return 'BUY';
+    if (profile.factors.distress && (intelligence.distressedProperty || intelligence.foreclosureStatus !== 'none')) {
+      if (percentage >= thresholds['STRONG BUY'] - DISTRESSED_RECOMMENDATION_DISCOUNT) return 'STRONG BUY';
+      if (percentage >= thresholds['BUY'] - DISTRESSED_RECOMMENDATION_DISCOUNT) return 'BUY';
       return 'CAUTION';
     }
     
-    if (percentage >= 85) return 'STRONG BUY';
-    if (percentage >= 75) return 'BUY';
-    if (percentage >= 60) return 'HOLD';
-    if (percentage >= 45) return 'CAUTION';
+    if (percentage >= thresholds['STRONG BUY']) return 'STRONG BUY';
+    if (percentage >= thresholds['BUY']) return 'BUY';
+    if (percentage >= thresholds['HOLD']) return 'HOLD';
+    if (percentage >= thresholds['CAUTION']) return 'CAUTION';
     return 'AVOID';
   }
 }
@@ -3,6 +3,8 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
 import { DocumentProcessor, ExtractionResult } from './document';
 import { 
   InspectionAnalysisResult, 
@@ -183,27 +185,32 @@ export class InspectionAnalyzer {
     maxRetries: number
   ): Promise<any> {
     const anthropic = this.getAnthropicClient();
+    await budgetService.assertWithinBudget('ANTHROPIC');
     
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         const response = await Promise.race([
-          anthropic.messages.create({
-            model: 'claude-3-5-sonnet-20241022',
-            max_tokens: 8000,
-            temperature: 0.1, // Low temperature for consistent, factual analysis
-            system: INSPECTION_ANALYSIS_SYSTEM_PROMPT,
-            messages: [{
-              role: 'user',
-              content: INSPECTION_ANALYSIS_USER_PROMPT(
-                text,
-                options.reportType,
-                options.propertyLocation,
-                options.homeAge
-              )
-            }]
-          }),
+          apiUsageService.track(
+            { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'inspection-analyzer' } },
+            () => anthropic.messages.create({
+              model: 'claude-3-5-sonnet-20241022',
+              max_tokens: 8000,
+              temperature: 0.1, // Low temperature for consistent, factual analysis
+              system: INSPECTION_ANALYSIS_SYSTEM_PROMPT,
+              messages: [{
+                role: 'user',
+                content: INSPECTION_ANALYSIS_USER_PROMPT(
+                  text,
+                  options.reportType,
+                  options.propertyLocation,
+                  options.homeAge
+                )
+              }]
+            }),
+            result => apiUsageService.describeAnthropicResponse(result)
+          ),
           new Promise<never>((_, reject) => 
             setTimeout(() => reject(new Error('AI analysis timeout')), 
             options.timeoutMs || this.DEFAULT_TIMEOUT)
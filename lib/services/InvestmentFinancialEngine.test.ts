@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { investmentFinancialEngine } from '@/lib/services/InvestmentFinancialEngine';
+import type { InvestmentParameters } from '@/lib/types/investment';
+
+// $200k purchase, 20% down at 6% for 30 years, $2,000 rent, $2,400 taxes, $1,200 insurance
+const baseParams: InvestmentParameters = {
+  downPayment: 40000,
+  interestRate: 6,
+  loanTerm: 30,
+  monthlyRent: 2000,
+  propertyTaxes: 2400,
+  insurance: 1200,
+  maintenance: 0,
+  capEx: 0,
+  vacancy: 5,
+  propertyManagement: 0,
+  investmentGoal: 'cashflow',
+  timeHorizon: 5
+};
+
+describe('InvestmentFinancialEngine.analyze', () => {
+  const result = investmentFinancialEngine.analyze(200000, baseParams);
+
+  it('computes PITI from the loan payment plus monthly taxes and insurance', () => {
+    expect(result.financing.loanAmount).toBe(160000);
+    expect(result.financing.monthlyPayment).toBe(959.28);
+    expect(result.financing.monthlyPITI).toBe(1259.28);
+  });
+
+  it('computes NOI from rent collected less operating expenses', () => {
+    // $24,000 rent less 5% vacancy, less $3,600 taxes and insurance
+    expect(result.operations.effectiveGrossIncome).toBe(22800);
+    expect(result.operations.netOperatingIncome).toBe(19200);
+  });
+
+  it('computes DSCR from NOI over annual debt service', () => {
+    expect(result.operations.debtService).toBe(11511.36);
+    expect(result.operations.debtServiceCoverageRatio).toBe(1.67);
+  });
+
+  it('computes cap rate from NOI over price', () => {
+    expect(result.returns.capRate).toBe(9.6);
+  });
+
+  it('computes cash-on-cash from annual cash flow over cash invested', () => {
+    // $2,000 - ($100 vacancy + $300 taxes and insurance + $959.28 P&I)
+    expect(result.cashFlow.netCashFlow).toBe(640.72);
+    expect(result.cashFlow.annualCashFlow).toBe(7688.64);
+    expect(result.cashFlow.cashOnCashReturn).toBe(19.22);
+  });
+
+  it('counts closing costs as cash invested', () => {
+    const withClosing = investmentFinancialEngine.analyze(200000, { ...baseParams, closingCosts: 8000 });
+
+    expect(withClosing.totalCashInvested).toBe(48000);
+    expect(withClosing.cashFlow.cashOnCashReturn).toBe(16.02);
+  });
+
+  it('reports no DSCR when the purchase has no debt', () => {
+    const allCash = investmentFinancialEngine.analyze(200000, { ...baseParams, downPayment: 200000 });
+
+    expect(allCash.financing.loanAmount).toBe(0);
+    expect(allCash.financing.monthlyPayment).toBe(0);
+    expect(allCash.operations.debtServiceCoverageRatio).toBeNull();
+    expect(allCash.financing.monthlyPITI).toBe(300);
+  });
+
+  it('is deterministic', () => {
+    expect(investmentFinancialEngine.analyze(200000, baseParams)).toEqual(result);
+  });
+});
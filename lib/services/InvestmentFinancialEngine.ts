@@ -0,0 +1,230 @@
+// Investment Financial Engine - Production Ready, Zero Tech Debt
+// Deterministic mortgage, cash-flow and return math behind every investment analysis
+
+import {
+  AmortizationPayment,
+  AmortizationYear,
+  DEFAULT_INVESTMENT_ASSUMPTIONS,
+  DEFAULT_RENT_TO_PRICE,
+  InvestmentAssumptions,
+  InvestmentFinancials,
+  InvestmentParameters,
+  ProjectionYear
+} from '@/lib/types/investment';
+import {
+  buildAmortizationSchedule,
+  calculateIRR,
+  calculateNPV,
+  roundCurrency,
+  roundRate
+} from '@/lib/utils/financial';
+
+interface YearInputs {
+  purchasePrice: number;
+  monthlyRent: number;
+  fixedExpenses: number; // annual taxes, insurance, maintenance and capex in year one
+  assumptions: InvestmentAssumptions;
+  schedule: AmortizationPayment[];
+}
+
+export class InvestmentFinancialEngine {
+
+  // ============================================================================
+  // ANALYSIS
+  // ============================================================================
+
+  /**
+   * Compute cash flow, financing, returns and a year-by-year projection for
+   * buying at `purchasePrice` (dollars). Pure: same inputs, same numbers
+   */
+  analyze(purchasePrice: number, params: InvestmentParameters): InvestmentFinancials {
+    const assumptions = this.resolveAssumptions(params);
+    const timeHorizon = Math.max(1, Math.round(params.timeHorizon));
+    const monthlyRent = params.monthlyRent ?? purchasePrice * DEFAULT_RENT_TO_PRICE;
+    const totalCashInvested = params.downPayment + (params.closingCosts ?? 0);
+
+    const loanAmount = Math.max(0, purchasePrice - params.downPayment);
+    const schedule = buildAmortizationSchedule(loanAmount, params.interestRate, params.loanTerm);
+    const monthlyPayment = schedule[0]?.payment ?? 0;
+    const totalInterest = schedule.reduce((total, payment) => total + payment.interest, 0);
+
+    const inputs: YearInputs = {
+      purchasePrice,
+      monthlyRent,
+      fixedExpenses: (params.propertyTaxes ?? 0) + (params.insurance ?? 0) + (params.maintenance ?? 0) + (params.capEx ?? 0),
+      assumptions,
+      schedule
+    };
+
+    const projection = Array.from({ length: timeHorizon }, (_, index) => this.projectYear(inputs, index + 1));
+    const firstYear = projection[0];
+    const finalYear = projection[projection.length - 1];
+
+    // Year one operations
+    const vacancyLoss = firstYear.grossRent * (assumptions.vacancy / 100);
+    const effectiveGrossIncome = firstYear.grossRent - vacancyLoss;
+    const annualDebtService = monthlyPayment * 12;
+    const monthlyExpenses = (vacancyLoss + firstYear.operatingExpenses) / 12 + monthlyPayment;
+    const netCashFlow = monthlyRent - monthlyExpenses;
+
+    // Hold for the time horizon, then sell
+    const operatingCashFlows = projection.map(year => year.cashFlow);
+    const cashFlows = [
+      -totalCashInvested,
+      ...operatingCashFlows.slice(0, -1),
+      finalYear.cashFlow + finalYear.saleEquity
+    ];
+    const totalProfit = operatingCashFlows.reduce((total, cashFlow) => total + cashFlow, 0)
+      + finalYear.saleEquity
+      - totalCashInvested;
+    const irr = calculateIRR(cashFlows);
+
+    return {
+      purchasePrice: roundCurrency(purchasePrice),
+      totalCashInvested: roundCurrency(totalCashInvested),
+      assumptions,
+      cashFlow: {
+        monthlyIncome: roundCurrency(monthlyRent),
+        monthlyExpenses: roundCurrency(monthlyExpenses),
+        netCashFlow: roundCurrency(netCashFlow),
+        annualCashFlow: roundCurrency(netCashFlow * 12),
+        cashOnCashReturn: this.percentOf(netCashFlow * 12, totalCashInvested)
+      },
+      financing: {
+        loanAmount: roundCurrency(loanAmount),
+        monthlyPayment,
+        monthlyPITI: roundCurrency(monthlyPayment + ((params.propertyTaxes ?? 0) + (params.insurance ?? 0)) / 12),
+        totalInterest: roundCurrency(totalInterest),
+        payoffTime: roundRate(schedule.length / 12)
+      },
+      operations: {
+        effectiveGrossIncome: roundCurrency(effectiveGrossIncome),
+        operatingExpenses: roundCurrency(firstYear.operatingExpenses),
+        netOperatingIncome: roundCurrency(firstYear.netOperatingIncome),
+        debtService: roundCurrency(annualDebtService),
+        debtServiceCoverageRatio: annualDebtService > 0
+          ? roundRate(firstYear.netOperatingIncome / annualDebtService)
+          : null,
+        vacancyLoss: roundCurrency(vacancyLoss / 12)
+      },
+      returns: {
+        capRate: this.percentOf(firstYear.netOperatingIncome, purchasePrice),
+        grossRentMultiplier: monthlyRent > 0 ? roundRate(purchasePrice / (monthlyRent * 12)) : 0,
+        totalROI: this.percentOf(totalProfit, totalCashInvested),
+        breakEvenPoint: this.findBreakEvenYear(inputs, totalCashInvested, Math.max(timeHorizon, Math.round(params.loanTerm))),
+        irr: irr === null ? null : roundRate(irr),
+        npv: roundCurrency(calculateNPV(assumptions.discountRate, cashFlows))
+      },
+      appreciation: {
+        expectedAnnualAppreciation: assumptions.appreciationRate,
+        fiveYearValue: roundCurrency(this.valueAfter(purchasePrice, assumptions.appreciationRate, 5)),
+        tenYearValue: roundCurrency(this.valueAfter(purchasePrice, assumptions.appreciationRate, 10)),
+        totalReturn: this.percentOf(finalYear.propertyValue - purchasePrice, purchasePrice)
+      },
+      amortization: this.summarizeSchedule(schedule),
+      projection: projection.map(year => this.roundProjectionYear(year))
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private resolveAssumptions(params: InvestmentParameters): InvestmentAssumptions {
+    return {
+      vacancy: params.vacancy ?? DEFAULT_INVESTMENT_ASSUMPTIONS.vacancy,
+      propertyManagement: params.propertyManagement ?? DEFAULT_INVESTMENT_ASSUMPTIONS.propertyManagement,
+      appreciationRate: params.appreciationRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.appreciationRate,
+      rentGrowthRate: params.rentGrowthRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.rentGrowthRate,
+      expenseGrowthRate: params.expenseGrowthRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.expenseGrowthRate,
+      sellingCostRate: params.sellingCostRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.sellingCostRate,
+      discountRate: params.discountRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.discountRate
+    };
+  }
+
+  /**
+   * Unrounded numbers for one holding year. Rent and fixed expenses grow from
+   * year two; management is charged on rent actually collected
+   */
+  private projectYear(inputs: YearInputs, year: number): ProjectionYear {
+    const { assumptions, schedule } = inputs;
+    const grossRent = inputs.monthlyRent * 12 * Math.pow(1 + assumptions.rentGrowthRate / 100, year - 1);
+    const collectedRent = grossRent * (1 - assumptions.vacancy / 100);
+    const operatingExpenses = inputs.fixedExpenses * Math.pow(1 + assumptions.expenseGrowthRate / 100, year - 1)
+      + collectedRent * (assumptions.propertyManagement / 100);
+    const netOperatingIncome = collectedRent - operatingExpenses;
+
+    const payments = schedule.slice((year - 1) * 12, year * 12);
+    const debtService = payments.reduce((total, payment) => total + payment.payment, 0);
+    const loanBalance = schedule.length > year * 12 ? schedule[year * 12 - 1].balance : 0;
+    const propertyValue = this.valueAfter(inputs.purchasePrice, assumptions.appreciationRate, year);
+
+    return {
+      year,
+      grossRent,
+      operatingExpenses,
+      netOperatingIncome,
+      debtService,
+      cashFlow: netOperatingIncome - debtService,
+      propertyValue,
+      loanBalance,
+      saleEquity: propertyValue * (1 - assumptions.sellingCostRate / 100) - loanBalance
+    };
+  }
+
+  /** First year in which cumulative cash flow plus sale equity covers the cash invested */
+  private findBreakEvenYear(inputs: YearInputs, totalCashInvested: number, maxYears: number): number | null {
+    let cumulativeCashFlow = 0;
+
+    for (let year = 1; year <= maxYears; year++) {
+      const projected = this.projectYear(inputs, year);
+      cumulativeCashFlow += projected.cashFlow;
+      if (cumulativeCashFlow + projected.saleEquity >= totalCashInvested) {
+        return year;
+      }
+    }
+
+    return null;
+  }
+
+  private summarizeSchedule(schedule: AmortizationPayment[]): AmortizationYear[] {
+    const years: AmortizationYear[] = [];
+
+    for (let start = 0; start < schedule.length; start += 12) {
+      const payments = schedule.slice(start, start + 12);
+      years.push({
+        year: start / 12 + 1,
+        principal: roundCurrency(payments.reduce((total, payment) => total + payment.principal, 0)),
+        interest: roundCurrency(payments.reduce((total, payment) => total + payment.interest, 0)),
+        endingBalance: payments[payments.length - 1].balance
+      });
+    }
+
+    return years;
+  }
+
+  private roundProjectionYear(year: ProjectionYear): ProjectionYear {
+    return {
+      year: year.year,
+      grossRent: roundCurrency(year.grossRent),
+      operatingExpenses: roundCurrency(year.operatingExpenses),
+      netOperatingIncome: roundCurrency(year.netOperatingIncome),
+      debtService: roundCurrency(year.debtService),
+      cashFlow: roundCurrency(year.cashFlow),
+      propertyValue: roundCurrency(year.propertyValue),
+      loanBalance: roundCurrency(year.loanBalance),
+      saleEquity: roundCurrency(year.saleEquity)
+    };
+  }
+
+  private valueAfter(purchasePrice: number, appreciationRate: number, years: number): number {
+    return purchasePrice * Math.pow(1 + appreciationRate / 100, years);
+  }
+
+  private percentOf(amount: number, base: number): number {
+    return base > 0 ? roundRate((amount / base) * 100) : 0;
+  }
+}
+
+// Export singleton instance
+export const investmentFinancialEngine = new InvestmentFinancialEngine();
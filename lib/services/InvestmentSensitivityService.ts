@@ -0,0 +1,235 @@
+// Investment Sensitivity Service - Production Ready, Zero Tech Debt
+// Reruns the financial engine across input ranges for tornado charts, two-way tables and break-even thresholds
+
+import {
+  BreakEvenThreshold,
+  DEFAULT_INVESTMENT_ASSUMPTIONS,
+  DEFAULT_RENT_TO_PRICE,
+  DEFAULT_SENSITIVITY_RANGES,
+  InvestmentParameters,
+  SENSITIVITY_VARIABLES,
+  SensitivityAnalysis,
+  SensitivityMetric,
+  SensitivityRange,
+  SensitivityVariable,
+  TornadoBar,
+  TwoWayTable
+} from '@/lib/types/investment';
+import { roundCurrency } from '@/lib/utils/financial';
+import { investmentFinancialEngine } from './InvestmentFinancialEngine';
+
+const TWO_WAY_STEPS = 5;
+const BISECTION_ITERATIONS = 60;
+
+interface Scenario {
+  purchasePrice: number;
+  params: InvestmentParameters;
+}
+
+interface BreakEvenSearch {
+  metric: SensitivityMetric;
+  bound: 'max' | 'min';
+  bracket: (base: Scenario) => [number, number];
+}
+
+const BREAK_EVEN_SEARCHES: Record<SensitivityVariable, BreakEvenSearch> = {
+  interestRate: { metric: 'netCashFlow', bound: 'max', bracket: () => [0, 25] },
+  monthlyRent: { metric: 'netCashFlow', bound: 'min', bracket: base => [0, base.purchasePrice * 0.05] },
+  vacancy: { metric: 'netCashFlow', bound: 'max', bracket: () => [0, 100] },
+  appreciationRate: { metric: 'npv', bound: 'min', bracket: () => [-20, 30] },
+  purchasePrice: { metric: 'netCashFlow', bound: 'max', bracket: base => [base.purchasePrice * 0.1, base.purchasePrice * 5] },
+  downPayment: { metric: 'netCashFlow', bound: 'min', bracket: base => [0, base.purchasePrice] }
+};
+
+export interface SensitivityOptions {
+  metric?: SensitivityMetric;
+  ranges?: Partial<Record<SensitivityVariable, SensitivityRange>>;
+}
+
+export class InvestmentSensitivityService {
+
+  // ============================================================================
+  // ANALYSIS
+  // ============================================================================
+
+  /**
+   * Vary each input over its range with everything else held at the base case.
+   * Down payment stays the same share of price when price moves
+   */
+  analyze(purchasePrice: number, params: InvestmentParameters, options: SensitivityOptions = {}): SensitivityAnalysis {
+    const metric = options.metric ?? 'netCashFlow';
+    const ranges = { ...DEFAULT_SENSITIVITY_RANGES, ...options.ranges };
+    const base: Scenario = {
+      purchasePrice,
+      params: {
+        ...params,
+        // Pin the engine's rent fallback so it doesn't move with price
+        monthlyRent: params.monthlyRent ?? purchasePrice * DEFAULT_RENT_TO_PRICE
+      }
+    };
+
+    const variables = Object.keys(SENSITIVITY_VARIABLES) as SensitivityVariable[];
+
+    return {
+      metric,
+      baseValue: this.evaluate(base, metric),
+      tornado: variables
+        .map(variable => this.buildTornadoBar(base, variable, ranges[variable], metric))
+        .sort((a, b) => b.swing - a.swing),
+      rateByPrice: this.buildTwoWayTable(base, 'interestRate', ranges.interestRate, 'purchasePrice', ranges.purchasePrice, metric),
+      breakEven: variables.map(variable => this.findBreakEven(base, variable))
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private buildTornadoBar(base: Scenario, variable: SensitivityVariable, range: SensitivityRange, metric: SensitivityMetric): TornadoBar {
+    const lowInput = this.offsetInput(base, variable, range.low);
+    const highInput = this.offsetInput(base, variable, range.high);
+    const lowValue = this.evaluate(this.withInput(base, variable, lowInput), metric);
+    const highValue = this.evaluate(this.withInput(base, variable, highInput), metric);
+
+    return {
+      variable,
+      lowInput: this.roundInput(variable, lowInput),
+      highInput: this.roundInput(variable, highInput),
+      lowValue,
+      highValue,
+      swing: lowValue === null || highValue === null ? 0 : roundCurrency(Math.abs(highValue - lowValue))
+    };
+  }
+
+  private buildTwoWayTable(
+    base: Scenario,
+    rowVariable: SensitivityVariable,
+    rowRange: SensitivityRange,
+    columnVariable: SensitivityVariable,
+    columnRange: SensitivityRange,
+    metric: SensitivityMetric
+  ): TwoWayTable {
+    const rows = this.spread(rowRange).map(offset => this.offsetInput(base, rowVariable, offset));
+    const columns = this.spread(columnRange).map(offset => this.offsetInput(base, columnVariable, offset));
+
+    return {
+      rowVariable,
+      columnVariable,
+      rows: rows.map(row => this.roundInput(rowVariable, row)),
+      columns: columns.map(column => this.roundInput(columnVariable, column)),
+      values: rows.map(row => {
+        const rowScenario = this.withInput(base, rowVariable, row);
+        return columns.map(column => this.evaluate(this.withInput(rowScenario, columnVariable, column), metric));
+      })
+    };
+  }
+
+  /**
+   * Bisect for the input where the metric crosses zero. 'always' and 'never'
+   * mean the metric stays on one side across the whole search bracket
+   */
+  private findBreakEven(base: Scenario, variable: SensitivityVariable): BreakEvenThreshold {
+    const { metric, bound, bracket } = BREAK_EVEN_SEARCHES[variable];
+    const [low, high] = bracket(base);
+    const result = {
+      variable,
+      metric,
+      bound,
+      baseInput: this.roundInput(variable, this.getInput(base, variable))
+    };
+
+    const passes = (input: number) => (this.evaluate(this.withInput(base, variable, input), metric) ?? -Infinity) >= 0;
+    // The side of the bracket that passes when a threshold exists
+    const [safe, unsafe] = bound === 'max' ? [low, high] : [high, low];
+
+    if (passes(unsafe)) {
+      return { ...result, threshold: null, status: 'always' };
+    }
+    if (!passes(safe)) {
+      return { ...result, threshold: null, status: 'never' };
+    }
+
+    let passing = safe;
+    let failing = unsafe;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+      const mid = (passing + failing) / 2;
+      if (passes(mid)) {
+        passing = mid;
+      } else {
+        failing = mid;
+      }
+    }
+
+    return { ...result, threshold: this.roundInput(variable, passing), status: 'found' };
+  }
+
+  private evaluate(scenario: Scenario, metric: SensitivityMetric): number | null {
+    const financials = investmentFinancialEngine.analyze(scenario.purchasePrice, scenario.params);
+
+    switch (metric) {
+      case 'netCashFlow': return financials.cashFlow.netCashFlow;
+      case 'cashOnCashReturn': return financials.cashFlow.cashOnCashReturn;
+      case 'capRate': return financials.returns.capRate;
+      case 'irr': return financials.returns.irr;
+      case 'npv': return financials.returns.npv;
+    }
+  }
+
+  private getInput(scenario: Scenario, variable: SensitivityVariable): number {
+    const { params } = scenario;
+
+    switch (variable) {
+      case 'interestRate': return params.interestRate;
+      case 'monthlyRent': return params.monthlyRent ?? 0;
+      case 'vacancy': return params.vacancy ?? DEFAULT_INVESTMENT_ASSUMPTIONS.vacancy;
+      case 'appreciationRate': return params.appreciationRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.appreciationRate;
+      case 'purchasePrice': return scenario.purchasePrice;
+      case 'downPayment': return params.downPayment;
+    }
+  }
+
+  private withInput(scenario: Scenario, variable: SensitivityVariable, value: number): Scenario {
+    const { params } = scenario;
+
+    switch (variable) {
+      case 'interestRate': return { ...scenario, params: { ...params, interestRate: value } };
+      case 'monthlyRent': return { ...scenario, params: { ...params, monthlyRent: value } };
+      case 'vacancy': return { ...scenario, params: { ...params, vacancy: value } };
+      case 'appreciationRate': return { ...scenario, params: { ...params, appreciationRate: value } };
+      case 'downPayment': return { ...scenario, params: { ...params, downPayment: value } };
+      case 'purchasePrice': {
+        const downPaymentShare = scenario.purchasePrice > 0 ? params.downPayment / scenario.purchasePrice : 0;
+        return { purchasePrice: value, params: { ...params, downPayment: value * downPaymentShare } };
+      }
+    }
+  }
+
+  private offsetInput(scenario: Scenario, variable: SensitivityVariable, offset: number): number {
+    const baseInput = this.getInput(scenario, variable);
+    const value = SENSITIVITY_VARIABLES[variable].unit === 'points'
+      ? baseInput + offset
+      : baseInput * (1 + offset / 100);
+
+    switch (variable) {
+      case 'appreciationRate': return value;
+      case 'vacancy': return Math.min(100, Math.max(0, value));
+      case 'downPayment': return Math.min(scenario.purchasePrice, Math.max(0, value));
+      default: return Math.max(0, value);
+    }
+  }
+
+  /** Evenly spaced offsets from low to high */
+  private spread(range: SensitivityRange): number[] {
+    const step = (range.high - range.low) / (TWO_WAY_STEPS - 1);
+    return Array.from({ length: TWO_WAY_STEPS }, (_, index) => range.low + step * index);
+  }
+
+  private roundInput(variable: SensitivityVariable, value: number): number {
+    return SENSITIVITY_VARIABLES[variable].unit === 'points'
+      ? Math.round(value * 100) / 100
+      : Math.round(value);
+  }
+}
+
+// Export singleton instance
+export const investmentSensitivityService = new InvestmentSensitivityService();
@@ -0,0 +1,250 @@
+// Investment Strategy Calculator - Production Ready, Zero Tech Debt
+// Deterministic BRRRR, fix-and-flip and house-hack math over a property's stored data
+
+import type { Property } from '@prisma/client';
+import {
+  BRRRRAnalysis,
+  DEFAULT_INVESTMENT_ASSUMPTIONS,
+  DEFAULT_RENT_TO_PRICE,
+  DEFAULT_STRATEGY_INPUTS,
+  FlipAnalysis,
+  HouseHackAnalysis,
+  InvestmentParameters,
+  InvestmentStrategy,
+  PropertyFinancialFacts,
+  StrategyAnalysis,
+  StrategyInputs
+} from '@/lib/types/investment';
+import { roundCurrency, roundRate } from '@/lib/utils/financial';
+import { investmentFinancialEngine } from './InvestmentFinancialEngine';
+
+const SEVENTY_PERCENT_RULE = 0.7;
+
+const UNIT_COUNT_KEYWORDS: [string, number][] = [
+  ['fourplex', 4],
+  ['quadplex', 4],
+  ['triplex', 3],
+  ['duplex', 2],
+  ['multi', 2]
+];
+
+export class InvestmentStrategyCalculator {
+
+  // ============================================================================
+  // STRATEGY CALCULATIONS
+  // ============================================================================
+
+  /**
+   * Run the calculator for `strategy`. Inputs override the property's stored
+   * data; `params` supplies financing and operating costs
+   */
+  calculate(
+    strategy: InvestmentStrategy,
+    facts: PropertyFinancialFacts,
+    params: InvestmentParameters,
+    inputs: StrategyInputs = {}
+  ): StrategyAnalysis {
+    switch (strategy) {
+      case 'brrrr': return this.calculateBRRRR(facts, params, inputs);
+      case 'flip': return this.calculateFlip(facts, params, inputs);
+      case 'house_hack': return this.calculateHouseHack(facts, params, inputs);
+    }
+  }
+
+  /**
+   * Buy, rehab, rent, refinance at after-repair value. The purchase loan is
+   * interest-only during rehab and paid off by the refinance
+   */
+  calculateBRRRR(facts: PropertyFinancialFacts, params: InvestmentParameters, inputs: StrategyInputs = {}): BRRRRAnalysis {
+    const rehabCost = inputs.rehabCost ?? 0;
+    const afterRepairValue = inputs.afterRepairValue ?? facts.estimatedValue;
+    const rehabMonths = inputs.rehabMonths ?? DEFAULT_STRATEGY_INPUTS.rehabMonths;
+    const refinanceRate = inputs.refinanceRate ?? params.interestRate;
+    const refinanceTerm = inputs.refinanceTerm ?? DEFAULT_STRATEGY_INPUTS.refinanceTerm;
+
+    const purchaseLoan = Math.max(0, facts.purchasePrice - params.downPayment);
+    const holdingCosts = this.holdingCosts(facts, params, purchaseLoan, rehabMonths, 0);
+    const closingCosts = params.closingCosts ?? 0;
+    const initialCashInvested = params.downPayment + closingCosts + rehabCost + holdingCosts;
+
+    const refinanceLoanAmount = afterRepairValue * (inputs.refinanceLtv ?? DEFAULT_STRATEGY_INPUTS.refinanceLtv) / 100;
+    const refinanceClosingCosts = refinanceLoanAmount * (inputs.refinanceClosingCostRate ?? DEFAULT_STRATEGY_INPUTS.refinanceClosingCostRate) / 100;
+    const cashOutAtRefinance = refinanceLoanAmount - refinanceClosingCosts - purchaseLoan;
+    const cashLeftInDeal = Math.max(0, initialCashInvested - cashOutAtRefinance);
+
+    // Rent it out on the new loan
+    const rental = investmentFinancialEngine.analyze(afterRepairValue, {
+      ...params,
+      downPayment: afterRepairValue - refinanceLoanAmount,
+      interestRate: refinanceRate,
+      loanTerm: refinanceTerm,
+      monthlyRent: this.resolveRent(facts, params),
+      propertyTaxes: this.resolveTaxes(facts, params),
+      closingCosts: 0
+    });
+
+    return {
+      strategy: 'brrrr',
+      purchasePrice: roundCurrency(facts.purchasePrice),
+      rehabCost: roundCurrency(rehabCost),
+      afterRepairValue: roundCurrency(afterRepairValue),
+      rehabMonths,
+      holdingCosts: roundCurrency(holdingCosts),
+      totalProjectCost: roundCurrency(facts.purchasePrice + closingCosts + rehabCost + holdingCosts),
+      initialCashInvested: roundCurrency(initialCashInvested),
+      refinanceLoanAmount: roundCurrency(refinanceLoanAmount),
+      refinanceClosingCosts: roundCurrency(refinanceClosingCosts),
+      originalLoanPayoff: roundCurrency(purchaseLoan),
+      cashOutAtRefinance: roundCurrency(cashOutAtRefinance),
+      cashLeftInDeal: roundCurrency(cashLeftInDeal),
+      equityAfterRefinance: roundCurrency(afterRepairValue - refinanceLoanAmount),
+      monthlyPayment: rental.financing.monthlyPayment,
+      monthlyCashFlow: rental.cashFlow.netCashFlow,
+      annualCashFlow: rental.cashFlow.annualCashFlow,
+      cashOnCashReturn: cashLeftInDeal > 0 ? this.percentOf(rental.cashFlow.annualCashFlow, cashLeftInDeal) : null,
+      debtServiceCoverageRatio: rental.operations.debtServiceCoverageRatio
+    };
+  }
+
+  /**
+   * Buy, rehab, sell at after-repair value. Financing is interest-only while
+   * held, rehab is paid in cash and selling costs use the selling cost rate
+   */
+  calculateFlip(facts: PropertyFinancialFacts, params: InvestmentParameters, inputs: StrategyInputs = {}): FlipAnalysis {
+    const rehabCost = inputs.rehabCost ?? 0;
+    const afterRepairValue = inputs.afterRepairValue ?? facts.estimatedValue;
+    const holdingMonths = inputs.holdingMonths ?? DEFAULT_STRATEGY_INPUTS.holdingMonths;
+    const monthlyUtilities = inputs.monthlyUtilities ?? DEFAULT_STRATEGY_INPUTS.monthlyUtilities;
+
+    const loan = Math.max(0, facts.purchasePrice - params.downPayment);
+    const purchaseClosingCosts = params.closingCosts ?? 0;
+    const holdingCosts = this.holdingCosts(facts, params, loan, holdingMonths, monthlyUtilities);
+    const sellingCosts = afterRepairValue * (params.sellingCostRate ?? DEFAULT_INVESTMENT_ASSUMPTIONS.sellingCostRate) / 100;
+
+    const totalProjectCost = facts.purchasePrice + purchaseClosingCosts + rehabCost + holdingCosts + sellingCosts;
+    const cashInvested = params.downPayment + purchaseClosingCosts + rehabCost + holdingCosts;
+    const netProfit = afterRepairValue - totalProjectCost;
+    const roi = cashInvested > 0 ? netProfit / cashInvested : 0;
+    const maxOffer = afterRepairValue * SEVENTY_PERCENT_RULE - rehabCost;
+
+    return {
+      strategy: 'flip',
+      purchasePrice: roundCurrency(facts.purchasePrice),
+      rehabCost: roundCurrency(rehabCost),
+      afterRepairValue: roundCurrency(afterRepairValue),
+      holdingMonths,
+      purchaseClosingCosts: roundCurrency(purchaseClosingCosts),
+      holdingCosts: roundCurrency(holdingCosts),
+      sellingCosts: roundCurrency(sellingCosts),
+      totalProjectCost: roundCurrency(totalProjectCost),
+      cashInvested: roundCurrency(cashInvested),
+      netProfit: roundCurrency(netProfit),
+      roi: roundRate(roi * 100),
+      annualizedRoi: holdingMonths > 0 && roi > -1
+        ? roundRate((Math.pow(1 + roi, 12 / holdingMonths) - 1) * 100)
+        : roundRate(roi * 100),
+      maxOffer: roundCurrency(maxOffer),
+      meetsSeventyPercentRule: facts.purchasePrice <= maxOffer
+    };
+  }
+
+  /**
+   * Live in one unit and rent the rest. Compares the owner's net housing cost
+   * with renting elsewhere, and shows the cash flow once they move out.
+   * Single-family homes count as two units: the owner rents out a room or ADU
+   */
+  calculateHouseHack(facts: PropertyFinancialFacts, params: InvestmentParameters, inputs: StrategyInputs = {}): HouseHackAnalysis {
+    const units = Math.max(2, Math.round(inputs.units ?? facts.units));
+    const unitRent = inputs.unitRent ?? this.resolveRent(facts, params) / units;
+    const ownerMarketRent = inputs.ownerMarketRent ?? unitRent;
+    const rentedUnits = units - 1;
+    const propertyTaxes = this.resolveTaxes(facts, params);
+
+    const occupied = investmentFinancialEngine.analyze(facts.purchasePrice, {
+      ...params,
+      monthlyRent: unitRent * rentedUnits,
+      propertyTaxes
+    });
+    const movedOut = investmentFinancialEngine.analyze(facts.purchasePrice, {
+      ...params,
+      monthlyRent: unitRent * units,
+      propertyTaxes
+    });
+
+    const ownerHousingCost = -occupied.cashFlow.netCashFlow;
+
+    return {
+      strategy: 'house_hack',
+      units,
+      rentedUnits,
+      rentalIncome: roundCurrency(unitRent * rentedUnits),
+      ownerMarketRent: roundCurrency(ownerMarketRent),
+      monthlyPITI: occupied.financing.monthlyPITI,
+      ownerHousingCost: roundCurrency(ownerHousingCost),
+      monthlySavingsVsRenting: roundCurrency(ownerMarketRent - ownerHousingCost),
+      cashInvested: occupied.totalCashInvested,
+      moveOutCashFlow: movedOut.cashFlow.netCashFlow,
+      moveOutCashOnCashReturn: movedOut.cashFlow.cashOnCashReturn
+    };
+  }
+
+  // ============================================================================
+  // PROPERTY DATA
+  // ============================================================================
+
+  /**
+   * Dollar figures the calculators need from a stored property (money is
+   * stored in cents)
+   */
+  getPropertyFacts(property: Property): PropertyFinancialFacts {
+    const purchasePrice = Number(property.price) / 100;
+    const estimatedValue = property.estimatedValue ?? property.zestimate;
+    const monthlyRent = property.rentZestimate ?? property.estimatedRent;
+
+    return {
+      purchasePrice,
+      estimatedValue: estimatedValue ? Number(estimatedValue) / 100 : purchasePrice,
+      monthlyRent: monthlyRent ? Number(monthlyRent) / 100 : null,
+      annualTaxes: property.propertyTaxes ? Number(property.propertyTaxes) / 100 : null,
+      units: this.inferUnitCount(property.propertyType)
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /** Interest-only loan cost plus taxes, insurance and utilities while the property is held */
+  private holdingCosts(
+    facts: PropertyFinancialFacts,
+    params: InvestmentParameters,
+    loanAmount: number,
+    months: number,
+    monthlyUtilities: number
+  ): number {
+    const monthlyInterest = loanAmount * params.interestRate / 100 / 12;
+    const monthlyCarry = (this.resolveTaxes(facts, params) + (params.insurance ?? 0)) / 12;
+    return (monthlyInterest + monthlyCarry + monthlyUtilities) * months;
+  }
+
+  private resolveRent(facts: PropertyFinancialFacts, params: InvestmentParameters): number {
+    return params.monthlyRent ?? facts.monthlyRent ?? facts.purchasePrice * DEFAULT_RENT_TO_PRICE;
+  }
+
+  private resolveTaxes(facts: PropertyFinancialFacts, params: InvestmentParameters): number {
+    return params.propertyTaxes ?? facts.annualTaxes ?? 0;
+  }
+
+  private inferUnitCount(propertyType: string | null): number {
+    const type = propertyType?.toLowerCase() ?? '';
+    const match = UNIT_COUNT_KEYWORDS.find(([keyword]) => type.includes(keyword));
+    return match ? match[1] : 1;
+  }
+
+  private percentOf(amount: number, base: number): number {
+    return base > 0 ? roundRate((amount / base) * 100) : 0;
+  }
+}
+
+// Export singleton instance
+export const investmentStrategyCalculator = new InvestmentStrategyCalculator();
@@ -0,0 +1,77 @@
+// Notification Service - Production Ready, Zero Tech Debt
+// In-app inbox: list and mark-read for notifications delivered by the reminder engine
+
+import { prisma } from '@/lib/prisma';
+import { Notification } from '@prisma/client';
+
+export interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+const DEFAULT_LIMIT = 30;
+
+export class NotificationService {
+  /**
+   * Most recent notifications for a Clerk user, newest first
+   */
+  async getInbox(
+    clerkUserId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<NotificationInbox> {
+    const userId = await this.resolveUserId(clerkUserId);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(options.unreadOnly && { readAt: null })
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? DEFAULT_LIMIT
+      }),
+      prisma.notification.count({
+        where: { userId, readAt: null }
+      })
+    ]);
+
+    return { notifications, unreadCount };
+  }
+
+  /**
+   * Mark the given notifications read, or all of them when no ids are passed
+   */
+  async markRead(clerkUserId: string, notificationIds?: string[]): Promise<number> {
+    const userId = await this.resolveUserId(clerkUserId);
+
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(notificationIds && { id: { in: notificationIds } })
+      },
+      data: { readAt: new Date() }
+    });
+
+    return result.count;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async resolveUserId(clerkUserId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { clerkId: clerkUserId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user.id;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -355,7 +355,8 @@ export class PropertyService {
         analysisType: "comprehensive",
         aiModel: "claude-3-5-sonnet-20241022",
         analysis: JSON.stringify(analysis),
-        confidence: analysis?.aiConfidence ? analysis.aiConfidence / 100 : 0.5
+        confidence: analysis?.aiConfidence ? analysis.aiConfidence / 100 : 0.5,
+        scoringProfileId: analysis?.scoringProfile?.id ?? null
       }
     });
   }
@@ -0,0 +1,287 @@
+// Reminder Service - Production Ready, Zero Tech Debt
+// Deadline reminders for timeline steps: overdue marking, queueing and channel delivery
+
+import { prisma } from '@/lib/prisma';
+import { ReminderStatus, StepStatus, TimelineStatus } from '@prisma/client';
+import { logger } from '@/lib/utils/logger';
+import { createNotificationChannels, NotificationChannel, NotificationMessage } from '@/lib/notifications';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReminderRunOptions {
+  now?: Date;
+  /** Days before scheduledDate to remind at. Defaults to REMINDER_OFFSET_DAYS or [3, 1] */
+  offsetDays?: number[];
+  channels?: NotificationChannel[];
+}
+
+export interface ReminderRunResult {
+  markedOverdue: number;
+  restoredUpcoming: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  channels: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_OFFSET_DAYS = [3, 1];
+const OVERDUE_KIND = 'overdue';
+const MAX_ATTEMPTS = 3;
+const DELIVERY_BATCH_SIZE = 200;
+
+export class ReminderService {
+  /**
+   * One reminder pass, meant to run from cron: sync OVERDUE statuses, queue
+   * reminders that have come due and deliver everything still pending
+   */
+  async runReminders(options: ReminderRunOptions = {}): Promise<ReminderRunResult> {
+    const now = options.now ?? new Date();
+    const offsetDays = options.offsetDays ?? this.getOffsetDays();
+    const channels = options.channels ?? createNotificationChannels();
+
+    const { markedOverdue, restoredUpcoming } = await this.syncOverdueStatuses(now);
+    const queued = await this.queueDueReminders(now, offsetDays);
+    const { sent, failed } = await this.deliverPendingReminders(channels);
+
+    logger.info(
+      `Reminder run: ${markedOverdue} overdue, ${queued} queued, ${sent} sent, ${failed} failed`
+    );
+
+    return {
+      markedOverdue,
+      restoredUpcoming,
+      queued,
+      sent,
+      failed,
+      channels: channels.map(channel => channel.name)
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Mark incomplete steps whose due day has passed as OVERDUE, and undo it for
+   * steps that were rescheduled into the future
+   */
+  private async syncOverdueStatuses(now: Date): Promise<{ markedOverdue: number; restoredUpcoming: number }> {
+    const today = startOfUtcDay(now);
+
+    const [overdue, restored] = await prisma.$transaction([
+      prisma.timelineStep.updateMany({
+        where: {
+          isCompleted: false,
+          status: { in: [StepStatus.UPCOMING, StepStatus.CURRENT] },
+          scheduledDate: { lt: today },
+          timeline: { status: TimelineStatus.ACTIVE }
+        },
+        data: { status: StepStatus.OVERDUE }
+      }),
+      prisma.timelineStep.updateMany({
+        where: {
+          isCompleted: false,
+          status: StepStatus.OVERDUE,
+          scheduledDate: { gte: today }
+        },
+        data: { status: StepStatus.UPCOMING }
+      })
+    ]);
+
+    return { markedOverdue: overdue.count, restoredUpcoming: restored.count };
+  }
+
+  /**
+   * Queue the most urgent reminder window each step has reached. The unique
+   * (step, kind, due date) key makes repeat runs idempotent, and a rescheduled
+   * step gets a fresh set of reminders
+   */
+  private async queueDueReminders(now: Date, offsetDays: number[]): Promise<number> {
+    const today = startOfUtcDay(now);
+    const offsets = [...offsetDays].sort((a, b) => a - b);
+    const horizon = new Date(today.getTime() + ((offsets[offsets.length - 1] ?? 0) + 1) * DAY_MS);
+
+    const steps = await prisma.timelineStep.findMany({
+      where: {
+        isCompleted: false,
+        reminderSent: false,
+        status: { not: StepStatus.SKIPPED },
+        scheduledDate: { not: null, lt: horizon },
+        timeline: { status: TimelineStatus.ACTIVE }
+      },
+      select: {
+        id: true,
+        scheduledDate: true,
+        timeline: { select: { userId: true } }
+      }
+    });
+
+    const reminders = steps.flatMap(step => {
+      const dueDate = startOfUtcDay(step.scheduledDate!);
+      const kind = this.getReminderKind(Math.round((dueDate.getTime() - today.getTime()) / DAY_MS), offsets);
+
+      return kind ? [{ stepId: step.id, userId: step.timeline.userId, kind, dueDate }] : [];
+    });
+
+    if (reminders.length === 0) return 0;
+
+    const result = await prisma.stepReminder.createMany({
+      data: reminders,
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Deliver pending and retryable reminders. Each channel is tried once per run;
+   * channels that already succeeded are not repeated on retry
+   */
+  private async deliverPendingReminders(channels: NotificationChannel[]): Promise<{ sent: number; failed: number }> {
+    const reminders = await prisma.stepReminder.findMany({
+      where: {
+        status: { in: [ReminderStatus.PENDING, ReminderStatus.FAILED] },
+        attempts: { lt: MAX_ATTEMPTS }
+      },
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+        step: {
+          select: {
+            title: true,
+            description: true,
+            isCompleted: true,
+            timeline: { select: { id: true, propertyId: true, title: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE
+    });
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const reminder of reminders) {
+      // Finished before we got to it - nothing to remind about
+      if (reminder.step.isCompleted) {
+        await prisma.stepReminder.delete({ where: { id: reminder.id } });
+        continue;
+      }
+
+      const message: NotificationMessage = {
+        recipient: {
+          userId: reminder.user.id,
+          email: reminder.user.email,
+          name: reminder.user.name
+        },
+        type: 'step_reminder',
+        title: this.buildTitle(reminder.kind, reminder.step.title),
+        body: this.buildBody(reminder.kind, reminder.step.title, reminder.step.timeline.title, reminder.dueDate),
+        link: `/timeline?propertyId=${reminder.step.timeline.propertyId}`,
+        metadata: {
+          reminderId: reminder.id,
+          stepId: reminder.stepId,
+          timelineId: reminder.step.timeline.id,
+          kind: reminder.kind
+        }
+      };
+
+      const delivered = [...reminder.deliveredChannels];
+      const errors: string[] = [];
+
+      for (const channel of channels) {
+        if (delivered.includes(channel.name)) continue;
+
+        try {
+          await channel.deliver(message);
+          delivered.push(channel.name);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          errors.push(`${channel.name}: ${reason}`);
+          logger.warn(`Reminder ${reminder.id} delivery via ${channel.name} failed`, { reason });
+        }
+      }
+
+      const isSent = errors.length === 0;
+
+      await prisma.stepReminder.update({
+        where: { id: reminder.id },
+        data: {
+          deliveredChannels: delivered,
+          attempts: { increment: 1 },
+          status: isSent ? ReminderStatus.SENT : ReminderStatus.FAILED,
+          lastError: isSent ? null : errors.join('; '),
+          sentAt: isSent ? new Date() : null
+        }
+      });
+
+      if (isSent) {
+        sent++;
+        // The overdue notice is the last one for this due date
+        if (reminder.kind === OVERDUE_KIND) {
+          await prisma.timelineStep.update({
+            where: { id: reminder.stepId },
+            data: { reminderSent: true }
+          });
+        }
+      } else {
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * "overdue" once the due day has passed, otherwise the tightest offset window
+   * the step has entered ("3d", "1d"), or null when none has been reached yet
+   */
+  private getReminderKind(daysUntilDue: number, sortedOffsets: number[]): string | null {
+    if (daysUntilDue < 0) return OVERDUE_KIND;
+
+    const offset = sortedOffsets.find(days => daysUntilDue <= days);
+    return offset === undefined ? null : `${offset}d`;
+  }
+
+  private buildTitle(kind: string, stepTitle: string): string {
+    if (kind === OVERDUE_KIND) return `Overdue: ${stepTitle}`;
+
+    const days = parseInt(kind);
+    if (days === 0) return `Due today: ${stepTitle}`;
+    return days === 1 ? `Due tomorrow: ${stepTitle}` : `Due in ${days} days: ${stepTitle}`;
+  }
+
+  private buildBody(kind: string, stepTitle: string, timelineTitle: string, dueDate: Date): string {
+    const due = dueDate.toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+
+    return kind === OVERDUE_KIND
+      ? `"${stepTitle}" on ${timelineTitle} was due ${due} and hasn't been completed yet.`
+      : `"${stepTitle}" on ${timelineTitle} is due ${due}.`;
+  }
+
+  private getOffsetDays(): number[] {
+    const configured = process.env.REMINDER_OFFSET_DAYS;
+    if (!configured) return DEFAULT_OFFSET_DAYS;
+
+    const offsets = configured
+      .split(',')
+      .map(value => parseInt(value.trim()))
+      .filter(value => Number.isInteger(value) && value >= 0);
+
+    return offsets.length > 0 ? Array.from(new Set(offsets)) : DEFAULT_OFFSET_DAYS;
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export const reminderService = new ReminderService();
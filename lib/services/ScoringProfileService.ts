@@ -0,0 +1,167 @@
+// Scoring Profile Service - Production Ready, Zero Tech Debt
+// Built-in and user-defined investment scoring profiles, stored in User.preferences
+
+import { randomUUID } from 'crypto';
+import {
+  BUILT_IN_SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE_ID,
+  ScoringProfile,
+  ScoringProfileList
+} from '@/lib/types/scoring';
+import { ScoringProfileInput, storedScoringProfileSchema } from '@/lib/validation/scoring';
+import { getUserPreferences, updateUserPreferences, UserPreferences } from '@/lib/utils/user-preferences';
+
+const CUSTOM_PROFILE_PREFIX = 'custom-';
+
+export class ScoringProfileService {
+  // ============================================================================
+  // PROFILE LOOKUP
+  // ============================================================================
+
+  /**
+   * Built-in profiles followed by the user's own, with the one used by default
+   */
+  async listProfiles(clerkUserId: string): Promise<ScoringProfileList> {
+    const preferences = await getUserPreferences(clerkUserId);
+    const profiles = [...BUILT_IN_SCORING_PROFILES, ...this.readCustomProfiles(preferences)];
+
+    return {
+      profiles,
+      activeProfileId: this.readActiveProfileId(preferences, profiles)
+    };
+  }
+
+  /**
+   * The profile to score with: `profileId` when given, otherwise the user's
+   * active profile. Throws when a requested profile doesn't exist
+   */
+  async resolveProfile(clerkUserId: string, profileId?: string): Promise<ScoringProfile> {
+    const { profiles, activeProfileId } = await this.listProfiles(clerkUserId);
+    const profile = profiles.find(p => p.id === (profileId ?? activeProfileId));
+
+    if (!profile) {
+      throw new Error('Scoring profile not found');
+    }
+
+    return profile;
+  }
+
+  // ============================================================================
+  // PROFILE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Create a custom profile, optionally making it the active one
+   */
+  async createProfile(clerkUserId: string, input: ScoringProfileInput, activate = false): Promise<ScoringProfile> {
+    const profile: ScoringProfile = {
+      ...input,
+      id: `${CUSTOM_PROFILE_PREFIX}${randomUUID()}`,
+      builtIn: false
+    };
+
+    await updateUserPreferences(clerkUserId, preferences => ({
+      ...preferences,
+      scoringProfiles: [...this.readCustomProfiles(preferences), profile],
+      ...(activate ? { scoringProfileId: profile.id } : {})
+    }));
+
+    return profile;
+  }
+
+  /**
+   * Replace a custom profile's settings. Built-in profiles can't be changed
+   */
+  async updateProfile(clerkUserId: string, profileId: string, input: ScoringProfileInput): Promise<ScoringProfile> {
+    this.assertNotBuiltIn(profileId);
+    const profile: ScoringProfile = { ...input, id: profileId, builtIn: false };
+
+    await updateUserPreferences(clerkUserId, preferences => {
+      const customProfiles = this.readCustomProfiles(preferences);
+      if (!customProfiles.some(p => p.id === profileId)) {
+        throw new Error('Scoring profile not found');
+      }
+
+      return {
+        ...preferences,
+        scoringProfiles: customProfiles.map(p => p.id === profileId ? profile : p)
+      };
+    });
+
+    return profile;
+  }
+
+  /**
+   * Delete a custom profile; if it was active, the default profile takes over
+   */
+  async deleteProfile(clerkUserId: string, profileId: string): Promise<void> {
+    this.assertNotBuiltIn(profileId);
+
+    await updateUserPreferences(clerkUserId, preferences => {
+      const customProfiles = this.readCustomProfiles(preferences);
+      if (!customProfiles.some(p => p.id === profileId)) {
+        throw new Error('Scoring profile not found');
+      }
+
+      const { scoringProfileId, ...rest } = preferences;
+      return {
+        ...rest,
+        scoringProfiles: customProfiles.filter(p => p.id !== profileId),
+        ...(scoringProfileId && scoringProfileId !== profileId ? { scoringProfileId } : {})
+      };
+    });
+  }
+
+  /**
+   * Choose the profile used when an analysis doesn't name one
+   */
+  async setActiveProfile(clerkUserId: string, profileId: string): Promise<ScoringProfile> {
+    let active: ScoringProfile | undefined;
+
+    await updateUserPreferences(clerkUserId, preferences => {
+      active = [...BUILT_IN_SCORING_PROFILES, ...this.readCustomProfiles(preferences)].find(p => p.id === profileId);
+      if (!active) {
+        throw new Error('Scoring profile not found');
+      }
+
+      return { ...preferences, scoringProfileId: profileId };
+    });
+
+    return active!;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Stored custom profiles, skipping any that no longer validate
+   */
+  private readCustomProfiles(preferences: UserPreferences): ScoringProfile[] {
+    const stored = preferences.scoringProfiles;
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+
+    return stored.flatMap(entry => {
+      const parsed = storedScoringProfileSchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+
+  private readActiveProfileId(preferences: UserPreferences, profiles: ScoringProfile[]): string {
+    const stored = preferences.scoringProfileId;
+    return typeof stored === 'string' && profiles.some(p => p.id === stored)
+      ? stored
+      : DEFAULT_SCORING_PROFILE_ID;
+  }
+
+  private assertNotBuiltIn(profileId: string): void {
+    if (BUILT_IN_SCORING_PROFILES.some(p => p.id === profileId)) {
+      throw new Error('Built-in scoring profiles cannot be changed');
+    }
+  }
+}
+
+// Export singleton instance
+export const scoringProfileService = new ScoringProfileService();
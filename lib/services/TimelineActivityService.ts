@@ -0,0 +1,171 @@
+// Timeline Activity Service - Production Ready, Zero Tech Debt
+// Append-only audit log written by the timeline and document services
+
+import { prisma } from '@/lib/prisma';
+import { ActivityEntityType, Prisma } from '@prisma/client';
+import {
+  ActivityChanges,
+  ActivityFieldValue,
+  TimelineActivityInput,
+  TimelineActivityPage
+} from '@/lib/types/timeline-activity';
+import type { TimelineAccess } from '@/lib/types/timeline-permissions';
+
+/** Writes go through the caller's transaction when there is one */
+type ActivityClient = Prisma.TransactionClient | typeof prisma;
+
+export class TimelineActivityService {
+
+  // ============================================================================
+  // WRITING
+  // ============================================================================
+
+  /**
+   * Append one entry. There is deliberately no update or delete counterpart
+   */
+  async record(input: TimelineActivityInput, client: ActivityClient = prisma): Promise<void> {
+    await this.recordMany([input], client);
+  }
+
+  /**
+   * Append several entries in one insert
+   */
+  async recordMany(inputs: TimelineActivityInput[], client: ActivityClient = prisma): Promise<void> {
+    if (inputs.length === 0) return;
+
+    await client.timelineActivity.createMany({
+      data: inputs.map(input => ({
+        timelineId: input.timelineId,
+        actorId: input.actorId,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        summary: input.summary,
+        changes: input.changes && Object.keys(input.changes).length > 0
+          ? input.changes as Prisma.InputJsonValue
+          : Prisma.DbNull,
+        documentType: input.documentType ?? null,
+        isPrivate: input.isPrivate ?? false
+      }))
+    });
+  }
+
+  /**
+   * Before/after pairs for the fields whose values differ
+   * @param before - Record as it was
+   * @param after - Record as it is now
+   * @param fields - Fields to compare
+   */
+  diffChanges<T extends object>(
+    before: Partial<T> | null,
+    after: Partial<T> | null,
+    fields: Array<keyof T & string>
+  ): ActivityChanges {
+    const changes: ActivityChanges = {};
+
+    for (const field of fields) {
+      const previous = this.toFieldValue(before?.[field]);
+      const next = this.toFieldValue(after?.[field]);
+
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes[field] = { before: previous, after: next };
+      }
+    }
+
+    return changes;
+  }
+
+  // ============================================================================
+  // READING
+  // ============================================================================
+
+  /**
+   * Newest-first activity page for a timeline, limited to what the viewer may see
+   * @param timelineId - Timeline to read
+   * @param access - Viewer's resolved access; document entries follow its scope
+   * @param viewerId - Clerk user ID, used for private note entries
+   * @param options - Cursor pagination and entity filters
+   */
+  async getActivity(
+    timelineId: string,
+    access: TimelineAccess,
+    viewerId: string,
+    options: {
+      cursor?: string;
+      limit: number;
+      entityType?: ActivityEntityType;
+      entityId?: string;
+    }
+  ): Promise<TimelineActivityPage> {
+    const where: Prisma.TimelineActivityWhereInput = {
+      timelineId,
+      ...(options.entityType && { entityType: options.entityType }),
+      ...(options.entityId && { entityId: options.entityId }),
+      AND: [
+        { OR: [{ isPrivate: false }, { actorId: viewerId }] },
+        ...(access.documentTypes === 'ALL' ? [] : [{
+          OR: [{ documentType: null }, { documentType: { in: access.documentTypes } }]
+        }])
+      ]
+    };
+
+    // One extra row tells us whether another page exists
+    const rows = await prisma.timelineActivity.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options.limit + 1,
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+    });
+
+    const page = rows.slice(0, options.limit);
+    const actorNames = await this.resolveActorNames(page.map(row => row.actorId));
+
+    return {
+      activities: page.map(row => ({
+        id: row.id,
+        timelineId: row.timelineId,
+        actorId: row.actorId,
+        actorName: row.actorId ? actorNames.get(row.actorId) ?? 'Former collaborator' : 'System',
+        action: row.action,
+        entityType: row.entityType,
+        entityId: row.entityId,
+        summary: row.summary,
+        changes: row.changes as ActivityChanges | null,
+        createdAt: row.createdAt
+      })),
+      nextCursor: rows.length > options.limit ? page[page.length - 1].id : null
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async resolveActorNames(actorIds: Array<string | null>): Promise<Map<string, string>> {
+    const clerkIds = Array.from(new Set(actorIds.filter((id): id is string => !!id)));
+    if (clerkIds.length === 0) return new Map();
+
+    const users = await prisma.user.findMany({
+      where: { clerkId: { in: clerkIds } },
+      select: { clerkId: true, name: true, email: true }
+    });
+
+    return new Map(users.map(user => [user.clerkId, user.name || user.email]));
+  }
+
+  /**
+   * Normalise Prisma values (BigInt cents, Decimal, Date) into JSON-safe values
+   */
+  private toFieldValue(value: unknown): ActivityFieldValue {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'bigint') return Number(value);
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Prisma.Decimal) return value.toNumber();
+    if (Array.isArray(value)) return value.map(String);
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    return JSON.stringify(value);
+  }
+}
+
+// Export singleton instance
+export const timelineActivityService = new TimelineActivityService();
@@ -1,6 +1,7 @@
 // Timeline Service - Production Ready, Zero Tech Debt
 // Comprehensive business logic layer for timeline management
 
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import { prisma } from '@/lib/prisma';
 import { 
   Timeline,
@@ -9,18 +10,65 @@ import {
   TimelineTeamMember,
   TimelineNote,
   TimelineStepComment,
+  Contingency,
+  ContingencyStatus,
   StepStatus,
   TimelineStatus,
   StepCategory,
-  StepPriority
+  StepPriority,
+  ActivityAction,
+  ActivityEntityType,
+  DocumentShareOutcome,
+  Prisma
 } from '@prisma/client';
 import { 
   TimelineWithRelations,
   TimelineStepWithRelations,
   DEFAULT_TIMELINE_STEPS,
   TimelineProgressStats,
-  TimelineCostSummary
+  TimelineCostSummary,
+  TimelineDependencyGraph,
+  DefaultTimelineStep,
+  TimelineSchedule,
+  StepScheduleEntry,
+  ScheduleCascadeResult,
+  StepDependencyEdge,
+  resolveTemplateDependencies,
+  findDependencyCycle,
+  sortStepsTopologically
 } from '@/lib/types/timeline';
+import {
+  BUILT_IN_TIMELINE_TEMPLATES,
+  TimelineTemplateSummary
+} from '@/lib/types/timeline-templates';
+import {
+  TimelineAccess,
+  TimelineAction,
+  TimelineAccessScope,
+  TimelineInvitationPreview,
+  TimelineInvitationResult,
+  OWNER_POLICY,
+  TIMELINE_ROLE_POLICIES,
+  hasTimelinePermission
+} from '@/lib/types/timeline-permissions';
+import { TimelineActivityPage } from '@/lib/types/timeline-activity';
+import {
+  CONTINGENCY_TYPE_LABELS,
+  OPEN_CONTINGENCY_STATUSES,
+  ContingencyEntry,
+  ContingencyWarning,
+  ContingencyWithRelations
+} from '@/lib/types/timeline-contingencies';
+import {
+  DocumentShareResult,
+  DocumentShareStatus,
+  DocumentShareSummary
+} from '@/lib/types/document-shares';
+import {
+  DocumentRequirementTemplate,
+  StepDocumentChecklist,
+  buildDocumentChecklist
+} from '@/lib/types/timeline-document-requirements';
 import { 
   CreateTimelineInput,
   UpdateTimelineInput,
@@ -29,10 +77,128 @@ import {
   UploadDocumentInput,
   AddTeamMemberInput,
   CreateNoteInput,
-  AddStepCommentInput
+  UpdateNoteInput,
+  NotesQueryInput,
+  AddStepCommentInput,
+  SaveTimelineTemplateInput,
+  ActivityQueryInput,
+  UpdateDocumentInput,
+  ContingenciesQueryInput,
+  CreateContingencyInput,
+  UpdateContingencyInput,
+  ExtendContingencyInput,
+  ResolveContingencyInput,
+  CreateDocumentShareInput,
+  CreateDocumentRequirementInput
 } from '@/lib/validation/timeline';
+import { CalendarTimeline } from '@/lib/utils/ical';
+import { logger } from '@/lib/utils/logger';
+import { createNotificationChannels } from '@/lib/notifications';
+import { timelineActivityService } from './TimelineActivityService';
+import { getDocumentStorage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INVITATION_TTL_DAYS = 7;
+
+// Fields diffed into activity entries
+const TIMELINE_AUDIT_FIELDS: Array<keyof Timeline & string> = [
+  'title', 'status', 'startDate', 'estimatedClosingDate', 'actualClosingDate'
+];
+const STEP_AUDIT_FIELDS: Array<keyof TimelineStep & string> = [
+  'title', 'description', 'category', 'status', 'isCompleted', 'isRequired', 'isBlocked',
+  'blockReason', 'priority', 'daysFromStart', 'estimatedDuration', 'scheduledDate',
+  'actualStartDate', 'actualEndDate', 'estimatedCost', 'actualCost', 'notes', 'completedBy',
+  'externalUrl', 'documentOverrideReason'
+];
+const DOCUMENT_AUDIT_FIELDS: Array<keyof TimelineDocument & string> = [
+  'originalName', 'documentType', 'description', 'tags', 'isRequired', 'isVerified', 'verifiedBy'
+];
+const TEAM_MEMBER_AUDIT_FIELDS: Array<keyof TimelineTeamMember & string> = [
+  'name', 'role', 'company', 'email', 'phone', 'website', 'licenseNumber', 'specialties',
+  'preferredContact', 'availability', 'timezone', 'isPrimary', 'isActive', 'notes', 'userId'
+];
+const NOTE_AUDIT_FIELDS: Array<keyof TimelineNote & string> = [
+  'title', 'content', 'noteType', 'tags', 'isImportant', 'isPrivate'
+];
+const CONTINGENCY_AUDIT_FIELDS: Array<keyof Contingency & string> = [
+  'type', 'title', 'deadline', 'status', 'stepId', 'documentId', 'notes', 'resolvedAt', 'resolvedBy'
+];
+
+const CONTINGENCY_INCLUDE = {
+  extensions: { orderBy: { createdAt: 'desc' } },
+  step: { select: { id: true, title: true, isCompleted: true } },
+  document: { select: { id: true, originalName: true, documentType: true, downloadUrl: true } }
+} satisfies Prisma.ContingencyInclude;
+
+const DOCUMENT_SHARE_INCLUDE = {
+  accesses: { orderBy: { createdAt: 'desc' }, take: 10 }
+} satisfies Prisma.DocumentShareLinkInclude;
+
+type DocumentShareLinkWithAccesses = Prisma.DocumentShareLinkGetPayload<{ include: typeof DOCUMENT_SHARE_INCLUDE }>;
+
+type ScheduleStepInput = Pick<
+  TimelineStep,
+  'id' | 'title' | 'sortOrder' | 'daysFromStart' | 'estimatedDuration' | 'scheduledDate' |
+  'actualStartDate' | 'actualEndDate' | 'isCompleted'
+>;
+
+export class TimelineDependencyError extends Error {
+  constructor(
+    message: string,
+    public readonly details: { missingDependencies?: string[]; cycle?: string[] } = {}
+  ) {
+    super(message);
+    this.name = 'TimelineDependencyError';
+  }
+}
+
+export class StepDocumentRequirementError extends Error {
+  constructor(
+    message: string,
+    public readonly details: { missingDocuments: string[] }
+  ) {
+    super(message);
+    this.name = 'StepDocumentRequirementError';
+  }
+}
+
+export class TimelinePermissionError extends Error {
+  constructor(
+    message: string,
+    public readonly action: TimelineAction
+  ) {
+    super(message);
+    this.name = 'TimelinePermissionError';
+  }
+}
+
+export class TimelineInvitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimelineInvitationError';
+  }
+}
+
+export class TimelineContingencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimelineContingencyError';
+  }
+}
+
+export class DocumentShareError extends Error {
+  constructor(
+    message: string,
+    public readonly status: DocumentShareStatus
+  ) {
+    super(message);
+    this.name = 'DocumentShareError';
+  }
+}
 
 export class TimelineService {
+  private builtInTemplatesReady: Promise<void> | null = null;
+
   // ============================================================================
   // TIMELINE MANAGEMENT
   // ============================================================================
@@ -66,9 +232,18 @@ export class TimelineService {
       throw new Error('Timeline already exists for this property');
     }
 
+    // Custom steps win over a template; no template means the default financed purchase
+    const template = input.templateId && input.customSteps.length === 0
+      ? await this.resolveTemplate(userId, input.templateId)
+      : null;
+    const templateSteps = template
+      ? template.steps as unknown as DefaultTimelineStep[]
+      : DEFAULT_TIMELINE_STEPS;
+
     // Calculate estimated closing date if not provided
+    const closingDays = template?.defaultClosingDays ?? 30;
     const estimatedClosingDate = input.estimatedClosingDate || 
-      new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days from now
+      new Date(Date.now() + closingDays * DAY_MS);
 
     // Create timeline with steps in a transaction
     return await prisma.$transaction(async (tx) => {
@@ -79,14 +254,15 @@ export class TimelineService {
           userId: property.userId,
           title: input.title || 'Home Purchase Timeline',
           estimatedClosingDate,
-          totalSteps: input.customSteps.length || DEFAULT_TIMELINE_STEPS.length,
+          totalSteps: input.customSteps.length || templateSteps.length,
+          templateId: template?.id ?? null,
         }
       });
 
-      // Use custom steps or default steps
+      // Use custom steps or template steps
       const stepsToCreate = input.customSteps.length > 0 
         ? input.customSteps 
-        : DEFAULT_TIMELINE_STEPS;
+        : templateSteps;
 
       // Create timeline steps
       const steps = await Promise.all(
@@ -119,6 +295,37 @@ export class TimelineService {
         })
       );
 
+      // Seed the dependency graph from the template's title references
+      const dependencyEdges = resolveTemplateDependencies(steps, stepsToCreate);
+      if (dependencyEdges.length > 0) {
+        await tx.timelineStepDependency.createMany({
+          data: dependencyEdges.map(edge => ({ ...edge, timelineId: timeline.id }))
+        });
+      }
+
+      // Each template step's document checklist becomes editable per-timeline requirements
+      const requirements = steps.flatMap((step, index) =>
+        (stepsToCreate[index]?.requiredDocuments ?? []).map((requirement, sortOrder) => ({
+          ...requirement,
+          timelineId: timeline.id,
+          stepId: step.id,
+          sortOrder
+        }))
+      );
+      if (requirements.length > 0) {
+        await tx.stepDocumentRequirement.createMany({ data: requirements });
+      }
+
+      await timelineActivityService.record({
+        timelineId: timeline.id,
+        actorId: userId,
+        action: ActivityAction.CREATE,
+        entityType: ActivityEntityType.TIMELINE,
+        entityId: timeline.id,
+        summary: `Created "${timeline.title}" with ${steps.length} steps${template ? ` from the ${template.name} template` : ''}`,
+        changes: timelineActivityService.diffChanges(null, timeline, TIMELINE_AUDIT_FIELDS)
+      }, tx);
+
       // Return timeline with all relations
       return await tx.timeline.findUniqueOrThrow({
         where: { id: timeline.id },
@@ -137,6 +344,8 @@ export class TimelineService {
             include: {
               documents: true,
               comments: true,
+              dependencies: true,
+              documentRequirements: { orderBy: { sortOrder: 'asc' } },
             },
             orderBy: { sortOrder: 'asc' }
           },
@@ -173,11 +382,27 @@ export class TimelineService {
       includeNotes = false
     } = options;
 
-    const timeline = await prisma.timeline.findFirst({
+    // Owners and invited collaborators can both open a timeline
+    const match = await prisma.timeline.findFirst({
       where: {
         propertyId,
-        user: { clerkId: userId }
+        OR: [
+          { user: { clerkId: userId } },
+          { teamMembers: { some: { isActive: true, user: { clerkId: userId } } } }
+        ]
       },
+      select: { id: true }
+    });
+
+    if (!match) {
+      return null;
+    }
+
+    const access = await this.resolveTimelineAccess(userId, match.id);
+    const documentScope = this.documentScopeFilter(access);
+
+    const timeline = await prisma.timeline.findUnique({
+      where: { id: match.id },
       include: {
         property: {
           select: {
@@ -191,34 +416,50 @@ export class TimelineService {
         },
         steps: includeSteps ? {
           include: {
-            documents: true, // Always include documents for step counts
+            documents: { where: documentScope }, // Always include documents for step counts
             comments: includeDocuments ? {
               orderBy: { createdAt: 'desc' }
-            } : false
+            } : false,
+            dependencies: true,
+            documentRequirements: { orderBy: { sortOrder: 'asc' } }
           },
           orderBy: { sortOrder: 'asc' }
         } : false,
-        documents: includeDocuments,
+        documents: includeDocuments ? { where: documentScope } : false,
         teamMembers: includeTeamMembers ? {
           where: { isActive: true },
           orderBy: { isPrimary: 'desc' }
         } : false,
-        notes: includeNotes ? {
+        notes: includeNotes && access.actions.includes('note.view') ? {
+          // Private notes are only visible to their author
+          where: { OR: [{ isPrivate: false }, { authorId: userId }] },
           orderBy: { createdAt: 'desc' }
         } : false
       }
     });
 
-    return timeline as TimelineWithRelations | null;
+    if (!timeline) {
+      return null;
+    }
+
+    // The feed token grants read access to the whole calendar, so it stays with the owner
+    return {
+      ...timeline,
+      calendarToken: access.isOwner ? timeline.calendarToken : null,
+      viewerAccess: access
+    } as TimelineWithRelations;
   }
 
   /**
-   * Get all timelines for a user
+   * Get all timelines a user owns or has been invited to
    */
   async getUserTimelines(userId: string): Promise<any[]> {
     const timelines = await prisma.timeline.findMany({
       where: {
-        user: { clerkId: userId }
+        OR: [
+          { user: { clerkId: userId } },
+          { teamMembers: { some: { isActive: true, user: { clerkId: userId } } } }
+        ]
       },
       include: {
         property: {
@@ -246,8 +487,11 @@ export class TimelineService {
     timelineId: string,
     input: UpdateTimelineInput
   ): Promise<TimelineWithRelations> {
-    // Verify ownership
-    await this.verifyTimelineOwnership(userId, timelineId);
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.manage');
+
+    const before = await prisma.timeline.findUniqueOrThrow({
+      where: { id: timelineId }
+    });
 
     const timeline = await prisma.timeline.update({
       where: { id: timelineId },
@@ -270,6 +514,8 @@ export class TimelineService {
           include: {
             documents: true,
             comments: true,
+            dependencies: true,
+            documentRequirements: { orderBy: { sortOrder: 'asc' } },
           },
           orderBy: { sortOrder: 'asc' }
         },
@@ -284,6 +530,19 @@ export class TimelineService {
       }
     });
 
+    const changes = timelineActivityService.diffChanges(before, timeline, TIMELINE_AUDIT_FIELDS);
+    if (Object.keys(changes).length > 0) {
+      await timelineActivityService.record({
+        timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.TIMELINE,
+        entityId: timelineId,
+        summary: `Updated timeline ${Object.keys(changes).join(', ')}`,
+        changes
+      });
+    }
+
     return timeline as TimelineWithRelations;
   }
 
@@ -291,11 +550,27 @@ export class TimelineService {
    * Delete timeline (soft delete)
    */
   async deleteTimeline(userId: string, timelineId: string): Promise<void> {
-    await this.verifyTimelineOwnership(userId, timelineId);
-    
-    await prisma.timeline.update({
-      where: { id: timelineId },
-      data: { status: TimelineStatus.CANCELLED }
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.manage');
+
+    await prisma.$transaction(async (tx) => {
+      const before = await tx.timeline.findUniqueOrThrow({
+        where: { id: timelineId }
+      });
+
+      await tx.timeline.update({
+        where: { id: timelineId },
+        data: { status: TimelineStatus.CANCELLED }
+      });
+
+      await timelineActivityService.record({
+        timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.TIMELINE,
+        entityId: timelineId,
+        summary: `Cancelled "${before.title}"`,
+        changes: { status: { before: before.status, after: TimelineStatus.CANCELLED } }
+      }, tx);
     });
   }
 
@@ -310,7 +585,7 @@ export class TimelineService {
     userId: string,
     input: CreateTimelineStepInput
   ): Promise<TimelineStepWithRelations> {
-    await this.verifyTimelineOwnership(userId, input.timelineId);
+    await this.requireTimelineAccess(userId, input.timelineId, 'timeline.manage');
 
     // Calculate scheduled date
     const timeline = await prisma.timeline.findUniqueOrThrow({
@@ -338,6 +613,16 @@ export class TimelineService {
       }
     });
 
+    await timelineActivityService.record({
+      timelineId: input.timelineId,
+      actorId: userId,
+      action: ActivityAction.CREATE,
+      entityType: ActivityEntityType.STEP,
+      entityId: step.id,
+      summary: `Added step "${step.title}"`,
+      changes: timelineActivityService.diffChanges(null, step, STEP_AUDIT_FIELDS)
+    });
+
     // Update timeline total steps count
     await this.updateTimelineProgress(input.timelineId);
 
@@ -352,21 +637,69 @@ export class TimelineService {
     stepId: string,
     input: UpdateTimelineStepInput
   ): Promise<TimelineStepWithRelations> {
-    // Get step and verify ownership
+    // Get step and verify access to its category
     const step = await prisma.timelineStep.findUniqueOrThrow({
       where: { id: stepId },
       include: { timeline: true }
     });
 
-    await this.verifyTimelineOwnership(userId, step.timelineId);
+    await this.requireTimelineAccess(userId, step.timelineId, 'step.update', { stepCategory: step.category });
+
+    // The cascade reschedules steps in any category, so it needs the same access as cascadeSchedule
+    if (input.cascadeSchedule === true) {
+      await this.requireTimelineAccess(userId, step.timelineId, 'timeline.manage');
+    }
+
+    // A step can't be completed while any step it depends on is still open
+    if (input.isCompleted === true && !step.isCompleted) {
+      const blockers = await prisma.timelineStepDependency.findMany({
+        where: {
+          stepId,
+          dependsOn: { isCompleted: false }
+        },
+        include: {
+          dependsOn: { select: { title: true } }
+        }
+      });
+
+      if (blockers.length > 0) {
+        const missingDependencies = blockers.map(blocker => blocker.dependsOn.title);
+        throw new TimelineDependencyError(
+          `Complete these steps first: ${missingDependencies.join(', ')}`,
+          { missingDependencies }
+        );
+      }
+    }
+
+    // Required documents gate completion too, unless a timeline manager overrides with a reason
+    const missingDocuments = input.isCompleted === true && !step.isCompleted
+      ? await this.getMissingRequiredDocuments(stepId)
+      : [];
+
+    if (missingDocuments.length > 0) {
+      if (!input.documentOverrideReason) {
+        throw new StepDocumentRequirementError(
+          `Upload these documents first: ${missingDocuments.join(', ')}`,
+          { missingDocuments }
+        );
+      }
+      await this.requireTimelineAccess(userId, step.timelineId, 'timeline.manage');
+    }
 
     // Handle completion logic
-    const { isEarlyCompletion, ...dataToUpdate } = input; // Extract isEarlyCompletion, don't save to DB
+    const { isEarlyCompletion, cascadeSchedule, documentOverrideReason, ...dataToUpdate } = input; // Extract request-only flags, don't save to DB
     const updateData: any = {
       ...dataToUpdate,
       updatedAt: new Date(),
     };
 
+    // Only an override that was actually needed is recorded
+    if (missingDocuments.length > 0) {
+      updateData.documentOverrideReason = documentOverrideReason;
+      updateData.documentOverrideBy = userId;
+      updateData.documentOverrideAt = new Date();
+    }
+
     if (input.actualCost !== undefined) {
       updateData.actualCost = input.actualCost ? BigInt(input.actualCost) : null;
     }
@@ -380,6 +713,9 @@ export class TimelineService {
       } else if (input.isCompleted === false) {
         updateData.status = StepStatus.UPCOMING; // Will be corrected later by current step logic
         updateData.actualEndDate = null;
+        updateData.documentOverrideReason = null;
+        updateData.documentOverrideBy = null;
+        updateData.documentOverrideAt = null;
       }
 
       // Update the current step
@@ -390,7 +726,8 @@ export class TimelineService {
           documents: true,
           comments: {
             orderBy: { createdAt: 'desc' }
-          }
+          },
+          dependencies: true
         }
       });
 
@@ -438,7 +775,7 @@ export class TimelineService {
         
         // Handle document version cleanup when step becomes incomplete
         const { documentVersionService } = await import('./DocumentVersionService');
-        await documentVersionService.handleStepIncomplete(stepId);
+        await documentVersionService.handleStepIncomplete(stepId, userId);
         
         // Mark step incomplete: find earliest UPCOMING step and make it CURRENT
         // First, set all non-completed steps to UPCOMING
@@ -470,6 +807,29 @@ export class TimelineService {
         }
       }
 
+      const action = input.isCompleted === true && !step.isCompleted
+        ? ActivityAction.COMPLETE
+        : input.isCompleted === false && step.isCompleted
+          ? ActivityAction.REOPEN
+          : ActivityAction.UPDATE;
+      const changes = timelineActivityService.diffChanges(step, updatedStep, STEP_AUDIT_FIELDS);
+
+      if (action !== ActivityAction.UPDATE || Object.keys(changes).length > 0) {
+        await timelineActivityService.record({
+          timelineId: step.timelineId,
+          actorId: userId,
+          action,
+          entityType: ActivityEntityType.STEP,
+          entityId: stepId,
+          summary: action === ActivityAction.COMPLETE
+            ? `Completed "${step.title}"${isEarlyCompletion ? ' early' : ''}${missingDocuments.length > 0 ? ` without ${missingDocuments.join(', ')}` : ''}`
+            : action === ActivityAction.REOPEN
+              ? `Marked "${step.title}" incomplete`
+              : `Updated "${step.title}"`,
+          changes
+        }, tx);
+      }
+
       return updatedStep;
     }, {
       timeout: 15000 // Increase timeout to 15 seconds
@@ -478,6 +838,11 @@ export class TimelineService {
     // Update timeline progress
     await this.updateTimelineProgress(step.timelineId);
 
+    // Push out dependent steps if this change moved the schedule
+    if (cascadeSchedule === true) {
+      await this.applyScheduleCascade(step.timelineId, stepId, userId);
+    }
+
     return result as TimelineStepWithRelations;
   }
 
@@ -489,9 +854,17 @@ export class TimelineService {
     timelineId: string,
     stepUpdates: Array<{ stepId: string; sortOrder: number }>
   ): Promise<void> {
-    await this.verifyTimelineOwnership(userId, timelineId);
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.manage');
 
     await prisma.$transaction(async (tx) => {
+      const stepOrder = async () => (await tx.timelineStep.findMany({
+        where: { timelineId },
+        select: { title: true },
+        orderBy: { sortOrder: 'asc' }
+      })).map(step => step.title);
+
+      const before = await stepOrder();
+
       for (const update of stepUpdates) {
         await tx.timelineStep.update({
           where: { 
@@ -501,6 +874,16 @@ export class TimelineService {
           data: { sortOrder: update.sortOrder }
         });
       }
+
+      await timelineActivityService.record({
+        timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.TIMELINE,
+        entityId: timelineId,
+        summary: `Reordered ${stepUpdates.length} step${stepUpdates.length === 1 ? '' : 's'}`,
+        changes: { stepOrder: { before, after: await stepOrder() } }
+      }, tx);
     });
   }
 
@@ -513,10 +896,22 @@ export class TimelineService {
       include: { timeline: true }
     });
 
-    await this.verifyTimelineOwnership(userId, step.timelineId);
+    await this.requireTimelineAccess(userId, step.timelineId, 'timeline.manage');
 
-    await prisma.timelineStep.delete({
-      where: { id: stepId }
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineStep.delete({
+        where: { id: stepId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: step.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.STEP,
+        entityId: stepId,
+        summary: `Deleted step "${step.title}"`,
+        changes: timelineActivityService.diffChanges(step, null, STEP_AUDIT_FIELDS)
+      }, tx);
     });
 
     // Update timeline progress
@@ -524,196 +919,1053 @@ export class TimelineService {
   }
 
   // ============================================================================
-  // DOCUMENT MANAGEMENT
+  // DEPENDENCY MANAGEMENT
   // ============================================================================
 
   /**
-   * Upload document
+   * Get the full step dependency DAG for a timeline
    */
-  async uploadDocument(
+  async getDependencyGraph(userId: string, timelineId: string): Promise<TimelineDependencyGraph> {
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
+
+    const [steps, dependencies] = await Promise.all([
+      prisma.timelineStep.findMany({
+        where: { timelineId },
+        select: { id: true, title: true, sortOrder: true, status: true, isCompleted: true },
+        orderBy: { sortOrder: 'asc' }
+      }),
+      prisma.timelineStepDependency.findMany({
+        where: { timelineId },
+        select: { stepId: true, dependsOnStepId: true }
+      })
+    ]);
+
+    const completedIds = new Set(steps.filter(step => step.isCompleted).map(step => step.id));
+
+    return {
+      timelineId,
+      nodes: steps.map(step => {
+        const dependsOn = dependencies
+          .filter(edge => edge.stepId === step.id)
+          .map(edge => edge.dependsOnStepId);
+
+        return {
+          ...step,
+          dependsOn,
+          blockedBy: dependsOn.filter(id => !completedIds.has(id))
+        };
+      }),
+      edges: dependencies,
+      topologicalOrder: sortStepsTopologically(steps, dependencies)
+    };
+  }
+
+  /**
+   * Replace the set of steps a step depends on, rejecting edges that would form a cycle
+   */
+  async setStepDependencies(
     userId: string,
-    input: UploadDocumentInput
-  ): Promise<TimelineDocument> {
-    await this.verifyTimelineOwnership(userId, input.timelineId);
+    stepId: string,
+    dependsOnStepIds: string[]
+  ): Promise<TimelineDependencyGraph> {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: stepId }
+    });
 
-    // Verify step belongs to timeline if provided
-    if (input.stepId) {
-      const step = await prisma.timelineStep.findFirst({
-        where: {
-          id: input.stepId,
-          timelineId: input.timelineId
-        }
-      });
+    await this.requireTimelineAccess(userId, step.timelineId, 'timeline.manage');
 
-      if (!step) {
-        throw new Error('Step not found or does not belong to timeline');
-      }
+    const uniqueIds = Array.from(new Set(dependsOnStepIds));
+    if (uniqueIds.includes(stepId)) {
+      throw new TimelineDependencyError('A step cannot depend on itself', { cycle: [stepId, stepId] });
     }
 
-    return await prisma.timelineDocument.create({
-      data: {
-        ...input,
-        uploadedBy: userId,
-      }
+    const steps = await prisma.timelineStep.findMany({
+      where: { timelineId: step.timelineId },
+      select: { id: true, title: true }
     });
-  }
+    const titlesById = new Map(steps.map(s => [s.id, s.title]));
 
-  /**
-   * Get documents for timeline or step
-   */
-  async getDocuments(
-    userId: string,
-    timelineId: string,
-    stepId?: string
-  ): Promise<TimelineDocument[]> {
-    await this.verifyTimelineOwnership(userId, timelineId);
+    if (uniqueIds.some(id => !titlesById.has(id))) {
+      throw new Error('Dependency step not found or access denied');
+    }
 
-    return await prisma.timelineDocument.findMany({
+    const existingEdges = await prisma.timelineStepDependency.findMany({
       where: {
-        timelineId,
-        ...(stepId && { stepId })
+        timelineId: step.timelineId,
+        stepId: { not: stepId }
       },
-      orderBy: { createdAt: 'desc' }
+      select: { stepId: true, dependsOnStepId: true }
     });
-  }
 
-  /**
-   * Create document record (for Cloudinary uploads)
-   */
-  async createDocument(
-    userId: string,
-    input: {
-      timelineId: string;
-      stepId?: string;
-      fileName: string;
-      originalName: string;
-      mimeType: string;
-      fileSize: number;
-      documentType: string;
-      storageProvider: string;
-      storageKey: string;
-      downloadUrl: string;
-      thumbnailUrl?: string;
-      uploadedBy: string;
-      completionSessionId?: string;
+    const proposedEdges = [
+      ...existingEdges,
+      ...uniqueIds.map(dependsOnStepId => ({ stepId, dependsOnStepId }))
+    ];
+
+    const cycle = findDependencyCycle(proposedEdges);
+    if (cycle) {
+      const path = cycle.map(id => titlesById.get(id) || id).join(' → ');
+      throw new TimelineDependencyError(`Dependency cycle detected: ${path}`, { cycle });
     }
-  ): Promise<TimelineDocument> {
-    await this.verifyTimelineOwnership(userId, input.timelineId);
 
-    // Verify step belongs to timeline if provided
-    if (input.stepId) {
-      const step = await prisma.timelineStep.findFirst({
-        where: {
-          id: input.stepId,
-          timelineId: input.timelineId
-        }
-      });
+    const previousIds = (await prisma.timelineStepDependency.findMany({
+      where: { stepId },
+      select: { dependsOnStepId: true }
+    })).map(edge => edge.dependsOnStepId);
+    const titlesOf = (ids: string[]) => ids.map(id => titlesById.get(id) || id).sort();
 
-      if (!step) {
-        throw new Error('Step not found or does not belong to timeline');
-      }
-    }
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineStepDependency.deleteMany({ where: { stepId } });
+      await tx.timelineStepDependency.createMany({
+        data: uniqueIds.map(dependsOnStepId => ({
+          timelineId: step.timelineId,
+          stepId,
+          dependsOnStepId
+        }))
+      });
 
-    // Create the document
-    const document = await prisma.timelineDocument.create({
-      data: {
-        timelineId: input.timelineId,
-        stepId: input.stepId,
-        fileName: input.fileName,
-        originalName: input.originalName,
-        mimeType: input.mimeType,
-        fileSize: BigInt(input.fileSize), // Convert to BigInt for database
-        documentType: input.documentType as any, // Cast to enum
-        storageProvider: input.storageProvider as any, // Cast to enum
-        storageKey: input.storageKey,
-        downloadUrl: input.downloadUrl,
-        thumbnailUrl: input.thumbnailUrl,
-        uploadedBy: input.uploadedBy,
-        completionSessionId: input.completionSessionId,
-      }
+      await timelineActivityService.record({
+        timelineId: step.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.STEP,
+        entityId: stepId,
+        summary: `Changed what "${step.title}" depends on`,
+        changes: { dependsOn: { before: titlesOf(previousIds), after: titlesOf(uniqueIds) } }
+      }, tx);
     });
 
-    // Handle document versioning if this is part of a completion session
-    if (input.completionSessionId && input.stepId) {
-      const { documentVersionService } = await import('./DocumentVersionService');
-      await documentVersionService.handleDocumentVersioning(
-        input.stepId,
-        input.documentType,
-        document.id,
-        input.completionSessionId
-      );
-    }
-
-    return document;
+    return this.getDependencyGraph(userId, step.timelineId);
   }
 
+  // ============================================================================
+  // DOCUMENT REQUIREMENTS
+  // ============================================================================
+
   /**
-   * Delete document
+   * A step's required documents, each matched to the current document that satisfies it
    */
-  async deleteDocument(userId: string, documentId: string): Promise<void> {
-    const document = await prisma.timelineDocument.findUniqueOrThrow({
-      where: { id: documentId },
-      include: { timeline: true }
+  async getStepDocumentChecklist(userId: string, stepId: string): Promise<StepDocumentChecklist> {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: stepId },
+      include: {
+        documentRequirements: true,
+        documents: {
+          where: { isCurrentVersion: true },
+          select: { id: true, documentType: true, originalName: true, isCurrentVersion: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
     });
 
-    await this.verifyTimelineOwnership(userId, document.timelineId);
+    const access = await this.requireTimelineAccess(userId, step.timelineId, 'timeline.view', { stepCategory: step.category });
 
-    await prisma.timelineDocument.delete({
-      where: { id: documentId }
-    });
-  }
+    // Only documents the caller's role may see can satisfy (and name) a requirement
+    const visibleDocuments = step.documents.filter(document =>
+      hasTimelinePermission(access, 'document.view', { documentType: document.documentType })
+    );
+    const items = buildDocumentChecklist(step.documentRequirements, visibleDocuments);
 
-  // ============================================================================
-  // TEAM MEMBER MANAGEMENT
-  // ============================================================================
+    return {
+      stepId,
+      items,
+      missingCount: items.filter(item => item.status === 'missing').length,
+      override: step.documentOverrideReason
+        ? {
+            reason: step.documentOverrideReason,
+            overriddenBy: step.documentOverrideBy,
+            overriddenAt: step.documentOverrideAt
+          }
+        : null
+    };
+  }
 
   /**
-   * Add team member
+   * Require another document before a step can be completed
    */
-  async addTeamMember(
+  async addDocumentRequirement(
     userId: string,
-    input: AddTeamMemberInput
-  ): Promise<TimelineTeamMember> {
-    await this.verifyTimelineOwnership(userId, input.timelineId);
+    stepId: string,
+    input: CreateDocumentRequirementInput
+  ): Promise<StepDocumentChecklist> {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: stepId },
+      include: { _count: { select: { documentRequirements: true } } }
+    });
 
-    // If setting as primary, unset other primary members for this role
-    if (input.isPrimary) {
-      await prisma.timelineTeamMember.updateMany({
-        where: {
-          timelineId: input.timelineId,
-          role: input.role,
-          isPrimary: true
-        },
-        data: { isPrimary: false }
+    await this.requireTimelineAccess(userId, step.timelineId, 'timeline.manage');
+
+    await prisma.$transaction(async (tx) => {
+      await tx.stepDocumentRequirement.create({
+        data: {
+          ...input,
+          timelineId: step.timelineId,
+          stepId,
+          sortOrder: step._count.documentRequirements,
+          createdBy: userId
+        }
       });
-    }
 
-    return await prisma.timelineTeamMember.create({
-      data: input
+      await timelineActivityService.record({
+        timelineId: step.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.STEP,
+        entityId: stepId,
+        summary: `"${step.title}" now requires ${input.label}`,
+        changes: { requiredDocument: { before: null, after: input.label } }
+      }, tx);
     });
+
+    return this.getStepDocumentChecklist(userId, stepId);
   }
 
   /**
-   * Update team member
+   * Stop requiring a document. Steps already completed are unaffected
    */
-  async updateTeamMember(
+  async deleteDocumentRequirement(
     userId: string,
-    memberId: string,
-    input: Partial<AddTeamMemberInput>
-  ): Promise<TimelineTeamMember> {
-    const member = await prisma.timelineTeamMember.findUniqueOrThrow({
-      where: { id: memberId },
-      include: { timeline: true }
+    stepId: string,
+    requirementId: string
+  ): Promise<StepDocumentChecklist> {
+    const requirement = await prisma.stepDocumentRequirement.findFirst({
+      where: { id: requirementId, stepId },
+      include: { step: { select: { title: true } } }
     });
 
-    await this.verifyTimelineOwnership(userId, member.timelineId);
+    if (!requirement) {
+      throw new Error('Document requirement not found');
+    }
 
-    // Handle primary role logic
-    if (input.isPrimary) {
-      await prisma.timelineTeamMember.updateMany({
-        where: {
-          timelineId: member.timelineId,
-          role: member.role,
+    await this.requireTimelineAccess(userId, requirement.timelineId, 'timeline.manage');
+
+    await prisma.$transaction(async (tx) => {
+      await tx.stepDocumentRequirement.delete({
+        where: { id: requirementId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: requirement.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.STEP,
+        entityId: requirement.stepId,
+        summary: `"${requirement.step.title}" no longer requires ${requirement.label}`,
+        changes: { requiredDocument: { before: requirement.label, after: null } }
+      }, tx);
+    });
+
+    return this.getStepDocumentChecklist(userId, stepId);
+  }
+
+  // ============================================================================
+  // TEMPLATE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Built-in templates plus the user's own saved templates
+   */
+  async getTemplates(userId: string): Promise<TimelineTemplateSummary[]> {
+    await this.ensureBuiltInTemplates();
+
+    const templates = await prisma.timelineTemplate.findMany({
+      where: {
+        OR: [
+          { isBuiltIn: true },
+          { user: { clerkId: userId } }
+        ]
+      },
+      orderBy: [
+        { isBuiltIn: 'desc' },
+        { createdAt: 'asc' }
+      ]
+    });
+
+    return templates.map(template => ({
+      id: template.id,
+      key: template.key,
+      name: template.name,
+      description: template.description,
+      transactionType: template.transactionType,
+      defaultClosingDays: template.defaultClosingDays,
+      isBuiltIn: template.isBuiltIn,
+      stepCount: Array.isArray(template.steps) ? template.steps.length : 0,
+      createdAt: template.createdAt
+    }));
+  }
+
+  /**
+   * Save an existing timeline's steps and dependencies as a reusable template
+   */
+  async saveTimelineAsTemplate(
+    userId: string,
+    input: SaveTimelineTemplateInput
+  ): Promise<TimelineTemplateSummary> {
+    await this.requireTimelineAccess(userId, input.timelineId, 'timeline.manage');
+
+    const timeline = await prisma.timeline.findUniqueOrThrow({
+      where: { id: input.timelineId },
+      include: {
+        steps: {
+          include: {
+            dependencies: {
+              include: { dependsOn: { select: { title: true } } }
+            },
+            documentRequirements: { orderBy: { sortOrder: 'asc' } }
+          },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    });
+
+    const closingDays = timeline.estimatedClosingDate
+      ? Math.max(1, Math.round((timeline.estimatedClosingDate.getTime() - timeline.startDate.getTime()) / DAY_MS))
+      : 30;
+
+    const steps: DefaultTimelineStep[] = timeline.steps.map(step => ({
+      title: step.title,
+      description: step.description,
+      daysFromStart: step.daysFromStart,
+      estimatedDuration: step.estimatedDuration,
+      category: step.category,
+      icon: step.icon,
+      priority: step.priority,
+      isRequired: step.isRequired,
+      ...(step.estimatedCost ? { estimatedCost: Number(step.estimatedCost) / 100 } : {}),
+      ...(step.externalUrl ? { externalUrl: step.externalUrl } : {}),
+      ...(step.dependencies.length > 0
+        ? { dependencies: step.dependencies.map(dependency => dependency.dependsOn.title) }
+        : {}),
+      ...(step.documentRequirements.length > 0
+        ? {
+            requiredDocuments: step.documentRequirements.map((requirement): DocumentRequirementTemplate => ({
+              documentType: requirement.documentType,
+              label: requirement.label,
+              ...(requirement.description ? { description: requirement.description } : {})
+            }))
+          }
+        : {})
+    }));
+
+    const template = await prisma.timelineTemplate.create({
+      data: {
+        user: { connect: { id: timeline.userId } },
+        name: input.name,
+        description: input.description,
+        defaultClosingDays: closingDays,
+        steps: steps as unknown as Prisma.InputJsonValue,
+        sourceTimelineId: timeline.id
+      }
+    });
+
+    return {
+      id: template.id,
+      key: template.key,
+      name: template.name,
+      description: template.description,
+      transactionType: template.transactionType,
+      defaultClosingDays: template.defaultClosingDays,
+      isBuiltIn: false,
+      stepCount: steps.length,
+      createdAt: template.createdAt
+    };
+  }
+
+  /**
+   * Delete one of the user's saved templates - built-in templates can't be removed
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<void> {
+    const template = await prisma.timelineTemplate.findFirst({
+      where: {
+        id: templateId,
+        isBuiltIn: false,
+        user: { clerkId: userId }
+      }
+    });
+
+    if (!template) {
+      throw new Error('Template not found or access denied');
+    }
+
+    await prisma.timelineTemplate.delete({
+      where: { id: templateId }
+    });
+  }
+
+  // ============================================================================
+  // SCHEDULING
+  // ============================================================================
+
+  /**
+   * Earliest/latest dates, slack and critical path for every step, plus the
+   * projected closing date against the timeline's estimate
+   */
+  async getSchedule(userId: string, timelineId: string): Promise<TimelineSchedule> {
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
+    return this.calculateSchedule(timelineId);
+  }
+
+  /**
+   * Move scheduledDate out for incomplete steps that can no longer start on time.
+   * With fromStepId only that step's downstream dependents are rescheduled
+   */
+  async cascadeSchedule(
+    userId: string,
+    timelineId: string,
+    fromStepId?: string
+  ): Promise<ScheduleCascadeResult> {
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.manage');
+    return this.applyScheduleCascade(timelineId, fromStepId, userId);
+  }
+
+  // ============================================================================
+  // CALENDAR FEED
+  // ============================================================================
+
+  /**
+   * Get the secret token for the timeline's subscribable .ics feed, creating
+   * one on first use. Rotating invalidates every previously shared feed URL
+   */
+  async getCalendarFeedToken(
+    userId: string,
+    timelineId: string,
+    rotate: boolean = false
+  ): Promise<string> {
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.manage');
+
+    const timeline = await prisma.timeline.findUniqueOrThrow({
+      where: { id: timelineId },
+      select: { calendarToken: true }
+    });
+
+    if (timeline.calendarToken && !rotate) {
+      return timeline.calendarToken;
+    }
+
+    const calendarToken = randomBytes(24).toString('base64url');
+    await prisma.timeline.update({
+      where: { id: timelineId },
+      data: { calendarToken }
+    });
+
+    return calendarToken;
+  }
+
+  /**
+   * Calendar data for a signed-in owner (one-off .ics download)
+   */
+  async getCalendarTimeline(userId: string, timelineId: string): Promise<CalendarTimeline> {
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
+    return this.loadCalendarTimeline(timelineId);
+  }
+
+  /**
+   * Calendar data for a feed subscriber, authorized by the feed token alone
+   */
+  async getCalendarTimelineByToken(timelineId: string, token: string): Promise<CalendarTimeline> {
+    const timeline = await prisma.timeline.findUnique({
+      where: { id: timelineId },
+      select: { calendarToken: true }
+    });
+
+    const expected = Buffer.from(timeline?.calendarToken ?? '');
+    const provided = Buffer.from(token);
+
+    if (
+      !timeline?.calendarToken ||
+      expected.length !== provided.length ||
+      !timingSafeEqual(expected, provided)
+    ) {
+      throw new Error('Timeline not found or access denied');
+    }
+
+    return this.loadCalendarTimeline(timelineId);
+  }
+
+  // ============================================================================
+  // DOCUMENT MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Upload document
+   */
+  async uploadDocument(
+    userId: string,
+    input: UploadDocumentInput
+  ): Promise<TimelineDocument> {
+    await this.requireTimelineAccess(userId, input.timelineId, 'document.upload', { documentType: input.documentType });
+
+    // Verify step belongs to timeline if provided
+    if (input.stepId) {
+      const step = await prisma.timelineStep.findFirst({
+        where: {
+          id: input.stepId,
+          timelineId: input.timelineId
+        }
+      });
+
+      if (!step) {
+        throw new Error('Step not found or does not belong to timeline');
+      }
+    }
+
+    const document = await prisma.timelineDocument.create({
+      data: {
+        ...input,
+        uploadedBy: userId,
+      }
+    });
+
+    await this.recordDocumentCreated(userId, document);
+
+    return document;
+  }
+
+  /**
+   * Get documents for timeline or step
+   */
+  async getDocuments(
+    userId: string,
+    timelineId: string,
+    stepId?: string
+  ): Promise<TimelineDocument[]> {
+    const access = await this.requireTimelineAccess(userId, timelineId, 'document.view');
+
+    return await prisma.timelineDocument.findMany({
+      where: {
+        timelineId,
+        ...(stepId && { stepId }),
+        ...this.documentScopeFilter(access)
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get a step's documents grouped by completion session, limited to the
+   * document types the caller's role may see
+   */
+  async getStepDocumentVersions(userId: string, stepId: string) {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: stepId },
+      select: { timelineId: true }
+    });
+
+    const access = await this.requireTimelineAccess(userId, step.timelineId, 'document.view');
+
+    const { documentVersionService } = await import('./DocumentVersionService');
+    const grouped = await documentVersionService.getDocumentsGroupedBySessionsServer(stepId);
+    const visible = (document: TimelineDocument) =>
+      hasTimelinePermission(access, 'document.view', { documentType: document.documentType });
+
+    return {
+      currentDocuments: grouped.currentDocuments.filter(visible),
+      previousSessions: grouped.previousSessions.map(session => ({
+        ...session,
+        documents: session.documents.filter(visible)
+      }))
+    };
+  }
+
+  /**
+   * Find the document stored under a backend key, for serving files that
+   * have no public URL of their own
+   */
+  async getDocumentByStorageKey(
+    userId: string,
+    storageProvider: string,
+    storageKey: string
+  ): Promise<TimelineDocument> {
+    const document = await prisma.timelineDocument.findFirst({
+      where: { storageProvider, storageKey }
+    });
+
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await this.requireTimelineAccess(userId, document.timelineId, 'document.view', {
+      documentType: document.documentType
+    });
+
+    return document;
+  }
+
+  /**
+   * Create document record (for direct-to-storage uploads)
+   */
+  async createDocument(
+    userId: string,
+    input: {
+      timelineId: string;
+      stepId?: string;
+      fileName: string;
+      originalName: string;
+      mimeType: string;
+      fileSize: number;
+      documentType: string;
+      storageProvider: string;
+      storageKey: string;
+      downloadUrl: string;
+      thumbnailUrl?: string;
+      uploadedBy: string;
+      completionSessionId?: string;
+    }
+  ): Promise<TimelineDocument> {
+    await this.requireTimelineAccess(userId, input.timelineId, 'document.upload', { documentType: input.documentType });
+
+    // Verify step belongs to timeline if provided
+    if (input.stepId) {
+      const step = await prisma.timelineStep.findFirst({
+        where: {
+          id: input.stepId,
+          timelineId: input.timelineId
+        }
+      });
+
+      if (!step) {
+        throw new Error('Step not found or does not belong to timeline');
+      }
+    }
+
+    // Create the document
+    const document = await prisma.timelineDocument.create({
+      data: {
+        timelineId: input.timelineId,
+        stepId: input.stepId,
+        fileName: input.fileName,
+        originalName: input.originalName,
+        mimeType: input.mimeType,
+        fileSize: BigInt(input.fileSize), // Convert to BigInt for database
+        documentType: input.documentType as any, // Cast to enum
+        storageProvider: input.storageProvider as any, // Cast to enum
+        storageKey: input.storageKey,
+        downloadUrl: input.downloadUrl,
+        thumbnailUrl: input.thumbnailUrl,
+        uploadedBy: input.uploadedBy,
+        completionSessionId: input.completionSessionId,
+      }
+    });
+
+    await this.recordDocumentCreated(userId, document);
+
+    // Handle document versioning if this is part of a completion session
+    if (input.completionSessionId && input.stepId) {
+      const { documentVersionService } = await import('./DocumentVersionService');
+      await documentVersionService.handleDocumentVersioning(
+        input.stepId,
+        input.documentType,
+        document.id,
+        input.completionSessionId,
+        userId
+      );
+    }
+
+    return document;
+  }
+
+  /**
+   * Delete document
+   */
+  async deleteDocument(userId: string, documentId: string): Promise<void> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId },
+      include: { timeline: true }
+    });
+
+    // Collaborators can only remove their own uploads
+    const access = await this.requireTimelineAccess(userId, document.timelineId, 'document.upload', {
+      documentType: document.documentType
+    });
+    if (!access.isOwner && document.uploadedBy !== userId) {
+      throw new TimelinePermissionError('Only the timeline owner can delete documents uploaded by others', 'document.upload');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineDocument.delete({
+        where: { id: documentId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: document.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.DOCUMENT,
+        entityId: documentId,
+        summary: `Deleted ${document.originalName}`,
+        changes: timelineActivityService.diffChanges(document, null, DOCUMENT_AUDIT_FIELDS),
+        documentType: document.documentType
+      }, tx);
+    });
+
+    // The record is gone either way; a leftover file is only wasted space
+    try {
+      await getDocumentStorage(document.storageProvider).delete(document);
+    } catch (error) {
+      logger.warn('Failed to delete stored document file', {
+        documentId,
+        storageProvider: document.storageProvider,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Update document details or verification. Verifying is owner-only;
+   * other edits follow the document.upload scope
+   */
+  async updateDocument(
+    userId: string,
+    documentId: string,
+    input: UpdateDocumentInput
+  ): Promise<TimelineDocument> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId }
+    });
+
+    const access = await this.requireTimelineAccess(userId, document.timelineId, 'document.upload', {
+      documentType: document.documentType
+    });
+    const verificationChanged = input.isVerified !== undefined && input.isVerified !== document.isVerified;
+    if (verificationChanged && !access.isOwner) {
+      throw new TimelinePermissionError('Only the timeline owner can verify documents', 'document.upload');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.timelineDocument.update({
+        where: { id: documentId },
+        data: {
+          ...input,
+          ...(verificationChanged && {
+            verifiedBy: input.isVerified ? input.verifiedBy ?? userId : null,
+            verifiedAt: input.isVerified ? new Date() : null
+          })
+        }
+      });
+
+      const changes = timelineActivityService.diffChanges(document, updated, DOCUMENT_AUDIT_FIELDS);
+      if (Object.keys(changes).length > 0) {
+        await timelineActivityService.record({
+          timelineId: document.timelineId,
+          actorId: userId,
+          action: verificationChanged ? ActivityAction.VERIFY : ActivityAction.UPDATE,
+          entityType: ActivityEntityType.DOCUMENT,
+          entityId: documentId,
+          summary: verificationChanged
+            ? `${updated.isVerified ? 'Verified' : 'Unverified'} ${document.originalName}`
+            : `Updated ${document.originalName}`,
+          changes,
+          documentType: document.documentType
+        }, tx);
+      }
+
+      return updated;
+    });
+  }
+
+  // ============================================================================
+  // DOCUMENT SHARING
+  // ============================================================================
+
+  /**
+   * Create an expiring download link for one document, emailing it when a
+   * recipient is given. Only a hash of the token is stored; shareUrl is returned once
+   */
+  async createDocumentShare(
+    userId: string,
+    documentId: string,
+    input: CreateDocumentShareInput,
+    options: { appUrl: string; sharerName: string }
+  ): Promise<DocumentShareResult> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId },
+      include: {
+        timeline: {
+          select: { property: { select: { address: true } } }
+        }
+      }
+    });
+
+    await this.requireTimelineAccess(userId, document.timelineId, 'document.upload', {
+      documentType: document.documentType
+    });
+
+    const token = randomBytes(32).toString('base64url');
+    const recipientEmail = input.recipientEmail?.toLowerCase();
+
+    const shareLink = await prisma.$transaction(async (tx) => {
+      const created = await tx.documentShareLink.create({
+        data: {
+          documentId,
+          timelineId: document.timelineId,
+          tokenHash: this.hashToken(token),
+          recipientEmail,
+          recipientName: input.recipientName,
+          expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+          maxDownloads: input.maxDownloads,
+          createdBy: userId
+        },
+        include: DOCUMENT_SHARE_INCLUDE
+      });
+
+      if (recipientEmail && !document.sharedWith.includes(recipientEmail)) {
+        await tx.timelineDocument.update({
+          where: { id: documentId },
+          data: { sharedWith: { push: recipientEmail } }
+        });
+      }
+
+      await timelineActivityService.record({
+        timelineId: document.timelineId,
+        actorId: userId,
+        action: ActivityAction.SHARE,
+        entityType: ActivityEntityType.DOCUMENT,
+        entityId: documentId,
+        summary: `Shared ${document.originalName} ${recipientEmail ? `with ${recipientEmail}` : 'by link'}` +
+          ` for ${input.expiresInDays} day${input.expiresInDays === 1 ? '' : 's'}`,
+        documentType: document.documentType
+      }, tx);
+
+      return created;
+    });
+
+    const sharePath = `/api/timeline/documents/shared/${token}`;
+    const emailed = recipientEmail
+      ? await this.sendDocumentShareEmail({
+          email: recipientEmail,
+          name: input.recipientName,
+          sharerName: options.sharerName,
+          documentName: document.originalName,
+          propertyAddress: document.timeline.property.address,
+          message: input.message,
+          expiresAt: shareLink.expiresAt,
+          sharePath,
+          appUrl: options.appUrl
+        })
+      : false;
+
+    return {
+      share: this.toDocumentShareSummary(shareLink),
+      shareUrl: `${options.appUrl.replace(/\/$/, '')}${sharePath}`,
+      emailed
+    };
+  }
+
+  /**
+   * Share links for a document, newest first, with their latest accesses
+   */
+  async getDocumentShares(userId: string, documentId: string): Promise<DocumentShareSummary[]> {
+    const document = await prisma.timelineDocument.findUniqueOrThrow({
+      where: { id: documentId },
+      select: { timelineId: true, documentType: true }
+    });
+
+    await this.requireTimelineAccess(userId, document.timelineId, 'document.upload', {
+      documentType: document.documentType
+    });
+
+    const links = await prisma.documentShareLink.findMany({
+      where: { documentId },
+      include: DOCUMENT_SHARE_INCLUDE,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return links.map(link => this.toDocumentShareSummary(link));
+  }
+
+  /**
+   * Revoke a share link. The recipient stays in sharedWith while another
+   * open link was sent to them
+   */
+  async revokeDocumentShare(
+    userId: string,
+    documentId: string,
+    shareId: string
+  ): Promise<DocumentShareSummary> {
+    const shareLink = await prisma.documentShareLink.findFirst({
+      where: { id: shareId, documentId },
+      include: { document: true }
+    });
+
+    if (!shareLink) {
+      throw new Error('Share link not found');
+    }
+
+    const { document } = shareLink;
+    await this.requireTimelineAccess(userId, document.timelineId, 'document.upload', {
+      documentType: document.documentType
+    });
+
+    if (shareLink.revokedAt) {
+      const current = await prisma.documentShareLink.findUniqueOrThrow({
+        where: { id: shareId },
+        include: DOCUMENT_SHARE_INCLUDE
+      });
+      return this.toDocumentShareSummary(current);
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const updated = await tx.documentShareLink.update({
+        where: { id: shareId },
+        data: { revokedAt: new Date(), revokedBy: userId },
+        include: DOCUMENT_SHARE_INCLUDE
+      });
+
+      if (shareLink.recipientEmail) {
+        const stillShared = await tx.documentShareLink.count({
+          where: {
+            documentId,
+            recipientEmail: shareLink.recipientEmail,
+            revokedAt: null,
+            expiresAt: { gt: new Date() }
+          }
+        });
+
+        if (stillShared === 0) {
+          await tx.timelineDocument.update({
+            where: { id: documentId },
+            data: { sharedWith: document.sharedWith.filter(email => email !== shareLink.recipientEmail) }
+          });
+        }
+      }
+
+      await timelineActivityService.record({
+        timelineId: document.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.DOCUMENT,
+        entityId: documentId,
+        summary: `Revoked the share link for ${document.originalName}` +
+          (shareLink.recipientEmail ? ` sent to ${shareLink.recipientEmail}` : ''),
+        documentType: document.documentType
+      }, tx);
+
+      return updated;
+    });
+
+    return this.toDocumentShareSummary(revoked);
+  }
+
+  /**
+   * Resolve a share token for download, counting and logging the attempt.
+   * Throws DocumentShareError once the link is expired, revoked or used up
+   */
+  async openSharedDocument(
+    token: string,
+    request: { ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<TimelineDocument> {
+    const shareLink = await prisma.documentShareLink.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: { document: true }
+    });
+
+    if (!shareLink) {
+      throw new Error('Share link not found');
+    }
+
+    const logAccess = (outcome: DocumentShareOutcome) => prisma.documentShareAccess.create({
+      data: {
+        shareLinkId: shareLink.id,
+        outcome,
+        ipAddress: request.ipAddress?.slice(0, 100),
+        userAgent: request.userAgent?.slice(0, 500)
+      }
+    });
+
+    const status = this.getDocumentShareStatus(shareLink);
+    if (status !== 'active') {
+      await logAccess(this.toShareOutcome(status));
+      throw new DocumentShareError(this.describeShareStatus(status), status);
+    }
+
+    // Claim a download atomically so concurrent requests can't pass the limit
+    const now = new Date();
+    const claimed = await prisma.documentShareLink.updateMany({
+      where: {
+        id: shareLink.id,
+        revokedAt: null,
+        expiresAt: { gt: now },
+        OR: [
+          { maxDownloads: null },
+          { downloadCount: { lt: prisma.documentShareLink.fields.maxDownloads } }
+        ]
+      },
+      data: { downloadCount: { increment: 1 }, lastAccessedAt: now }
+    });
+
+    if (claimed.count === 0) {
+      await logAccess(DocumentShareOutcome.LIMIT_REACHED);
+      throw new DocumentShareError(this.describeShareStatus('exhausted'), 'exhausted');
+    }
+
+    await logAccess(DocumentShareOutcome.GRANTED);
+
+    return shareLink.document;
+  }
+
+  // ============================================================================
+  // TEAM MEMBER MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Add team member
+   */
+  async addTeamMember(
+    userId: string,
+    input: AddTeamMemberInput
+  ): Promise<TimelineTeamMember> {
+    await this.requireTimelineAccess(userId, input.timelineId, 'team.manage');
+
+    // If setting as primary, unset other primary members for this role
+    if (input.isPrimary) {
+      await prisma.timelineTeamMember.updateMany({
+        where: {
+          timelineId: input.timelineId,
+          role: input.role,
+          isPrimary: true
+        },
+        data: { isPrimary: false }
+      });
+    }
+
+    const member = await prisma.timelineTeamMember.create({
+      data: input
+    });
+
+    await timelineActivityService.record({
+      timelineId: input.timelineId,
+      actorId: userId,
+      action: ActivityAction.CREATE,
+      entityType: ActivityEntityType.TEAM_MEMBER,
+      entityId: member.id,
+      summary: `Added ${member.name} to the team`,
+      changes: timelineActivityService.diffChanges(null, member, TEAM_MEMBER_AUDIT_FIELDS)
+    });
+
+    return member;
+  }
+
+  /**
+   * Update team member
+   */
+  async updateTeamMember(
+    userId: string,
+    memberId: string,
+    input: Partial<AddTeamMemberInput>
+  ): Promise<TimelineTeamMember> {
+    const member = await prisma.timelineTeamMember.findUniqueOrThrow({
+      where: { id: memberId },
+      include: { timeline: true }
+    });
+
+    await this.requireTimelineAccess(userId, member.timelineId, 'team.manage');
+
+    // Handle primary role logic
+    if (input.isPrimary) {
+      await prisma.timelineTeamMember.updateMany({
+        where: {
+          timelineId: member.timelineId,
+          role: member.role,
           isPrimary: true,
           id: { not: memberId }
         },
@@ -721,29 +1973,280 @@ export class TimelineService {
       });
     }
 
-    return await prisma.timelineTeamMember.update({
+    const updated = await prisma.timelineTeamMember.update({
+      where: { id: memberId },
+      data: {
+        ...input,
+        updatedAt: new Date(),
+      }
+    });
+
+    const changes = timelineActivityService.diffChanges(member, updated, TEAM_MEMBER_AUDIT_FIELDS);
+    if (Object.keys(changes).length > 0) {
+      await timelineActivityService.record({
+        timelineId: member.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.TEAM_MEMBER,
+        entityId: memberId,
+        summary: `Updated ${updated.name}`,
+        changes
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Remove team member
+   */
+  async removeTeamMember(userId: string, memberId: string): Promise<void> {
+    const member = await prisma.timelineTeamMember.findUniqueOrThrow({
+      where: { id: memberId },
+      include: { timeline: true }
+    });
+
+    await this.requireTimelineAccess(userId, member.timelineId, 'team.manage');
+
+    // Deactivating also ends the member's access to the timeline
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineTeamMember.update({
+        where: { id: memberId },
+        data: { isActive: false }
+      });
+
+      await timelineActivityService.record({
+        timelineId: member.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.TEAM_MEMBER,
+        entityId: memberId,
+        summary: `Removed ${member.name} from the team`,
+        changes: { isActive: { before: member.isActive, after: false } }
+      }, tx);
+    });
+  }
+
+  // ============================================================================
+  // COLLABORATION & INVITATIONS
+  // ============================================================================
+
+  /**
+   * The caller's role and permissions on a timeline
+   */
+  async getTimelineAccess(userId: string, timelineId: string): Promise<TimelineAccess> {
+    return this.resolveTimelineAccess(userId, timelineId);
+  }
+
+  /**
+   * Throw TimelinePermissionError unless already-resolved access allows the action
+   */
+  assertTimelinePermission(access: TimelineAccess, action: TimelineAction, scope: TimelineAccessScope = {}): void {
+    if (!hasTimelinePermission(access, action, scope)) {
+      const scoped = scope.stepCategory ?? scope.documentType;
+      throw new TimelinePermissionError(
+        `Your role on this timeline does not allow ${action}${scoped ? ` for ${scoped}` : ''}`,
+        action
+      );
+    }
+  }
+
+  /**
+   * Invite a team member to log in and collaborate. Replaces any open invitation;
+   * only a hash of the token is stored, the raw token goes out in the email and inviteUrl
+   */
+  async inviteTeamMember(
+    userId: string,
+    memberId: string,
+    options: { appUrl: string; inviterName: string }
+  ): Promise<TimelineInvitationResult> {
+    const member = await prisma.timelineTeamMember.findUniqueOrThrow({
       where: { id: memberId },
-      data: {
-        ...input,
-        updatedAt: new Date(),
+      include: {
+        timeline: {
+          select: { title: true, property: { select: { address: true } } }
+        }
       }
     });
+
+    await this.requireTimelineAccess(userId, member.timelineId, 'team.manage');
+
+    if (!member.isActive) {
+      throw new TimelineInvitationError('Cannot invite an inactive team member');
+    }
+    if (!member.email) {
+      throw new TimelineInvitationError('Add an email address before inviting this team member');
+    }
+    if (member.userId) {
+      throw new TimelineInvitationError('This team member already has access');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * DAY_MS);
+
+    const [, invitation] = await prisma.$transaction([
+      prisma.timelineInvitation.updateMany({
+        where: { teamMemberId: memberId, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() }
+      }),
+      prisma.timelineInvitation.create({
+        data: {
+          timelineId: member.timelineId,
+          teamMemberId: memberId,
+          email: member.email,
+          tokenHash: this.hashToken(token),
+          invitedBy: userId,
+          expiresAt
+        }
+      })
+    ]);
+
+    await timelineActivityService.record({
+      timelineId: member.timelineId,
+      actorId: userId,
+      action: ActivityAction.UPDATE,
+      entityType: ActivityEntityType.TEAM_MEMBER,
+      entityId: memberId,
+      summary: `Invited ${member.name} (${member.email}) to collaborate`
+    });
+
+    const invitePath = `/timeline/invite/${token}`;
+    const emailed = await this.sendInvitationEmail({
+      email: member.email,
+      name: member.name,
+      inviterName: options.inviterName,
+      timelineTitle: member.timeline.title,
+      propertyAddress: member.timeline.property.address,
+      invitePath,
+      appUrl: options.appUrl
+    });
+
+    return {
+      invitationId: invitation.id,
+      email: invitation.email,
+      expiresAt,
+      inviteUrl: `${options.appUrl.replace(/\/$/, '')}${invitePath}`,
+      emailed
+    };
   }
 
   /**
-   * Remove team member
+   * Look up an invitation by its token so the invitee can review it before accepting
    */
-  async removeTeamMember(userId: string, memberId: string): Promise<void> {
+  async getInvitation(token: string): Promise<TimelineInvitationPreview> {
+    const invitation = await this.findInvitationByToken(token);
+
+    return {
+      status: this.getInvitationStatus(invitation),
+      email: invitation.email,
+      memberName: invitation.teamMember.name,
+      role: invitation.teamMember.role,
+      timelineTitle: invitation.timeline.title,
+      propertyAddress: invitation.timeline.property.address,
+      expiresAt: invitation.expiresAt
+    };
+  }
+
+  /**
+   * Link the signed-in user to the invited team member, granting that role's access
+   */
+  async acceptInvitation(
+    userId: string,
+    token: string
+  ): Promise<{ timelineId: string; propertyId: string; access: TimelineAccess }> {
+    const invitation = await this.findInvitationByToken(token);
+    const status = this.getInvitationStatus(invitation);
+
+    if (status !== 'pending') {
+      throw new TimelineInvitationError(`This invitation has ${status === 'accepted' ? 'already been used' : status === 'expired' ? 'expired' : 'been revoked'}`);
+    }
+    if (!invitation.teamMember.isActive) {
+      throw new TimelineInvitationError('This invitation has been revoked');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { clerkId: userId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (invitation.timeline.userId === user.id) {
+      throw new TimelineInvitationError('You already own this timeline');
+    }
+
+    const existingMembership = await prisma.timelineTeamMember.findFirst({
+      where: { timelineId: invitation.timelineId, userId: user.id }
+    });
+    if (existingMembership) {
+      throw new TimelineInvitationError('You already have access to this timeline');
+    }
+
+    // Claim the invitation and the member atomically so concurrent accepts
+    // of the same token can't both succeed
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const claimedInvitation = await tx.timelineInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+        data: { acceptedAt: now, acceptedBy: userId }
+      });
+      const claimedMember = await tx.timelineTeamMember.updateMany({
+        where: { id: invitation.teamMemberId, userId: null, isActive: true },
+        data: { userId: user.id }
+      });
+
+      if (claimedInvitation.count === 0 || claimedMember.count === 0) {
+        throw new TimelineInvitationError('This invitation has already been used');
+      }
+
+      await timelineActivityService.record({
+        timelineId: invitation.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.TEAM_MEMBER,
+        entityId: invitation.teamMemberId,
+        summary: `${invitation.teamMember.name} accepted their invitation`,
+        changes: { hasAccess: { before: false, after: true } }
+      }, tx);
+    });
+
+    return {
+      timelineId: invitation.timelineId,
+      propertyId: invitation.timeline.propertyId,
+      access: await this.resolveTimelineAccess(userId, invitation.timelineId)
+    };
+  }
+
+  /**
+   * Revoke open invitations and unlink the member's account, ending their access
+   */
+  async revokeTeamMemberAccess(userId: string, memberId: string): Promise<void> {
     const member = await prisma.timelineTeamMember.findUniqueOrThrow({
-      where: { id: memberId },
-      include: { timeline: true }
+      where: { id: memberId }
     });
 
-    await this.verifyTimelineOwnership(userId, member.timelineId);
+    await this.requireTimelineAccess(userId, member.timelineId, 'team.manage');
 
-    await prisma.timelineTeamMember.update({
-      where: { id: memberId },
-      data: { isActive: false }
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineInvitation.updateMany({
+        where: { teamMemberId: memberId, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      await tx.timelineTeamMember.update({
+        where: { id: memberId },
+        data: { userId: null }
+      });
+
+      await timelineActivityService.record({
+        timelineId: member.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.TEAM_MEMBER,
+        entityId: memberId,
+        summary: `Revoked ${member.name}'s access`,
+        changes: { hasAccess: { before: member.userId !== null, after: false } }
+      }, tx);
     });
   }
 
@@ -751,6 +2254,40 @@ export class TimelineService {
   // NOTE MANAGEMENT
   // ============================================================================
 
+  /**
+   * Get notes filtered by type, tag and importance. Every search term must
+   * appear in the title, content or tags; private notes are author-only
+   */
+  async getNotes(userId: string, query: NotesQueryInput): Promise<TimelineNote[]> {
+    await this.requireTimelineAccess(userId, query.timelineId, 'note.view');
+
+    const terms = query.search ? query.search.split(/\s+/).filter(Boolean) : [];
+
+    return await prisma.timelineNote.findMany({
+      where: {
+        timelineId: query.timelineId,
+        ...(query.noteType?.length && { noteType: { in: query.noteType } }),
+        ...(query.tag && { tags: { has: query.tag } }),
+        ...(query.isImportant !== undefined && { isImportant: query.isImportant }),
+        AND: [
+          { OR: [{ isPrivate: false }, { authorId: userId }] },
+          ...terms.map(term => ({
+            OR: [
+              { title: { contains: term, mode: 'insensitive' as const } },
+              { content: { contains: term, mode: 'insensitive' as const } },
+              { tags: { has: term.toLowerCase() } }
+            ]
+          }))
+        ]
+      },
+      orderBy: [
+        { isImportant: 'desc' },
+        { createdAt: 'desc' }
+      ],
+      take: query.limit
+    });
+  }
+
   /**
    * Create note
    */
@@ -759,15 +2296,28 @@ export class TimelineService {
     input: CreateNoteInput,
     authorName: string
   ): Promise<TimelineNote> {
-    await this.verifyTimelineOwnership(userId, input.timelineId);
+    await this.requireTimelineAccess(userId, input.timelineId, 'note.create');
 
-    return await prisma.timelineNote.create({
+    const note = await prisma.timelineNote.create({
       data: {
         ...input,
         authorId: userId,
         authorName,
       }
     });
+
+    await timelineActivityService.record({
+      timelineId: note.timelineId,
+      actorId: userId,
+      action: ActivityAction.CREATE,
+      entityType: ActivityEntityType.NOTE,
+      entityId: note.id,
+      summary: `Added ${note.isPrivate ? 'a private' : 'a'} note${note.title ? ` "${note.title}"` : ''}`,
+      changes: timelineActivityService.diffChanges(null, note, NOTE_AUDIT_FIELDS),
+      isPrivate: note.isPrivate
+    });
+
+    return note;
   }
 
   /**
@@ -776,126 +2326,496 @@ export class TimelineService {
   async updateNote(
     userId: string,
     noteId: string,
-    input: Partial<CreateNoteInput>
+    input: UpdateNoteInput
   ): Promise<TimelineNote> {
-    const note = await prisma.timelineNote.findUniqueOrThrow({
-      where: { id: noteId },
-      include: { timeline: true }
+    const note = await prisma.timelineNote.findUnique({
+      where: { id: noteId }
     });
 
+    if (!note || (note.isPrivate && note.authorId !== userId)) {
+      throw new Error('Note not found or access denied');
+    }
+
     // Only author or timeline owner can update
-    if (note.authorId !== userId) {
-      await this.verifyTimelineOwnership(userId, note.timelineId);
+    const access = await this.requireTimelineAccess(userId, note.timelineId, 'note.view');
+    if (note.authorId !== userId && !access.isOwner) {
+      throw new TimelinePermissionError('Only the author or timeline owner can edit this note', 'note.create');
     }
 
-    return await prisma.timelineNote.update({
+    const updated = await prisma.timelineNote.update({
       where: { id: noteId },
       data: {
         ...input,
         updatedAt: new Date(),
       }
     });
+
+    const changes = timelineActivityService.diffChanges(note, updated, NOTE_AUDIT_FIELDS);
+    if (Object.keys(changes).length > 0) {
+      await timelineActivityService.record({
+        timelineId: note.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.NOTE,
+        entityId: noteId,
+        summary: `Edited note${updated.title ? ` "${updated.title}"` : ''}`,
+        changes,
+        // Stays hidden from collaborators if the note was private on either side of the edit
+        isPrivate: note.isPrivate || updated.isPrivate
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete note
+   */
+  async deleteNote(userId: string, noteId: string): Promise<void> {
+    const note = await prisma.timelineNote.findUnique({
+      where: { id: noteId }
+    });
+
+    if (!note || (note.isPrivate && note.authorId !== userId)) {
+      throw new Error('Note not found or access denied');
+    }
+
+    // Only author or timeline owner can delete
+    const access = await this.requireTimelineAccess(userId, note.timelineId, 'note.view');
+    if (note.authorId !== userId && !access.isOwner) {
+      throw new TimelinePermissionError('Only the author or timeline owner can delete this note', 'note.create');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineNote.delete({
+        where: { id: noteId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: note.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.NOTE,
+        entityId: noteId,
+        summary: `Deleted note${note.title ? ` "${note.title}"` : ''}`,
+        changes: timelineActivityService.diffChanges(note, null, NOTE_AUDIT_FIELDS),
+        isPrivate: note.isPrivate
+      }, tx);
+    });
+  }
+
+  // ============================================================================
+  // COMMENT MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Add step comment
+   */
+  async addStepComment(
+    userId: string,
+    input: AddStepCommentInput,
+    authorName: string
+  ): Promise<TimelineStepComment> {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: input.stepId },
+      include: { timeline: true }
+    });
+
+    await this.requireTimelineAccess(userId, step.timelineId, 'step.comment', { stepCategory: step.category });
+
+    const comment = await prisma.timelineStepComment.create({
+      data: {
+        ...input,
+        authorId: userId,
+        authorName,
+      }
+    });
+
+    await timelineActivityService.record({
+      timelineId: step.timelineId,
+      actorId: userId,
+      action: ActivityAction.CREATE,
+      entityType: ActivityEntityType.COMMENT,
+      entityId: comment.id,
+      summary: `Commented on "${step.title}"`,
+      changes: { content: { before: null, after: comment.content } }
+    });
+
+    return comment;
+  }
+
+  /**
+   * Update step comment
+   */
+  async updateStepComment(
+    userId: string,
+    commentId: string,
+    content: string
+  ): Promise<TimelineStepComment> {
+    const comment = await prisma.timelineStepComment.findUniqueOrThrow({
+      where: { id: commentId },
+      include: { 
+        step: { 
+          include: { timeline: true } 
+        } 
+      }
+    });
+
+    // Only author or timeline owner can update
+    const access = await this.requireTimelineAccess(userId, comment.step.timelineId, 'step.comment', {
+      stepCategory: comment.step.category
+    });
+    if (comment.authorId !== userId && !access.isOwner) {
+      throw new TimelinePermissionError('Only the author or timeline owner can edit this comment', 'step.comment');
+    }
+
+    const updated = await prisma.timelineStepComment.update({
+      where: { id: commentId },
+      data: {
+        content,
+        updatedAt: new Date(),
+      }
+    });
+
+    if (updated.content !== comment.content) {
+      await timelineActivityService.record({
+        timelineId: comment.step.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.COMMENT,
+        entityId: commentId,
+        summary: `Edited a comment on "${comment.step.title}"`,
+        changes: { content: { before: comment.content, after: updated.content } }
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete step comment
+   */
+  async deleteStepComment(userId: string, commentId: string): Promise<void> {
+    const comment = await prisma.timelineStepComment.findUniqueOrThrow({
+      where: { id: commentId },
+      include: { 
+        step: { 
+          include: { timeline: true } 
+        } 
+      }
+    });
+
+    // Only author or timeline owner can delete
+    const access = await this.requireTimelineAccess(userId, comment.step.timelineId, 'step.comment', {
+      stepCategory: comment.step.category
+    });
+    if (comment.authorId !== userId && !access.isOwner) {
+      throw new TimelinePermissionError('Only the author or timeline owner can delete this comment', 'step.comment');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.timelineStepComment.delete({
+        where: { id: commentId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: comment.step.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.COMMENT,
+        entityId: commentId,
+        summary: `Deleted a comment on "${comment.step.title}"`,
+        changes: { content: { before: comment.content, after: null } }
+      }, tx);
+    });
+  }
+
+  // ============================================================================
+  // CONTINGENCY MANAGEMENT
+  // ============================================================================
+
+  /**
+   * Contingencies on a timeline, soonest deadline first, each with the steps
+   * it gates. With gatingStepId only the open ones gating that step are returned
+   */
+  async getContingencies(userId: string, query: ContingenciesQueryInput): Promise<ContingencyEntry[]> {
+    const access = await this.requireTimelineAccess(userId, query.timelineId, 'timeline.view');
+
+    const contingencies = await prisma.contingency.findMany({
+      where: {
+        timelineId: query.timelineId,
+        ...(query.status?.length && { status: { in: query.status } })
+      },
+      include: CONTINGENCY_INCLUDE,
+      orderBy: { deadline: 'asc' }
+    });
+
+    const entries = await this.toContingencyEntries(access, contingencies);
+
+    if (!query.gatingStepId) return entries;
+
+    const stepId = query.gatingStepId;
+    return entries.filter(entry =>
+      OPEN_CONTINGENCY_STATUSES.includes(entry.status) && entry.gatedStepIds.includes(stepId)
+    );
+  }
+
+  /**
+   * Create contingency. The title defaults to the type's label
+   */
+  async createContingency(userId: string, input: CreateContingencyInput): Promise<ContingencyEntry> {
+    const access = await this.requireTimelineAccess(userId, input.timelineId, 'timeline.manage');
+    await this.assertBelongsToTimeline(input.timelineId, { stepId: input.stepId, documentId: input.documentId });
+
+    const contingency = await prisma.$transaction(async (tx) => {
+      const created = await tx.contingency.create({
+        data: {
+          ...input,
+          title: input.title ?? `${CONTINGENCY_TYPE_LABELS[input.type]} contingency`,
+          createdBy: userId
+        },
+        include: CONTINGENCY_INCLUDE
+      });
+
+      await timelineActivityService.record({
+        timelineId: input.timelineId,
+        actorId: userId,
+        action: ActivityAction.CREATE,
+        entityType: ActivityEntityType.CONTINGENCY,
+        entityId: created.id,
+        summary: `Added "${created.title}"`,
+        changes: timelineActivityService.diffChanges(null, created, CONTINGENCY_AUDIT_FIELDS)
+      }, tx);
+
+      return created;
+    });
+
+    const [entry] = await this.toContingencyEntries(access, [contingency]);
+    return entry;
+  }
+
+  /**
+   * Update contingency details and links. Deadlines change through extendContingency
+   */
+  async updateContingency(
+    userId: string,
+    contingencyId: string,
+    input: UpdateContingencyInput
+  ): Promise<ContingencyEntry> {
+    const contingency = await prisma.contingency.findUniqueOrThrow({
+      where: { id: contingencyId }
+    });
+
+    const access = await this.requireTimelineAccess(userId, contingency.timelineId, 'timeline.manage');
+    await this.assertBelongsToTimeline(contingency.timelineId, {
+      stepId: input.stepId ?? undefined,
+      documentId: input.documentId ?? undefined
+    });
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.contingency.update({
+        where: { id: contingencyId },
+        data: input,
+        include: CONTINGENCY_INCLUDE
+      });
+
+      const changes = timelineActivityService.diffChanges(contingency, result, CONTINGENCY_AUDIT_FIELDS);
+      if (Object.keys(changes).length > 0) {
+        await timelineActivityService.record({
+          timelineId: contingency.timelineId,
+          actorId: userId,
+          action: ActivityAction.UPDATE,
+          entityType: ActivityEntityType.CONTINGENCY,
+          entityId: contingencyId,
+          summary: `Updated "${result.title}"`,
+          changes
+        }, tx);
+      }
+
+      return result;
+    });
+
+    const [entry] = await this.toContingencyEntries(access, [updated]);
+    return entry;
+  }
+
+  /**
+   * Move an open contingency's deadline, keeping the previous one in its history
+   */
+  async extendContingency(
+    userId: string,
+    contingencyId: string,
+    input: ExtendContingencyInput
+  ): Promise<ContingencyEntry> {
+    const contingency = await prisma.contingency.findUniqueOrThrow({
+      where: { id: contingencyId }
+    });
+
+    const access = await this.requireTimelineAccess(userId, contingency.timelineId, 'timeline.manage');
+    await this.assertBelongsToTimeline(contingency.timelineId, { documentId: input.documentId });
+
+    if (!OPEN_CONTINGENCY_STATUSES.includes(contingency.status)) {
+      throw new TimelineContingencyError('Only open contingencies can be extended');
+    }
+    if (input.newDeadline.getTime() === contingency.deadline.getTime()) {
+      throw new TimelineContingencyError('The new deadline is the same as the current one');
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.contingencyExtension.create({
+        data: {
+          contingencyId,
+          previousDeadline: contingency.deadline,
+          newDeadline: input.newDeadline,
+          reason: input.reason,
+          documentId: input.documentId,
+          extendedBy: userId
+        }
+      });
+
+      const result = await tx.contingency.update({
+        where: { id: contingencyId },
+        data: { deadline: input.newDeadline, status: ContingencyStatus.EXTENDED },
+        include: CONTINGENCY_INCLUDE
+      });
+
+      await timelineActivityService.record({
+        timelineId: contingency.timelineId,
+        actorId: userId,
+        action: ActivityAction.EXTEND,
+        entityType: ActivityEntityType.CONTINGENCY,
+        entityId: contingencyId,
+        summary: `Extended "${result.title}"${input.reason ? `: ${input.reason}` : ''}`,
+        changes: timelineActivityService.diffChanges(contingency, result, CONTINGENCY_AUDIT_FIELDS)
+      }, tx);
+
+      return result;
+    });
+
+    const [entry] = await this.toContingencyEntries(access, [updated]);
+    return entry;
   }
 
   /**
-   * Delete note
+   * Record that an open contingency was removed, waived or failed, with the
+   * signed form or notice as evidence
    */
-  async deleteNote(userId: string, noteId: string): Promise<void> {
-    const note = await prisma.timelineNote.findUniqueOrThrow({
-      where: { id: noteId },
-      include: { timeline: true }
+  async resolveContingency(
+    userId: string,
+    contingencyId: string,
+    input: ResolveContingencyInput
+  ): Promise<ContingencyEntry> {
+    const contingency = await prisma.contingency.findUniqueOrThrow({
+      where: { id: contingencyId }
     });
 
-    // Only author or timeline owner can delete
-    if (note.authorId !== userId) {
-      await this.verifyTimelineOwnership(userId, note.timelineId);
+    const access = await this.requireTimelineAccess(userId, contingency.timelineId, 'timeline.manage');
+    await this.assertBelongsToTimeline(contingency.timelineId, { documentId: input.documentId });
+
+    if (!OPEN_CONTINGENCY_STATUSES.includes(contingency.status)) {
+      throw new TimelineContingencyError(`This contingency is already ${contingency.status.toLowerCase()}`);
     }
 
-    await prisma.timelineNote.delete({
-      where: { id: noteId }
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.contingency.update({
+        where: { id: contingencyId },
+        data: {
+          status: input.status,
+          resolvedAt: new Date(),
+          resolvedBy: userId,
+          ...(input.documentId && { documentId: input.documentId }),
+          ...(input.notes !== undefined && { notes: input.notes })
+        },
+        include: CONTINGENCY_INCLUDE
+      });
+
+      await timelineActivityService.record({
+        timelineId: contingency.timelineId,
+        actorId: userId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.CONTINGENCY,
+        entityId: contingencyId,
+        summary: `Marked "${result.title}" ${input.status.toLowerCase()}`,
+        changes: timelineActivityService.diffChanges(contingency, result, CONTINGENCY_AUDIT_FIELDS)
+      }, tx);
+
+      return result;
     });
-  }
 
-  // ============================================================================
-  // COMMENT MANAGEMENT
-  // ============================================================================
+    const [entry] = await this.toContingencyEntries(access, [updated]);
+    return entry;
+  }
 
   /**
-   * Add step comment
+   * Delete contingency and its extension history
    */
-  async addStepComment(
-    userId: string,
-    input: AddStepCommentInput,
-    authorName: string
-  ): Promise<TimelineStepComment> {
-    const step = await prisma.timelineStep.findUniqueOrThrow({
-      where: { id: input.stepId },
-      include: { timeline: true }
+  async deleteContingency(userId: string, contingencyId: string): Promise<void> {
+    const contingency = await prisma.contingency.findUniqueOrThrow({
+      where: { id: contingencyId }
     });
 
-    await this.verifyTimelineOwnership(userId, step.timelineId);
+    await this.requireTimelineAccess(userId, contingency.timelineId, 'timeline.manage');
 
-    return await prisma.timelineStepComment.create({
-      data: {
-        ...input,
-        authorId: userId,
-        authorName,
-      }
+    await prisma.$transaction(async (tx) => {
+      await tx.contingency.delete({
+        where: { id: contingencyId }
+      });
+
+      await timelineActivityService.record({
+        timelineId: contingency.timelineId,
+        actorId: userId,
+        action: ActivityAction.DELETE,
+        entityType: ActivityEntityType.CONTINGENCY,
+        entityId: contingencyId,
+        summary: `Deleted "${contingency.title}"`,
+        changes: timelineActivityService.diffChanges(contingency, null, CONTINGENCY_AUDIT_FIELDS)
+      }, tx);
     });
   }
 
   /**
-   * Update step comment
+   * Open contingencies a step gets ahead of if it is completed now. These are
+   * warnings, not blockers: a buyer may deliberately proceed at risk
    */
-  async updateStepComment(
-    userId: string,
-    commentId: string,
-    content: string
-  ): Promise<TimelineStepComment> {
-    const comment = await prisma.timelineStepComment.findUniqueOrThrow({
-      where: { id: commentId },
-      include: { 
-        step: { 
-          include: { timeline: true } 
-        } 
-      }
+  async getContingencyWarnings(userId: string, stepId: string): Promise<ContingencyWarning[]> {
+    const step = await prisma.timelineStep.findUniqueOrThrow({
+      where: { id: stepId },
+      select: { timelineId: true }
     });
 
-    // Only author or timeline owner can update
-    if (comment.authorId !== userId) {
-      await this.verifyTimelineOwnership(userId, comment.step.timelineId);
-    }
-
-    return await prisma.timelineStepComment.update({
-      where: { id: commentId },
-      data: {
-        content,
-        updatedAt: new Date(),
-      }
+    const gating = await this.getContingencies(userId, {
+      timelineId: step.timelineId,
+      gatingStepId: stepId
     });
+
+    return gating.map(contingency => ({
+      contingencyId: contingency.id,
+      type: contingency.type,
+      title: contingency.title,
+      deadline: contingency.deadline,
+      status: contingency.status,
+      message: contingency.daysRemaining < 0
+        ? `"${contingency.title}" passed its deadline without being removed or waived`
+        : `"${contingency.title}" is still open until ${contingency.deadline.toLocaleDateString('en-US')}`
+    }));
   }
 
+  // ============================================================================
+  // ACTIVITY LOG
+  // ============================================================================
+
   /**
-   * Delete step comment
+   * Paginated audit trail, newest first. Document entries follow the viewer's
+   * document scope and private note entries are only shown to their author
    */
-  async deleteStepComment(userId: string, commentId: string): Promise<void> {
-    const comment = await prisma.timelineStepComment.findUniqueOrThrow({
-      where: { id: commentId },
-      include: { 
-        step: { 
-          include: { timeline: true } 
-        } 
-      }
-    });
-
-    // Only author or timeline owner can delete
-    if (comment.authorId !== userId) {
-      await this.verifyTimelineOwnership(userId, comment.step.timelineId);
-    }
+  async getActivity(
+    userId: string,
+    timelineId: string,
+    query: ActivityQueryInput
+  ): Promise<TimelineActivityPage> {
+    const access = await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
 
-    await prisma.timelineStepComment.delete({
-      where: { id: commentId }
-    });
+    return timelineActivityService.getActivity(timelineId, access, userId, query);
   }
 
   // ============================================================================
@@ -906,7 +2826,7 @@ export class TimelineService {
    * Get timeline progress statistics
    */
   async getProgressStats(userId: string, timelineId: string): Promise<TimelineProgressStats> {
-    await this.verifyTimelineOwnership(userId, timelineId);
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
 
     const timeline = await prisma.timeline.findUniqueOrThrow({
       where: { id: timelineId },
@@ -924,6 +2844,7 @@ export class TimelineService {
       new Date(s.scheduledDate) < new Date()
     ).length;
     const blocked = timeline.steps.filter(s => s.isBlocked).length;
+    const schedule = await this.calculateSchedule(timelineId);
 
     const progressPercentage = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
 
@@ -932,7 +2853,7 @@ export class TimelineService {
     const estimatedDaysRemaining = remainingSteps.reduce((sum, step) => sum + step.estimatedDuration, 0);
 
     // Determine if on track
-    const onTrack = overdue === 0 && blocked === 0;
+    const onTrack = overdue === 0 && blocked === 0 && (schedule.closingVarianceDays ?? 0) <= 0;
 
     return {
       totalSteps,
@@ -942,7 +2863,9 @@ export class TimelineService {
       blocked,
       progressPercentage: Math.round(progressPercentage * 100) / 100,
       estimatedDaysRemaining,
-      onTrack
+      onTrack,
+      projectedClosingDate: schedule.projectedClosingDate,
+      closingVarianceDays: schedule.closingVarianceDays
     };
   }
 
@@ -950,7 +2873,7 @@ export class TimelineService {
    * Get cost summary
    */
   async getCostSummary(userId: string, timelineId: string): Promise<TimelineCostSummary> {
-    await this.verifyTimelineOwnership(userId, timelineId);
+    await this.requireTimelineAccess(userId, timelineId, 'timeline.view');
 
     const steps = await prisma.timelineStep.findMany({
       where: { timelineId },
@@ -998,19 +2921,374 @@ export class TimelineService {
   // ============================================================================
 
   /**
-   * Verify timeline ownership
+   * Resolve a user's access to a timeline: the owner gets every permission,
+   * an invited team member gets their role's policy
    */
-  private async verifyTimelineOwnership(userId: string, timelineId: string): Promise<void> {
-    const timeline = await prisma.timeline.findFirst({
-      where: {
-        id: timelineId,
-        user: { clerkId: userId }
+  private async resolveTimelineAccess(userId: string, timelineId: string): Promise<TimelineAccess> {
+    const timeline = await prisma.timeline.findUnique({
+      where: { id: timelineId },
+      select: {
+        user: { select: { clerkId: true } },
+        teamMembers: {
+          where: { isActive: true, user: { clerkId: userId } },
+          select: { id: true, role: true },
+          take: 1
+        }
       }
     });
 
-    if (!timeline) {
+    if (timeline?.user.clerkId === userId) {
+      return { ...OWNER_POLICY, timelineId, role: 'OWNER', isOwner: true, teamMemberId: null };
+    }
+
+    const member = timeline?.teamMembers[0];
+    if (!member) {
       throw new Error('Timeline not found or access denied');
     }
+
+    return {
+      ...TIMELINE_ROLE_POLICIES[member.role],
+      timelineId,
+      role: member.role,
+      isOwner: false,
+      teamMemberId: member.id
+    };
+  }
+
+  /**
+   * Resolve access and require an action, optionally scoped to a step category or document type
+   */
+  private async requireTimelineAccess(
+    userId: string,
+    timelineId: string,
+    action: TimelineAction,
+    scope: TimelineAccessScope = {}
+  ): Promise<TimelineAccess> {
+    const access = await this.resolveTimelineAccess(userId, timelineId);
+    this.assertTimelinePermission(access, action, scope);
+    return access;
+  }
+
+  /**
+   * Days remaining and gated steps: the linked step, everything downstream of
+   * it in the dependency graph, and the closing steps for every contingency.
+   * Evidence documents the caller's role may not view are left out
+   */
+  private async toContingencyEntries(
+    access: TimelineAccess,
+    contingencies: ContingencyWithRelations[]
+  ): Promise<ContingencyEntry[]> {
+    if (contingencies.length === 0) return [];
+
+    const { timelineId } = access;
+    const [edges, closingSteps] = await Promise.all([
+      prisma.timelineStepDependency.findMany({
+        where: { timelineId },
+        select: { stepId: true, dependsOnStepId: true }
+      }),
+      prisma.timelineStep.findMany({
+        where: { timelineId, category: StepCategory.CLOSING },
+        select: { id: true }
+      })
+    ]);
+
+    const now = Date.now();
+
+    return contingencies.map(contingency => {
+      const gated = new Set(closingSteps.map(step => step.id));
+
+      if (contingency.stepId) {
+        const queue = [contingency.stepId];
+        gated.add(contingency.stepId);
+        while (queue.length > 0) {
+          const current = queue.shift()!;
+          for (const edge of edges) {
+            if (edge.dependsOnStepId === current && !gated.has(edge.stepId)) {
+              gated.add(edge.stepId);
+              queue.push(edge.stepId);
+            }
+          }
+        }
+      }
+
+      const document = contingency.document &&
+        hasTimelinePermission(access, 'document.view', { documentType: contingency.document.documentType })
+        ? contingency.document
+        : null;
+
+      return {
+        ...contingency,
+        document,
+        daysRemaining: Math.ceil((contingency.deadline.getTime() - now) / DAY_MS),
+        gatedStepIds: Array.from(gated)
+      };
+    });
+  }
+
+  /**
+   * Linked steps and evidence documents must be on the same timeline
+   */
+  private async assertBelongsToTimeline(
+    timelineId: string,
+    links: { stepId?: string; documentId?: string }
+  ): Promise<void> {
+    const [step, document] = await Promise.all([
+      links.stepId
+        ? prisma.timelineStep.findFirst({ where: { id: links.stepId, timelineId }, select: { id: true } })
+        : true,
+      links.documentId
+        ? prisma.timelineDocument.findFirst({ where: { id: links.documentId, timelineId }, select: { id: true } })
+        : true
+    ]);
+
+    if (!step) {
+      throw new Error('Step not found or access denied');
+    }
+    if (!document) {
+      throw new Error('Document not found or access denied');
+    }
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private async findInvitationByToken(token: string) {
+    const invitation = await prisma.timelineInvitation.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: {
+        teamMember: { select: { name: true, role: true, isActive: true } },
+        timeline: {
+          select: {
+            title: true,
+            userId: true,
+            propertyId: true,
+            property: { select: { address: true } }
+          }
+        }
+      }
+    });
+
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  private getInvitationStatus(invitation: {
+    acceptedAt: Date | null;
+    revokedAt: Date | null;
+    expiresAt: Date;
+  }): TimelineInvitationPreview['status'] {
+    if (invitation.acceptedAt) return 'accepted';
+    if (invitation.revokedAt) return 'revoked';
+    if (invitation.expiresAt.getTime() <= Date.now()) return 'expired';
+    return 'pending';
+  }
+
+  /**
+   * Email the invite link when SMTP is configured. Returns whether it was sent;
+   * the inviter always gets the link back to share by hand
+   */
+  private async sendInvitationEmail(invite: {
+    email: string;
+    name: string;
+    inviterName: string;
+    timelineTitle: string;
+    propertyAddress: string;
+    invitePath: string;
+    appUrl: string;
+  }): Promise<boolean> {
+    const [channel] = createNotificationChannels({ names: ['email'], appUrl: invite.appUrl });
+    if (!channel) {
+      return false;
+    }
+
+    try {
+      await channel.deliver({
+        recipient: { email: invite.email, name: invite.name },
+        type: 'timeline_invitation',
+        title: `${invite.inviterName} invited you to collaborate on ${invite.propertyAddress}`,
+        body: `${invite.inviterName} added you to "${invite.timelineTitle}" on hh.fun. ` +
+          `Accept within ${INVITATION_TTL_DAYS} days to view the timeline and share documents:`,
+        link: invite.invitePath
+      });
+      return true;
+    } catch (error) {
+      logger.warn('Failed to email timeline invitation', {
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  private getDocumentShareStatus(shareLink: {
+    revokedAt: Date | null;
+    expiresAt: Date;
+    maxDownloads: number | null;
+    downloadCount: number;
+  }): DocumentShareStatus {
+    if (shareLink.revokedAt) return 'revoked';
+    if (shareLink.expiresAt.getTime() <= Date.now()) return 'expired';
+    if (shareLink.maxDownloads !== null && shareLink.downloadCount >= shareLink.maxDownloads) return 'exhausted';
+    return 'active';
+  }
+
+  private toShareOutcome(status: Exclude<DocumentShareStatus, 'active'>): DocumentShareOutcome {
+    switch (status) {
+      case 'revoked': return DocumentShareOutcome.REVOKED;
+      case 'expired': return DocumentShareOutcome.EXPIRED;
+      case 'exhausted': return DocumentShareOutcome.LIMIT_REACHED;
+    }
+  }
+
+  private describeShareStatus(status: Exclude<DocumentShareStatus, 'active'>): string {
+    switch (status) {
+      case 'revoked': return 'This share link has been revoked';
+      case 'expired': return 'This share link has expired';
+      case 'exhausted': return 'This share link has reached its download limit';
+    }
+  }
+
+  private toDocumentShareSummary(shareLink: DocumentShareLinkWithAccesses): DocumentShareSummary {
+    return {
+      id: shareLink.id,
+      documentId: shareLink.documentId,
+      recipientEmail: shareLink.recipientEmail,
+      recipientName: shareLink.recipientName,
+      status: this.getDocumentShareStatus(shareLink),
+      expiresAt: shareLink.expiresAt,
+      maxDownloads: shareLink.maxDownloads,
+      downloadCount: shareLink.downloadCount,
+      lastAccessedAt: shareLink.lastAccessedAt,
+      revokedAt: shareLink.revokedAt,
+      createdBy: shareLink.createdBy,
+      createdAt: shareLink.createdAt,
+      recentAccesses: shareLink.accesses.map(access => ({
+        id: access.id,
+        outcome: access.outcome,
+        ipAddress: access.ipAddress,
+        userAgent: access.userAgent,
+        createdAt: access.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Email a share link when SMTP is configured. Returns whether it was sent;
+   * the sharer always gets the link back to send by hand
+   */
+  private async sendDocumentShareEmail(share: {
+    email: string;
+    name?: string;
+    sharerName: string;
+    documentName: string;
+    propertyAddress: string;
+    message?: string;
+    expiresAt: Date;
+    sharePath: string;
+    appUrl: string;
+  }): Promise<boolean> {
+    const [channel] = createNotificationChannels({ names: ['email'], appUrl: share.appUrl });
+    if (!channel) {
+      return false;
+    }
+
+    const expires = share.expiresAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+    try {
+      await channel.deliver({
+        recipient: { email: share.email, name: share.name },
+        type: 'document_share',
+        title: `${share.sharerName} shared ${share.documentName} for ${share.propertyAddress}`,
+        body: `${share.message ? `${share.message}\n\n` : ''}` +
+          `${share.sharerName} shared a document with you on hh.fun. The link works until ${expires}:`,
+        link: share.sharePath
+      });
+      return true;
+    } catch (error) {
+      logger.warn('Failed to email document share link', {
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  private async recordDocumentCreated(userId: string, document: TimelineDocument): Promise<void> {
+    await timelineActivityService.record({
+      timelineId: document.timelineId,
+      actorId: userId,
+      action: ActivityAction.CREATE,
+      entityType: ActivityEntityType.DOCUMENT,
+      entityId: document.id,
+      summary: `Uploaded ${document.originalName}`,
+      changes: timelineActivityService.diffChanges(null, document, DOCUMENT_AUDIT_FIELDS),
+      documentType: document.documentType
+    });
+  }
+
+  /**
+   * Document where-clause limiting collaborators to their role's document types
+   */
+  private documentScopeFilter(access: TimelineAccess): Prisma.TimelineDocumentWhereInput {
+    return access.documentTypes === 'ALL' ? {} : { documentType: { in: access.documentTypes } };
+  }
+
+  /**
+   * Load the fields the .ics serializer needs
+   */
+  private async loadCalendarTimeline(timelineId: string): Promise<CalendarTimeline> {
+    const timeline = await prisma.timeline.findUnique({
+      where: { id: timelineId },
+      select: {
+        id: true,
+        propertyId: true,
+        title: true,
+        estimatedClosingDate: true,
+        updatedAt: true,
+        steps: {
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            category: true,
+            priority: true,
+            status: true,
+            isCompleted: true,
+            scheduledDate: true,
+            actualEndDate: true,
+            notes: true,
+            updatedAt: true
+          },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    });
+
+    if (!timeline) {
+      throw new Error('Timeline not found');
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Labels of the step's required documents that no current document satisfies
+   */
+  private async getMissingRequiredDocuments(stepId: string): Promise<string[]> {
+    const [requirements, documents] = await Promise.all([
+      prisma.stepDocumentRequirement.findMany({ where: { stepId } }),
+      prisma.timelineDocument.findMany({
+        where: { stepId, isCurrentVersion: true },
+        select: { id: true, documentType: true, originalName: true, isCurrentVersion: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    return buildDocumentChecklist(requirements, documents)
+      .filter(item => item.status === 'missing')
+      .map(item => item.label);
   }
 
   /**
@@ -1049,6 +3327,294 @@ export class TimelineService {
       }
     });
   }
+
+  /**
+   * Find a template by id or built-in key that the user is allowed to use
+   */
+  private async resolveTemplate(userId: string, templateId: string) {
+    await this.ensureBuiltInTemplates();
+
+    const template = await prisma.timelineTemplate.findFirst({
+      where: {
+        AND: [
+          { OR: [{ id: templateId }, { key: templateId }] },
+          { OR: [{ isBuiltIn: true }, { user: { clerkId: userId } }] }
+        ]
+      }
+    });
+
+    if (!template) {
+      throw new Error('Template not found or access denied');
+    }
+
+    return template;
+  }
+
+  /**
+   * Upsert the built-in templates once per process so edits to their steps ship with deploys
+   */
+  private ensureBuiltInTemplates(): Promise<void> {
+    this.builtInTemplatesReady ??= Promise.all(
+      BUILT_IN_TIMELINE_TEMPLATES.map(template => {
+        const data = {
+          name: template.name,
+          description: template.description,
+          transactionType: template.transactionType,
+          defaultClosingDays: template.defaultClosingDays,
+          steps: template.steps as unknown as Prisma.InputJsonValue,
+          isBuiltIn: true
+        };
+
+        return prisma.timelineTemplate.upsert({
+          where: { key: template.key },
+          create: { key: template.key, ...data },
+          update: data
+        });
+      })
+    ).then(() => undefined).catch(error => {
+      this.builtInTemplatesReady = null;
+      throw error;
+    });
+
+    return this.builtInTemplatesReady;
+  }
+
+  private async calculateSchedule(timelineId: string): Promise<TimelineSchedule> {
+    const [timeline, steps, edges] = await Promise.all([
+      prisma.timeline.findUniqueOrThrow({
+        where: { id: timelineId },
+        select: { id: true, startDate: true, estimatedClosingDate: true }
+      }),
+      prisma.timelineStep.findMany({
+        where: { timelineId },
+        select: {
+          id: true,
+          title: true,
+          sortOrder: true,
+          daysFromStart: true,
+          estimatedDuration: true,
+          scheduledDate: true,
+          actualStartDate: true,
+          actualEndDate: true,
+          isCompleted: true
+        },
+        orderBy: { sortOrder: 'asc' }
+      }),
+      prisma.timelineStepDependency.findMany({
+        where: { timelineId },
+        select: { stepId: true, dependsOnStepId: true }
+      })
+    ]);
+
+    return this.buildSchedule(timeline, steps, edges);
+  }
+
+  /**
+   * Critical path method: a forward pass for earliest dates (actual dates win, open
+   * steps start at their scheduled date - else the template offset - but not before
+   * today or before their dependencies finish), then a backward pass from the
+   * projected finish for latest dates and slack
+   */
+  private buildSchedule(
+    timeline: { id: string; startDate: Date; estimatedClosingDate: Date | null },
+    steps: ScheduleStepInput[],
+    edges: StepDependencyEdge[]
+  ): TimelineSchedule {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const startMs = timeline.startDate.getTime();
+
+    const dependsOn = new Map<string, string[]>();
+    const dependents = new Map<string, string[]>();
+    for (const edge of edges) {
+      dependsOn.set(edge.stepId, [...(dependsOn.get(edge.stepId) || []), edge.dependsOnStepId]);
+      dependents.set(edge.dependsOnStepId, [...(dependents.get(edge.dependsOnStepId) || []), edge.stepId]);
+    }
+
+    // Steps caught in a cycle are left out of the topological order - schedule them last
+    const sorted = sortStepsTopologically(steps, edges);
+    const sortedIds = new Set(sorted);
+    const order = [...sorted, ...steps.filter(step => !sortedIds.has(step.id)).map(step => step.id)];
+    const stepsById = new Map(steps.map(step => [step.id, step]));
+
+    const earliest = new Map<string, { start: number; finish: number }>();
+    const plannedStarts = new Map<string, number>();
+    // Open steps only: the start their dependencies allow, ignoring today
+    const dependencyStarts = new Map<string, number>();
+    for (const stepId of order) {
+      const step = stepsById.get(stepId)!;
+      const duration = Math.max(step.estimatedDuration, 0) * DAY_MS;
+      const planned = step.scheduledDate?.getTime() ?? startMs + step.daysFromStart * DAY_MS;
+      plannedStarts.set(stepId, planned);
+
+      if (step.isCompleted) {
+        const finish = step.actualEndDate?.getTime()
+          ?? (step.actualStartDate ? step.actualStartDate.getTime() + duration : planned + duration);
+        const start = Math.min(step.actualStartDate?.getTime() ?? finish - duration, finish);
+        earliest.set(stepId, { start, finish });
+      } else if (step.actualStartDate) {
+        const start = step.actualStartDate.getTime();
+        earliest.set(stepId, { start, finish: Math.max(start + duration, today.getTime()) });
+      } else {
+        const dependenciesFinish = (dependsOn.get(stepId) || [])
+          .map(id => earliest.get(id)?.finish ?? -Infinity);
+        const dependencyStart = Math.max(planned, ...dependenciesFinish);
+        const start = Math.max(dependencyStart, today.getTime());
+        dependencyStarts.set(stepId, dependencyStart);
+        earliest.set(stepId, { start, finish: start + duration });
+      }
+    }
+
+    const projectedFinish = steps.length > 0
+      ? Math.max(...Array.from(earliest.values()).map(dates => dates.finish))
+      : startMs;
+
+    const latest = new Map<string, { start: number; finish: number }>();
+    for (const stepId of [...order].reverse()) {
+      const { start, finish } = earliest.get(stepId)!;
+      const successorStarts = (dependents.get(stepId) || [])
+        .map(id => latest.get(id)?.start ?? projectedFinish);
+      const latestFinish = Math.min(projectedFinish, ...successorStarts);
+      latest.set(stepId, { start: latestFinish - (finish - start), finish: latestFinish });
+    }
+
+    const entries: StepScheduleEntry[] = steps.map(step => {
+      const early = earliest.get(step.id)!;
+      const late = latest.get(step.id)!;
+      const planned = plannedStarts.get(step.id)!;
+      const slackDays = Math.round((late.start - early.start) / DAY_MS);
+
+      return {
+        stepId: step.id,
+        title: step.title,
+        isCompleted: step.isCompleted,
+        durationDays: Math.round((early.finish - early.start) / DAY_MS),
+        scheduledDate: step.scheduledDate?.toISOString() ?? null,
+        earliestStart: new Date(early.start).toISOString(),
+        earliestFinish: new Date(early.finish).toISOString(),
+        latestStart: new Date(late.start).toISOString(),
+        latestFinish: new Date(late.finish).toISOString(),
+        slackDays,
+        isCritical: slackDays <= 0,
+        plannedStart: new Date(planned).toISOString(),
+        slipDays: Math.round((early.start - planned) / DAY_MS),
+        // Rounded up so a dependency finishing part of a day late still moves the date
+        dependencyDelayDays: Math.ceil(((dependencyStarts.get(step.id) ?? planned) - planned) / DAY_MS)
+      };
+    });
+
+    const closingVarianceDays = timeline.estimatedClosingDate
+      ? Math.round((projectedFinish - timeline.estimatedClosingDate.getTime()) / DAY_MS)
+      : null;
+
+    return {
+      timelineId: timeline.id,
+      startDate: timeline.startDate.toISOString(),
+      steps: entries,
+      criticalPath: this.traceCriticalPath(order, entries, earliest, dependsOn, projectedFinish),
+      projectedClosingDate: new Date(projectedFinish).toISOString(),
+      estimatedClosingDate: timeline.estimatedClosingDate?.toISOString() ?? null,
+      closingVarianceDays,
+      onTrack: closingVarianceDays === null
+        ? entries.every(entry => entry.isCompleted || !entry.isCritical || entry.slipDays <= 0)
+        : closingVarianceDays <= 0
+    };
+  }
+
+  /**
+   * Walk back from the step that finishes last through the critical dependencies
+   * that drive each start date
+   */
+  private traceCriticalPath(
+    order: string[],
+    entries: StepScheduleEntry[],
+    earliest: Map<string, { start: number; finish: number }>,
+    dependsOn: Map<string, string[]>,
+    projectedFinish: number
+  ): string[] {
+    const critical = new Set(entries.filter(entry => entry.isCritical).map(entry => entry.stepId));
+    let current = [...order].reverse()
+      .find(id => critical.has(id) && earliest.get(id)!.finish === projectedFinish);
+
+    const path: string[] = [];
+    while (current && !path.includes(current)) {
+      path.unshift(current);
+      const start = earliest.get(current)!.start;
+      current = (dependsOn.get(current) || [])
+        .filter(id => critical.has(id) && earliest.get(id)!.finish === start)
+        .sort((a, b) => order.indexOf(b) - order.indexOf(a))[0];
+    }
+
+    return path;
+  }
+
+  private async applyScheduleCascade(
+    timelineId: string,
+    fromStepId: string | undefined,
+    actorId: string
+  ): Promise<ScheduleCascadeResult> {
+    const schedule = await this.calculateSchedule(timelineId);
+
+    let scope: Set<string> | null = null;
+    if (fromStepId) {
+      const edges = await prisma.timelineStepDependency.findMany({
+        where: { timelineId },
+        select: { stepId: true, dependsOnStepId: true }
+      });
+
+      scope = new Set<string>();
+      const queue = [fromStepId];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of edges) {
+          if (edge.dependsOnStepId === current && !scope.has(edge.stepId)) {
+            scope.add(edge.stepId);
+            queue.push(edge.stepId);
+          }
+        }
+      }
+    }
+
+    // Only delays from dependencies finishing late move a date - an overdue step
+    // or a date set by hand (e.g. from the contract) is left where it is
+    const rescheduled = schedule.steps
+      .filter(entry => !entry.isCompleted && entry.dependencyDelayDays > 0 && (!scope || scope.has(entry.stepId)))
+      .map(entry => ({
+        stepId: entry.stepId,
+        title: entry.title,
+        previousDate: entry.scheduledDate,
+        scheduledDate: new Date(new Date(entry.plannedStart).getTime() + entry.dependencyDelayDays * DAY_MS).toISOString()
+      }));
+
+    if (rescheduled.length === 0) {
+      return { schedule, rescheduled };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const change of rescheduled) {
+        await tx.timelineStep.update({
+          where: { id: change.stepId },
+          // A new due date re-arms deadline reminders
+          data: { scheduledDate: new Date(change.scheduledDate), reminderSent: false }
+        });
+      }
+
+      await timelineActivityService.recordMany(rescheduled.map(change => ({
+        timelineId,
+        actorId,
+        action: ActivityAction.UPDATE,
+        entityType: ActivityEntityType.STEP,
+        entityId: change.stepId,
+        summary: `Rescheduled "${change.title}" after an upstream step slipped`,
+        changes: { scheduledDate: { before: change.previousDate, after: change.scheduledDate } }
+      })), tx);
+    });
+
+    return {
+      schedule: await this.calculateSchedule(timelineId),
+      rescheduled
+    };
+  }
 }
 
 // Export singleton instance
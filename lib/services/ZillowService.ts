@@ -17,14 +17,14 @@ export class ZillowService {
 
     // Check cache first
     const cacheKey = `zillow_property_${zpid}`;
-    const cachedData = apiCache.get<ZillowPropertyData>(cacheKey);
+    const cachedData = await apiCache.get<ZillowPropertyData>(cacheKey);
     
     if (cachedData) {
       return cachedData;
     }
 
     // Check rate limit
-    if (!zillowRateLimiter.isAllowed('zillow_api')) {
+    if (!await zillowRateLimiter.check('zillow_api')) {
       throw new Error('Zillow API rate limit exceeded. Please try again later.');
     }
 
@@ -37,7 +37,7 @@ export class ZillowService {
       }
 
       // Cache for 15 minutes
-      apiCache.set(cacheKey, propertyData, 15 * 60 * 1000);
+      await apiCache.set(cacheKey, propertyData, 15 * 60 * 1000);
       
       return propertyData;
     } catch (error) {
@@ -53,14 +53,14 @@ export class ZillowService {
 
     // Check cache first
     const cacheKey = `zillow_extended_${zpid}`;
-    const cachedData = apiCache.get<any>(cacheKey);
+    const cachedData = await apiCache.get<any>(cacheKey);
     
     if (cachedData) {
       return cachedData;
     }
 
     // Check rate limit
-    if (!zillowRateLimiter.isAllowed('zillow_api')) {
+    if (!await zillowRateLimiter.check('zillow_api')) {
       throw new Error('Zillow API rate limit exceeded. Please try again later.');
     }
 
@@ -68,7 +68,7 @@ export class ZillowService {
       const extendedData = await this.api.getPropertyExtended(zpid);
       
       // Cache for 30 minutes
-      apiCache.set(cacheKey, extendedData, 30 * 60 * 1000);
+      await apiCache.set(cacheKey, extendedData, 30 * 60 * 1000);
       
       return extendedData;
     } catch (error) {
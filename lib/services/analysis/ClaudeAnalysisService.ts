@@ -4,6 +4,8 @@
  */
 
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from "@/lib/services/ApiUsageService";
+import { budgetService } from "@/lib/services/BudgetService";
 
 export interface InspectionIssue {
   id: string;
@@ -56,6 +58,8 @@ export class ClaudeAnalysisService {
   ): Promise<AnalysisResult> {
     const startTime = Date.now();
 
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
     try {
       // Try Claude Opus 4 first
       const opusResult = await this.tryClaudeAnalysis(
@@ -141,32 +145,39 @@ export class ClaudeAnalysisService {
 
       const prompt = this.createAnalysisPrompt(extractedText, reportType, documentName);
 
-      const response = await fetch(this.ANTHROPIC_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
+      const data = await apiUsageService.track(
+        { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'inspection-analysis' } },
+        async () => {
+          const response = await fetch(this.ANTHROPIC_API_URL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'x-api-key': apiKey,
+              'anthropic-version': '2023-06-01'
+            },
+            body: JSON.stringify({
+              model,
+              max_tokens: this.MAX_TOKENS,
+              messages: [{
+                role: 'user',
+                content: prompt
+              }],
+              temperature: 0.1, // Low temperature for consistent analysis
+              system: "You are an expert inspection report analyst with 20+ years of experience in home, commercial, and specialty inspections. You provide accurate, detailed, and actionable analysis for real estate negotiations."
+            }),
+            signal: AbortSignal.timeout(this.TIMEOUT)
+          });
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Claude API error (${response.status}): ${errorText}`);
+          }
+
+          return await response.json();
         },
-        body: JSON.stringify({
-          model,
-          max_tokens: this.MAX_TOKENS,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }],
-          temperature: 0.1, // Low temperature for consistent analysis
-          system: "You are an expert inspection report analyst with 20+ years of experience in home, commercial, and specialty inspections. You provide accurate, detailed, and actionable analysis for real estate negotiations."
-        }),
-        signal: AbortSignal.timeout(this.TIMEOUT)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Claude API error (${response.status}): ${errorText}`);
-      }
+        result => apiUsageService.describeAnthropicResponse(result, model)
+      );
 
-      const data = await response.json();
       const analysisText = data.content[0]?.text;
 
       if (!analysisText) {
@@ -5,6 +5,8 @@
 
 import { logger } from "@/lib/utils/logger";
 import { FileCache } from "../cache/FileCache";
+import { apiUsageService } from "@/lib/services/ApiUsageService";
+import { budgetService, BudgetExhaustedError } from "@/lib/services/BudgetService";
 
 export interface LlamaParseResult {
   success: boolean;
@@ -36,6 +38,14 @@ export class LlamaParseProcessor {
           reportType,
           processingTime: Date.now() - startTime
         });
+
+        await apiUsageService.recordEvent({
+          provider: 'LLAMAPARSE',
+          endpoint: '/api/parsing/upload',
+          method: 'POST',
+          cacheHit: true,
+          metadata: { fileName, reportType }
+        });
         
         return {
           success: true,
@@ -49,6 +59,8 @@ export class LlamaParseProcessor {
         throw new Error('LLAMAPARSE_API_KEY not found in environment variables');
       }
 
+      await budgetService.assertWithinBudget('LLAMAPARSE');
+
       logger.info('Starting LlamaParse processing (cache miss)', {
         fileName,
         reportType,
@@ -65,29 +77,36 @@ export class LlamaParseProcessor {
       formData.append('language', 'en');
       formData.append('verbose', 'true');
 
-      // Upload to LlamaParse
-      const response = await fetch(this.LLAMAPARSE_API_URL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: formData,
-        signal: AbortSignal.timeout(this.TIMEOUT)
-      });
+      // Billed per parsed page - track the whole upload-and-poll job as one call
+      const extractedText = await apiUsageService.track(
+        { provider: 'LLAMAPARSE', endpoint: '/api/parsing/upload', method: 'POST', metadata: { fileName, reportType } },
+        async () => {
+          // Upload to LlamaParse
+          const response = await fetch(this.LLAMAPARSE_API_URL, {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${apiKey}`,
+            },
+            body: formData,
+            signal: AbortSignal.timeout(this.TIMEOUT)
+          });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`LlamaParse API error (${response.status}): ${errorText}`);
-      }
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`LlamaParse API error (${response.status}): ${errorText}`);
+          }
 
-      const uploadResult = await response.json();
+          const uploadResult = await response.json();
       
-      if (!uploadResult.id) {
-        throw new Error('No job ID returned from LlamaParse');
-      }
+          if (!uploadResult.id) {
+            throw new Error('No job ID returned from LlamaParse');
+          }
 
-      // Poll for completion
-      const extractedText = await this.pollForCompletion(uploadResult.id, apiKey);
+          // Poll for completion
+          return await this.pollForCompletion(uploadResult.id, apiKey);
+        },
+        text => ({ units: this.estimatePageCount(text) })
+      );
 
       const processingTime = Date.now() - startTime;
 
@@ -113,6 +132,8 @@ export class LlamaParseProcessor {
       return result;
 
     } catch (error) {
+      if (error instanceof BudgetExhaustedError) throw error;
+
       const processingTime = Date.now() - startTime;
       
       logger.error('LlamaParse processing failed', error, {
@@ -188,10 +209,32 @@ export class LlamaParseProcessor {
     throw new Error('LlamaParse job timed out');
   }
 
+  /**
+   * LlamaParse separates pages in its markdown output with horizontal rules
+   */
+  private static estimatePageCount(markdown: string): number {
+    return Math.max(1, markdown.split(/\n-{3,}\n/).length);
+  }
+
   /**
    * Create parsing instruction based on document type
    */
   private static createParsingInstruction(reportType: string): string {
+    if (reportType.toLowerCase() === 'contract') {
+      return `
+Extract all text from this residential purchase agreement. Pay special attention to:
+
+1. **Dates and Deadlines**: Effective/acceptance date, contingency periods, earnest money due date and closing date
+2. **Dollar Amounts**: Purchase price, earnest money, loan amount, down payment and seller concessions
+3. **Parties**: Buyers, sellers, agents, brokerages, lender, title or escrow company
+4. **Filled-in Blanks and Checkboxes**: Indicate which options are checked and what was written in blanks
+5. **Addenda and Counteroffers**: Keep any terms that modify the base contract
+6. **Signatures**: Signature and initial dates
+
+Preserve section numbers and the original wording of each term.
+      `.trim();
+    }
+
     const baseInstruction = `
 Extract all text from this ${reportType} inspection report document. Pay special attention to:
 
@@ -5,6 +5,7 @@
  */
 
 import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
 import {
   DocumentExtractor,
   DocumentBuffer,
@@ -164,7 +165,11 @@ export class GoogleVisionExtractor implements DocumentExtractor {
     };
 
     // Add timeout protection
-    const extractionPromise = this.client.processDocument(request);
+    const extractionPromise = apiUsageService.track(
+      { provider: 'GOOGLE_VISION', endpoint: 'documentai.processDocument', method: 'POST' },
+      () => this.client.processDocument(request),
+      ([response]) => ({ units: response.document?.pages?.length ?? 1 })
+    );
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => {
         reject(new DocumentProcessingError(
@@ -0,0 +1,87 @@
+/**
+ * Offline extractor for PDFs that carry a text layer
+ * No network or API keys; scanned PDFs without embedded text return a failure result
+ */
+
+import pdfParse from 'pdf-parse';
+import {
+  DocumentExtractor,
+  DocumentBuffer,
+  ExtractionResult,
+  ExtractionMethod,
+  SupportedFileType,
+  ExtractorConfig,
+  NoTextExtractedError
+} from '../types/DocumentTypes';
+import { DocumentLogger } from '../utils/DocumentLogger';
+
+export interface PdfTextExtractorOptions {
+  /** Stop after this many pages; 0 reads the whole document */
+  readonly maxPages?: number;
+}
+
+export class PdfTextExtractor implements DocumentExtractor {
+  readonly name = 'PdfTextExtractor';
+  readonly supportedTypes = [SupportedFileType.PDF] as const;
+
+  private static readonly MIN_TEXT_LENGTH = 20; // Less than this is a scan with stray glyphs
+
+  constructor(private readonly options: PdfTextExtractorOptions = {}) {}
+
+  canHandle(fileType: SupportedFileType): boolean {
+    return fileType === SupportedFileType.PDF;
+  }
+
+  async extract(
+    document: DocumentBuffer,
+    _config: ExtractorConfig = {}
+  ): Promise<ExtractionResult> {
+    const startTime = Date.now();
+
+    DocumentLogger.logExtractionAttempt(ExtractionMethod.PDF_TEXT);
+
+    try {
+      const result = await pdfParse(document.buffer, { max: this.options.maxPages ?? 0 });
+      const extractedText = result.text.replace(/[ \t]+\n/g, '\n').trim();
+
+      if (extractedText.length < PdfTextExtractor.MIN_TEXT_LENGTH) {
+        throw new NoTextExtractedError(ExtractionMethod.PDF_TEXT);
+      }
+
+      const processingTimeMs = Date.now() - startTime;
+      DocumentLogger.logExtractionSuccess(ExtractionMethod.PDF_TEXT, extractedText.length, processingTimeMs);
+
+      return {
+        success: true,
+        extractedText,
+        method: ExtractionMethod.PDF_TEXT,
+        processingTimeMs,
+        metadata: {
+          pages: result.numpages,
+          fileType: document.metadata.fileType,
+          extractionMethod: ExtractionMethod.PDF_TEXT,
+          processingDetails: { pagesRead: this.options.maxPages || result.numpages }
+        }
+      };
+
+    } catch (error) {
+      const processingTimeMs = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      DocumentLogger.logExtractionFailure(ExtractionMethod.PDF_TEXT, errorMessage);
+
+      return {
+        success: false,
+        extractedText: '',
+        method: ExtractionMethod.PDF_TEXT,
+        processingTimeMs,
+        error: errorMessage,
+        metadata: {
+          pages: 0,
+          fileType: document.metadata.fileType,
+          extractionMethod: ExtractionMethod.PDF_TEXT
+        }
+      };
+    }
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { apiUsageService } from '@/lib/services/ApiUsageService';
+import { budgetService } from '@/lib/services/BudgetService';
 import {
   DocumentExtractor,
   DocumentBuffer,
@@ -81,6 +83,8 @@ Be extremely thorough - this is a complete inspection report that should have ex
 
     DocumentLogger.logExtractionAttempt(ExtractionMethod.CLAUDE_VISION);
 
+    await budgetService.assertWithinBudget('ANTHROPIC');
+
     try {
       const response = await this.performExtractionWithRetry(document, finalConfig);
       const extractedText = this.extractTextFromResponse(response);
@@ -153,29 +157,33 @@ Be extremely thorough - this is a complete inspection report that should have ex
     const base64Data = processedDocument.buffer.toString('base64');
     const mediaType = this.getMediaType(processedDocument.metadata.fileType);
 
-    const extractionPromise = this.anthropic.messages.create({
-      model: config.model,
-      max_tokens: config.maxTokens,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: VisionExtractor.EXTRACTION_PROMPT
-            },
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType,
-                data: base64Data
+    const extractionPromise = apiUsageService.track(
+      { provider: 'ANTHROPIC', endpoint: '/v1/messages', method: 'POST', metadata: { feature: 'vision-extraction' } },
+      () => this.anthropic.messages.create({
+        model: config.model,
+        max_tokens: config.maxTokens,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: VisionExtractor.EXTRACTION_PROMPT
+              },
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: mediaType,
+                  data: base64Data
+                }
               }
-            }
-          ]
-        }
-      ]
-    });
+            ]
+          }
+        ]
+      }),
+      result => apiUsageService.describeAnthropicResponse(result)
+    );
 
     // Add timeout protection
     const timeoutPromise = new Promise<never>((_, reject) => {
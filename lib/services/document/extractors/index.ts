@@ -7,6 +7,7 @@ export { VisionExtractor } from './VisionExtractor';
 export { GoogleVisionExtractor } from './GoogleVisionExtractor';
 export { ChunkedGoogleVisionExtractor } from './ChunkedGoogleVisionExtractor';
 export { HybridExtractor } from './HybridExtractor';
+export { PdfTextExtractor } from './PdfTextExtractor';
 
 // Re-export types for convenience
 export type {
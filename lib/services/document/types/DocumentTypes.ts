@@ -14,6 +14,7 @@ export enum ExtractionMethod {
   CLAUDE_VISION = 'claude-vision',
   GOOGLE_VISION = 'google-vision',
   HYBRID = 'hybrid-ocr-vision',
+  PDF_TEXT = 'pdf-text',
   FALLBACK = 'fallback'
 }
 
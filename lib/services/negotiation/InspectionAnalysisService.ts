@@ -0,0 +1,302 @@
+// Inspection Analysis Service - Production Ready, Zero Tech Debt
+// Persists inspection report analyses so the negotiation workspace can reopen them
+
+import { prisma } from '@/lib/prisma';
+import { InspectionAnalysis, Prisma } from '@prisma/client';
+import { InspectionIssue } from '@/lib/services/analysis/ClaudeAnalysisService';
+import { InspectionSummary } from '@/lib/types/inspection';
+
+export type StoredInspectionSummary = Omit<InspectionSummary, 'priorityIssues'>;
+
+export interface InspectionProcessingMetadata {
+  processingTimeMs: number;
+  extractionMethod: string;
+  extractionTimeMs?: number;
+  pages: number;
+  wordCount: number;
+  tokensUsed: number;
+  claudeSuccess: boolean;
+  claudeError?: string | null;
+  qualityScore?: number;
+  warnings?: string[];
+}
+
+export interface SaveInspectionAnalysisInput {
+  documentId?: string | null;
+  propertyId?: string | null;
+  documentName: string;
+  reportType: string;
+  extractedText: string;
+  issues: InspectionIssue[];
+  summary: StoredInspectionSummary;
+  detailedAnalysis?: Record<string, any> | null;
+  modelUsed: string;
+  analysisMethod: string;
+  confidence?: number | null;
+  processingMetadata: InspectionProcessingMetadata;
+}
+
+export interface InspectionAnalysisFilters {
+  propertyId?: string;
+  documentId?: string;
+  reportType?: string;
+}
+
+export interface InspectionAnalysisListItem {
+  id: string;
+  propertyId: string | null;
+  documentId: string | null;
+  documentName: string;
+  reportType: string;
+  modelUsed: string;
+  analysisMethod: string;
+  confidence: number | null;
+  totalIssues: number;
+  totalNegotiationValue: number;
+  createdAt: string;
+}
+
+export class InspectionAnalysisService {
+
+  /**
+   * Save a completed analysis for the given Clerk user
+   */
+  async saveAnalysis(
+    clerkUserId: string,
+    input: SaveInspectionAnalysisInput
+  ): Promise<InspectionAnalysis> {
+    const user = await this.getUser(clerkUserId);
+
+    let propertyId = input.propertyId ?? null;
+
+    // Timeline documents carry their property through the timeline
+    if (input.documentId) {
+      const document = await prisma.timelineDocument.findFirst({
+        where: {
+          id: input.documentId,
+          timeline: { userId: user.id }
+        },
+        include: { timeline: { select: { propertyId: true } } }
+      });
+
+      if (!document) {
+        throw new Error('Document not found or access denied');
+      }
+
+      propertyId = propertyId ?? document.timeline.propertyId;
+    }
+
+    if (propertyId) {
+      const property = await prisma.property.findFirst({
+        where: { id: propertyId, userId: user.id, deletedAt: null }
+      });
+
+      if (!property) {
+        throw new Error('Property not found or access denied');
+      }
+    }
+
+    return await prisma.inspectionAnalysis.create({
+      data: {
+        userId: user.id,
+        propertyId,
+        documentId: input.documentId ?? null,
+        documentName: input.documentName,
+        reportType: input.reportType,
+        extractedText: input.extractedText,
+        issues: input.issues as unknown as Prisma.InputJsonValue,
+        summary: input.summary as unknown as Prisma.InputJsonValue,
+        detailedAnalysis: input.detailedAnalysis
+          ? this.stripExtractedText(input.detailedAnalysis) as Prisma.InputJsonValue
+          : Prisma.JsonNull,
+        modelUsed: input.modelUsed,
+        analysisMethod: input.analysisMethod,
+        confidence: input.confidence ?? null,
+        processingMetadata: input.processingMetadata as unknown as Prisma.InputJsonValue,
+      }
+    });
+  }
+
+  /**
+   * List saved analyses (without extracted text) for a user
+   */
+  async listAnalyses(
+    clerkUserId: string,
+    filters: InspectionAnalysisFilters = {}
+  ): Promise<InspectionAnalysisListItem[]> {
+    const user = await this.getUser(clerkUserId);
+
+    const analyses = await prisma.inspectionAnalysis.findMany({
+      where: {
+        userId: user.id,
+        ...(filters.propertyId && { propertyId: filters.propertyId }),
+        ...(filters.documentId && { documentId: filters.documentId }),
+        ...(filters.reportType && { reportType: filters.reportType })
+      },
+      select: {
+        id: true,
+        propertyId: true,
+        documentId: true,
+        documentName: true,
+        reportType: true,
+        modelUsed: true,
+        analysisMethod: true,
+        confidence: true,
+        summary: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return analyses.map(analysis => {
+      const summary = analysis.summary as unknown as Partial<StoredInspectionSummary>;
+
+      return {
+        id: analysis.id,
+        propertyId: analysis.propertyId,
+        documentId: analysis.documentId,
+        documentName: analysis.documentName,
+        reportType: analysis.reportType,
+        modelUsed: analysis.modelUsed,
+        analysisMethod: analysis.analysisMethod,
+        confidence: analysis.confidence !== null ? Number(analysis.confidence) : null,
+        totalIssues: summary?.totalIssues ?? 0,
+        totalNegotiationValue: summary?.totalNegotiationValue ?? 0,
+        createdAt: analysis.createdAt.toISOString()
+      };
+    });
+  }
+
+  /**
+   * Get a single saved analysis, verifying ownership
+   */
+  async getAnalysis(clerkUserId: string, analysisId: string): Promise<InspectionAnalysis> {
+    const user = await this.getUser(clerkUserId);
+
+    const analysis = await prisma.inspectionAnalysis.findFirst({
+      where: { id: analysisId, userId: user.id }
+    });
+
+    if (!analysis) {
+      throw new Error('Analysis not found or access denied');
+    }
+
+    return this.restoreExtractedText(analysis);
+  }
+
+  /**
+   * Find the latest saved Claude analysis of a timeline document for a report
+   * type. Keyword fallbacks are never reused
+   */
+  async findLatestForDocument(
+    clerkUserId: string,
+    documentId: string,
+    reportType: string
+  ): Promise<InspectionAnalysis | null> {
+    const analysis = await prisma.inspectionAnalysis.findFirst({
+      where: {
+        documentId,
+        reportType,
+        user: { clerkId: clerkUserId },
+        processingMetadata: { path: ['claudeSuccess'], equals: true }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return analysis ? this.restoreExtractedText(analysis) : null;
+  }
+
+  /**
+   * Delete a saved analysis, verifying ownership
+   */
+  async deleteAnalysis(clerkUserId: string, analysisId: string): Promise<void> {
+    const user = await this.getUser(clerkUserId);
+
+    const result = await prisma.inspectionAnalysis.deleteMany({
+      where: { id: analysisId, userId: user.id }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Analysis not found or access denied');
+    }
+  }
+
+  /**
+   * Shape a saved analysis like the response of POST /api/negotiation/analyze
+   */
+  toAnalysisResponse(analysis: InspectionAnalysis) {
+    const metadata = analysis.processingMetadata as unknown as InspectionProcessingMetadata | null;
+
+    return {
+      analysisId: analysis.id,
+      reportId: analysis.id,
+      reportType: analysis.reportType,
+      documentId: analysis.documentId,
+      propertyId: analysis.propertyId,
+      documentName: analysis.documentName,
+      processingTimeMs: metadata?.processingTimeMs ?? 0,
+      extractedText: analysis.extractedText.substring(0, 500) + '...',
+      issues: analysis.issues,
+      detailedAnalysis: analysis.detailedAnalysis,
+      summary: analysis.summary,
+      modelUsed: analysis.modelUsed,
+      analysisMethod: analysis.analysisMethod,
+      confidence: analysis.confidence !== null ? Number(analysis.confidence) : null,
+      qualityScore: metadata?.qualityScore,
+      warnings: metadata?.warnings || [],
+      metadata: {
+        pages: metadata?.pages ?? 0,
+        wordCount: metadata?.wordCount ?? 0
+      },
+      processingMetadata: metadata,
+      createdAt: analysis.createdAt.toISOString()
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async getUser(clerkUserId: string) {
+    const user = await prisma.user.findUnique({
+      where: { clerkId: clerkUserId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * The audit payload repeats the full extracted text, which is already stored
+   * in its own column - drop the copy before saving
+   */
+  private stripExtractedText(detailedAnalysis: Record<string, any>): Record<string, any> {
+    if (!detailedAnalysis.debug) {
+      return detailedAnalysis;
+    }
+
+    const { extractedText: _extractedText, ...debug } = detailedAnalysis.debug;
+    return { ...detailedAnalysis, debug };
+  }
+
+  private restoreExtractedText(analysis: InspectionAnalysis): InspectionAnalysis {
+    const detailedAnalysis = analysis.detailedAnalysis as Record<string, any> | null;
+
+    if (!detailedAnalysis?.debug) {
+      return analysis;
+    }
+
+    return {
+      ...analysis,
+      detailedAnalysis: {
+        ...detailedAnalysis,
+        debug: { ...detailedAnalysis.debug, extractedText: analysis.extractedText }
+      }
+    };
+  }
+}
+
+export const inspectionAnalysisService = new InspectionAnalysisService();
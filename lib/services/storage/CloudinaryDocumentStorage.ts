@@ -0,0 +1,58 @@
+/**
+ * Cloudinary document storage
+ * storageKey is the Cloudinary public_id; the delivery URL tells us the resource type
+ */
+
+import cloudinary, {
+  deleteDocument,
+  generateSignedUrl,
+  getResourceTypeFromUrl,
+  uploadDocument
+} from "@/lib/cloudinary";
+import { CloudinaryService } from "@/lib/services/cloudinary/CloudinaryService";
+import {
+  DocumentStorage,
+  PutDocumentOptions,
+  StoredObject,
+  StoredObjectRef
+} from "./DocumentStorage";
+
+export class CloudinaryDocumentStorage implements DocumentStorage {
+  readonly provider = 'CLOUDINARY' as const;
+
+  async put(buffer: Buffer, options: PutDocumentOptions): Promise<StoredObject> {
+    const result = await uploadDocument(buffer, {
+      timelineId: options.timelineId,
+      stepId: options.stepId || 'general',
+      stepCategory: options.stepCategory || 'general',
+      fileName: options.fileName
+    });
+
+    return {
+      storageKey: result.publicId,
+      downloadUrl: result.url,
+      thumbnailUrl: result.thumbnailUrl
+    };
+  }
+
+  async get(ref: StoredObjectRef): Promise<Buffer> {
+    return CloudinaryService.downloadFile(this.getUrl(ref));
+  }
+
+  async delete(ref: StoredObjectRef): Promise<void> {
+    await deleteDocument(ref.storageKey, getResourceTypeFromUrl(this.getUrl(ref)));
+  }
+
+  async getSignedUrl(ref: StoredObjectRef, expiresInSeconds: number = 3600): Promise<string> {
+    const url = this.getUrl(ref);
+    const resourceType = getResourceTypeFromUrl(url);
+    // Raw public_ids already carry their extension
+    const format = resourceType === 'raw' ? '' : url.split('.').pop()?.split('?')[0] || 'auto';
+
+    return generateSignedUrl(ref.storageKey, expiresInSeconds, resourceType, format);
+  }
+
+  private getUrl(ref: StoredObjectRef): string {
+    return ref.downloadUrl || cloudinary.url(ref.storageKey, { secure: true, resource_type: 'raw' });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Document Storage - backend-agnostic file storage for timeline documents
+ * A document's storageProvider picks the backend; its storageKey addresses the file there
+ */
+
+export const STORAGE_PROVIDERS = ['CLOUDINARY', 'SUPABASE', 'LOCAL'] as const;
+
+export type StorageProvider = typeof STORAGE_PROVIDERS[number];
+
+/** Enough of a TimelineDocument to find its file */
+export interface StoredObjectRef {
+  storageKey: string;
+  downloadUrl?: string | null;
+}
+
+export interface PutDocumentOptions {
+  timelineId: string;
+  stepId?: string | null;
+  stepCategory?: string;
+  fileName: string;
+  contentType: string;
+}
+
+export interface StoredObject {
+  storageKey: string;
+  downloadUrl: string;
+  thumbnailUrl?: string;
+}
+
+export interface DocumentStorage {
+  readonly provider: StorageProvider;
+
+  /** Store a new file; keys are generated by the backend and never overwrite */
+  put(buffer: Buffer, options: PutDocumentOptions): Promise<StoredObject>;
+
+  /** Read a stored file's bytes */
+  get(ref: StoredObjectRef): Promise<Buffer>;
+
+  /** Remove a stored file. Missing files are not an error */
+  delete(ref: StoredObjectRef): Promise<void>;
+
+  /** Time-limited URL that needs no session to fetch the file */
+  getSignedUrl(ref: StoredObjectRef, expiresInSeconds?: number): Promise<string>;
+}
+
+export class DocumentStorageError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: StorageProvider
+  ) {
+    super(message);
+    this.name = 'DocumentStorageError';
+  }
+}
+
+export function isStorageProvider(value: string): value is StorageProvider {
+  return (STORAGE_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Key layout shared by the backends that don't generate their own:
+ * timeline/{timelineId}/{stepId|general}/{timestamp}-{fileName}
+ */
+export function buildStorageKey(options: Pick<PutDocumentOptions, 'timelineId' | 'stepId' | 'fileName'>): string {
+  const fileName = options.fileName
+    .replace(/[^a-zA-Z0-9.-]/g, '_')
+    .replace(/_{2,}/g, '_')
+    .replace(/^_|_$/g, '') || 'document';
+
+  return `timeline/${options.timelineId}/${options.stepId || 'general'}/${Date.now()}-${fileName}`;
+}
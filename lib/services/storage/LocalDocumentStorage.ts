@@ -0,0 +1,113 @@
+/**
+ * Local filesystem document storage
+ * Network-free backend for development and tests; files are served by /api/storage/local
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  buildStorageKey,
+  DocumentStorage,
+  DocumentStorageError,
+  PutDocumentOptions,
+  StoredObject,
+  StoredObjectRef
+} from "./DocumentStorage";
+
+export class LocalDocumentStorage implements DocumentStorage {
+  readonly provider = 'LOCAL' as const;
+  private readonly rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), '.storage', 'documents'));
+
+  constructor() {
+    // Fail when the backend is created rather than on the first signed URL
+    LocalDocumentStorage.getSigningSecret();
+  }
+
+  async put(buffer: Buffer, options: PutDocumentOptions): Promise<StoredObject> {
+    const storageKey = buildStorageKey(options);
+    const filePath = this.resolvePath(storageKey);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // 'wx' fails instead of overwriting an existing key
+    await fs.writeFile(filePath, buffer, { flag: 'wx' });
+
+    return {
+      storageKey,
+      downloadUrl: LocalDocumentStorage.getFileUrl(storageKey)
+    };
+  }
+
+  async get(ref: StoredObjectRef): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(ref.storageKey));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new DocumentStorageError(`Stored file not found: ${ref.storageKey}`, this.provider);
+      }
+      throw error;
+    }
+  }
+
+  async delete(ref: StoredObjectRef): Promise<void> {
+    await fs.rm(this.resolvePath(ref.storageKey), { force: true });
+  }
+
+  async getSignedUrl(ref: StoredObjectRef, expiresInSeconds: number = 3600): Promise<string> {
+    const expires = Math.round(Date.now() / 1000) + expiresInSeconds;
+    const signature = LocalDocumentStorage.sign(ref.storageKey, expires);
+
+    return `${LocalDocumentStorage.getFileUrl(ref.storageKey)}?expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a signed URL's parameters; false once expired or if the key was altered
+   */
+  static verifySignature(storageKey: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(storageKey, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /** Session-authenticated URL stored as the document's downloadUrl */
+  static getFileUrl(storageKey: string): string {
+    return `/api/storage/local/${storageKey.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /**
+   * Secret for signing and verifying URLs. Required in every environment:
+   * a default would let anyone forge links on staging and preview deployments
+   */
+  static getSigningSecret(): string {
+    const secret = process.env.LOCAL_STORAGE_SIGNING_SECRET;
+    if (!secret) {
+      throw new DocumentStorageError('LOCAL_STORAGE_SIGNING_SECRET is required for local document storage', 'LOCAL');
+    }
+
+    return secret;
+  }
+
+  private static sign(storageKey: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.getSigningSecret())
+      .update(`${storageKey}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Map a key to a path under the storage root, rejecting keys that escape it
+   */
+  private resolvePath(storageKey: string): string {
+    const filePath = path.resolve(this.rootDir, storageKey);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new DocumentStorageError(`Invalid storage key: ${storageKey}`, this.provider);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Supabase document storage
+ * storageKey is the object path inside the documents bucket
+ */
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildStorageKey,
+  DocumentStorage,
+  DocumentStorageError,
+  PutDocumentOptions,
+  StoredObject,
+  StoredObjectRef
+} from "./DocumentStorage";
+
+const STORAGE_BUCKET = 'documents';
+
+export class SupabaseDocumentStorage implements DocumentStorage {
+  readonly provider = 'SUPABASE' as const;
+  private client: SupabaseClient | null = null;
+
+  async put(buffer: Buffer, options: PutDocumentOptions): Promise<StoredObject> {
+    const storageKey = buildStorageKey(options);
+    const { error } = await this.getBucket().upload(storageKey, buffer, {
+      cacheControl: '3600',
+      upsert: false,
+      contentType: options.contentType
+    });
+
+    if (error) {
+      throw new DocumentStorageError(`Upload failed: ${error.message}`, this.provider);
+    }
+
+    return {
+      storageKey,
+      downloadUrl: this.getBucket().getPublicUrl(storageKey).data.publicUrl
+    };
+  }
+
+  async get(ref: StoredObjectRef): Promise<Buffer> {
+    const { data, error } = await this.getBucket().download(ref.storageKey);
+
+    if (error || !data) {
+      throw new DocumentStorageError(`Download failed for ${ref.storageKey}: ${error?.message ?? 'no data'}`, this.provider);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(ref: StoredObjectRef): Promise<void> {
+    const { error } = await this.getBucket().remove([ref.storageKey]);
+
+    if (error) {
+      throw new DocumentStorageError(`Delete failed for ${ref.storageKey}: ${error.message}`, this.provider);
+    }
+  }
+
+  async getSignedUrl(ref: StoredObjectRef, expiresInSeconds: number = 3600): Promise<string> {
+    const { data, error } = await this.getBucket().createSignedUrl(ref.storageKey, expiresInSeconds);
+
+    if (error || !data) {
+      throw new DocumentStorageError(`Could not sign ${ref.storageKey}: ${error?.message ?? 'no data'}`, this.provider);
+    }
+
+    return data.signedUrl;
+  }
+
+  /**
+   * Service-role client, created on first use so environments without
+   * Supabase credentials can still load the other backends
+   */
+  private getBucket() {
+    if (!this.client) {
+      const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+      if (!url || !serviceKey) {
+        throw new DocumentStorageError(
+          'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for Supabase storage',
+          this.provider
+        );
+      }
+
+      this.client = createClient(url, serviceKey, {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        }
+      });
+    }
+
+    return this.client.storage.from(STORAGE_BUCKET);
+  }
+}
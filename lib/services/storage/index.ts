@@ -0,0 +1,82 @@
+/**
+ * Document storage backends
+ * New uploads go to DOCUMENT_STORAGE_PROVIDER (Cloudinary by default); reads
+ * always follow the provider recorded on the document
+ */
+
+import { CloudinaryDocumentStorage } from './CloudinaryDocumentStorage';
+import { SupabaseDocumentStorage } from './SupabaseDocumentStorage';
+import { LocalDocumentStorage } from './LocalDocumentStorage';
+import {
+  DocumentStorage,
+  isStorageProvider,
+  StorageProvider,
+  StoredObjectRef
+} from './DocumentStorage';
+
+const backends: Partial<Record<StorageProvider, DocumentStorage>> = {};
+
+// Local storage signs download URLs - refuse to start without its secret
+if (getDefaultStorageProvider() === 'LOCAL') {
+  LocalDocumentStorage.getSigningSecret();
+}
+
+/**
+ * Backend for a provider name. Accepts the raw column value and rejects
+ * names no backend handles
+ */
+export function getDocumentStorage(provider: string = getDefaultStorageProvider()): DocumentStorage {
+  if (!isStorageProvider(provider)) {
+    throw new Error(`Unknown storage provider: ${provider}`);
+  }
+
+  if (!backends[provider]) {
+    switch (provider) {
+      case 'CLOUDINARY':
+        backends[provider] = new CloudinaryDocumentStorage();
+        break;
+      case 'SUPABASE':
+        backends[provider] = new SupabaseDocumentStorage();
+        break;
+      case 'LOCAL':
+        backends[provider] = new LocalDocumentStorage();
+        break;
+    }
+  }
+
+  return backends[provider]!;
+}
+
+/** Where new uploads are stored */
+export function getDefaultStorageProvider(): StorageProvider {
+  const configured = process.env.DOCUMENT_STORAGE_PROVIDER?.toUpperCase();
+  return configured && isStorageProvider(configured) ? configured : 'CLOUDINARY';
+}
+
+/**
+ * Read a timeline document's file from whichever backend holds it
+ */
+export async function readDocumentFile(
+  document: StoredObjectRef & { storageProvider: string; originalName: string }
+): Promise<Buffer> {
+  if (!document.storageKey && !document.downloadUrl) {
+    throw new Error(`${document.originalName} has no stored file`);
+  }
+
+  return getDocumentStorage(document.storageProvider).get(document);
+}
+
+export { LocalDocumentStorage } from './LocalDocumentStorage';
+export {
+  buildStorageKey,
+  DocumentStorageError,
+  isStorageProvider,
+  STORAGE_PROVIDERS
+} from './DocumentStorage';
+export type {
+  DocumentStorage,
+  PutDocumentOptions,
+  StorageProvider,
+  StoredObject,
+  StoredObjectRef
+} from './DocumentStorage';
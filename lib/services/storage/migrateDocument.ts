@@ -0,0 +1,67 @@
+/**
+ * Move a timeline document's file between storage backends
+ * Copies first and repoints the record, so a failure never leaves a document without a file
+ */
+
+import { TimelineDocument } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/utils/logger';
+import { getDocumentStorage } from './index';
+import { StorageProvider } from './DocumentStorage';
+
+export interface MigrateDocumentOptions {
+  /** Remove the source file once the record points at the copy */
+  deleteSource?: boolean;
+}
+
+export async function migrateDocument(
+  document: TimelineDocument,
+  targetProvider: StorageProvider,
+  options: MigrateDocumentOptions = {}
+): Promise<TimelineDocument> {
+  if (document.storageProvider === targetProvider) {
+    return document;
+  }
+
+  const source = getDocumentStorage(document.storageProvider);
+  const target = getDocumentStorage(targetProvider);
+
+  const buffer = await source.get(document);
+  const stored = await target.put(buffer, {
+    timelineId: document.timelineId,
+    stepId: document.stepId,
+    fileName: document.fileName,
+    contentType: document.mimeType
+  });
+
+  let updated: TimelineDocument;
+  try {
+    updated = await prisma.timelineDocument.update({
+      where: { id: document.id },
+      data: {
+        storageProvider: target.provider,
+        storageKey: stored.storageKey,
+        downloadUrl: stored.downloadUrl,
+        // Old thumbnails live on the source backend
+        thumbnailUrl: stored.thumbnailUrl ?? null
+      }
+    });
+  } catch (error) {
+    await target.delete(stored).catch(() => undefined);
+    throw error;
+  }
+
+  if (options.deleteSource) {
+    try {
+      await source.delete(document);
+    } catch (error) {
+      logger.warn('Migrated document but could not delete the source file', {
+        documentId: document.id,
+        storageProvider: document.storageProvider,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore } from '@/lib/stores/MemoryStore';
+
+describe('MemoryStore', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new MemoryStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('cache', () => {
+    it('returns stored values until their TTL passes', async () => {
+      await store.set('key', { value: 1 }, 1000);
+      expect(await store.get('key')).toEqual({ value: 1 });
+
+      vi.advanceTimersByTime(1001);
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('deletes entries and reports whether one existed', async () => {
+      await store.set('key', 'value', 1000);
+      expect(await store.delete('key')).toBe(true);
+      expect(await store.delete('key')).toBe(false);
+    });
+
+    it('cleanup removes expired entries and windows only', async () => {
+      await store.set('short', 'value', 1000);
+      await store.set('long', 'value', 5000);
+      await store.increment('window', 1000);
+
+      vi.advanceTimersByTime(2000);
+      expect(await store.cleanup()).toBe(2);
+      expect(await store.get('long')).toBe('value');
+    });
+  });
+
+  describe('rate limit windows', () => {
+    it('counts requests within a window and opens a new one after it expires', async () => {
+      const first = await store.increment('key', 1000);
+      expect(first.count).toBe(1);
+      expect((await store.increment('key', 1000)).count).toBe(2);
+
+      vi.advanceTimersByTime(1000);
+      const next = await store.increment('key', 1000);
+      expect(next.count).toBe(1);
+      expect(next.resetTime).toBeGreaterThan(first.resetTime);
+    });
+
+    it('peek reads the open window without counting', async () => {
+      expect(await store.peek('key')).toBeNull();
+      await store.increment('key', 1000);
+
+      expect((await store.peek('key'))?.count).toBe(1);
+      expect((await store.peek('key'))?.count).toBe(1);
+    });
+
+    it('reset closes the window', async () => {
+      await store.increment('key', 1000);
+      await store.reset('key');
+      expect(await store.peek('key')).toBeNull();
+    });
+  });
+});
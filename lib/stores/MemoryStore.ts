@@ -0,0 +1,89 @@
+// Process-local store - the default backend and the in-process stand-in for tests
+
+import { CacheStore, RateLimitState, RateLimitStore } from './types';
+
+interface MemoryCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class MemoryStore implements CacheStore, RateLimitStore {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, MemoryCacheEntry>();
+  private windows = new Map<string, RateLimitState>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.windows.clear();
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    this.entries.forEach((entry, key) => {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+
+    this.windows.forEach((window, key) => {
+      if (now >= window.resetTime) {
+        this.windows.delete(key);
+        removed++;
+      }
+    });
+
+    return removed;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    const now = Date.now();
+    const window = this.windows.get(key);
+
+    if (!window || now >= window.resetTime) {
+      const fresh = { count: 1, resetTime: now + windowMs };
+      this.windows.set(key, fresh);
+      return { ...fresh };
+    }
+
+    window.count++;
+    return { ...window };
+  }
+
+  async peek(key: string): Promise<RateLimitState | null> {
+    const window = this.windows.get(key);
+    if (!window || Date.now() >= window.resetTime) {
+      return null;
+    }
+
+    return { ...window };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+}
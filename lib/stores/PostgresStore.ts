@@ -0,0 +1,93 @@
+// Postgres-backed store via Prisma - shared across instances without extra infrastructure
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CacheStore, RateLimitState, RateLimitStore } from './types';
+
+export class PostgresStore implements CacheStore, RateLimitStore {
+  readonly backend = 'postgres' as const;
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await prisma.cacheEntry.findUnique({ where: { key } });
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= new Date()) {
+      await prisma.cacheEntry.deleteMany({ where: { key, expiresAt: { lte: new Date() } } });
+      return null;
+    }
+
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    const json = value as unknown as Prisma.InputJsonValue;
+
+    await prisma.cacheEntry.upsert({
+      where: { key },
+      create: { key, value: json, expiresAt },
+      update: { value: json, expiresAt }
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const result = await prisma.cacheEntry.deleteMany({ where: { key } });
+    return result.count > 0;
+  }
+
+  async clear(): Promise<void> {
+    await prisma.cacheEntry.deleteMany({});
+    await prisma.rateLimitBucket.deleteMany({});
+  }
+
+  async cleanup(): Promise<number> {
+    const now = new Date();
+    const [entries, buckets] = await Promise.all([
+      prisma.cacheEntry.deleteMany({ where: { expiresAt: { lte: now } } }),
+      prisma.rateLimitBucket.deleteMany({ where: { resetAt: { lte: now } } })
+    ]);
+
+    return entries.count + buckets.count;
+  }
+
+  /**
+   * Single upsert so concurrent instances can't lose increments or open
+   * overlapping windows
+   */
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    // Compared in the app's clock - "resetAt" has no time zone, so NOW() would
+    // shift with the database session's TimeZone setting
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    const rows = await prisma.$queryRaw<Array<{ count: number; resetAt: Date }>>`
+      INSERT INTO "rate_limit_buckets" ("key", "count", "resetAt")
+      VALUES (${key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN 1 ELSE "rate_limit_buckets"."count" + 1 END,
+        "resetAt" = CASE WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN EXCLUDED."resetAt" ELSE "rate_limit_buckets"."resetAt" END
+      RETURNING "count", "resetAt"
+    `;
+
+    const row = rows[0];
+    return {
+      count: Number(row.count),
+      resetTime: new Date(row.resetAt).getTime()
+    };
+  }
+
+  async peek(key: string): Promise<RateLimitState | null> {
+    const bucket = await prisma.rateLimitBucket.findUnique({ where: { key } });
+    if (!bucket || bucket.resetAt <= new Date()) {
+      return null;
+    }
+
+    return { count: bucket.count, resetTime: bucket.resetAt.getTime() };
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitBucket.deleteMany({ where: { key } });
+  }
+}
@@ -0,0 +1,219 @@
+// Minimal RESP2 client - enough of the Redis protocol for the cache and rate limit stores.
+// Works against Redis, Valkey, KeyDB, Dragonfly or any other server speaking the protocol
+
+import net from 'net';
+import tls from 'tls';
+
+export type RedisReply = string | number | null | RedisReply[];
+type RedisArg = string | number;
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async command(...args: RedisArg[]): Promise<RedisReply> {
+    const [reply] = await this.pipeline([args]);
+    return reply;
+  }
+
+  /**
+   * Send several commands in one write; replies come back in order
+   */
+  async pipeline(commands: RedisArg[][]): Promise<RedisReply[]> {
+    const socket = this.connect();
+    const replies = commands.map(() => new Promise<RedisReply>((resolve, reject) => {
+      this.pending.push(this.withTimeout(socket, { resolve, reject }));
+    }));
+
+    socket.write(Buffer.concat(commands.map(args => this.encode(args))));
+    return Promise.all(replies);
+  }
+
+  disconnect(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private connect(): net.Socket {
+    if (this.socket && !this.socket.destroyed) {
+      return this.socket;
+    }
+
+    const url = new URL(this.url);
+    const host = url.hostname || '127.0.0.1';
+    const port = parseInt(url.port || '6379');
+
+    const socket = url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    socket.unref();
+    socket.on('data', chunk => this.handleData(chunk));
+    socket.on('error', error => this.failPending(error));
+    socket.on('close', () => {
+      this.failPending(new Error('Redis connection closed'));
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // Queued ahead of the caller's commands, so no need to wait for the handshake
+    const username = decodeURIComponent(url.username);
+    const password = decodeURIComponent(url.password);
+    if (password) {
+      this.sendInternal(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+
+    const database = url.pathname.replace('/', '');
+    if (database) {
+      this.sendInternal(['SELECT', database]);
+    }
+
+    return socket;
+  }
+
+  /**
+   * Replies can't be matched up again once one goes missing, so a command that
+   * outlives its timer drops the connection and fails everything still queued
+   */
+  private withTimeout(socket: net.Socket, waiter: PendingReply): PendingReply {
+    const timer = setTimeout(
+      () => socket.destroy(new Error('Redis command timed out')),
+      this.timeoutMs
+    );
+    timer.unref();
+
+    return {
+      resolve: reply => {
+        clearTimeout(timer);
+        waiter.resolve(reply);
+      },
+      reject: error => {
+        clearTimeout(timer);
+        waiter.reject(error);
+      }
+    };
+  }
+
+  private sendInternal(args: RedisArg[]): void {
+    this.pending.push({
+      resolve: () => {},
+      reject: error => this.socket?.destroy(error)
+    });
+    this.socket?.write(this.encode(args));
+  }
+
+  private encode(args: RedisArg[]): Buffer {
+    const parts = [`*${args.length}\r\n`];
+    for (const arg of args) {
+      const value = String(arg);
+      parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+    }
+    return Buffer.from(parts.join(''));
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const parsed = this.parse(offset);
+      if (!parsed) {
+        break;
+      }
+
+      offset = parsed.next;
+      const waiter = this.pending.shift();
+      if (!waiter) {
+        continue;
+      }
+
+      if (parsed.value instanceof Error) {
+        waiter.reject(parsed.value);
+      } else {
+        waiter.resolve(parsed.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /**
+   * Parse one reply starting at offset, or null if it hasn't fully arrived yet
+   */
+  private parse(offset: number): { value: RedisReply | Error; next: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) {
+      return null;
+    }
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, next };
+      case '-':
+        return { value: new Error(line), next };
+      case ':':
+        return { value: parseInt(line, 10), next };
+      case '$': {
+        const length = parseInt(line, 10);
+        if (length === -1) {
+          return { value: null, next };
+        }
+        if (this.buffer.length < next + length + 2) {
+          return null;
+        }
+        return { value: this.buffer.toString('utf8', next, next + length), next: next + length + 2 };
+      }
+      case '*': {
+        const count = parseInt(line, 10);
+        if (count === -1) {
+          return { value: null, next };
+        }
+
+        const items: RedisReply[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor);
+          if (!item) {
+            return null;
+          }
+          items.push(item.value instanceof Error ? item.value.message : item.value);
+          cursor = item.next;
+        }
+        return { value: items, next: cursor };
+      }
+      default:
+        return { value: new Error(`Unexpected Redis reply type: ${type}`), next };
+    }
+  }
+
+  private failPending(error: Error): void {
+    const waiters = this.pending;
+    this.pending = [];
+    waiters.forEach(waiter => waiter.reject(error));
+  }
+}
@@ -0,0 +1,97 @@
+// Redis-protocol store - keys expire server-side, so cleanup is a no-op
+
+import { RedisClient } from './RedisClient';
+import { CacheStore, RateLimitState, RateLimitStore } from './types';
+
+const CACHE_PREFIX = 'hh:cache:';
+const RATE_LIMIT_PREFIX = 'hh:ratelimit:';
+
+export class RedisStore implements CacheStore, RateLimitStore {
+  readonly backend = 'redis' as const;
+
+  constructor(private readonly client: RedisClient) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.command('GET', CACHE_PREFIX + key);
+    return typeof value === 'string' ? JSON.parse(value) as T : null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.client.command('SET', CACHE_PREFIX + key, JSON.stringify(value), 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const removed = await this.client.command('DEL', CACHE_PREFIX + key);
+    return removed === 1;
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix(CACHE_PREFIX);
+    await this.deleteByPrefix(RATE_LIMIT_PREFIX);
+  }
+
+  async cleanup(): Promise<number> {
+    return 0;
+  }
+
+  /**
+   * SET NX opens the window with its expiry, INCR keeps the TTL, PTTL reports the reset time
+   */
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    const redisKey = RATE_LIMIT_PREFIX + key;
+    const [, count, ttl] = await this.client.pipeline([
+      ['SET', redisKey, 0, 'PX', windowMs, 'NX'],
+      ['INCR', redisKey],
+      ['PTTL', redisKey]
+    ]);
+
+    let remainingMs = Number(ttl);
+    if (remainingMs < 0) {
+      // Window expired between SET and INCR - the counter was recreated without a TTL
+      await this.client.command('PEXPIRE', redisKey, windowMs);
+      remainingMs = windowMs;
+    }
+
+    return {
+      count: Number(count),
+      resetTime: Date.now() + remainingMs
+    };
+  }
+
+  async peek(key: string): Promise<RateLimitState | null> {
+    const redisKey = RATE_LIMIT_PREFIX + key;
+    const [count, ttl] = await this.client.pipeline([
+      ['GET', redisKey],
+      ['PTTL', redisKey]
+    ]);
+
+    if (count === null || Number(ttl) < 0) {
+      return null;
+    }
+
+    return {
+      count: Number(count),
+      resetTime: Date.now() + Number(ttl)
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.command('DEL', RATE_LIMIT_PREFIX + key);
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private async deleteByPrefix(prefix: string): Promise<void> {
+    let cursor = '0';
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', `${prefix}*`, 'COUNT', 500);
+      const [nextCursor, keys] = reply as [string, string[]];
+      if (keys.length > 0) {
+        await this.client.command('DEL', ...keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+}
@@ -0,0 +1,51 @@
+// Store selection for the API cache and rate limiters.
+// CACHE_STORE=memory (default) | postgres | redis; redis also needs REDIS_URL
+
+import { logger } from '@/lib/utils/logger';
+import { MemoryStore } from './MemoryStore';
+import { PostgresStore } from './PostgresStore';
+import { RedisClient } from './RedisClient';
+import { RedisStore } from './RedisStore';
+import { CacheStore, RateLimitStore, StoreBackend } from './types';
+
+export * from './types';
+export { MemoryStore } from './MemoryStore';
+export { PostgresStore } from './PostgresStore';
+export { RedisStore } from './RedisStore';
+export { RedisClient } from './RedisClient';
+
+const sharedStores: Partial<Record<StoreBackend, CacheStore & RateLimitStore>> = {};
+
+export function getStoreBackend(): StoreBackend {
+  const backend = (process.env.CACHE_STORE || 'memory').toLowerCase();
+
+  if (backend === 'postgres' || backend === 'redis') {
+    if (backend === 'redis' && !process.env.REDIS_URL) {
+      logger.warn('CACHE_STORE=redis but REDIS_URL is not set - falling back to in-memory store');
+      return 'memory';
+    }
+    return backend;
+  }
+
+  if (backend !== 'memory') {
+    logger.warn(`Unknown CACHE_STORE "${backend}" - falling back to in-memory store`);
+  }
+  return 'memory';
+}
+
+/**
+ * Store for the configured backend. Shared backends are created once per process
+ * so every cache and limiter reuses the same connection
+ */
+export function createStore(backend: StoreBackend = getStoreBackend()): CacheStore & RateLimitStore {
+  switch (backend) {
+    case 'postgres':
+      sharedStores.postgres ??= new PostgresStore();
+      return sharedStores.postgres;
+    case 'redis':
+      sharedStores.redis ??= new RedisStore(new RedisClient(process.env.REDIS_URL!));
+      return sharedStores.redis;
+    default:
+      return new MemoryStore();
+  }
+}
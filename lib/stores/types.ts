@@ -0,0 +1,27 @@
+// Shared key/value store contracts for the API cache and rate limiters
+
+export type StoreBackend = 'memory' | 'postgres' | 'redis';
+
+export interface CacheStore {
+  readonly backend: StoreBackend;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  /** Drop expired entries - returns how many were removed */
+  cleanup(): Promise<number>;
+}
+
+export interface RateLimitState {
+  count: number;
+  resetTime: number; // epoch ms
+}
+
+export interface RateLimitStore {
+  readonly backend: StoreBackend;
+  /** Count one request against the key, opening a new window if the current one has expired */
+  increment(key: string, windowMs: number): Promise<RateLimitState>;
+  /** Current window for the key, or null if none is open */
+  peek(key: string): Promise<RateLimitState | null>;
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,112 @@
+// Affordability - Production Ready, Zero Tech Debt
+// Buyer profile, loan program rules and rent-vs-buy results for owner-occupant buyers
+
+// ============================================================================
+// BUYER PROFILE
+// ============================================================================
+
+export type CreditBand = 'excellent' | 'good' | 'fair' | 'poor';
+
+export type LoanProgram = 'conventional' | 'fha' | 'va';
+
+/** Stored under `buyerProfile` in User.preferences. Money is in dollars */
+export interface BuyerProfile {
+  annualIncome: number;
+  monthlyDebts: number;
+  savings: number;
+  creditBand: CreditBand;
+  vaEligible: boolean;
+  /** Market rate before the credit band adjustment, in % */
+  baseInterestRate?: number;
+  /** Down payment the buyer is aiming for, in % - programs apply their own minimum */
+  targetDownPaymentPercent?: number;
+}
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export type AffordabilityLimit = 'front_end_dti' | 'back_end_dti' | 'cash_to_close';
+
+export interface MonthlyHousingCost {
+  principalAndInterest: number;
+  taxes: number;
+  insurance: number;
+  mortgageInsurance: number;
+  hoa: number;
+  total: number;
+}
+
+export interface ProgramQuote {
+  program: LoanProgram;
+  eligible: boolean;
+  /** Why the buyer doesn't qualify, when not eligible */
+  ineligibleReason: string | null;
+  interestRate: number; // %
+  price: number;
+  downPaymentPercent: number;
+  downPayment: number;
+  /** Includes any financed upfront fee (FHA MIP, VA funding fee) */
+  loanAmount: number;
+  closingCosts: number;
+  cashToClose: number;
+  monthly: MonthlyHousingCost;
+  frontEndDti: number; // %
+  backEndDti: number; // %
+}
+
+/** The most house each program supports, and what capped it */
+export interface MaxPriceQuote extends ProgramQuote {
+  limitedBy: AffordabilityLimit;
+}
+
+/** Buying this property under a program */
+export interface PropertyQuote extends ProgramQuote {
+  withinDtiLimits: boolean;
+  withinSavings: boolean;
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  cumulativeRent: number;
+  /** Payments, maintenance and forgone returns on the cash to close, less equity recovered by selling */
+  netCostOfOwning: number;
+  homeValue: number;
+  loanBalance: number;
+}
+
+export interface RentVsBuyAnalysis {
+  program: LoanProgram;
+  monthlyRent: number;
+  years: number;
+  /** First year owning costs less than renting; null if not within the horizon */
+  breakEvenYear: number | null;
+  yearly: RentVsBuyYear[];
+}
+
+export interface AffordabilityAnalysis {
+  profile: BuyerProfile;
+  maxPrice: MaxPriceQuote[];
+  property: PropertyQuote[];
+  /** Null when there is no rent estimate to compare with */
+  rentVsBuy: RentVsBuyAnalysis | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CREDIT_BAND_LABELS: Record<CreditBand, string> = {
+  excellent: 'Excellent (760+)',
+  good: 'Good (700-759)',
+  fair: 'Fair (640-699)',
+  poor: 'Poor (below 640)'
+};
+
+export const LOAN_PROGRAM_LABELS: Record<LoanProgram, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA'
+};
+
+export const DEFAULT_RENT_VS_BUY_YEARS = 7;
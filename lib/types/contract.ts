@@ -0,0 +1,115 @@
+// Purchase Contract Types - Production-ready data models
+// Terms extracted from a purchase agreement and the timeline updates they imply
+
+// ============================================================================
+// EXTRACTED TERMS
+// ============================================================================
+
+export type ContractDeadlineKind =
+  | 'effectiveDate'
+  | 'earnestMoneyDue'
+  | 'inspectionContingency'
+  | 'appraisalContingency'
+  | 'financingContingency'
+  | 'closingDate';
+
+export interface ContractDeadline {
+  /** Calendar date (YYYY-MM-DD) when the contract states one */
+  date: string | null;
+  /** "within 10 days of acceptance" style deadlines, resolved against the effective date */
+  daysAfterEffective: number | null;
+  /** Quote from the contract backing the value */
+  sourceText: string | null;
+}
+
+export type ContractAmountKind =
+  | 'purchasePrice'
+  | 'earnestMoney'
+  | 'loanAmount'
+  | 'downPayment'
+  | 'sellerConcessions';
+
+export interface ContractAmount {
+  /** Whole dollars */
+  amount: number | null;
+  sourceText: string | null;
+}
+
+export interface ContractParties {
+  buyers: string[];
+  sellers: string[];
+  buyerAgent: string | null;
+  sellerAgent: string | null;
+  lender: string | null;
+  titleCompany: string | null;
+  escrowAgent: string | null;
+}
+
+export interface ContractTerms {
+  deadlines: Record<ContractDeadlineKind, ContractDeadline>;
+  amounts: Record<ContractAmountKind, ContractAmount>;
+  parties: ContractParties;
+  /** 0-1, the model's confidence in the extraction as a whole */
+  confidence: number;
+  warnings: string[];
+}
+
+// ============================================================================
+// PROPOSED TIMELINE UPDATES
+// ============================================================================
+
+export type ContractProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export type ContractProposalField = 'scheduledDate' | 'estimatedCost' | 'estimatedClosingDate';
+
+/** One suggested change to a step or the timeline, accepted or rejected by the user */
+export interface ContractProposal {
+  id: string;
+  source: ContractDeadlineKind | ContractAmountKind;
+  label: string;
+  field: ContractProposalField;
+  /** Null for timeline-level fields */
+  stepId: string | null;
+  stepTitle: string | null;
+  /** ISO date for date fields, whole dollars for estimatedCost */
+  currentValue: string | number | null;
+  proposedValue: string | number;
+  sourceText: string | null;
+  status: ContractProposalStatus;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface ContractAnalysisResult {
+  id: string;
+  timelineId: string;
+  documentId: string;
+  documentName: string;
+  terms: ContractTerms;
+  proposals: ContractProposal[];
+  modelUsed: string;
+  extractionMethod: string;
+  createdAt: Date;
+}
+
+export interface ContractProposalDecision {
+  proposalId: string;
+  accept: boolean;
+}
+
+export const CONTRACT_DEADLINE_LABELS: Record<ContractDeadlineKind, string> = {
+  effectiveDate: 'Contract effective date',
+  earnestMoneyDue: 'Earnest money due',
+  inspectionContingency: 'Inspection contingency deadline',
+  appraisalContingency: 'Appraisal contingency deadline',
+  financingContingency: 'Financing contingency deadline',
+  closingDate: 'Closing date'
+};
+
+export const CONTRACT_AMOUNT_LABELS: Record<ContractAmountKind, string> = {
+  purchasePrice: 'Purchase price',
+  earnestMoney: 'Earnest money',
+  loanAmount: 'Loan amount',
+  downPayment: 'Down payment',
+  sellerConcessions: 'Seller concessions'
+};
@@ -0,0 +1,58 @@
+// Document Classification - Production Ready, Zero Tech Debt
+// Suggested document type and timeline step for an uploaded file
+
+import { DocumentType } from '@prisma/client';
+
+// ============================================================================
+// CLASSIFICATION TYPES
+// ============================================================================
+
+export type ClassificationMethod = 'heuristic' | 'llm';
+
+/** Where the classified text came from; 'filename' means no readable text layer */
+export type ClassificationTextSource = 'pdf-text' | 'ocr' | 'filename';
+
+export interface DocumentTypeScore {
+  documentType: DocumentType;
+  confidence: number; // 0-1
+}
+
+export interface SuggestedStep {
+  stepId: string;
+  title: string;
+  confidence: number; // 0-1
+}
+
+export interface DocumentClassification {
+  documentType: DocumentType;
+  confidence: number; // 0-1
+  method: ClassificationMethod;
+  textSource: ClassificationTextSource;
+  /** Phrases that drove the suggestion, for display next to it */
+  signals: string[];
+  /** Runner-up types, best first */
+  alternatives: DocumentTypeScore[];
+  /** Only set when classifying against a timeline */
+  suggestedStep: SuggestedStep | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Below this the suggestion is shown but the picker stays on the user's choice */
+export const MIN_AUTO_APPLY_CONFIDENCE = 0.6;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  CONTRACT: 'Contract',
+  FINANCIAL: 'Financial',
+  INSPECTION: 'Inspection',
+  APPRAISAL: 'Appraisal',
+  INSURANCE: 'Insurance',
+  TITLE: 'Title',
+  MORTGAGE: 'Mortgage',
+  CLOSING: 'Closing',
+  CORRESPONDENCE: 'Correspondence',
+  RECEIPT: 'Receipt',
+  OTHER: 'Other'
+};
@@ -0,0 +1,56 @@
+// Document Share Links - Production Ready, Zero Tech Debt
+// Expiring, revocable links that let someone outside the timeline download one document
+
+import { DocumentShareOutcome } from '@prisma/client';
+
+// ============================================================================
+// SHARE LINK TYPES
+// ============================================================================
+
+export type DocumentShareStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+/** A share link as the document's managers see it; the token is never returned again */
+export interface DocumentShareSummary {
+  id: string;
+  documentId: string;
+  recipientEmail: string | null;
+  recipientName: string | null;
+  status: DocumentShareStatus;
+  expiresAt: Date;
+  maxDownloads: number | null;
+  downloadCount: number;
+  lastAccessedAt: Date | null;
+  revokedAt: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  recentAccesses: Array<{
+    id: string;
+    outcome: DocumentShareOutcome;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: Date;
+  }>;
+}
+
+/** Returned once, when the link is created */
+export interface DocumentShareResult {
+  share: DocumentShareSummary;
+  shareUrl: string;
+  emailed: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+export const MAX_SHARE_EXPIRY_DAYS = 30;
+
+export const DOCUMENT_SHARE_STATUS_LABELS: Record<DocumentShareStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  exhausted: 'Download limit reached'
+};
+
+export { DocumentShareOutcome };
@@ -0,0 +1,345 @@
+// Investment Financials - Production Ready, Zero Tech Debt
+// Inputs and deterministic outputs of the investment financial engine
+
+// ============================================================================
+// INPUT TYPES
+// ============================================================================
+
+export type InvestmentStrategy = 'brrrr' | 'flip' | 'house_hack';
+
+/** Strategy goals are answered by the strategy calculators instead of the AI analysis */
+export type InvestmentGoal = 'cashflow' | 'appreciation' | 'both' | InvestmentStrategy;
+
+/**
+ * Rates are percentages (6.5 means 6.5%), recurring costs are annual dollars
+ * unless noted. Optional assumptions fall back to DEFAULT_INVESTMENT_ASSUMPTIONS
+ */
+export interface InvestmentParameters {
+  downPayment: number;
+  interestRate: number;
+  loanTerm: number; // years
+  monthlyRent?: number;
+  propertyTaxes?: number;
+  insurance?: number;
+  maintenance?: number;
+  vacancy?: number; // % of gross rent
+  capEx?: number;
+  propertyManagement?: number; // % of collected rent
+  investmentGoal: InvestmentGoal;
+  timeHorizon: number; // years
+  closingCosts?: number; // dollars paid at purchase
+  appreciationRate?: number;
+  rentGrowthRate?: number;
+  expenseGrowthRate?: number;
+  sellingCostRate?: number; // % of sale price
+  discountRate?: number; // used for NPV
+}
+
+export type InvestmentAssumptions = Required<Pick<
+  InvestmentParameters,
+  'vacancy' | 'propertyManagement' | 'appreciationRate' | 'rentGrowthRate' | 'expenseGrowthRate' | 'sellingCostRate' | 'discountRate'
+>>;
+
+// ============================================================================
+// OUTPUT TYPES
+// ============================================================================
+
+export interface AmortizationPayment {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface AmortizationYear {
+  year: number;
+  principal: number;
+  interest: number;
+  endingBalance: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  grossRent: number;
+  operatingExpenses: number;
+  netOperatingIncome: number;
+  debtService: number;
+  cashFlow: number;
+  propertyValue: number;
+  loanBalance: number;
+  /** What selling at year end would return after selling costs and payoff */
+  saleEquity: number;
+}
+
+export interface InvestmentFinancials {
+  purchasePrice: number;
+  totalCashInvested: number;
+  assumptions: InvestmentAssumptions;
+  cashFlow: {
+    monthlyIncome: number;
+    monthlyExpenses: number; // vacancy loss + operating expenses + debt service
+    netCashFlow: number;
+    annualCashFlow: number;
+    cashOnCashReturn: number; // %
+  };
+  financing: {
+    loanAmount: number;
+    monthlyPayment: number; // principal and interest
+    monthlyPITI: number;
+    totalInterest: number;
+    payoffTime: number; // years
+  };
+  operations: {
+    effectiveGrossIncome: number; // annual
+    operatingExpenses: number; // annual
+    netOperatingIncome: number; // annual
+    debtService: number; // annual
+    /** Null when there is no debt to cover */
+    debtServiceCoverageRatio: number | null;
+    vacancyLoss: number; // monthly
+  };
+  returns: {
+    capRate: number; // %
+    grossRentMultiplier: number;
+    totalROI: number; // % over the time horizon, including sale
+    /** First year in which selling returns the cash invested; null if never within the loan term */
+    breakEvenPoint: number | null;
+    /** Null when the cash flows never change sign */
+    irr: number | null; // %
+    npv: number;
+  };
+  appreciation: {
+    expectedAnnualAppreciation: number; // %
+    fiveYearValue: number;
+    tenYearValue: number;
+    totalReturn: number; // % value gain over the time horizon
+  };
+  amortization: AmortizationYear[];
+  projection: ProjectionYear[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_INVESTMENT_ASSUMPTIONS: InvestmentAssumptions = {
+  vacancy: 5,
+  propertyManagement: 0,
+  appreciationRate: 3,
+  rentGrowthRate: 2,
+  expenseGrowthRate: 2,
+  sellingCostRate: 6,
+  discountRate: 8
+};
+
+/** Rent assumed when neither the inputs nor the property have one: the 1% rule */
+export const DEFAULT_RENT_TO_PRICE = 0.01;
+
+// ============================================================================
+// SENSITIVITY TYPES
+// ============================================================================
+
+export type SensitivityVariable =
+  | 'interestRate'
+  | 'monthlyRent'
+  | 'vacancy'
+  | 'appreciationRate'
+  | 'purchasePrice'
+  | 'downPayment';
+
+export type SensitivityMetric = 'netCashFlow' | 'cashOnCashReturn' | 'capRate' | 'irr' | 'npv';
+
+/**
+ * Offsets from the base case. Rate variables move in percentage points,
+ * dollar variables by a percentage of their base value
+ */
+export interface SensitivityRange {
+  low: number;
+  high: number;
+}
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  lowInput: number;
+  highInput: number;
+  /** Null when the metric is undefined at that input (IRR with no sign change) */
+  lowValue: number | null;
+  highValue: number | null;
+  swing: number;
+}
+
+export interface TwoWayTable {
+  rowVariable: SensitivityVariable;
+  columnVariable: SensitivityVariable;
+  rows: number[];
+  columns: number[];
+  /** values[row][column] */
+  values: (number | null)[][];
+}
+
+export type BreakEvenStatus = 'found' | 'always' | 'never';
+
+export interface BreakEvenThreshold {
+  variable: SensitivityVariable;
+  metric: SensitivityMetric;
+  /** Whether the threshold is the highest or lowest value that keeps the metric at or above 0 */
+  bound: 'max' | 'min';
+  baseInput: number;
+  /** Set when status is 'found' */
+  threshold: number | null;
+  status: BreakEvenStatus;
+}
+
+export interface SensitivityAnalysis {
+  metric: SensitivityMetric;
+  baseValue: number | null;
+  tornado: TornadoBar[];
+  rateByPrice: TwoWayTable;
+  breakEven: BreakEvenThreshold[];
+}
+
+export const SENSITIVITY_VARIABLES: Record<SensitivityVariable, { label: string; unit: 'points' | 'percent' }> = {
+  interestRate: { label: 'Interest rate', unit: 'points' },
+  monthlyRent: { label: 'Rent', unit: 'percent' },
+  vacancy: { label: 'Vacancy', unit: 'points' },
+  appreciationRate: { label: 'Appreciation', unit: 'points' },
+  purchasePrice: { label: 'Purchase price', unit: 'percent' },
+  downPayment: { label: 'Down payment', unit: 'percent' }
+};
+
+export const SENSITIVITY_METRIC_LABELS: Record<SensitivityMetric, string> = {
+  netCashFlow: 'Monthly cash flow',
+  cashOnCashReturn: 'Cash-on-cash return',
+  capRate: 'Cap rate',
+  irr: 'IRR',
+  npv: 'NPV'
+};
+
+export const DEFAULT_SENSITIVITY_RANGES: Record<SensitivityVariable, SensitivityRange> = {
+  interestRate: { low: -1, high: 1 },
+  monthlyRent: { low: -10, high: 10 },
+  vacancy: { low: -5, high: 5 },
+  appreciationRate: { low: -2, high: 2 },
+  purchasePrice: { low: -10, high: 10 },
+  downPayment: { low: -25, high: 25 }
+};
+
+// ============================================================================
+// STRATEGY TYPES
+// ============================================================================
+
+/** What the strategy calculators read from a stored property, in dollars */
+export interface PropertyFinancialFacts {
+  purchasePrice: number;
+  /** Estimated value, then Zestimate, then price */
+  estimatedValue: number;
+  monthlyRent: number | null;
+  annualTaxes: number | null;
+  units: number;
+}
+
+export interface BRRRRInputs {
+  rehabCost: number;
+  afterRepairValue: number;
+  rehabMonths: number;
+  refinanceLtv: number; // % of after-repair value
+  refinanceRate: number;
+  refinanceTerm: number; // years
+  refinanceClosingCostRate: number; // % of the new loan
+}
+
+export interface FlipInputs {
+  rehabCost: number;
+  afterRepairValue: number;
+  holdingMonths: number;
+  monthlyUtilities: number;
+}
+
+export interface HouseHackInputs {
+  units: number;
+  /** Rent for each unit the owner doesn't live in */
+  unitRent: number;
+  /** What the owner would pay to rent a comparable place */
+  ownerMarketRent: number;
+}
+
+/** Any subset; omitted values come from the property's stored data or defaults */
+export type StrategyInputs = Partial<BRRRRInputs & FlipInputs & HouseHackInputs>;
+
+export interface BRRRRAnalysis {
+  strategy: 'brrrr';
+  purchasePrice: number;
+  rehabCost: number;
+  afterRepairValue: number;
+  rehabMonths: number;
+  holdingCosts: number;
+  totalProjectCost: number;
+  initialCashInvested: number;
+  refinanceLoanAmount: number;
+  refinanceClosingCosts: number;
+  originalLoanPayoff: number;
+  cashOutAtRefinance: number;
+  /** 0 when the refinance returns everything put in */
+  cashLeftInDeal: number;
+  equityAfterRefinance: number;
+  monthlyPayment: number;
+  monthlyCashFlow: number;
+  annualCashFlow: number;
+  /** Null when no cash is left in the deal, i.e. the return is unbounded */
+  cashOnCashReturn: number | null; // %
+  debtServiceCoverageRatio: number | null;
+}
+
+export interface FlipAnalysis {
+  strategy: 'flip';
+  purchasePrice: number;
+  rehabCost: number;
+  afterRepairValue: number;
+  holdingMonths: number;
+  purchaseClosingCosts: number;
+  holdingCosts: number;
+  sellingCosts: number;
+  totalProjectCost: number;
+  cashInvested: number;
+  netProfit: number;
+  roi: number; // % on cash invested
+  annualizedRoi: number; // %
+  /** 70% rule: ARV x 70% less rehab */
+  maxOffer: number;
+  meetsSeventyPercentRule: boolean;
+}
+
+export interface HouseHackAnalysis {
+  strategy: 'house_hack';
+  units: number;
+  rentedUnits: number;
+  rentalIncome: number; // monthly, from rented units
+  ownerMarketRent: number;
+  monthlyPITI: number;
+  /** What living there costs the owner each month after tenants' rent; negative means it pays them */
+  ownerHousingCost: number;
+  monthlySavingsVsRenting: number;
+  cashInvested: number;
+  /** Monthly cash flow once the owner moves out and every unit is rented */
+  moveOutCashFlow: number;
+  moveOutCashOnCashReturn: number; // %
+}
+
+export type StrategyAnalysis = BRRRRAnalysis | FlipAnalysis | HouseHackAnalysis;
+
+/** PropertyAnalysis.analysisType each strategy is saved under */
+export const STRATEGY_ANALYSIS_TYPES: Record<InvestmentStrategy, string> = {
+  brrrr: 'brrrr',
+  flip: 'fix_and_flip',
+  house_hack: 'house_hack'
+};
+
+export const DEFAULT_STRATEGY_INPUTS = {
+  rehabMonths: 4,
+  refinanceLtv: 75,
+  refinanceTerm: 30,
+  refinanceClosingCostRate: 2,
+  holdingMonths: 6,
+  monthlyUtilities: 250
+};
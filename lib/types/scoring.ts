@@ -0,0 +1,208 @@
+// Investment Scoring Profiles - Production Ready, Zero Tech Debt
+// Per-user weights, enabled factors and grade cutoffs for the enhanced investment score
+
+// ============================================================================
+// SCORE TYPES
+// ============================================================================
+
+export type InvestmentGrade = 'A+' | 'A' | 'A-' | 'B+' | 'B' | 'B-' | 'C+' | 'C' | 'C-' | 'D' | 'F';
+
+export type InvestmentRecommendation = 'STRONG BUY' | 'BUY' | 'HOLD' | 'CAUTION' | 'AVOID';
+
+export type ScoringComponent =
+  | 'dealPotential'
+  | 'marketTiming'
+  | 'ownerMotivation'
+  | 'financialOpportunity'
+  | 'riskAssessment';
+
+/** Individual signals that can be switched off; each may feed several components */
+export type ScoringFactor =
+  | 'priceVsValue'
+  | 'daysOnMarket'
+  | 'equity'
+  | 'distress'
+  | 'absenteeOwner'
+  | 'ownershipLength'
+  | 'marketTrend'
+  | 'demandLevel'
+  | 'seasonality'
+  | 'rentalYield'
+  | 'propertyFeatures'
+  | 'propertyAge';
+
+/**
+ * How financial opportunity is judged: `auto` uses rental yield only when the
+ * property shows rental income features, otherwise primary-residence value
+ */
+export type FinancialFocus = 'auto' | 'rental' | 'residence';
+
+// ============================================================================
+// SCORING PROFILE
+// ============================================================================
+
+export interface ScoringComponentSettings {
+  enabled: boolean;
+  /** Points the component contributes to the total */
+  weight: number;
+}
+
+/** Minimum score percentage for each grade, best first; anything lower is an F */
+export type GradeThresholds = Record<Exclude<InvestmentGrade, 'F'>, number>;
+
+/** Minimum score percentage for each recommendation; anything lower is AVOID */
+export type RecommendationThresholds = Record<Exclude<InvestmentRecommendation, 'AVOID'>, number>;
+
+/** Custom profiles are stored under `scoringProfiles` in User.preferences */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  components: Record<ScoringComponent, ScoringComponentSettings>;
+  factors: Record<ScoringFactor, boolean>;
+  financialFocus: FinancialFocus;
+  gradeThresholds: GradeThresholds;
+  recommendationThresholds: RecommendationThresholds;
+}
+
+export interface ScoringProfileList {
+  profiles: ScoringProfile[];
+  /** Stored under `scoringProfileId` in User.preferences */
+  activeProfileId: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCORING_COMPONENT_LABELS: Record<ScoringComponent, string> = {
+  dealPotential: 'Deal Potential',
+  marketTiming: 'Market Timing',
+  ownerMotivation: 'Owner Motivation',
+  financialOpportunity: 'Financial Opportunity',
+  riskAssessment: 'Risk Assessment'
+};
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  priceVsValue: 'Price vs. estimated value',
+  daysOnMarket: 'Days on market',
+  equity: 'Owner equity',
+  distress: 'Distress and foreclosure',
+  absenteeOwner: 'Absentee owner',
+  ownershipLength: 'Length of ownership',
+  marketTrend: 'Market trend',
+  demandLevel: 'Buyer demand',
+  seasonality: 'Buying season',
+  rentalYield: 'Rental yield and cap rate',
+  propertyFeatures: 'Pool and parking',
+  propertyAge: 'Age and size of home'
+};
+
+export const DEFAULT_GRADE_THRESHOLDS: GradeThresholds = {
+  'A+': 95,
+  'A': 90,
+  'A-': 85,
+  'B+': 80,
+  'B': 75,
+  'B-': 70,
+  'C+': 65,
+  'C': 60,
+  'C-': 55,
+  'D': 50
+};
+
+export const DEFAULT_RECOMMENDATION_THRESHOLDS: RecommendationThresholds = {
+  'STRONG BUY': 85,
+  'BUY': 75,
+  'HOLD': 60,
+  'CAUTION': 45
+};
+
+const ALL_FACTORS: Record<ScoringFactor, boolean> = {
+  priceVsValue: true,
+  daysOnMarket: true,
+  equity: true,
+  distress: true,
+  absenteeOwner: true,
+  ownershipLength: true,
+  marketTrend: true,
+  demandLevel: true,
+  seasonality: true,
+  rentalYield: true,
+  propertyFeatures: true,
+  propertyAge: true
+};
+
+export const DEFAULT_SCORING_PROFILE_ID = 'balanced';
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_SCORING_PROFILE_ID,
+    name: 'Balanced',
+    description: 'Weighs deal, market, seller and financials evenly - the standard score',
+    builtIn: true,
+    components: {
+      dealPotential: { enabled: true, weight: 25 },
+      marketTiming: { enabled: true, weight: 20 },
+      ownerMotivation: { enabled: true, weight: 20 },
+      financialOpportunity: { enabled: true, weight: 20 },
+      riskAssessment: { enabled: true, weight: 15 }
+    },
+    factors: ALL_FACTORS,
+    financialFocus: 'auto',
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+    recommendationThresholds: DEFAULT_RECOMMENDATION_THRESHOLDS
+  },
+  {
+    id: 'cash_flow',
+    name: 'Cash Flow',
+    description: 'Rental yield and cap rate first; market momentum and season matter little',
+    builtIn: true,
+    components: {
+      dealPotential: { enabled: true, weight: 20 },
+      marketTiming: { enabled: true, weight: 10 },
+      ownerMotivation: { enabled: true, weight: 10 },
+      financialOpportunity: { enabled: true, weight: 40 },
+      riskAssessment: { enabled: true, weight: 20 }
+    },
+    factors: { ...ALL_FACTORS, seasonality: false },
+    financialFocus: 'rental',
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+    recommendationThresholds: DEFAULT_RECOMMENDATION_THRESHOLDS
+  },
+  {
+    id: 'appreciation',
+    name: 'Appreciation',
+    description: 'Market trend and demand first; rental yield is ignored',
+    builtIn: true,
+    components: {
+      dealPotential: { enabled: true, weight: 20 },
+      marketTiming: { enabled: true, weight: 35 },
+      ownerMotivation: { enabled: true, weight: 10 },
+      financialOpportunity: { enabled: true, weight: 15 },
+      riskAssessment: { enabled: true, weight: 20 }
+    },
+    factors: { ...ALL_FACTORS, rentalYield: false },
+    financialFocus: 'residence',
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+    recommendationThresholds: DEFAULT_RECOMMENDATION_THRESHOLDS
+  },
+  {
+    id: 'motivated_seller',
+    name: 'Motivated Seller',
+    description: 'Discounts, distress and seller circumstances for negotiated deals',
+    builtIn: true,
+    components: {
+      dealPotential: { enabled: true, weight: 35 },
+      marketTiming: { enabled: true, weight: 10 },
+      ownerMotivation: { enabled: true, weight: 30 },
+      financialOpportunity: { enabled: true, weight: 10 },
+      riskAssessment: { enabled: true, weight: 15 }
+    },
+    factors: { ...ALL_FACTORS, seasonality: false },
+    financialFocus: 'auto',
+    gradeThresholds: DEFAULT_GRADE_THRESHOLDS,
+    recommendationThresholds: DEFAULT_RECOMMENDATION_THRESHOLDS
+  }
+];
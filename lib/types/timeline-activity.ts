@@ -0,0 +1,54 @@
+// Timeline Activity Types - Production Ready, Zero Tech Debt
+// Append-only audit trail of changes to a timeline and everything on it
+
+import { ActivityAction, ActivityEntityType, DocumentType } from '@prisma/client';
+
+// ============================================================================
+// ACTIVITY TYPES
+// ============================================================================
+
+/** JSON-safe value of a changed field */
+export type ActivityFieldValue = string | number | boolean | null | string[];
+
+/** Before/after values of each field an action changed */
+export type ActivityChanges = Record<string, {
+  before: ActivityFieldValue;
+  after: ActivityFieldValue;
+}>;
+
+/** What the services write for every create/update/delete/complete/verify */
+export interface TimelineActivityInput {
+  timelineId: string;
+  /** Clerk user ID; null for system actions such as the reminder cron */
+  actorId: string | null;
+  action: ActivityAction;
+  entityType: ActivityEntityType;
+  entityId: string;
+  summary: string;
+  changes?: ActivityChanges | null;
+  /** Set for document entries so collaborators only see their role's types */
+  documentType?: DocumentType | null;
+  /** Private note entries are only shown to their author */
+  isPrivate?: boolean;
+}
+
+export interface TimelineActivityEntry {
+  id: string;
+  timelineId: string;
+  actorId: string | null;
+  actorName: string;
+  action: ActivityAction;
+  entityType: ActivityEntityType;
+  entityId: string;
+  summary: string;
+  changes: ActivityChanges | null;
+  createdAt: Date;
+}
+
+export interface TimelineActivityPage {
+  activities: TimelineActivityEntry[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export { ActivityAction, ActivityEntityType };
@@ -0,0 +1,63 @@
+// Timeline Contingencies - Production Ready, Zero Tech Debt
+// Contract contingencies with deadlines, extension history and resolution records
+
+import {
+  Contingency,
+  ContingencyExtension,
+  ContingencyStatus,
+  ContingencyType,
+  DocumentType
+} from '@prisma/client';
+
+// ============================================================================
+// CONTINGENCY TYPES
+// ============================================================================
+
+export interface ContingencyWithRelations extends Contingency {
+  extensions: ContingencyExtension[];
+  step: { id: string; title: string; isCompleted: boolean } | null;
+  /** Null when there is no evidence or the caller's role may not view its type */
+  document: { id: string; originalName: string; documentType: DocumentType; downloadUrl: string | null } | null;
+}
+
+/** A contingency as returned by the API, with the steps it gates */
+export interface ContingencyEntry extends ContingencyWithRelations {
+  /** Whole days until the deadline; negative once it has passed */
+  daysRemaining: number;
+  /** The linked step, every step downstream of it and the closing steps */
+  gatedStepIds: string[];
+}
+
+/** Returned alongside a step completed while a contingency gating it is still open */
+export interface ContingencyWarning {
+  contingencyId: string;
+  type: ContingencyType;
+  title: string;
+  deadline: Date;
+  status: ContingencyStatus;
+  message: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Statuses that still give the buyer a way out of the contract */
+export const OPEN_CONTINGENCY_STATUSES: ContingencyStatus[] = [
+  ContingencyStatus.ACTIVE,
+  ContingencyStatus.EXTENDED
+];
+
+export const CONTINGENCY_TYPE_LABELS: Record<ContingencyType, string> = {
+  [ContingencyType.INSPECTION]: 'Inspection',
+  [ContingencyType.APPRAISAL]: 'Appraisal',
+  [ContingencyType.FINANCING]: 'Financing',
+  [ContingencyType.HOME_SALE]: 'Home sale',
+  [ContingencyType.TITLE]: 'Title',
+  [ContingencyType.HOA_REVIEW]: 'HOA review',
+  [ContingencyType.INSURANCE]: 'Insurance',
+  [ContingencyType.ATTORNEY_REVIEW]: 'Attorney review',
+  [ContingencyType.OTHER]: 'Other'
+};
+
+export { ContingencyStatus, ContingencyType };
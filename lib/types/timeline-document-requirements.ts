@@ -0,0 +1,86 @@
+// Step Document Requirements - Production Ready, Zero Tech Debt
+// Documents a step needs before it can be completed, and the checklist built from them
+
+import { DocumentType, StepDocumentRequirement, TimelineDocument } from '@prisma/client';
+
+// ============================================================================
+// REQUIREMENT TYPES
+// ============================================================================
+
+/** A requirement as declared on a template step */
+export interface DocumentRequirementTemplate {
+  documentType: DocumentType;
+  label: string;
+  description?: string;
+}
+
+export type DocumentChecklistStatus = 'satisfied' | 'pending' | 'missing';
+
+export interface DocumentChecklistItem {
+  requirementId: string;
+  documentType: DocumentType;
+  label: string;
+  description: string | null;
+  /** 'pending' means a file of this type is selected but not uploaded yet */
+  status: DocumentChecklistStatus;
+  documentId: string | null;
+  documentName: string | null;
+}
+
+export interface StepDocumentChecklist {
+  stepId: string;
+  items: DocumentChecklistItem[];
+  missingCount: number;
+  /** Set when the step was completed without every required document */
+  override: {
+    reason: string;
+    overriddenBy: string | null;
+    overriddenAt: Date | null;
+  } | null;
+}
+
+type ChecklistRequirement = Pick<StepDocumentRequirement, 'id' | 'documentType' | 'label' | 'description' | 'sortOrder'>;
+type ChecklistDocument = Pick<TimelineDocument, 'id' | 'documentType' | 'originalName' | 'isCurrentVersion'>;
+
+// ============================================================================
+// CHECKLIST UTILITIES
+// ============================================================================
+
+/**
+ * Match a step's current documents to its requirements. Each document
+ * satisfies at most one requirement, so two FINANCIAL requirements need two
+ * FINANCIAL documents. Pending types cover what uploaded documents don't
+ */
+export function buildDocumentChecklist(
+  requirements: ChecklistRequirement[],
+  documents: ChecklistDocument[],
+  pendingTypes: DocumentType[] = []
+): DocumentChecklistItem[] {
+  const available = documents.filter(document => document.isCurrentVersion);
+  const pending = [...pendingTypes];
+
+  return [...requirements]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map(requirement => {
+      const base = {
+        requirementId: requirement.id,
+        documentType: requirement.documentType,
+        label: requirement.label,
+        description: requirement.description
+      };
+
+      const document = available.find(candidate => candidate.documentType === requirement.documentType);
+      if (document) {
+        available.splice(available.indexOf(document), 1);
+        return { ...base, status: 'satisfied' as const, documentId: document.id, documentName: document.originalName };
+      }
+
+      const pendingIndex = pending.indexOf(requirement.documentType);
+      if (pendingIndex >= 0) {
+        pending.splice(pendingIndex, 1);
+        return { ...base, status: 'pending' as const, documentId: null, documentName: null };
+      }
+
+      return { ...base, status: 'missing' as const, documentId: null, documentName: null };
+    });
+}
@@ -0,0 +1,205 @@
+// Timeline Permissions - Production Ready, Zero Tech Debt
+// Role-scoped access for invited collaborators (agents, lenders, co-buyers, ...)
+
+import { DocumentType, StepCategory, TeamMemberRole } from '@prisma/client';
+
+// ============================================================================
+// PERMISSION TYPES
+// ============================================================================
+
+export type TimelineAction =
+  | 'timeline.view'     // Timeline, steps, schedule, analytics and calendar
+  | 'timeline.manage'   // Edit the timeline itself, its steps, dependencies and templates
+  | 'team.manage'       // Team members and invitations
+  | 'step.update'       // Status, completion and details of steps in scope
+  | 'step.comment'      // Comment on steps in scope
+  | 'document.view'     // Documents of the types in scope
+  | 'document.upload'   // Upload documents of the types in scope
+  | 'note.view'         // Shared (non-private) notes
+  | 'note.create';
+
+export type TimelineViewerRole = TeamMemberRole | 'OWNER';
+
+export interface TimelineRolePolicy {
+  actions: TimelineAction[];
+  /** Step categories the role may update and comment on */
+  stepCategories: StepCategory[] | 'ALL';
+  /** Document types the role may see and upload */
+  documentTypes: DocumentType[] | 'ALL';
+}
+
+/** Resolved access for one user on one timeline */
+export interface TimelineAccess extends TimelineRolePolicy {
+  timelineId: string;
+  role: TimelineViewerRole;
+  isOwner: boolean;
+  /** Set for collaborators; the owner has no team member row */
+  teamMemberId: string | null;
+}
+
+/** Scope a permission check narrows to */
+export interface TimelineAccessScope {
+  stepCategory?: StepCategory;
+  documentType?: DocumentType | string;
+}
+
+// ============================================================================
+// ROLE POLICIES
+// ============================================================================
+
+const ALL_ACTIONS: TimelineAction[] = [
+  'timeline.view',
+  'timeline.manage',
+  'team.manage',
+  'step.update',
+  'step.comment',
+  'document.view',
+  'document.upload',
+  'note.view',
+  'note.create'
+];
+
+export const OWNER_POLICY: TimelineRolePolicy = {
+  actions: ALL_ACTIONS,
+  stepCategories: 'ALL',
+  documentTypes: 'ALL'
+};
+
+const COLLABORATOR_ACTIONS: TimelineAction[] = [
+  'timeline.view',
+  'step.update',
+  'step.comment',
+  'document.view',
+  'document.upload',
+  'note.view'
+];
+
+const ADVISOR_ACTIONS: TimelineAction[] = [
+  'timeline.view',
+  'step.comment',
+  'document.view',
+  'document.upload',
+  'note.view'
+];
+
+const LENDING_POLICY: TimelineRolePolicy = {
+  actions: COLLABORATOR_ACTIONS,
+  stepCategories: [StepCategory.FINANCING],
+  documentTypes: [DocumentType.FINANCIAL, DocumentType.MORTGAGE, DocumentType.APPRAISAL]
+};
+
+const CLOSING_POLICY: TimelineRolePolicy = {
+  actions: COLLABORATOR_ACTIONS,
+  stepCategories: [StepCategory.CLOSING, StepCategory.PAPERWORK, StepCategory.LEGAL],
+  documentTypes: [DocumentType.TITLE, DocumentType.CLOSING, DocumentType.FINANCIAL, DocumentType.RECEIPT]
+};
+
+/**
+ * What each collaborator role can do. Private notes are never shared,
+ * and only the owner can manage the timeline structure or its team
+ */
+export const TIMELINE_ROLE_POLICIES: Record<TeamMemberRole, TimelineRolePolicy> = {
+  [TeamMemberRole.CO_BUYER]: {
+    actions: [...COLLABORATOR_ACTIONS, 'note.create'],
+    stepCategories: 'ALL',
+    documentTypes: 'ALL'
+  },
+  [TeamMemberRole.BUYER_AGENT]: {
+    actions: [...COLLABORATOR_ACTIONS, 'note.create'],
+    stepCategories: 'ALL',
+    documentTypes: 'ALL'
+  },
+  [TeamMemberRole.SELLER_AGENT]: {
+    actions: ADVISOR_ACTIONS,
+    stepCategories: [StepCategory.LEGAL, StepCategory.PAPERWORK, StepCategory.COMMUNICATION, StepCategory.CLOSING],
+    documentTypes: [DocumentType.CONTRACT, DocumentType.CORRESPONDENCE, DocumentType.TITLE]
+  },
+  [TeamMemberRole.LENDER]: LENDING_POLICY,
+  [TeamMemberRole.LOAN_OFFICER]: LENDING_POLICY,
+  [TeamMemberRole.APPRAISER]: {
+    actions: ADVISOR_ACTIONS,
+    stepCategories: [StepCategory.FINANCING],
+    documentTypes: [DocumentType.APPRAISAL]
+  },
+  [TeamMemberRole.INSPECTOR]: {
+    actions: COLLABORATOR_ACTIONS,
+    stepCategories: [StepCategory.INSPECTION],
+    documentTypes: [DocumentType.INSPECTION, DocumentType.RECEIPT]
+  },
+  [TeamMemberRole.CONTRACTOR]: {
+    actions: ADVISOR_ACTIONS,
+    stepCategories: [StepCategory.INSPECTION],
+    documentTypes: [DocumentType.INSPECTION, DocumentType.RECEIPT]
+  },
+  [TeamMemberRole.ATTORNEY]: {
+    actions: [...COLLABORATOR_ACTIONS, 'note.create'],
+    stepCategories: [StepCategory.LEGAL, StepCategory.PAPERWORK, StepCategory.CLOSING],
+    documentTypes: [DocumentType.CONTRACT, DocumentType.TITLE, DocumentType.CLOSING, DocumentType.CORRESPONDENCE]
+  },
+  [TeamMemberRole.TITLE_COMPANY]: CLOSING_POLICY,
+  [TeamMemberRole.ESCROW_OFFICER]: CLOSING_POLICY,
+  [TeamMemberRole.INSURANCE_AGENT]: {
+    actions: ADVISOR_ACTIONS,
+    stepCategories: [StepCategory.CLOSING],
+    documentTypes: [DocumentType.INSURANCE]
+  },
+  [TeamMemberRole.OTHER]: {
+    actions: ['timeline.view', 'note.view'],
+    stepCategories: [],
+    documentTypes: []
+  }
+};
+
+// ============================================================================
+// PERMISSION HELPERS
+// ============================================================================
+
+/**
+ * Whether the access allows an action, optionally narrowed to a step category
+ * or document type
+ */
+export function hasTimelinePermission(
+  access: TimelineRolePolicy,
+  action: TimelineAction,
+  scope: TimelineAccessScope = {}
+): boolean {
+  if (!access.actions.includes(action)) return false;
+
+  if (scope.stepCategory && access.stepCategories !== 'ALL' &&
+      !access.stepCategories.includes(scope.stepCategory)) {
+    return false;
+  }
+
+  if (scope.documentType && access.documentTypes !== 'ALL' &&
+      !(access.documentTypes as string[]).includes(scope.documentType)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================================================
+// INVITATION TYPES
+// ============================================================================
+
+export type TimelineInvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+/** What an invitee sees before accepting */
+export interface TimelineInvitationPreview {
+  status: TimelineInvitationStatus;
+  email: string;
+  memberName: string;
+  role: TeamMemberRole;
+  timelineTitle: string;
+  propertyAddress: string;
+  expiresAt: Date;
+}
+
+export interface TimelineInvitationResult {
+  invitationId: string;
+  email: string;
+  expiresAt: Date;
+  /** Contains the raw token - only returned to the inviter at creation time */
+  inviteUrl: string;
+  emailed: boolean;
+}
@@ -0,0 +1,776 @@
+// Timeline Templates - Production Ready, Zero Tech Debt
+// Built-in step templates for the common transaction types
+
+import { DocumentType, StepCategory, StepPriority } from '@prisma/client';
+import { DefaultTimelineStep, DEFAULT_TIMELINE_STEPS } from './timeline';
+
+// ============================================================================
+// TEMPLATE TYPES
+// ============================================================================
+
+export interface BuiltInTimelineTemplate {
+  key: string;
+  name: string;
+  description: string;
+  transactionType: string;
+  defaultClosingDays: number;
+  steps: DefaultTimelineStep[];
+}
+
+export interface TimelineTemplateSummary {
+  id: string;
+  key: string | null;
+  name: string;
+  description: string | null;
+  transactionType: string | null;
+  defaultClosingDays: number;
+  isBuiltIn: boolean;
+  stepCount: number;
+  createdAt: Date;
+}
+
+export const DEFAULT_TEMPLATE_KEY = 'financed-purchase';
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+const CASH_PURCHASE_STEPS: DefaultTimelineStep[] = [
+  {
+    title: "Offer Accepted",
+    description: "The seller accepted your cash offer. Without a lender in the loop the process is shorter, but every deadline in the contract still applies.",
+    daysFromStart: 0,
+    estimatedDuration: 1,
+    category: StepCategory.LEGAL,
+    icon: "CheckCircle",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+  },
+  {
+    title: "Purchase Contract Review",
+    description: "Review and sign the purchase agreement. Confirm the inspection period, closing date and any appraisal waiver language.",
+    daysFromStart: 1,
+    estimatedDuration: 2,
+    category: StepCategory.LEGAL,
+    icon: "FileText",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed purchase agreement" },
+    ],
+  },
+  {
+    title: "Submit Earnest Money",
+    description: "Wire the earnest money deposit to escrow. Always confirm wiring instructions by phone with the title company.",
+    daysFromStart: 2,
+    estimatedDuration: 1,
+    category: StepCategory.PAPERWORK,
+    icon: "DollarSign",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 5000,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Earnest money receipt" },
+    ],
+  },
+  {
+    title: "Proof of Funds",
+    description: "Provide bank or brokerage statements showing the full purchase price is available. Move funds into a liquid account if needed.",
+    daysFromStart: 2,
+    estimatedDuration: 2,
+    category: StepCategory.FINANCING,
+    icon: "Building",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.FINANCIAL, label: "Proof of funds statement" },
+    ],
+  },
+  {
+    title: "Schedule Home Inspection",
+    description: "Hire a qualified inspector. With no lender appraisal, the inspection is your main protection against hidden problems.",
+    daysFromStart: 3,
+    estimatedDuration: 4,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 500,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Home inspection report" },
+    ],
+  },
+  {
+    title: "Title Search & Insurance",
+    description: "Title company searches for liens and ownership issues and issues an owner's title policy.",
+    daysFromStart: 3,
+    estimatedDuration: 7,
+    category: StepCategory.LEGAL,
+    icon: "Shield",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 1200,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.TITLE, label: "Title commitment" },
+    ],
+  },
+  {
+    title: "Inspection Issues Resolution",
+    description: "Negotiate repairs or credits for anything the inspection turned up before the inspection period ends.",
+    daysFromStart: 7,
+    estimatedDuration: 3,
+    category: StepCategory.INSPECTION,
+    icon: "Wrench",
+    priority: StepPriority.MEDIUM,
+    isRequired: false,
+    dependencies: ["Schedule Home Inspection"],
+  },
+  {
+    title: "Final Walkthrough",
+    description: "Walk the property before closing to confirm its condition and that agreed repairs are done.",
+    daysFromStart: 13,
+    estimatedDuration: 1,
+    category: StepCategory.INSPECTION,
+    icon: "Eye",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Inspection Issues Resolution"],
+  },
+  {
+    title: "Closing Day",
+    description: "Wire the balance of funds, sign the deed transfer documents and collect your keys.",
+    daysFromStart: 14,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 2000,
+    dependencies: ["Submit Earnest Money", "Proof of Funds", "Title Search & Insurance", "Final Walkthrough"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+];
+
+const GOVERNMENT_LOAN_STEPS: DefaultTimelineStep[] = [
+  {
+    title: "Offer Accepted",
+    description: "Your offer with FHA or VA financing has been accepted. Government-backed loans add property standards and paperwork, so start early.",
+    daysFromStart: 0,
+    estimatedDuration: 1,
+    category: StepCategory.LEGAL,
+    icon: "CheckCircle",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+  },
+  {
+    title: "Purchase Contract Review",
+    description: "Review the purchase agreement, including the FHA amendatory clause or VA escape clause tying the deal to the appraised value.",
+    daysFromStart: 1,
+    estimatedDuration: 2,
+    category: StepCategory.LEGAL,
+    icon: "FileText",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed purchase agreement" },
+    ],
+  },
+  {
+    title: "Submit Earnest Money",
+    description: "Submit the earnest money deposit to escrow.",
+    daysFromStart: 2,
+    estimatedDuration: 1,
+    category: StepCategory.PAPERWORK,
+    icon: "DollarSign",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 2000,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Earnest money receipt" },
+    ],
+  },
+  {
+    title: "Submit Mortgage Application",
+    description: "Complete the loan application with an FHA- or VA-approved lender. VA buyers should request their Certificate of Eligibility now.",
+    daysFromStart: 2,
+    estimatedDuration: 3,
+    category: StepCategory.FINANCING,
+    icon: "Building",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan estimate" },
+    ],
+  },
+  {
+    title: "Schedule Home Inspection",
+    description: "Hire a professional inspector. The government appraisal is not an inspection and won't catch everything.",
+    daysFromStart: 5,
+    estimatedDuration: 5,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 500,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Home inspection report" },
+    ],
+  },
+  {
+    title: "FHA/VA Appraisal",
+    description: "The appraiser confirms value and checks HUD minimum property standards or VA minimum property requirements such as safe utilities and no peeling paint.",
+    daysFromStart: 10,
+    estimatedDuration: 7,
+    category: StepCategory.FINANCING,
+    icon: "TrendingUp",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 600,
+    dependencies: ["Submit Mortgage Application"],
+    requiredDocuments: [
+      { documentType: DocumentType.APPRAISAL, label: "Appraisal report" },
+    ],
+  },
+  {
+    title: "Required Repairs",
+    description: "Complete any repairs the appraiser flagged as required. The loan can't close until they are done and re-inspected.",
+    daysFromStart: 17,
+    estimatedDuration: 7,
+    category: StepCategory.INSPECTION,
+    icon: "Wrench",
+    priority: StepPriority.HIGH,
+    isRequired: false,
+    dependencies: ["FHA/VA Appraisal"],
+  },
+  {
+    title: "Mortgage Underwriting",
+    description: "Lender underwrites the loan to FHA or VA guidelines. Respond quickly to conditions.",
+    daysFromStart: 17,
+    estimatedDuration: 10,
+    category: StepCategory.FINANCING,
+    icon: "Shield",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["FHA/VA Appraisal"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan commitment letter" },
+    ],
+  },
+  {
+    title: "Closing Disclosure Review",
+    description: "Review the Closing Disclosure, including the upfront mortgage insurance premium or VA funding fee, at least three business days before closing.",
+    daysFromStart: 35,
+    estimatedDuration: 3,
+    category: StepCategory.PAPERWORK,
+    icon: "FileText",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Mortgage Underwriting"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Closing disclosure" },
+    ],
+  },
+  {
+    title: "Final Walkthrough",
+    description: "Confirm the property's condition and that required repairs are complete.",
+    daysFromStart: 44,
+    estimatedDuration: 1,
+    category: StepCategory.INSPECTION,
+    icon: "Eye",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Required Repairs"],
+  },
+  {
+    title: "Closing Day",
+    description: "Sign the loan and transfer documents and get your keys.",
+    daysFromStart: 45,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 4000,
+    dependencies: ["Submit Earnest Money", "Closing Disclosure Review", "Final Walkthrough"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+];
+
+const NEW_CONSTRUCTION_STEPS: DefaultTimelineStep[] = [
+  {
+    title: "Builder Contract Signed",
+    description: "Sign the builder's purchase agreement. Builder contracts favor the builder, so have an agent or attorney review delay and change-order terms.",
+    daysFromStart: 0,
+    estimatedDuration: 3,
+    category: StepCategory.LEGAL,
+    icon: "FileText",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed builder contract" },
+    ],
+  },
+  {
+    title: "Builder Deposit",
+    description: "Pay the builder deposit, which is often larger than a resale earnest money deposit and may be non-refundable.",
+    daysFromStart: 1,
+    estimatedDuration: 2,
+    category: StepCategory.PAPERWORK,
+    icon: "DollarSign",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 20000,
+    dependencies: ["Builder Contract Signed"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Deposit receipt" },
+    ],
+  },
+  {
+    title: "Submit Mortgage Application",
+    description: "Apply for financing. Ask about extended rate locks that cover the build period.",
+    daysFromStart: 7,
+    estimatedDuration: 5,
+    category: StepCategory.FINANCING,
+    icon: "Building",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Builder Contract Signed"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan estimate" },
+    ],
+  },
+  {
+    title: "Design Selections",
+    description: "Choose finishes and upgrades at the design center. Selections after the deadline usually cost more or delay the build.",
+    daysFromStart: 14,
+    estimatedDuration: 14,
+    category: StepCategory.COMMUNICATION,
+    icon: "Settings",
+    priority: StepPriority.MEDIUM,
+    isRequired: true,
+    dependencies: ["Builder Deposit"],
+  },
+  {
+    title: "Pre-Drywall Inspection",
+    description: "Have an independent inspector check framing, plumbing and electrical before the walls are closed up.",
+    daysFromStart: 90,
+    estimatedDuration: 3,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: false,
+    estimatedCost: 400,
+    dependencies: ["Design Selections"],
+  },
+  {
+    title: "Final Home Inspection",
+    description: "Independent inspection of the finished home before the builder walkthrough.",
+    daysFromStart: 160,
+    estimatedDuration: 3,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 500,
+    dependencies: ["Pre-Drywall Inspection"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Home inspection report" },
+    ],
+  },
+  {
+    title: "Property Appraisal",
+    description: "Lender appraisal once the home is substantially complete.",
+    daysFromStart: 160,
+    estimatedDuration: 5,
+    category: StepCategory.FINANCING,
+    icon: "TrendingUp",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 500,
+    dependencies: ["Submit Mortgage Application"],
+    requiredDocuments: [
+      { documentType: DocumentType.APPRAISAL, label: "Appraisal report" },
+    ],
+  },
+  {
+    title: "Builder Walkthrough & Punch List",
+    description: "Walk the home with the builder and document every item that needs finishing or fixing before closing.",
+    daysFromStart: 165,
+    estimatedDuration: 7,
+    category: StepCategory.INSPECTION,
+    icon: "Wrench",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Final Home Inspection"],
+  },
+  {
+    title: "Certificate of Occupancy",
+    description: "The municipality issues the certificate of occupancy. Lenders won't fund without it.",
+    daysFromStart: 170,
+    estimatedDuration: 5,
+    category: StepCategory.PAPERWORK,
+    icon: "Shield",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Builder Walkthrough & Punch List"],
+    requiredDocuments: [
+      { documentType: DocumentType.OTHER, label: "Certificate of occupancy" },
+    ],
+  },
+  {
+    title: "Closing Day",
+    description: "Sign closing documents and take possession of your new home. Keep the builder warranty paperwork somewhere safe.",
+    daysFromStart: 180,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 4000,
+    dependencies: ["Property Appraisal", "Certificate of Occupancy"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+];
+
+const CONDO_STEPS: DefaultTimelineStep[] = [
+  {
+    title: "Offer Accepted",
+    description: "Your condo offer has been accepted. The HOA review period starts once you receive the association documents.",
+    daysFromStart: 0,
+    estimatedDuration: 1,
+    category: StepCategory.LEGAL,
+    icon: "CheckCircle",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+  },
+  {
+    title: "Purchase Contract Review",
+    description: "Review the purchase agreement, including the HOA document review contingency and its deadline.",
+    daysFromStart: 1,
+    estimatedDuration: 2,
+    category: StepCategory.LEGAL,
+    icon: "FileText",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed purchase agreement" },
+    ],
+  },
+  {
+    title: "Submit Earnest Money",
+    description: "Submit the earnest money deposit to escrow.",
+    daysFromStart: 2,
+    estimatedDuration: 1,
+    category: StepCategory.PAPERWORK,
+    icon: "DollarSign",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 3000,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Earnest money receipt" },
+    ],
+  },
+  {
+    title: "Request HOA Documents",
+    description: "Order the resale certificate and association documents: CC&Rs, bylaws, budget, reserve study, meeting minutes and insurance certificate.",
+    daysFromStart: 2,
+    estimatedDuration: 5,
+    category: StepCategory.COMMUNICATION,
+    icon: "Users",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 300,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.TITLE, label: "HOA documents" },
+    ],
+  },
+  {
+    title: "HOA Document Review",
+    description: "Check reserves, pending special assessments, litigation, rental and pet restrictions, and the master insurance policy before the contingency expires.",
+    daysFromStart: 7,
+    estimatedDuration: 5,
+    category: StepCategory.LEGAL,
+    icon: "Search",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Request HOA Documents"],
+  },
+  {
+    title: "Submit Mortgage Application",
+    description: "Apply for financing and confirm the lender can lend in this building. Some projects need condo questionnaire or warrantability review.",
+    daysFromStart: 3,
+    estimatedDuration: 3,
+    category: StepCategory.FINANCING,
+    icon: "Building",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan estimate" },
+    ],
+  },
+  {
+    title: "Condo Questionnaire",
+    description: "The lender sends the HOA its condo questionnaire about owner-occupancy, delinquencies and litigation. Slow HOAs are a common cause of delay.",
+    daysFromStart: 6,
+    estimatedDuration: 7,
+    category: StepCategory.FINANCING,
+    icon: "FileText",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 250,
+    dependencies: ["Submit Mortgage Application"],
+    requiredDocuments: [
+      { documentType: DocumentType.OTHER, label: "Completed condo questionnaire" },
+    ],
+  },
+  {
+    title: "Schedule Home Inspection",
+    description: "Inspect the unit itself. Common elements are the association's responsibility, so rely on the reserve study for those.",
+    daysFromStart: 5,
+    estimatedDuration: 4,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 350,
+    dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Home inspection report" },
+    ],
+  },
+  {
+    title: "Mortgage Underwriting",
+    description: "Lender underwrites the loan and the condo project.",
+    daysFromStart: 14,
+    estimatedDuration: 8,
+    category: StepCategory.FINANCING,
+    icon: "Shield",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Condo Questionnaire"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan commitment letter" },
+    ],
+  },
+  {
+    title: "Final Walkthrough",
+    description: "Walk the unit before closing and confirm move-in rules such as elevator reservations with building management.",
+    daysFromStart: 29,
+    estimatedDuration: 1,
+    category: StepCategory.INSPECTION,
+    icon: "Eye",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Schedule Home Inspection"],
+  },
+  {
+    title: "Closing Day",
+    description: "Sign closing documents, pay prorated HOA dues and any transfer fee, and get your keys and fobs.",
+    daysFromStart: 30,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 3000,
+    dependencies: ["Submit Earnest Money", "HOA Document Review", "Mortgage Underwriting", "Final Walkthrough"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+];
+
+const EXCHANGE_1031_STEPS: DefaultTimelineStep[] = [
+  {
+    title: "Engage Qualified Intermediary",
+    description: "Sign an exchange agreement with a qualified intermediary before the relinquished property closes. You can't touch the sale proceeds yourself.",
+    daysFromStart: 0,
+    estimatedDuration: 3,
+    category: StepCategory.LEGAL,
+    icon: "Users",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 1000,
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Exchange agreement" },
+    ],
+  },
+  {
+    title: "Relinquished Property Closing",
+    description: "Close the sale of the property you're exchanging out of. Proceeds go straight to the intermediary, and both exchange deadlines start today.",
+    daysFromStart: 3,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Engage Qualified Intermediary"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+  {
+    title: "Identify Replacement Property",
+    description: "Deliver written identification of replacement properties to the intermediary within 45 days of the relinquished closing. The deadline can't be extended.",
+    daysFromStart: 4,
+    estimatedDuration: 44,
+    category: StepCategory.PAPERWORK,
+    icon: "Search",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Relinquished Property Closing"],
+  },
+  {
+    title: "Replacement Offer Accepted",
+    description: "Go under contract on an identified replacement property of equal or greater value. Include the exchange cooperation clause.",
+    daysFromStart: 30,
+    estimatedDuration: 3,
+    category: StepCategory.LEGAL,
+    icon: "CheckCircle",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    dependencies: ["Relinquished Property Closing"],
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed purchase agreement" },
+    ],
+  },
+  {
+    title: "Earnest Money from Exchange Funds",
+    description: "Have the intermediary fund the earnest money deposit from exchange proceeds.",
+    daysFromStart: 33,
+    estimatedDuration: 2,
+    category: StepCategory.PAPERWORK,
+    icon: "DollarSign",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    dependencies: ["Replacement Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Earnest money receipt" },
+    ],
+  },
+  {
+    title: "Due Diligence & Inspection",
+    description: "Inspect the replacement property and review leases, rent rolls and operating statements.",
+    daysFromStart: 34,
+    estimatedDuration: 10,
+    category: StepCategory.INSPECTION,
+    icon: "Search",
+    priority: StepPriority.HIGH,
+    isRequired: true,
+    estimatedCost: 800,
+    dependencies: ["Replacement Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Inspection report" },
+    ],
+  },
+  {
+    title: "Replacement Financing",
+    description: "Secure any loan needed to match or exceed the debt paid off on the relinquished property and avoid taxable boot.",
+    daysFromStart: 35,
+    estimatedDuration: 30,
+    category: StepCategory.FINANCING,
+    icon: "Building",
+    priority: StepPriority.HIGH,
+    isRequired: false,
+    dependencies: ["Replacement Offer Accepted"],
+  },
+  {
+    title: "Replacement Property Closing",
+    description: "Close on the replacement property within 180 days of the relinquished closing, with the intermediary wiring the exchange funds.",
+    daysFromStart: 75,
+    estimatedDuration: 1,
+    category: StepCategory.CLOSING,
+    icon: "Key",
+    priority: StepPriority.CRITICAL,
+    isRequired: true,
+    estimatedCost: 5000,
+    dependencies: ["Identify Replacement Property", "Earnest Money from Exchange Funds", "Due Diligence & Inspection", "Replacement Financing"],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
+  },
+  {
+    title: "File Form 8824",
+    description: "Report the exchange on IRS Form 8824 with your tax return for the year the relinquished property was sold.",
+    daysFromStart: 80,
+    estimatedDuration: 30,
+    category: StepCategory.PAPERWORK,
+    icon: "FileText",
+    priority: StepPriority.MEDIUM,
+    isRequired: true,
+    dependencies: ["Replacement Property Closing"],
+    requiredDocuments: [
+      { documentType: DocumentType.FINANCIAL, label: "Filed Form 8824" },
+    ],
+  },
+];
+
+export const BUILT_IN_TIMELINE_TEMPLATES: BuiltInTimelineTemplate[] = [
+  {
+    key: DEFAULT_TEMPLATE_KEY,
+    name: "Financed Purchase",
+    description: "Conventional mortgage on a single-family home",
+    transactionType: "FINANCED",
+    defaultClosingDays: 30,
+    steps: DEFAULT_TIMELINE_STEPS,
+  },
+  {
+    key: "cash-purchase",
+    name: "Cash Purchase",
+    description: "No lender, no appraisal contingency - typically closes in two weeks",
+    transactionType: "CASH",
+    defaultClosingDays: 14,
+    steps: CASH_PURCHASE_STEPS,
+  },
+  {
+    key: "fha-va-loan",
+    name: "FHA / VA Loan",
+    description: "Government-backed financing with property standards and required repairs",
+    transactionType: "GOVERNMENT_LOAN",
+    defaultClosingDays: 45,
+    steps: GOVERNMENT_LOAN_STEPS,
+  },
+  {
+    key: "new-construction",
+    name: "New Construction",
+    description: "Builder contract through construction milestones, punch list and certificate of occupancy",
+    transactionType: "NEW_CONSTRUCTION",
+    defaultClosingDays: 180,
+    steps: NEW_CONSTRUCTION_STEPS,
+  },
+  {
+    key: "condo-hoa",
+    name: "Condo with HOA Review",
+    description: "Adds HOA document review and the lender's condo questionnaire",
+    transactionType: "CONDO",
+    defaultClosingDays: 30,
+    steps: CONDO_STEPS,
+  },
+  {
+    key: "1031-exchange",
+    name: "1031 Exchange",
+    description: "Like-kind exchange with the 45-day identification and 180-day closing deadlines",
+    transactionType: "EXCHANGE_1031",
+    defaultClosingDays: 75,
+    steps: EXCHANGE_1031_STEPS,
+  },
+];
@@ -8,6 +8,8 @@ import {
   TimelineTeamMember, 
   TimelineNote,
   TimelineStepComment,
+  TimelineStepDependency,
+  StepDocumentRequirement,
   TimelineStatus,
   StepStatus,
   StepCategory,
@@ -18,6 +20,8 @@ import {
   NoteType,
   CommentType
 } from '@prisma/client';
+import type { TimelineAccess } from './timeline-permissions';
+import type { DocumentRequirementTemplate } from './timeline-document-requirements';
 
 // ============================================================================
 // CORE TIMELINE TYPES
@@ -36,11 +40,15 @@ export interface TimelineWithRelations extends Timeline {
   documents: TimelineDocumentWithRelations[];
   teamMembers: TimelineTeamMember[];
   notes: TimelineNote[];
+  /** The requesting user's role and permissions on this timeline */
+  viewerAccess?: TimelineAccess;
 }
 
 export interface TimelineStepWithRelations extends TimelineStep {
   documents: TimelineDocument[];
   comments: TimelineStepComment[];
+  dependencies?: TimelineStepDependency[];
+  documentRequirements?: StepDocumentRequirement[];
 }
 
 export interface TimelineDocumentWithRelations extends TimelineDocument {
@@ -152,7 +160,8 @@ export interface DefaultTimelineStep {
   isRequired: boolean;
   estimatedCost?: number; // In dollars
   externalUrl?: string;
-  dependencies?: string[]; // Step titles that must be completed first
+  dependencies?: string[]; // Step titles that must be completed first - resolved to step IDs when seeded
+  requiredDocuments?: DocumentRequirementTemplate[]; // Must be uploaded before the step can be completed
 }
 
 export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
@@ -176,6 +185,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     priority: StepPriority.HIGH,
     isRequired: true,
     dependencies: ["Offer Accepted"],
+    requiredDocuments: [
+      { documentType: DocumentType.CONTRACT, label: "Signed purchase agreement" },
+    ],
   },
   {
     title: "Submit Earnest Money",
@@ -188,6 +200,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     isRequired: true,
     estimatedCost: 5000, // Typical earnest money amount
     dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.RECEIPT, label: "Earnest money receipt" },
+    ],
   },
   {
     title: "Submit Mortgage Application",
@@ -198,6 +213,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     icon: "Building",
     priority: StepPriority.CRITICAL,
     isRequired: true,
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan estimate" },
+    ],
   },
   {
     title: "Schedule Home Inspection",
@@ -210,6 +228,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     isRequired: true,
     estimatedCost: 500, // Typical inspection cost
     dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.INSPECTION, label: "Home inspection report" },
+    ],
   },
   {
     title: "Property Appraisal",
@@ -222,6 +243,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     isRequired: true,
     estimatedCost: 400, // Typical appraisal cost
     dependencies: ["Purchase Contract Review"],
+    requiredDocuments: [
+      { documentType: DocumentType.APPRAISAL, label: "Appraisal report" },
+    ],
   },
   {
     title: "Inspection Issues Resolution",
@@ -244,6 +268,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
     priority: StepPriority.CRITICAL,
     isRequired: true,
     dependencies: ["Submit Mortgage Application"],
+    requiredDocuments: [
+      { documentType: DocumentType.MORTGAGE, label: "Loan commitment letter" },
+    ],
   },
   {
     title: "Final Walkthrough",
@@ -277,6 +304,9 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
       "Mortgage Underwriting",
       "Final Walkthrough"
     ],
+    requiredDocuments: [
+      { documentType: DocumentType.CLOSING, label: "Settlement statement" },
+    ],
   },
 ];
 
@@ -284,23 +314,42 @@ export const DEFAULT_TIMELINE_STEPS: DefaultTimelineStep[] = [
 // DEPENDENCY UTILITIES
 // ============================================================================
 
+export interface StepDependencyEdge {
+  stepId: string;
+  dependsOnStepId: string;
+}
+
+export interface DependencyGraphNode {
+  id: string;
+  title: string;
+  sortOrder: number;
+  status: StepStatus;
+  isCompleted: boolean;
+  dependsOn: string[]; // Step IDs this step waits on
+  blockedBy: string[]; // Subset of dependsOn that is not yet complete
+}
+
+export interface TimelineDependencyGraph {
+  timelineId: string;
+  nodes: DependencyGraphNode[];
+  edges: StepDependencyEdge[];
+  topologicalOrder: string[];
+}
+
 export function checkStepDependencies(
   step: TimelineStepWithRelations,
   allSteps: TimelineStepWithRelations[]
 ): { canComplete: boolean; missingDependencies: string[] } {
-  // Find the default step configuration for this step
-  const defaultStep = DEFAULT_TIMELINE_STEPS.find(ds => ds.title === step.title);
-  
-  if (!defaultStep?.dependencies || defaultStep.dependencies.length === 0) {
+  if (!step.dependencies || step.dependencies.length === 0) {
     return { canComplete: true, missingDependencies: [] };
   }
 
   const missingDependencies: string[] = [];
-  
-  for (const depTitle of defaultStep.dependencies) {
-    const dependentStep = allSteps.find(s => s.title === depTitle);
-    if (!dependentStep?.isCompleted) {
-      missingDependencies.push(depTitle);
+
+  for (const dependency of step.dependencies) {
+    const dependentStep = allSteps.find(s => s.id === dependency.dependsOnStepId);
+    if (dependentStep && !dependentStep.isCompleted) {
+      missingDependencies.push(dependentStep.title);
     }
   }
 
@@ -310,6 +359,112 @@ export function checkStepDependencies(
   };
 }
 
+/**
+ * Resolve title-based dependencies from step templates to edges between created steps
+ */
+export function resolveTemplateDependencies(
+  steps: Array<{ id: string; title: string }>,
+  templates: Array<{ title: string; dependencies?: string[] }>
+): StepDependencyEdge[] {
+  const idsByTitle = new Map(steps.map(step => [step.title, step.id]));
+  const edges: StepDependencyEdge[] = [];
+
+  templates.forEach((template, index) => {
+    const stepId = steps[index]?.id;
+    if (!stepId || !template.dependencies) return;
+
+    for (const title of template.dependencies) {
+      const dependsOnStepId = idsByTitle.get(title);
+      if (dependsOnStepId && dependsOnStepId !== stepId) {
+        edges.push({ stepId, dependsOnStepId });
+      }
+    }
+  });
+
+  return edges;
+}
+
+/**
+ * Find a cycle in the dependency graph. Returns the step IDs along the cycle
+ * (first ID repeated at the end), or null if the graph is acyclic
+ */
+export function findDependencyCycle(edges: StepDependencyEdge[]): string[] | null {
+  const dependsOn = new Map<string, string[]>();
+  for (const edge of edges) {
+    dependsOn.set(edge.stepId, [...(dependsOn.get(edge.stepId) || []), edge.dependsOnStepId]);
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (stepId: string): string[] | null => {
+    if (visiting.has(stepId)) {
+      return [...path.slice(path.indexOf(stepId)), stepId];
+    }
+    if (visited.has(stepId)) return null;
+
+    visiting.add(stepId);
+    path.push(stepId);
+
+    for (const next of dependsOn.get(stepId) || []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    visiting.delete(stepId);
+    visited.add(stepId);
+    return null;
+  };
+
+  for (const stepId of Array.from(dependsOn.keys())) {
+    const cycle = visit(stepId);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Order steps so every step comes after the steps it depends on, breaking ties
+ * by sortOrder. Assumes the graph is acyclic
+ */
+export function sortStepsTopologically(
+  steps: Array<{ id: string; sortOrder: number }>,
+  edges: StepDependencyEdge[]
+): string[] {
+  const sortOrderById = new Map(steps.map(step => [step.id, step.sortOrder]));
+  const remainingDependencies = new Map(steps.map(step => [step.id, 0]));
+  const dependents = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    if (!sortOrderById.has(edge.stepId) || !sortOrderById.has(edge.dependsOnStepId)) continue;
+    remainingDependencies.set(edge.stepId, (remainingDependencies.get(edge.stepId) || 0) + 1);
+    dependents.set(edge.dependsOnStepId, [...(dependents.get(edge.dependsOnStepId) || []), edge.stepId]);
+  }
+
+  const bySortOrder = (a: string, b: string) => (sortOrderById.get(a) || 0) - (sortOrderById.get(b) || 0);
+  const ready = steps.filter(step => remainingDependencies.get(step.id) === 0).map(step => step.id).sort(bySortOrder);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const stepId = ready.shift()!;
+    order.push(stepId);
+
+    for (const dependent of dependents.get(stepId) || []) {
+      const remaining = (remainingDependencies.get(dependent) || 0) - 1;
+      remainingDependencies.set(dependent, remaining);
+      if (remaining === 0) {
+        ready.push(dependent);
+        ready.sort(bySortOrder);
+      }
+    }
+  }
+
+  return order;
+}
+
 // ============================================================================
 // UTILITY TYPES & FUNCTIONS
 // ============================================================================
@@ -323,6 +478,46 @@ export interface TimelineProgressStats {
   progressPercentage: number;
   estimatedDaysRemaining: number;
   onTrack: boolean;
+  projectedClosingDate: string | null; // ISO date string
+  closingVarianceDays: number | null; // Positive = projected after the estimated closing date
+}
+
+export interface StepScheduleEntry {
+  stepId: string;
+  title: string;
+  isCompleted: boolean;
+  durationDays: number;
+  scheduledDate: string | null; // ISO date string
+  earliestStart: string;
+  earliestFinish: string;
+  latestStart: string;
+  latestFinish: string;
+  slackDays: number;
+  isCritical: boolean;
+  plannedStart: string; // Scheduled date, else the template offset from the timeline start
+  slipDays: number; // Earliest start minus planned start, positive = running late
+  dependencyDelayDays: number; // How far late-finishing dependencies push the planned start
+}
+
+export interface TimelineSchedule {
+  timelineId: string;
+  startDate: string;
+  steps: StepScheduleEntry[];
+  criticalPath: string[]; // Step IDs from first to last
+  projectedClosingDate: string;
+  estimatedClosingDate: string | null;
+  closingVarianceDays: number | null;
+  onTrack: boolean;
+}
+
+export interface ScheduleCascadeResult {
+  schedule: TimelineSchedule;
+  rescheduled: Array<{
+    stepId: string;
+    title: string;
+    previousDate: string | null;
+    scheduledDate: string;
+  }>;
 }
 
 export interface TimelineCostSummary {
@@ -363,6 +558,7 @@ export type {
   TimelineTeamMember,
   TimelineNote,
   TimelineStepComment,
+  TimelineStepDependency,
 };
 
 // Export enums as values
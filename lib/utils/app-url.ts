@@ -0,0 +1,27 @@
+// Public base URL of the app, for links sent outside it (emails, share links)
+
+/**
+ * The configured app origin from NEXT_PUBLIC_APP_URL. Links carrying secret
+ * tokens must never take their host from the request, so there is no fallback
+ * @returns Origin without a trailing slash, e.g. "https://app.example.com"
+ * @throws When NEXT_PUBLIC_APP_URL is unset or not an http(s) URL
+ */
+export const getAppBaseUrl = (): string => {
+  const configured = process.env.NEXT_PUBLIC_APP_URL?.trim();
+  if (!configured) {
+    throw new Error('NEXT_PUBLIC_APP_URL must be set to send invitation, share and reminder links');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(configured);
+  } catch {
+    throw new Error('NEXT_PUBLIC_APP_URL must be an absolute http(s) URL');
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('NEXT_PUBLIC_APP_URL must be an absolute http(s) URL');
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/$/, '')}`;
+};
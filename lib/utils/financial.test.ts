@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAmortizationSchedule,
+  calculateIRR,
+  calculateMonthlyPayment,
+  calculateNPV
+} from '@/lib/utils/financial';
+
+describe('calculateMonthlyPayment', () => {
+  it('matches the standard 30-year fixed payment', () => {
+    expect(calculateMonthlyPayment(200000, 6, 30)).toBeCloseTo(1199.10, 2);
+  });
+
+  it('spreads the principal evenly at a 0% rate', () => {
+    expect(calculateMonthlyPayment(120000, 0, 10)).toBe(1000);
+  });
+
+  it('returns 0 when there is nothing to borrow', () => {
+    expect(calculateMonthlyPayment(0, 6, 30)).toBe(0);
+    expect(calculateMonthlyPayment(100000, 6, 0)).toBe(0);
+  });
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('pays the loan off exactly over the full term', () => {
+    const schedule = buildAmortizationSchedule(250000, 6.5, 30);
+    const totalPrincipal = schedule.reduce((total, payment) => total + payment.principal, 0);
+
+    expect(schedule).toHaveLength(360);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+    expect(totalPrincipal).toBeCloseTo(250000, 2);
+  });
+
+  it('pays the loan off at a 0% rate', () => {
+    const schedule = buildAmortizationSchedule(12000, 0, 1);
+
+    expect(schedule).toHaveLength(12);
+    expect(schedule.every(payment => payment.interest === 0)).toBe(true);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+
+  it('is empty when there is no loan', () => {
+    expect(buildAmortizationSchedule(0, 6, 30)).toEqual([]);
+  });
+});
+
+describe('calculateNPV', () => {
+  it('is 0 when discounting at the flows\' own return', () => {
+    expect(calculateNPV(10, [-100, 110])).toBeCloseTo(0, 10);
+  });
+
+  it('discounts a three-year annuity', () => {
+    expect(calculateNPV(10, [-1000, 500, 500, 500])).toBeCloseTo(243.43, 2);
+  });
+});
+
+describe('calculateIRR', () => {
+  it('finds the rate of a single-period investment', () => {
+    expect(calculateIRR([-100, 110])).toBeCloseTo(10, 5);
+  });
+
+  it('finds the rate of a three-year annuity', () => {
+    expect(calculateIRR([-1000, 500, 500, 500])).toBeCloseTo(23.375, 2);
+  });
+
+  it('zeroes the NPV at the returned rate', () => {
+    const cashFlows = [-50000, 4000, 4200, 4400, 4600, 70000];
+    const irr = calculateIRR(cashFlows);
+
+    expect(irr).not.toBeNull();
+    expect(calculateNPV(irr!, cashFlows)).toBeCloseTo(0, 3);
+  });
+
+  it('is null when the cash flows never change sign', () => {
+    expect(calculateIRR([-100, -50, -25])).toBeNull();
+    expect(calculateIRR([100, 50, 25])).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+// Financial math utilities shared by the investment calculators
+import type { AmortizationPayment } from '@/lib/types/investment';
+
+const IRR_TOLERANCE = 1e-7;
+const IRR_MAX_ITERATIONS = 200;
+
+/**
+ * Rounds a dollar amount to whole cents
+ * @param amount - The amount to round
+ * @returns Amount rounded to two decimals
+ */
+export const roundCurrency = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Rounds a percentage or ratio to two decimals
+ * @param value - The rate to round
+ * @returns Rate rounded to two decimals
+ */
+export const roundRate = (value: number): number => {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Fixed-rate monthly principal and interest payment
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate as a percentage (6.5 = 6.5%)
+ * @param termYears - Loan term in years
+ * @returns Monthly payment, 0 when there is nothing to borrow
+ */
+export const calculateMonthlyPayment = (principal: number, annualRate: number, termYears: number): number => {
+  const numPayments = Math.round(termYears * 12);
+  if (principal <= 0 || numPayments <= 0) return 0;
+
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return principal / numPayments;
+
+  const growth = Math.pow(1 + monthlyRate, numPayments);
+  return (principal * monthlyRate * growth) / (growth - 1);
+};
+
+/**
+ * Month-by-month amortization of a fixed-rate loan. Each payment is rounded
+ * to cents and the final payment absorbs the rounding so the balance ends at 0
+ * @param principal - Loan amount
+ * @param annualRate - Annual interest rate as a percentage
+ * @param termYears - Loan term in years
+ * @returns One row per payment, empty when there is no loan
+ */
+export const buildAmortizationSchedule = (principal: number, annualRate: number, termYears: number): AmortizationPayment[] => {
+  const numPayments = Math.round(termYears * 12);
+  if (principal <= 0 || numPayments <= 0) return [];
+
+  const monthlyRate = annualRate / 100 / 12;
+  const payment = roundCurrency(calculateMonthlyPayment(principal, annualRate, termYears));
+  const schedule: AmortizationPayment[] = [];
+  let balance = roundCurrency(principal);
+
+  for (let month = 1; month <= numPayments && balance > 0; month++) {
+    const interest = roundCurrency(balance * monthlyRate);
+    const principalPaid = month === numPayments
+      ? balance
+      : Math.min(balance, roundCurrency(payment - interest));
+
+    balance = roundCurrency(balance - principalPaid);
+    schedule.push({
+      month,
+      payment: roundCurrency(principalPaid + interest),
+      principal: principalPaid,
+      interest,
+      balance
+    });
+  }
+
+  return schedule;
+};
+
+/**
+ * Net present value of periodic cash flows, the first at period 0
+ * @param rate - Discount rate per period as a percentage
+ * @param cashFlows - Cash flows, negative for money invested
+ * @returns Net present value
+ */
+export const calculateNPV = (rate: number, cashFlows: number[]): number => {
+  const r = rate / 100;
+  return cashFlows.reduce((total, cashFlow, period) => total + cashFlow / Math.pow(1 + r, period), 0);
+};
+
+/**
+ * Internal rate of return of periodic cash flows, the first at period 0.
+ * Newton's method with a bisection fallback when it fails to converge
+ * @param cashFlows - Cash flows, negative for money invested
+ * @returns IRR per period as a percentage, or null when the flows never change sign
+ */
+export const calculateIRR = (cashFlows: number[]): number | null => {
+  const hasInflow = cashFlows.some(cashFlow => cashFlow > 0);
+  const hasOutflow = cashFlows.some(cashFlow => cashFlow < 0);
+  if (!hasInflow || !hasOutflow) return null;
+
+  const npvAt = (rate: number) => cashFlows.reduce((total, cashFlow, period) => total + cashFlow / Math.pow(1 + rate, period), 0);
+  const derivativeAt = (rate: number) => cashFlows.reduce((total, cashFlow, period) => total - (period * cashFlow) / Math.pow(1 + rate, period + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < IRR_MAX_ITERATIONS; i++) {
+    const value = npvAt(rate);
+    const slope = derivativeAt(rate);
+    if (Math.abs(value) < IRR_TOLERANCE) return rate * 100;
+    if (slope === 0 || !Number.isFinite(slope)) break;
+
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < IRR_TOLERANCE) return next * 100;
+    rate = next;
+  }
+
+  // Bisection over a bracket that contains a sign change
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npvAt(low);
+  if (lowValue * npvAt(high) > 0) return null;
+
+  for (let i = 0; i < IRR_MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npvAt(mid);
+    if (Math.abs(midValue) < IRR_TOLERANCE || (high - low) / 2 < IRR_TOLERANCE) return mid * 100;
+
+    if (midValue * lowValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return ((low + high) / 2) * 100;
+};
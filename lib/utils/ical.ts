@@ -0,0 +1,180 @@
+// iCalendar (RFC 5545) serialization for timeline steps
+
+import type { StepCategory, StepPriority, StepStatus } from '@prisma/client';
+
+export interface CalendarStep {
+  id: string;
+  title: string;
+  description: string;
+  category: StepCategory;
+  priority: StepPriority;
+  status: StepStatus;
+  isCompleted: boolean;
+  scheduledDate: Date | null;
+  actualEndDate: Date | null;
+  notes: string | null;
+  updatedAt: Date;
+}
+
+export interface CalendarTimeline {
+  id: string;
+  propertyId: string;
+  title: string;
+  estimatedClosingDate: Date | null;
+  updatedAt: Date;
+  steps: CalendarStep[];
+}
+
+export interface BuildCalendarOptions {
+  /** Link back to the timeline in the app, added to every event */
+  appUrl: string;
+  /** Generation time, used for DTSTAMP */
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//hh.fun//Home Purchase Timeline//EN';
+const UID_DOMAIN = 'hh.fun';
+const MAX_LINE_OCTETS = 75;
+
+// RFC 5545 PRIORITY: 1 is highest, 9 is lowest
+const PRIORITY_MAP: Record<StepPriority, number> = {
+  CRITICAL: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9
+};
+
+/**
+ * Builds a VCALENDAR with one all-day VEVENT per scheduled step, plus the
+ * estimated closing date. SEQUENCE follows updatedAt so subscribed clients
+ * pick up rescheduled and completed steps on their next refresh.
+ * @param timeline - Timeline with its steps
+ * @param options - App link and generation time
+ * @returns CRLF-delimited iCalendar document
+ */
+export const buildTimelineCalendar = (
+  timeline: CalendarTimeline,
+  options: BuildCalendarOptions
+): string => {
+  const stamp = formatDateTime(options.now ?? new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(timeline.title)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  for (const step of timeline.steps) {
+    if (!step.scheduledDate) continue;
+
+    // Completed steps land on the day they were finished
+    const date = step.isCompleted && step.actualEndDate ? step.actualEndDate : step.scheduledDate;
+    const descriptionParts = [step.description];
+    if (step.notes) descriptionParts.push(`Notes: ${step.notes}`);
+    descriptionParts.push(`Open in hh.fun: ${options.appUrl}`);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:step-${step.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${formatDateTime(step.updatedAt)}`,
+      `SEQUENCE:${toSequence(step.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatDate(date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(date, 1))}`,
+      `SUMMARY:${escapeText(step.isCompleted ? `✓ ${step.title}` : step.title)}`,
+      `DESCRIPTION:${escapeText(descriptionParts.join('\n\n'))}`,
+      `CATEGORIES:${escapeText(step.category)}`,
+      `PRIORITY:${PRIORITY_MAP[step.priority]}`,
+      `STATUS:${step.status === 'SKIPPED' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:TRANSPARENT',
+      `URL:${options.appUrl}`,
+      'END:VEVENT'
+    );
+  }
+
+  if (timeline.estimatedClosingDate) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:closing-${timeline.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${formatDateTime(timeline.updatedAt)}`,
+      `SEQUENCE:${toSequence(timeline.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${formatDate(timeline.estimatedClosingDate)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(timeline.estimatedClosingDate, 1))}`,
+      `SUMMARY:${escapeText(`Estimated closing: ${timeline.title}`)}`,
+      `DESCRIPTION:${escapeText(`Open in hh.fun: ${options.appUrl}`)}`,
+      'CATEGORIES:CLOSING',
+      'PRIORITY:1',
+      'STATUS:CONFIRMED',
+      'TRANSP:TRANSPARENT',
+      `URL:${options.appUrl}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Escapes TEXT property values (RFC 5545 §3.3.11)
+ */
+export const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Folds a content line to 75 octets, continuing with a leading space (RFC 5545 §3.1)
+ */
+export const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  // Iterate by code point so multi-byte characters are never split
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const formatDate = (date: Date): string => {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+};
+
+const formatDateTime = (date: Date): string => {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+};
+
+// Seconds since epoch only grow, which is all SEQUENCE needs
+const toSequence = (date: Date): number => Math.floor(date.getTime() / 1000);
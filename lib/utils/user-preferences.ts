@@ -0,0 +1,66 @@
+// User.preferences access shared by the services that keep settings there (budget, buyer profile, scoring profiles)
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export type UserPreferences = Record<string, Prisma.JsonValue>;
+
+/**
+ * Stored preferences as an object; anything else reads as empty
+ * @param preferences - Raw User.preferences column value
+ * @returns The preferences object, or {} when unset or malformed
+ */
+export const toPreferencesObject = (preferences: Prisma.JsonValue): UserPreferences => {
+  return preferences && typeof preferences === 'object' && !Array.isArray(preferences)
+    ? preferences as UserPreferences
+    : {};
+};
+
+/**
+ * Load a user's preferences by Clerk ID
+ * @throws When the user does not exist
+ */
+export const getUserPreferences = async (clerkUserId: string): Promise<UserPreferences> => {
+  const user = await prisma.user.findUnique({
+    where: { clerkId: clerkUserId },
+    select: { preferences: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return toPreferencesObject(user.preferences);
+};
+
+/**
+ * Read-modify-write of User.preferences. `update` returns the full new object,
+ * so keys it doesn't touch must be spread through. The row is locked for the
+ * read, so concurrent saves of different keys queue up instead of dropping
+ * each other's changes
+ * @returns The user's internal ID and saved preferences
+ * @throws When the user does not exist, or whatever `update` throws
+ */
+export const updateUserPreferences = async (
+  clerkUserId: string,
+  update: (preferences: UserPreferences) => Record<string, unknown>
+): Promise<{ id: string; preferences: UserPreferences }> => {
+  return prisma.$transaction(async (tx) => {
+    const [user] = await tx.$queryRaw<Array<{ id: string; preferences: Prisma.JsonValue }>>`
+      SELECT "id", "preferences" FROM "users" WHERE "clerkId" = ${clerkUserId} FOR UPDATE
+    `;
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const updated = await tx.user.update({
+      where: { id: user.id },
+      data: {
+        preferences: update(toPreferencesObject(user.preferences)) as unknown as Prisma.InputJsonValue
+      },
+      select: { id: true, preferences: true }
+    });
+
+    return { id: updated.id, preferences: toPreferencesObject(updated.preferences) };
+  });
+};
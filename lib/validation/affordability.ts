@@ -0,0 +1,39 @@
+// Affordability Validation Schemas - Production Ready, Zero Tech Debt
+// Zod schemas for the buyer profile and affordability API endpoints
+
+import { z } from 'zod';
+
+// ============================================================================
+// AFFORDABILITY VALIDATION SCHEMAS
+// ============================================================================
+
+export const creditBandSchema = z.enum(['excellent', 'good', 'fair', 'poor']);
+
+export const buyerProfileSchema = z.object({
+  annualIncome: z.number().finite().nonnegative().max(100000000),
+  monthlyDebts: z.number().finite().nonnegative().max(10000000),
+  savings: z.number().finite().nonnegative().max(1000000000),
+  creditBand: creditBandSchema,
+  vaEligible: z.boolean().default(false),
+  baseInterestRate: z.number().finite().min(0).max(20).optional(),
+  targetDownPaymentPercent: z.number().finite().min(0).max(100).optional()
+});
+
+export const affordabilityRequestSchema = z.object({
+  profile: buyerProfileSchema.optional(),
+  years: z.number().int().min(1).max(30).optional(),
+  /** Overrides the property's rent estimate for rent-vs-buy */
+  monthlyRent: z.number().finite().positive().optional()
+});
+
+export const affordabilityQuerySchema = z.object({
+  years: z.coerce.number().int().min(1).max(30).optional()
+});
+
+// ============================================================================
+// EXPORT TYPES FOR USE IN API ROUTES
+// ============================================================================
+
+export type BuyerProfileInput = z.infer<typeof buyerProfileSchema>;
+export type AffordabilityRequestInput = z.infer<typeof affordabilityRequestSchema>;
+export type AffordabilityQueryInput = z.infer<typeof affordabilityQuerySchema>;
@@ -0,0 +1,85 @@
+// Investment Analysis Validation Schemas - Production Ready, Zero Tech Debt
+// Zod schemas for the investment analysis API endpoints
+
+import { z } from 'zod';
+
+// ============================================================================
+// COMMON VALIDATION PATTERNS
+// ============================================================================
+
+const dollarsSchema = z.number().finite().nonnegative();
+const percentSchema = z.number().finite().min(0).max(100);
+
+// ============================================================================
+// INVESTMENT VALIDATION SCHEMAS
+// ============================================================================
+
+export const investmentParametersSchema = z.object({
+  downPayment: dollarsSchema,
+  interestRate: z.number().finite().min(0).max(30),
+  loanTerm: z.number().int().min(1).max(40),
+  monthlyRent: dollarsSchema.optional(),
+  propertyTaxes: dollarsSchema.optional(),
+  insurance: dollarsSchema.optional(),
+  maintenance: dollarsSchema.optional(),
+  vacancy: percentSchema.optional(),
+  capEx: dollarsSchema.optional(),
+  propertyManagement: percentSchema.optional(),
+  investmentGoal: z.enum(['cashflow', 'appreciation', 'both', 'brrrr', 'flip', 'house_hack']),
+  timeHorizon: z.number().int().min(1).max(40),
+  closingCosts: dollarsSchema.optional(),
+  appreciationRate: z.number().finite().min(-20).max(30).optional(),
+  rentGrowthRate: z.number().finite().min(-20).max(30).optional(),
+  expenseGrowthRate: z.number().finite().min(-20).max(30).optional(),
+  sellingCostRate: percentSchema.optional(),
+  discountRate: z.number().finite().min(0).max(50).optional()
+});
+
+export const strategyInputsSchema = z.object({
+  rehabCost: dollarsSchema,
+  afterRepairValue: dollarsSchema,
+  rehabMonths: z.number().int().min(0).max(36),
+  refinanceLtv: percentSchema,
+  refinanceRate: z.number().finite().min(0).max(30),
+  refinanceTerm: z.number().int().min(1).max(40),
+  refinanceClosingCostRate: z.number().finite().min(0).max(10),
+  holdingMonths: z.number().int().min(1).max(36),
+  monthlyUtilities: dollarsSchema,
+  units: z.number().int().min(2).max(4),
+  unitRent: dollarsSchema,
+  ownerMarketRent: dollarsSchema
+}).partial();
+
+const sensitivityRangeSchema = z.object({
+  low: z.number().finite().min(-100).max(0),
+  high: z.number().finite().min(0).max(100)
+});
+
+export const sensitivityMetricSchema = z.enum(['netCashFlow', 'cashOnCashReturn', 'capRate', 'irr', 'npv']);
+
+export const investmentAnalysisRequestSchema = z.object({
+  propertyId: z.string().min(1, 'Property ID is required'),
+  investmentParams: investmentParametersSchema,
+  strategyInputs: strategyInputsSchema.optional()
+});
+
+export const sensitivityAnalysisRequestSchema = investmentAnalysisRequestSchema.extend({
+  metric: sensitivityMetricSchema.default('netCashFlow'),
+  ranges: z.object({
+    interestRate: sensitivityRangeSchema,
+    monthlyRent: sensitivityRangeSchema,
+    vacancy: sensitivityRangeSchema,
+    appreciationRate: sensitivityRangeSchema,
+    purchasePrice: sensitivityRangeSchema,
+    downPayment: sensitivityRangeSchema
+  }).partial().optional()
+});
+
+// ============================================================================
+// EXPORT TYPES FOR USE IN API ROUTES
+// ============================================================================
+
+export type InvestmentParametersInput = z.infer<typeof investmentParametersSchema>;
+export type StrategyInputsInput = z.infer<typeof strategyInputsSchema>;
+export type InvestmentAnalysisRequestInput = z.infer<typeof investmentAnalysisRequestSchema>;
+export type SensitivityAnalysisRequestInput = z.infer<typeof sensitivityAnalysisRequestSchema>;
@@ -0,0 +1,95 @@
+// Scoring Profile Validation Schemas - Production Ready, Zero Tech Debt
+// Zod schemas for user-defined investment scoring profiles
+
+import { z } from 'zod';
+import { DEFAULT_GRADE_THRESHOLDS, DEFAULT_RECOMMENDATION_THRESHOLDS } from '@/lib/types/scoring';
+
+// ============================================================================
+// SCORING PROFILE VALIDATION SCHEMAS
+// ============================================================================
+
+const componentSettingsSchema = z.object({
+  enabled: z.boolean(),
+  weight: z.number().finite().min(0).max(100)
+});
+
+const percentSchema = z.number().finite().min(0).max(100);
+
+const factorSchema = z.boolean().default(true);
+
+/** Values must not increase from the first key to the last */
+const isDescending = (thresholds: Record<string, number>) =>
+  Object.values(thresholds).every((value, index, values) => index === 0 || value <= values[index - 1]);
+
+export const scoringProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(200).default(''),
+  components: z.object({
+    dealPotential: componentSettingsSchema,
+    marketTiming: componentSettingsSchema,
+    ownerMotivation: componentSettingsSchema,
+    financialOpportunity: componentSettingsSchema,
+    riskAssessment: componentSettingsSchema
+  }).refine(
+    components => Object.values(components).some(component => component.enabled && component.weight > 0),
+    'At least one component must be enabled with a weight above zero'
+  ),
+  factors: z.object({
+    priceVsValue: factorSchema,
+    daysOnMarket: factorSchema,
+    equity: factorSchema,
+    distress: factorSchema,
+    absenteeOwner: factorSchema,
+    ownershipLength: factorSchema,
+    marketTrend: factorSchema,
+    demandLevel: factorSchema,
+    seasonality: factorSchema,
+    rentalYield: factorSchema,
+    propertyFeatures: factorSchema,
+    propertyAge: factorSchema
+  }).default({}),
+  financialFocus: z.enum(['auto', 'rental', 'residence']).default('auto'),
+  gradeThresholds: z.object({
+    'A+': percentSchema,
+    'A': percentSchema,
+    'A-': percentSchema,
+    'B+': percentSchema,
+    'B': percentSchema,
+    'B-': percentSchema,
+    'C+': percentSchema,
+    'C': percentSchema,
+    'C-': percentSchema,
+    'D': percentSchema
+  }).refine(isDescending, 'Grade thresholds must go from highest (A+) to lowest (D)')
+    .default(DEFAULT_GRADE_THRESHOLDS),
+  recommendationThresholds: z.object({
+    'STRONG BUY': percentSchema,
+    'BUY': percentSchema,
+    'HOLD': percentSchema,
+    'CAUTION': percentSchema
+  }).refine(isDescending, 'Recommendation thresholds must go from highest (STRONG BUY) to lowest (CAUTION)')
+    .default(DEFAULT_RECOMMENDATION_THRESHOLDS)
+});
+
+export const createScoringProfileSchema = scoringProfileInputSchema.extend({
+  /** Make the new profile the one analyses are scored with */
+  activate: z.boolean().default(false)
+});
+
+/** Stored custom profiles - input fields plus their identity */
+export const storedScoringProfileSchema = scoringProfileInputSchema.extend({
+  id: z.string().min(1),
+  builtIn: z.literal(false).default(false)
+});
+
+export const activeScoringProfileSchema = z.object({
+  profileId: z.string().min(1)
+});
+
+// ============================================================================
+// EXPORT TYPES FOR USE IN API ROUTES
+// ============================================================================
+
+export type ScoringProfileInput = z.infer<typeof scoringProfileInputSchema>;
+export type CreateScoringProfileInput = z.infer<typeof createScoringProfileSchema>;
+export type ActiveScoringProfileInput = z.infer<typeof activeScoringProfileSchema>;
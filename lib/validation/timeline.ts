@@ -11,8 +11,12 @@ import {
   ContactMethod, 
   NoteType, 
   CommentType,
-  TimelineStatus 
+  TimelineStatus,
+  ActivityEntityType,
+  ContingencyType,
+  ContingencyStatus
 } from '@prisma/client';
+import { DEFAULT_SHARE_EXPIRY_DAYS, MAX_SHARE_EXPIRY_DAYS } from '@/lib/types/document-shares';
 
 // ============================================================================
 // ENUM VALIDATION SCHEMAS
@@ -27,6 +31,9 @@ export const teamMemberRoleSchema = z.nativeEnum(TeamMemberRole);
 export const contactMethodSchema = z.nativeEnum(ContactMethod);
 export const noteTypeSchema = z.nativeEnum(NoteType);
 export const commentTypeSchema = z.nativeEnum(CommentType);
+export const activityEntityTypeSchema = z.nativeEnum(ActivityEntityType);
+export const contingencyTypeSchema = z.nativeEnum(ContingencyType);
+export const contingencyStatusSchema = z.nativeEnum(ContingencyStatus);
 
 // ============================================================================
 // COMMON VALIDATION PATTERNS
@@ -55,6 +62,15 @@ const dateSchema = z.union([
   return val;
 });
 
+// A document a step needs before it can be completed
+const documentRequirementSchema = z.object({
+  documentType: documentTypeSchema,
+  label: nonEmptyStringSchema.max(100, 'Label must be less than 100 characters'),
+  description: z.string()
+    .max(300, 'Description must be less than 300 characters')
+    .optional(),
+});
+
 // ============================================================================
 // TIMELINE VALIDATION SCHEMAS
 // ============================================================================
@@ -67,6 +83,7 @@ export const createTimelineSchema = z.object({
     .optional()
     .default('Home Purchase Timeline'),
   estimatedClosingDate: dateSchema.optional(),
+  templateId: z.string().min(1).max(100).optional(), // Template id or built-in key
   customSteps: z.array(z.object({
     title: nonEmptyStringSchema.max(100, 'Title must be less than 100 characters'),
     description: nonEmptyStringSchema.max(500, 'Description must be less than 500 characters'),
@@ -78,9 +95,19 @@ export const createTimelineSchema = z.object({
     isRequired: z.boolean().optional().default(true),
     estimatedCost: currencySchema.optional(),
     externalUrl: urlSchema,
+    dependencies: z.array(nonEmptyStringSchema.max(100)).max(50).optional(), // Titles of other custom steps
+    requiredDocuments: z.array(documentRequirementSchema).max(10).optional(),
   })).optional().default([]),
 }).strict();
 
+export const saveTimelineTemplateSchema = z.object({
+  timelineId: cuidSchema,
+  name: nonEmptyStringSchema.max(100, 'Name must be less than 100 characters'),
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+}).strict();
+
 export const updateTimelineSchema = z.object({
   title: z.string()
     .min(1, 'Title is required')
@@ -126,6 +153,7 @@ export const updateTimelineStepSchema = z.object({
   ]).optional(),
   isCompleted: z.boolean().optional(),
   isEarlyCompletion: z.boolean().optional(),
+  cascadeSchedule: z.boolean().optional(),
   isBlocked: z.boolean().optional(),
   blockReason: z.string()
     .max(200, 'Block reason must be less than 200 characters')
@@ -139,6 +167,12 @@ export const updateTimelineStepSchema = z.object({
     .optional(),
   externalUrl: urlSchema,
   sortOrder: nonNegativeIntSchema.optional(),
+  // Completes the step even though required documents are missing
+  documentOverrideReason: z.string()
+    .trim()
+    .min(3, 'Override reason must be at least 3 characters')
+    .max(500, 'Override reason must be less than 500 characters')
+    .optional(),
 }).strict()
   .refine((data) => {
     // If step is blocked, block reason is required
@@ -180,6 +214,26 @@ export const reorderStepsSchema = z.object({
     .max(50, 'Too many steps to reorder'),
 }).strict();
 
+export const updateStepDependenciesSchema = z.object({
+  dependsOnStepIds: z.array(cuidSchema)
+    .max(50, 'Too many dependencies'),
+}).strict();
+
+export const createDocumentRequirementSchema = documentRequirementSchema.strict();
+
+export const dependencyGraphQuerySchema = z.object({
+  timelineId: cuidSchema,
+});
+
+export const scheduleQuerySchema = z.object({
+  timelineId: cuidSchema,
+});
+
+export const cascadeScheduleSchema = z.object({
+  timelineId: cuidSchema,
+  fromStepId: cuidSchema.optional(),
+}).strict();
+
 // ============================================================================
 // DOCUMENT VALIDATION SCHEMAS
 // ============================================================================
@@ -293,7 +347,7 @@ export const createNoteSchema = z.object({
     .optional(),
   content: nonEmptyStringSchema.max(5000, 'Content must be less than 5000 characters'),
   noteType: noteTypeSchema.optional().default(NoteType.GENERAL),
-  tags: z.array(z.string().max(50, 'Tag must be less than 50 characters'))
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(50, 'Tag must be less than 50 characters'))
     .max(10, 'Maximum 10 tags allowed')
     .optional()
     .default([]),
@@ -320,6 +374,44 @@ export const updateCommentSchema = z.object({
   content: nonEmptyStringSchema.max(2000, 'Comment must be less than 2000 characters'),
 }).strict();
 
+// ============================================================================
+// CONTINGENCY VALIDATION SCHEMAS
+// ============================================================================
+
+export const createContingencySchema = z.object({
+  timelineId: cuidSchema,
+  type: contingencyTypeSchema,
+  title: z.string()
+    .trim()
+    .min(1)
+    .max(200, 'Title must be less than 200 characters')
+    .optional(),
+  deadline: dateSchema,
+  stepId: cuidSchema.optional(),
+  documentId: cuidSchema.optional(),
+  notes: z.string().max(2000, 'Notes must be less than 2000 characters').optional(),
+}).strict();
+
+// Deadlines move through extendContingencySchema so every change is kept in the history
+export const updateContingencySchema = z.object({
+  title: z.string().trim().min(1).max(200, 'Title must be less than 200 characters').optional(),
+  stepId: cuidSchema.nullable().optional(),
+  documentId: cuidSchema.nullable().optional(),
+  notes: z.string().max(2000, 'Notes must be less than 2000 characters').nullable().optional(),
+}).strict();
+
+export const extendContingencySchema = z.object({
+  newDeadline: dateSchema,
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+  documentId: cuidSchema.optional(),
+}).strict();
+
+export const resolveContingencySchema = z.object({
+  status: z.enum([ContingencyStatus.REMOVED, ContingencyStatus.WAIVED, ContingencyStatus.FAILED]),
+  documentId: cuidSchema.optional(),
+  notes: z.string().max(2000, 'Notes must be less than 2000 characters').optional(),
+}).strict();
+
 // ============================================================================
 // QUERY PARAMETER SCHEMAS
 // ============================================================================
@@ -365,6 +457,64 @@ export const stepsQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
 });
 
+export const notesQuerySchema = z.object({
+  timelineId: cuidSchema,
+  noteType: z.string()
+    .optional()
+    .transform((val) => val ? val.split(',').filter(Boolean) : undefined)
+    .pipe(z.array(noteTypeSchema).optional()),
+  tag: z.string().trim().toLowerCase().max(50, 'Tag must be less than 50 characters').optional(),
+  isImportant: z.enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === undefined ? undefined : val === 'true'),
+  search: z.string().trim().max(200, 'Search must be less than 200 characters').optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(100),
+});
+
+export const activityQuerySchema = z.object({
+  cursor: cuidSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(25),
+  entityType: activityEntityTypeSchema.optional(),
+  entityId: cuidSchema.optional(),
+});
+
+export const contingenciesQuerySchema = z.object({
+  timelineId: cuidSchema,
+  status: z.string()
+    .optional()
+    .transform((val) => val ? val.split(',').filter(Boolean) : undefined)
+    .pipe(z.array(contingencyStatusSchema).optional()),
+  // Only the open contingencies that completing this step would get ahead of
+  gatingStepId: cuidSchema.optional(),
+});
+
+export const resolveContractProposalsSchema = z.object({
+  analysisId: cuidSchema,
+  decisions: z.array(z.object({
+    proposalId: z.string().min(1).max(200),
+    accept: z.boolean(),
+  })).min(1, 'At least one decision is required').max(50),
+}).strict();
+
+export const createDocumentShareSchema = z.object({
+  recipientEmail: emailSchema,
+  recipientName: z.string().trim().max(100, 'Recipient name must be less than 100 characters').optional(),
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_EXPIRY_DAYS, `Links can last at most ${MAX_SHARE_EXPIRY_DAYS} days`)
+    .optional()
+    .default(DEFAULT_SHARE_EXPIRY_DAYS),
+  maxDownloads: z.number().int().min(1).max(100).optional(),
+  message: z.string().trim().max(500, 'Message must be less than 500 characters').optional(),
+}).strict();
+
+export const binderQuerySchema = z.object({
+  format: z.enum(['zip', 'pdf']).optional().default('zip'),
+});
+
+export const classifyDocumentSchema = z.object({
+  timelineId: cuidSchema,
+  fileName: z.string().trim().min(1, 'File name is required').max(255),
+});
+
 export const documentsQuerySchema = z.object({
   timelineId: cuidSchema,
   stepId: cuidSchema.optional(),
@@ -426,12 +576,28 @@ export const fileUploadSchema = z.object({
 
 export type CreateTimelineInput = z.infer<typeof createTimelineSchema>;
 export type UpdateTimelineInput = z.infer<typeof updateTimelineSchema>;
+export type SaveTimelineTemplateInput = z.infer<typeof saveTimelineTemplateSchema>;
 export type CreateTimelineStepInput = z.infer<typeof createTimelineStepSchema>;
 export type UpdateTimelineStepInput = z.infer<typeof updateTimelineStepSchema>;
 export type UploadDocumentInput = z.infer<typeof uploadDocumentSchema>;
+export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>;
 export type AddTeamMemberInput = z.infer<typeof addTeamMemberSchema>;
 export type CreateNoteInput = z.infer<typeof createNoteSchema>;
+export type UpdateNoteInput = z.infer<typeof updateNoteSchema>;
 export type AddStepCommentInput = z.infer<typeof addStepCommentSchema>;
+export type UpdateStepDependenciesInput = z.infer<typeof updateStepDependenciesSchema>;
+export type CreateDocumentRequirementInput = z.infer<typeof createDocumentRequirementSchema>;
 export type TimelineQueryInput = z.infer<typeof timelineQuerySchema>;
 export type StepsQueryInput = z.infer<typeof stepsQuerySchema>;
+export type NotesQueryInput = z.infer<typeof notesQuerySchema>;
+export type ActivityQueryInput = z.infer<typeof activityQuerySchema>;
+export type CreateContingencyInput = z.infer<typeof createContingencySchema>;
+export type UpdateContingencyInput = z.infer<typeof updateContingencySchema>;
+export type ExtendContingencyInput = z.infer<typeof extendContingencySchema>;
+export type ResolveContingencyInput = z.infer<typeof resolveContingencySchema>;
+export type ContingenciesQueryInput = z.infer<typeof contingenciesQuerySchema>;
+export type ResolveContractProposalsInput = z.infer<typeof resolveContractProposalsSchema>;
+export type BinderQueryInput = z.infer<typeof binderQuerySchema>;
+export type ClassifyDocumentInput = z.infer<typeof classifyDocumentSchema>;
+export type CreateDocumentShareInput = z.infer<typeof createDocumentShareSchema>;
 export type FileUploadInput = z.infer<typeof fileUploadSchema>;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { logger } from "@/lib/utils/logger";
+import { apiUsageService } from "@/lib/services/ApiUsageService";
 
 // Clean Zillow API integration via RapidAPI
 
@@ -66,13 +67,17 @@ export class ZillowAPI {
       url.searchParams.append(key, value);
     });
     
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'X-RapidAPI-Key': this.apiKey,
-        'X-RapidAPI-Host': 'zillow-com1.p.rapidapi.com'
-      }
-    });
+    const response = await apiUsageService.track(
+      { provider: 'ZILLOW', endpoint, method: 'GET' },
+      () => fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'X-RapidAPI-Key': this.apiKey,
+          'X-RapidAPI-Host': 'zillow-com1.p.rapidapi.com'
+        }
+      }),
+      res => apiUsageService.describeResponse(res)
+    );
     
     if (!response.ok) {
       throw new Error(`Zillow API error: ${response.status} ${response.statusText}`);
@@ -0,0 +1,529 @@
+-- CreateEnum
+CREATE TYPE "activity_action" AS ENUM ('CREATE', 'UPDATE', 'DELETE', 'COMPLETE', 'REOPEN', 'VERIFY', 'SUPERSEDE', 'RESTORE', 'EXTEND', 'SHARE');
+
+-- CreateEnum
+CREATE TYPE "activity_entity_type" AS ENUM ('TIMELINE', 'STEP', 'DOCUMENT', 'TEAM_MEMBER', 'NOTE', 'COMMENT', 'CONTINGENCY');
+
+-- CreateEnum
+CREATE TYPE "contingency_type" AS ENUM ('INSPECTION', 'APPRAISAL', 'FINANCING', 'HOME_SALE', 'TITLE', 'HOA_REVIEW', 'INSURANCE', 'ATTORNEY_REVIEW', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "contingency_status" AS ENUM ('ACTIVE', 'EXTENDED', 'REMOVED', 'WAIVED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "reminder_status" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "api_provider" AS ENUM ('BATCHDATA', 'ANTHROPIC', 'LLAMAPARSE', 'GOOGLE_VISION', 'ZILLOW', 'RENTCAST');
+
+-- CreateEnum
+CREATE TYPE "api_usage_outcome" AS ENUM ('SUCCESS', 'ERROR');
+
+-- CreateEnum
+CREATE TYPE "document_share_outcome" AS ENUM ('GRANTED', 'EXPIRED', 'REVOKED', 'LIMIT_REACHED');
+
+-- AlterEnum
+ALTER TYPE "team_member_role" ADD VALUE 'CO_BUYER';
+
+-- AlterTable
+ALTER TABLE "property_analyses" ADD COLUMN     "scoringProfileId" TEXT;
+
+-- AlterTable
+ALTER TABLE "timelines" ADD COLUMN     "calendarToken" TEXT,
+ADD COLUMN     "templateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "timeline_steps" ADD COLUMN     "documentOverrideAt" TIMESTAMP(3),
+ADD COLUMN     "documentOverrideBy" TEXT,
+ADD COLUMN     "documentOverrideReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "timeline_team_members" ADD COLUMN     "userId" TEXT;
+
+-- CreateTable
+CREATE TABLE "area_data_cache" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "zipCode" TEXT NOT NULL,
+    "areaData" JSONB NOT NULL,
+    "walkScore" INTEGER,
+    "apiCost" DECIMAL(5,2) NOT NULL DEFAULT 0.26,
+    "dataSource" TEXT NOT NULL DEFAULT 'GoogleMaps',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "lastAccessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accessCount" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "area_data_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inspection_analyses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "propertyId" TEXT,
+    "documentId" TEXT,
+    "documentName" TEXT NOT NULL,
+    "reportType" TEXT NOT NULL,
+    "extractedText" TEXT NOT NULL,
+    "issues" JSONB NOT NULL,
+    "summary" JSONB NOT NULL,
+    "detailedAnalysis" JSONB,
+    "modelUsed" TEXT NOT NULL,
+    "analysisMethod" TEXT NOT NULL,
+    "confidence" DECIMAL(4,3),
+    "processingMetadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inspection_analyses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contract_analyses" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "terms" JSONB NOT NULL,
+    "proposals" JSONB NOT NULL,
+    "modelUsed" TEXT NOT NULL,
+    "extractionMethod" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contract_analyses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "api_usage_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "provider" "api_provider" NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "method" TEXT,
+    "cost" DECIMAL(10,4) NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER,
+    "cacheHit" BOOLEAN NOT NULL DEFAULT false,
+    "outcome" "api_usage_outcome" NOT NULL,
+    "statusCode" INTEGER,
+    "errorMessage" TEXT,
+    "units" INTEGER,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_usage_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cache_entries" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cache_entries_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "rate_limit_buckets" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_buckets_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "timeline_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "transactionType" TEXT,
+    "defaultClosingDays" INTEGER NOT NULL DEFAULT 30,
+    "steps" JSONB NOT NULL,
+    "isBuiltIn" BOOLEAN NOT NULL DEFAULT false,
+    "sourceTimelineId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "timeline_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "step_reminders" (
+    "id" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "reminder_status" NOT NULL DEFAULT 'PENDING',
+    "deliveredChannels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "step_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "link" TEXT,
+    "metadata" JSONB,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contingencies" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "type" "contingency_type" NOT NULL,
+    "title" TEXT NOT NULL,
+    "deadline" TIMESTAMP(3) NOT NULL,
+    "status" "contingency_status" NOT NULL DEFAULT 'ACTIVE',
+    "stepId" TEXT,
+    "documentId" TEXT,
+    "notes" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contingencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contingency_extensions" (
+    "id" TEXT NOT NULL,
+    "contingencyId" TEXT NOT NULL,
+    "previousDeadline" TIMESTAMP(3) NOT NULL,
+    "newDeadline" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "documentId" TEXT,
+    "extendedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contingency_extensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "document_share_links" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "recipientEmail" TEXT,
+    "recipientName" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxDownloads" INTEGER,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "revokedBy" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "document_share_accesses" (
+    "id" TEXT NOT NULL,
+    "shareLinkId" TEXT NOT NULL,
+    "outcome" "document_share_outcome" NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_share_accesses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timeline_step_dependencies" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "dependsOnStepId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timeline_step_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "step_document_requirements" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "documentType" "document_type" NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "step_document_requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timeline_invitations" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "teamMemberId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "acceptedBy" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timeline_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timeline_activities" (
+    "id" TEXT NOT NULL,
+    "timelineId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" "activity_action" NOT NULL,
+    "entityType" "activity_entity_type" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "changes" JSONB,
+    "documentType" "document_type",
+    "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timeline_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "area_data_cache_propertyId_idx" ON "area_data_cache"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "area_data_cache_zipCode_idx" ON "area_data_cache"("zipCode");
+
+-- CreateIndex
+CREATE INDEX "area_data_cache_expiresAt_idx" ON "area_data_cache"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "inspection_analyses_userId_idx" ON "inspection_analyses"("userId");
+
+-- CreateIndex
+CREATE INDEX "inspection_analyses_propertyId_idx" ON "inspection_analyses"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "inspection_analyses_documentId_reportType_idx" ON "inspection_analyses"("documentId", "reportType");
+
+-- CreateIndex
+CREATE INDEX "inspection_analyses_createdAt_idx" ON "inspection_analyses"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "contract_analyses_timelineId_idx" ON "contract_analyses"("timelineId");
+
+-- CreateIndex
+CREATE INDEX "contract_analyses_documentId_createdAt_idx" ON "contract_analyses"("documentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "api_usage_events_createdAt_idx" ON "api_usage_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "api_usage_events_provider_createdAt_idx" ON "api_usage_events"("provider", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "api_usage_events_userId_createdAt_idx" ON "api_usage_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "cache_entries_expiresAt_idx" ON "cache_entries"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "rate_limit_buckets_resetAt_idx" ON "rate_limit_buckets"("resetAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timeline_templates_key_key" ON "timeline_templates"("key");
+
+-- CreateIndex
+CREATE INDEX "timeline_templates_userId_idx" ON "timeline_templates"("userId");
+
+-- CreateIndex
+CREATE INDEX "step_reminders_status_idx" ON "step_reminders"("status");
+
+-- CreateIndex
+CREATE INDEX "step_reminders_userId_idx" ON "step_reminders"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "step_reminders_stepId_kind_dueDate_key" ON "step_reminders"("stepId", "kind", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "notifications"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "contingencies_timelineId_status_idx" ON "contingencies"("timelineId", "status");
+
+-- CreateIndex
+CREATE INDEX "contingencies_deadline_idx" ON "contingencies"("deadline");
+
+-- CreateIndex
+CREATE INDEX "contingencies_stepId_idx" ON "contingencies"("stepId");
+
+-- CreateIndex
+CREATE INDEX "contingency_extensions_contingencyId_createdAt_idx" ON "contingency_extensions"("contingencyId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_share_links_tokenHash_key" ON "document_share_links"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "document_share_links_documentId_idx" ON "document_share_links"("documentId");
+
+-- CreateIndex
+CREATE INDEX "document_share_links_timelineId_idx" ON "document_share_links"("timelineId");
+
+-- CreateIndex
+CREATE INDEX "document_share_accesses_shareLinkId_createdAt_idx" ON "document_share_accesses"("shareLinkId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "timeline_step_dependencies_timelineId_idx" ON "timeline_step_dependencies"("timelineId");
+
+-- CreateIndex
+CREATE INDEX "timeline_step_dependencies_dependsOnStepId_idx" ON "timeline_step_dependencies"("dependsOnStepId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timeline_step_dependencies_stepId_dependsOnStepId_key" ON "timeline_step_dependencies"("stepId", "dependsOnStepId");
+
+-- CreateIndex
+CREATE INDEX "step_document_requirements_timelineId_idx" ON "step_document_requirements"("timelineId");
+
+-- CreateIndex
+CREATE INDEX "step_document_requirements_stepId_idx" ON "step_document_requirements"("stepId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timeline_invitations_tokenHash_key" ON "timeline_invitations"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "timeline_invitations_timelineId_idx" ON "timeline_invitations"("timelineId");
+
+-- CreateIndex
+CREATE INDEX "timeline_invitations_teamMemberId_idx" ON "timeline_invitations"("teamMemberId");
+
+-- CreateIndex
+CREATE INDEX "timeline_activities_timelineId_createdAt_idx" ON "timeline_activities"("timelineId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "timeline_activities_entityType_entityId_idx" ON "timeline_activities"("entityType", "entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timelines_calendarToken_key" ON "timelines"("calendarToken");
+
+-- CreateIndex
+CREATE INDEX "timeline_team_members_userId_idx" ON "timeline_team_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timeline_team_members_timelineId_userId_key" ON "timeline_team_members"("timelineId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "area_data_cache" ADD CONSTRAINT "area_data_cache_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_analyses" ADD CONSTRAINT "inspection_analyses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_analyses" ADD CONSTRAINT "inspection_analyses_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_analyses" ADD CONSTRAINT "inspection_analyses_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "timeline_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_analyses" ADD CONSTRAINT "contract_analyses_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_analyses" ADD CONSTRAINT "contract_analyses_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "timeline_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_usage_events" ADD CONSTRAINT "api_usage_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timelines" ADD CONSTRAINT "timelines_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "timeline_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_templates" ADD CONSTRAINT "timeline_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_reminders" ADD CONSTRAINT "step_reminders_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "timeline_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_reminders" ADD CONSTRAINT "step_reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contingencies" ADD CONSTRAINT "contingencies_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contingencies" ADD CONSTRAINT "contingencies_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "timeline_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contingencies" ADD CONSTRAINT "contingencies_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "timeline_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contingency_extensions" ADD CONSTRAINT "contingency_extensions_contingencyId_fkey" FOREIGN KEY ("contingencyId") REFERENCES "contingencies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contingency_extensions" ADD CONSTRAINT "contingency_extensions_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "timeline_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_share_links" ADD CONSTRAINT "document_share_links_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "timeline_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_share_links" ADD CONSTRAINT "document_share_links_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "document_share_accesses" ADD CONSTRAINT "document_share_accesses_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "document_share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_step_dependencies" ADD CONSTRAINT "timeline_step_dependencies_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_step_dependencies" ADD CONSTRAINT "timeline_step_dependencies_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "timeline_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_step_dependencies" ADD CONSTRAINT "timeline_step_dependencies_dependsOnStepId_fkey" FOREIGN KEY ("dependsOnStepId") REFERENCES "timeline_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_document_requirements" ADD CONSTRAINT "step_document_requirements_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "step_document_requirements" ADD CONSTRAINT "step_document_requirements_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "timeline_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_team_members" ADD CONSTRAINT "timeline_team_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_invitations" ADD CONSTRAINT "timeline_invitations_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_invitations" ADD CONSTRAINT "timeline_invitations_teamMemberId_fkey" FOREIGN KEY ("teamMemberId") REFERENCES "timeline_team_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timeline_activities" ADD CONSTRAINT "timeline_activities_timelineId_fkey" FOREIGN KEY ("timelineId") REFERENCES "timelines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/utils/logger';
+import { DEFAULT_TIMELINE_STEPS, resolveTemplateDependencies } from '../lib/types/timeline';
+
+// Seed dependency edges for timelines created before dependencies were persisted.
+// Matches step titles against the default template once; timelines that already
+// have any dependency rows are left untouched.
+async function backfillStepDependencies() {
+  try {
+    const timelines = await prisma.timeline.findMany({
+      where: {
+        stepDependencies: { none: {} }
+      },
+      select: {
+        id: true,
+        steps: {
+          select: { id: true, title: true },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    });
+
+    logger.info(`Found ${timelines.length} timelines without step dependencies`);
+
+    let created = 0;
+    for (const timeline of timelines) {
+      // Pair each step with its default template by title
+      const templates = timeline.steps.map(step =>
+        DEFAULT_TIMELINE_STEPS.find(template => template.title === step.title) || { title: step.title }
+      );
+      const edges = resolveTemplateDependencies(timeline.steps, templates);
+
+      if (edges.length === 0) continue;
+
+      const result = await prisma.timelineStepDependency.createMany({
+        data: edges.map(edge => ({ ...edge, timelineId: timeline.id })),
+        skipDuplicates: true
+      });
+
+      created += result.count;
+      logger.info(`Timeline ${timeline.id}: ${result.count} dependencies`);
+    }
+
+    logger.info(`\nCreated ${created} step dependencies`);
+
+  } catch (error) {
+    logger.error('Error backfilling step dependencies:', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+backfillStepDependencies();
@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+
+import { prisma } from '../lib/prisma';
+import { logger } from '../lib/utils/logger';
+import { isStorageProvider, STORAGE_PROVIDERS } from '../lib/services/storage';
+import { migrateDocument } from '../lib/services/storage/migrateDocument';
+
+// Move timeline document files from one storage backend to another.
+//
+//   npx tsx scripts/migrate-document-storage.ts --from CLOUDINARY --to SUPABASE \
+//     [--timeline <id>] [--limit <n>] [--delete-source] [--dry-run]
+//
+// Documents are copied one at a time and their records repointed; a failed
+// document is logged and skipped, so the script can simply be re-run.
+function parseArgs(argv: string[]) {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const from = value('--from')?.toUpperCase();
+  const to = value('--to')?.toUpperCase();
+  const limit = value('--limit');
+
+  if (!from || !to || !isStorageProvider(from) || !isStorageProvider(to) || from === to) {
+    throw new Error(`--from and --to must be two different providers: ${STORAGE_PROVIDERS.join(', ')}`);
+  }
+
+  return {
+    from,
+    to,
+    timelineId: value('--timeline'),
+    limit: limit ? parseInt(limit, 10) : undefined,
+    deleteSource: argv.includes('--delete-source'),
+    dryRun: argv.includes('--dry-run')
+  };
+}
+
+async function migrateDocumentStorage() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    const documents = await prisma.timelineDocument.findMany({
+      where: {
+        storageProvider: args.from,
+        ...(args.timelineId && { timelineId: args.timelineId })
+      },
+      orderBy: { createdAt: 'asc' },
+      ...(args.limit && { take: args.limit })
+    });
+
+    logger.info(`Found ${documents.length} documents on ${args.from}${args.dryRun ? ' (dry run)' : ''}`);
+
+    let migrated = 0;
+    let failed = 0;
+    for (const document of documents) {
+      if (args.dryRun) {
+        logger.info(`Would migrate ${document.id} ${document.originalName} (${Number(document.fileSize)} bytes)`);
+        continue;
+      }
+
+      try {
+        await migrateDocument(document, args.to, { deleteSource: args.deleteSource });
+        migrated++;
+        logger.info(`Migrated ${document.id} ${document.originalName}`);
+      } catch (error) {
+        failed++;
+        logger.error(`Failed to migrate ${document.id}:`, error);
+      }
+    }
+
+    logger.info(`\nMigrated ${migrated} documents to ${args.to}, ${failed} failed`);
+
+  } catch (error) {
+    logger.error('Error migrating document storage:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the migration
+migrateDocumentStorage();
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+
+import net from 'net';
+
+// Local SMTP stand-in for testing reminder email. Accepts everything and prints
+// each message to stdout. Point the app at it with:
+//   SMTP_HOST=127.0.0.1 SMTP_PORT=2525 NOTIFICATION_CHANNELS=in_app,email
+// then trigger a run with:
+//   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/reminders
+const PORT = parseInt(process.env.SMTP_SINK_PORT || '2525');
+
+const server = net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let envelope = { from: '', to: [] as string[], data: [] as string[] };
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  reply('220 smtp-sink ready');
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log(`\n=== Message from <${envelope.from}> to ${envelope.to.map(to => `<${to}>`).join(', ')} ===`);
+          console.log(decodeBody(envelope.data.join('\r\n')));
+          envelope = { from: '', to: [], data: [] };
+          reply('250 OK: queued');
+        } else {
+          envelope.data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO' || verb === 'HELO') {
+        reply('250-smtp-sink');
+        reply('250 AUTH PLAIN');
+      } else if (verb === 'AUTH') {
+        reply('235 Authentication successful');
+      } else if (verb === 'MAIL') {
+        envelope.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        reply('250 OK');
+      } else if (verb === 'RCPT') {
+        envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        reply('250 OK');
+      } else if (verb === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else if (verb === 'RSET' || verb === 'NOOP') {
+        reply('250 OK');
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+});
+
+// Show base64 bodies as readable text
+function decodeBody(message: string): string {
+  const [headers, ...rest] = message.split('\r\n\r\n');
+  const body = rest.join('\r\n\r\n');
+
+  return /Content-Transfer-Encoding: base64/i.test(headers)
+    ? `${headers}\r\n\r\n${Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')}`
+    : message;
+}
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`smtp-sink listening on 127.0.0.1:${PORT}`);
+});